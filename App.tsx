@@ -3,6 +3,7 @@ import Header from './components/Header';
 import SnippetMigration from './components/SnippetMigration';
 import RepoMigration from './components/RepoMigration';
 import { Code2, GitBranch, Sparkles } from 'lucide-react';
+import { LlmSettings, normalizeLlmSettings } from './services/llmProviders';
 
 const CODE_RAIN_CHARS = [
   'jQuery',
@@ -45,9 +46,27 @@ const getInitialTheme = (): ThemeMode => {
   return 'dark';
 };
 
+const LLM_SETTINGS_STORAGE_KEY = 'dustoff-llm-settings';
+
+const getInitialLlmSettings = (): LlmSettings => {
+  if (typeof window === 'undefined') {
+    return normalizeLlmSettings(null);
+  }
+
+  try {
+    const persisted = window.localStorage.getItem(LLM_SETTINGS_STORAGE_KEY);
+    return normalizeLlmSettings(persisted ? JSON.parse(persisted) : null);
+  } catch {
+    return normalizeLlmSettings(null);
+  }
+};
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<'snippet' | 'repo'>('repo');
   const [theme, setTheme] = useState<ThemeMode>(getInitialTheme);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(
+    getInitialLlmSettings,
+  );
 
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
@@ -55,6 +74,13 @@ const App: React.FC = () => {
     window.localStorage.setItem(THEME_STORAGE_KEY, theme);
   }, [theme]);
 
+  useEffect(() => {
+    window.localStorage.setItem(
+      LLM_SETTINGS_STORAGE_KEY,
+      JSON.stringify(llmSettings),
+    );
+  }, [llmSettings]);
+
   const toggleTheme = () => {
     setTheme((previousTheme) => (previousTheme === 'dark' ? 'light' : 'dark'));
   };
@@ -87,7 +113,12 @@ const App: React.FC = () => {
         </div>
       </div>
 
-      <Header theme={theme} onToggleTheme={toggleTheme} />
+      <Header
+        theme={theme}
+        onToggleTheme={toggleTheme}
+        llmSettings={llmSettings}
+        onLlmSettingsChange={setLlmSettings}
+      />
 
       <main className="relative z-10 flex-1 w-full max-w-[1600px] mx-auto px-4 py-4 flex flex-col gap-4 min-h-0">
         {/* Hero Section */}
@@ -168,7 +199,11 @@ const App: React.FC = () => {
 
         {/* Content */}
         <div className="flex-1 min-h-0 flex flex-col animate-in fade-in slide-in-from-bottom-4 duration-500">
-          {mode === 'snippet' ? <SnippetMigration /> : <RepoMigration />}
+          {mode === 'snippet' ? (
+            <SnippetMigration llmSettings={llmSettings} />
+          ) : (
+            <RepoMigration llmSettings={llmSettings} />
+          )}
         </div>
 
         {/* Footer */}
@@ -1,5 +1,14 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { GoogleGenAI, type GenerateContentResponse } from '@google/genai';
+import {
+  getDefaultLlmProviderId,
+  getLlmProvider,
+  isLlmProviderId,
+  type LlmProviderId,
+  type LlmRequestConfig,
+  type LlmResponse,
+  type LlmStream,
+  type StatusError,
+} from './llmProviders.js';
 
 const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
 const NETWORK_ERROR_PATTERN =
@@ -8,21 +17,11 @@ const MAX_REQUEST_BODY_BYTES = 2_000_000;
 const RATE_LIMIT_WINDOW_MS = 60_000;
 const DEFAULT_RATE_LIMIT_MAX_REQUESTS = 60;
 
-interface GeminiProxyConfig {
-  systemInstruction?: string;
-  responseMimeType?: string;
-  responseModalities?: string[];
-  thinkingBudget?: number;
-  imageConfig?: {
-    aspectRatio?: string;
-    imageSize?: string;
-  };
-}
-
 interface GeminiProxyPayload {
+  provider: LlmProviderId;
   model: string;
   contents: unknown;
-  config?: GeminiProxyConfig;
+  config: LlmRequestConfig;
 }
 
 interface RateLimitState {
@@ -34,10 +33,6 @@ interface RequestWithBody extends IncomingMessage {
   body?: unknown;
 }
 
-interface StatusError extends Error {
-  status?: number;
-}
-
 const ipRateLimitStore = new Map<string, RateLimitState>();
 
 const readRawRequestBody = async (req: RequestWithBody): Promise<string> => {
@@ -101,19 +96,20 @@ const parsePayload = (rawBody: string): GeminiProxyPayload => {
     throw error;
   }
 
+  if (payload.provider !== undefined && !isLlmProviderId(payload.provider)) {
+    const error = new Error('Unknown model provider.') as StatusError;
+    error.status = 400;
+    throw error;
+  }
+
   return {
+    provider: payload.provider ?? getDefaultLlmProviderId(),
     model: payload.model.trim(),
     contents: payload.contents,
     config: payload.config || {},
   };
 };
 
-const getServerApiKey = (): string => {
-  return (
-    process.env.GEMINI_API_KEY?.trim() || process.env.API_KEY?.trim() || ''
-  );
-};
-
 const getRateLimitMaxRequests = (): number => {
   const raw = Number(process.env.GEMINI_PROXY_RATE_LIMIT_PER_MINUTE);
   if (!Number.isFinite(raw) || raw < 1) {
@@ -183,12 +179,6 @@ const isOriginAllowed = (originHeader: string | null): boolean => {
   return allowlist.includes(originHeader);
 };
 
-const toGeminiError = (status: number, message: string): StatusError => {
-  const error = new Error(message) as StatusError;
-  error.status = status;
-  return error;
-};
-
 const sleep = async (ms: number): Promise<void> => {
   await new Promise((resolve) => {
     setTimeout(resolve, ms);
@@ -226,69 +216,39 @@ const withRetry = async <T>(
   }
 };
 
-const buildGeminiConfig = (
-  config?: GeminiProxyConfig,
-): Record<string, unknown> => {
-  const normalized: Record<string, unknown> = {};
-
-  if (typeof config?.systemInstruction === 'string') {
-    normalized.systemInstruction = config.systemInstruction;
-  }
-
-  if (typeof config?.responseMimeType === 'string') {
-    normalized.responseMimeType = config.responseMimeType;
-  }
-
-  if (Array.isArray(config?.responseModalities)) {
-    normalized.responseModalities = config.responseModalities.filter(
-      (modality): modality is string =>
-        typeof modality === 'string' && modality.trim().length > 0,
-    );
-  }
-
-  if (
-    typeof config?.thinkingBudget === 'number' &&
-    Number.isFinite(config.thinkingBudget)
-  ) {
-    normalized.thinkingConfig = {
-      thinkingBudget: Math.max(0, Math.floor(config.thinkingBudget)),
-    };
-  }
-
-  if (config?.imageConfig) {
-    normalized.imageConfig = {
-      ...(typeof config.imageConfig.aspectRatio === 'string'
-        ? { aspectRatio: config.imageConfig.aspectRatio }
-        : {}),
-      ...(typeof config.imageConfig.imageSize === 'string'
-        ? { imageSize: config.imageConfig.imageSize }
-        : {}),
-    };
-  }
+const requestCompletion = async (
+  payload: GeminiProxyPayload,
+): Promise<LlmResponse> => {
+  const provider = getLlmProvider(payload.provider);
 
-  return normalized;
+  return withRetry(
+    () =>
+      provider.generate({
+        model: payload.model,
+        contents: payload.contents,
+        config: payload.config,
+      }),
+    { retries: 2, baseDelay: 500 },
+  );
 };
 
-const requestGemini = async (
+/**
+ * Retries only cover opening the stream; once chunks have been forwarded a
+ * failure is reported to the client, which restarts the whole request.
+ */
+const requestCompletionStream = async (
   payload: GeminiProxyPayload,
-): Promise<GenerateContentResponse> => {
-  const apiKey = getServerApiKey();
-
-  if (!apiKey) {
-    throw toGeminiError(
-      500,
-      'Gemini API key is not configured on the server. Set GEMINI_API_KEY.',
-    );
-  }
-
-  const client = new GoogleGenAI({ apiKey });
+  abortSignal: AbortSignal,
+): Promise<LlmStream> => {
+  const provider = getLlmProvider(payload.provider);
 
   return withRetry(
     () =>
-      client.models.generateContent({
+      provider.stream({
         model: payload.model,
         contents: payload.contents,
-        config: buildGeminiConfig(payload.config),
+        config: payload.config,
+        abortSignal,
       }),
     { retries: 2, baseDelay: 500 },
   );
@@ -314,63 +274,132 @@ const sendJson = (
   res.end(JSON.stringify(payload));
 };
 
-export const handleGeminiProxyRequest = async (
+const toErrorStatus = (error: unknown): number =>
+  typeof (error as StatusError)?.status === 'number'
+    ? (error as StatusError).status!
+    : 500;
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Failed to process Gemini request.';
+
+/** Handles preflight, method, origin and rate limit checks. */
+const acceptProxyRequest = (
   req: RequestWithBody,
   res: ServerResponse,
-): Promise<void> => {
+): boolean => {
   if (req.method === 'OPTIONS') {
     res.statusCode = 204;
     res.end();
-    return;
+    return false;
   }
 
   if (req.method !== 'POST') {
     sendJson(res, 405, { error: 'Method not allowed.' });
-    return;
+    return false;
   }
 
   const originHeader = toOriginHeader(req.headers.origin);
   if (!isOriginAllowed(originHeader)) {
     sendJson(res, 403, { error: 'Origin is not allowed.' });
-    return;
+    return false;
   }
 
   const clientId = extractClientId(req);
   if (!consumeRateLimit(clientId)) {
     sendJson(res, 429, { error: 'Rate limit exceeded. Please retry shortly.' });
+    return false;
+  }
+
+  return true;
+};
+
+export const handleGeminiProxyRequest = async (
+  req: RequestWithBody,
+  res: ServerResponse,
+): Promise<void> => {
+  if (!acceptProxyRequest(req, res)) {
     return;
   }
 
   try {
     const rawBody = await readRawRequestBody(req);
     const payload = parsePayload(rawBody);
-    const response = await requestGemini(payload);
-
-    const inlineData = (response.candidates?.[0]?.content?.parts || [])
-      .map((part) => part.inlineData)
-      .filter((part): part is { mimeType: string; data: string } =>
-        Boolean(part?.mimeType && part?.data),
-      )
-      .map((part) => ({
-        mimeType: part.mimeType,
-        data: part.data,
-      }));
+    const response = await requestCompletion(payload);
 
     sendJson(res, 200, {
-      text: response.text || '',
-      inlineData,
+      text: response.text,
+      inlineData: response.inlineData,
+      usageMetadata: response.usageMetadata,
     });
   } catch (error) {
-    const status =
-      typeof (error as StatusError)?.status === 'number'
-        ? (error as StatusError).status!
-        : 500;
+    sendJson(res, toErrorStatus(error), { error: toErrorMessage(error) });
+  }
+};
 
-    const message =
-      error instanceof Error
-        ? error.message
-        : 'Failed to process Gemini request.';
+/**
+ * Streams text as newline-delimited JSON events:
+ * `{"type":"chunk","text"}` per model chunk, then `{"type":"done"}` with
+ * the `usageMetadata` the provider reported, or
+ * `{"type":"error","status","error"}` when the stream fails after it opened.
+ * Failures before the first byte are sent as a regular JSON error response.
+ */
+export const handleGeminiStreamProxyRequest = async (
+  req: RequestWithBody,
+  res: ServerResponse,
+): Promise<void> => {
+  if (!acceptProxyRequest(req, res)) {
+    return;
+  }
 
-    sendJson(res, status, { error: message });
+  // Stop generating as soon as the browser goes away.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  let stream: LlmStream;
+  try {
+    const rawBody = await readRawRequestBody(req);
+    const payload = parsePayload(rawBody);
+    stream = await requestCompletionStream(payload, controller.signal);
+  } catch (error) {
+    sendJson(res, toErrorStatus(error), { error: toErrorMessage(error) });
+    return;
+  }
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  const writeEvent = (event: Record<string, unknown>) => {
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    for (;;) {
+      const next = await stream.next();
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (next.done) {
+        writeEvent({ type: 'done', usageMetadata: next.value });
+        break;
+      }
+      writeEvent({ type: 'chunk', text: next.value });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    writeEvent({
+      type: 'error',
+      status: toErrorStatus(error),
+      error: toErrorMessage(error),
+    });
   }
+  res.end();
 };
@@ -0,0 +1,112 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleGitHubProxyRequest, toAllowedApiUrl } from './githubProxy';
+
+const mockFetch = vi.fn();
+
+const createResponse = () => {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+    },
+    end(body?: string | Buffer) {
+      res.body = body ? body.toString() : '';
+    },
+  };
+  return res;
+};
+
+const proxy = async (path: string, origin = 'https://dustoff.test') => {
+  const res = createResponse();
+  await handleGitHubProxyRequest(
+    {
+      method: 'GET',
+      url: `/api/github?path=${encodeURIComponent(path)}`,
+      headers: { origin },
+    } as unknown as IncomingMessage,
+    res as unknown as ServerResponse,
+  );
+  return res;
+};
+
+describe('toAllowedApiUrl', () => {
+  it('accepts the repository endpoints the client calls', () => {
+    for (const path of [
+      '/repos/octo/app',
+      '/repos/octo/app/branches?per_page=100',
+      '/repos/octo/app/tags?per_page=100',
+      '/repos/octo/app/commits/release/1.2',
+      '/repos/octo/app/git/trees/main?recursive=1',
+      '/repos/octo/app/contents/src/index.js?ref=feature%2Fx',
+      '/repos/octo/app/zipball/abc123',
+    ]) {
+      expect(toAllowedApiUrl(path)?.origin).toBe('https://api.github.com');
+    }
+  });
+
+  it('rejects encoded and literal traversal out of the repository', () => {
+    for (const path of [
+      '/repos/%2e%2e/user',
+      '/repos/%2E%2E/%2e%2E/user',
+      '/repos/octo/app/contents/%2e%2e/%2e%2e/%2e%2e/user',
+      '/repos/octo%2fapp/contents/x',
+      '/repos/octo/app/contents/%5C..%5Cuser',
+      '/repos/../user',
+      '/repos/octo/app/contents/./x',
+      '/repos//user',
+    ]) {
+      expect(toAllowedApiUrl(path)).toBeNull();
+    }
+  });
+
+  it('rejects other endpoints and hosts', () => {
+    expect(toAllowedApiUrl('/user')).toBeNull();
+    expect(toAllowedApiUrl('/repos/octo/app/collaborators')).toBeNull();
+    expect(toAllowedApiUrl('/repos/octo/app/actions/secrets')).toBeNull();
+    expect(toAllowedApiUrl('//evil.test/repos/octo/app')).toBeNull();
+  });
+});
+
+describe('handleGitHubProxyRequest', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+    vi.stubEnv('GITHUB_TOKEN', 'server-token');
+    vi.stubEnv('GITHUB_PROXY_ALLOWED_ORIGINS', '');
+    vi.stubEnv('GEMINI_PROXY_ALLOWED_ORIGINS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('does not use the server token without an origin allowlist', async () => {
+    const status = await proxy('');
+    const res = await proxy('/repos/octo/app');
+
+    expect(JSON.parse(status.body)).toEqual({ tokenConfigured: false });
+    expect(res.statusCode).toBe(500);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('forwards allowed paths for allowlisted origins only', async () => {
+    vi.stubEnv('GITHUB_PROXY_ALLOWED_ORIGINS', 'https://dustoff.test');
+    mockFetch.mockResolvedValue(new Response('{}', { status: 200 }));
+
+    const allowed = await proxy('/repos/octo/app/git/trees/main?recursive=1');
+    const traversal = await proxy('/repos/%2e%2e/user');
+    const foreign = await proxy('/repos/octo/app', 'https://evil.test');
+
+    expect(allowed.statusCode).toBe(200);
+    expect(String(mockFetch.mock.calls[0][0])).toBe(
+      'https://api.github.com/repos/octo/app/git/trees/main?recursive=1',
+    );
+    expect(traversal.statusCode).toBe(400);
+    expect(foreign.statusCode).toBe(403);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,172 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const GITHUB_API_BASE_URL = 'https://api.github.com';
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'etag',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+];
+
+const getServerGitHubToken = (): string => {
+  return process.env.GITHUB_TOKEN?.trim() || process.env.GH_TOKEN?.trim() || '';
+};
+
+const getConfiguredOrigins = (): string =>
+  (
+    process.env.GITHUB_PROXY_ALLOWED_ORIGINS ||
+    process.env.GEMINI_PROXY_ALLOWED_ORIGINS
+  )?.trim() || '';
+
+const isOriginAllowed = (originHeader: string | null): boolean => {
+  const configured = getConfiguredOrigins();
+
+  if (!configured) {
+    return true;
+  }
+
+  if (!originHeader) {
+    return false;
+  }
+
+  const allowlist = configured
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  return allowlist.includes(originHeader);
+};
+
+const toHeaderValue = (value: string | string[] | undefined): string | null => {
+  if (Array.isArray(value)) {
+    return value[0] || null;
+  }
+
+  return typeof value === 'string' ? value : null;
+};
+
+// Encoded dots, slashes and backslashes would be normalized by fetch into
+// segments that leave the repository.
+const ENCODED_PATH_SEPARATOR_PATTERN = /%(2e|2f|5c)/i;
+const REPO_SEGMENT = '[A-Za-z0-9_.-]+';
+// The read-only endpoints the client calls: repository details, branches and
+// tags, commits, trees, contents and zipballs.
+const ALLOWED_REPO_PATHNAME_PATTERN = new RegExp(
+  `^/repos/${REPO_SEGMENT}/${REPO_SEGMENT}` +
+    '(?:/(?:branches|tags)|/(?:commits|git/trees|contents|zipball)/[^/].*)?$',
+);
+
+/**
+ * Upstream URL for a proxied path, or `null` when the path is not one of the
+ * allowed repository endpoints. Anything else would turn the server token
+ * into a general-purpose GitHub credential.
+ */
+export const toAllowedApiUrl = (apiPath: string): URL | null => {
+  const rawPath = apiPath.split(/[?#]/)[0];
+  if (
+    !rawPath.startsWith('/repos/') ||
+    ENCODED_PATH_SEPARATOR_PATTERN.test(rawPath) ||
+    /[\s\\]/.test(apiPath) ||
+    rawPath.includes('//') ||
+    rawPath.split('/').some((segment) => segment === '.' || segment === '..')
+  ) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(apiPath, GITHUB_API_BASE_URL);
+  } catch {
+    return null;
+  }
+
+  return url.origin === GITHUB_API_BASE_URL &&
+    ALLOWED_REPO_PATHNAME_PATTERN.test(url.pathname)
+    ? url
+    : null;
+};
+
+const sendJson = (
+  res: ServerResponse,
+  statusCode: number,
+  payload: Record<string, unknown>,
+): void => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(payload));
+};
+
+export const handleGitHubProxyRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> => {
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Method not allowed.' });
+    return;
+  }
+
+  const originHeader = toHeaderValue(req.headers.origin);
+  if (!isOriginAllowed(originHeader)) {
+    sendJson(res, 403, { error: 'Origin is not allowed.' });
+    return;
+  }
+
+  // Without an origin allowlist any site could borrow the server token, so
+  // the proxy then acts as if none were configured.
+  const token = getConfiguredOrigins() ? getServerGitHubToken() : '';
+  const requestUrl = new URL(req.url || '/', 'http://localhost');
+  const apiPath = requestUrl.searchParams.get('path');
+
+  if (!apiPath) {
+    sendJson(res, 200, { tokenConfigured: Boolean(token) });
+    return;
+  }
+
+  if (!token) {
+    sendJson(res, 500, {
+      error:
+        'GitHub token is not configured on the server. Set GITHUB_TOKEN and GITHUB_PROXY_ALLOWED_ORIGINS.',
+    });
+    return;
+  }
+
+  const upstreamUrl = toAllowedApiUrl(apiPath);
+  if (!upstreamUrl) {
+    sendJson(res, 400, { error: 'Unsupported GitHub API path.' });
+    return;
+  }
+
+  // Forwarded so clients can revalidate cached trees with a 304.
+  const ifNoneMatch = toHeaderValue(req.headers['if-none-match']);
+
+  try {
+    const upstream = await fetch(upstreamUrl, {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${token}`,
+        'User-Agent': 'dustoff-github-proxy',
+        ...(ifNoneMatch ? { 'If-None-Match': ifNoneMatch } : {}),
+      },
+    });
+
+    res.statusCode = upstream.status;
+    for (const header of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(header);
+      if (value) {
+        res.setHeader(header, value);
+      }
+    }
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to reach GitHub API.';
+    sendJson(res, 502, { error: message });
+  }
+};
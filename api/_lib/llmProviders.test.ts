@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getDefaultLlmProviderId,
+  getLlmProvider,
+  type LlmStream,
+} from './llmProviders';
+
+const mockFetch = vi.fn();
+
+const streamBody = (parts: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+};
+
+// Text chunks and the usage the stream returns once it ends.
+const collect = async (stream: LlmStream) => {
+  const chunks: string[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) {
+      return { chunks, usage: next.value };
+    }
+    chunks.push(next.value as string);
+  }
+};
+
+describe('llmProviders', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('defaults to Gemini unless LLM_PROVIDER names another provider', () => {
+    vi.stubEnv('LLM_PROVIDER', '');
+    expect(getDefaultLlmProviderId()).toBe('gemini');
+    vi.stubEnv('LLM_PROVIDER', 'Ollama');
+    expect(getDefaultLlmProviderId()).toBe('ollama');
+  });
+
+  it('streams OpenAI-compatible chat completions with JSON mode', async () => {
+    vi.stubEnv('OPENAI_BASE_URL', 'http://llm.internal:8000/v1/');
+    vi.stubEnv('OPENAI_API_KEY', 'secret');
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamBody([
+        'data: {"choices":[{"delta":{"content":"{\\"a\\""}}]}\n\nda',
+        'ta: {"choices":[{"delta":{"content":":1}"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":9,"completion_tokens_details":{"reasoning_tokens":4}}}\n\n',
+        'data: [DONE]\n\n',
+      ]),
+    });
+
+    const stream = await getLlmProvider('openai').stream({
+      model: 'local-coder',
+      contents: { parts: [{ text: 'Prompt' }] },
+      config: {
+        systemInstruction: 'Be terse.',
+        responseMimeType: 'application/json',
+      },
+    });
+
+    expect(await collect(stream)).toEqual({
+      chunks: ['{"a"', ':1}'],
+      usage: {
+        promptTokenCount: 12,
+        candidatesTokenCount: 5,
+        thoughtsTokenCount: 4,
+      },
+    });
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://llm.internal:8000/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(String(init.body))).toEqual({
+      model: 'local-coder',
+      messages: [
+        { role: 'system', content: 'Be terse.' },
+        { role: 'user', content: 'Prompt' },
+      ],
+      stream: true,
+      stream_options: { include_usage: true },
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('calls the Ollama chat API and reports its errors with status', async () => {
+    vi.stubEnv('OLLAMA_BASE_URL', 'http://gpu-box:11434');
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        message: { content: 'export default 1;' },
+        prompt_eval_count: 30,
+        eval_count: 8,
+      }),
+    });
+
+    const provider = getLlmProvider('ollama');
+    await expect(
+      provider.generate({
+        model: 'qwen',
+        contents: 'Prompt',
+        config: { temperature: 0.2 },
+      }),
+    ).resolves.toEqual({
+      text: 'export default 1;',
+      inlineData: [],
+      usageMetadata: {
+        promptTokenCount: 30,
+        candidatesTokenCount: 8,
+        thoughtsTokenCount: 0,
+      },
+    });
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://gpu-box:11434/api/chat');
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      options: { temperature: 0.2 },
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      text: async () => JSON.stringify({ error: 'model "qwen" not found' }),
+    });
+    await expect(
+      provider.generate({ model: 'qwen', contents: 'Prompt', config: {} }),
+    ).rejects.toMatchObject({
+      status: 404,
+      message: 'Ollama request failed: model "qwen" not found',
+    });
+  });
+
+  it('refuses image output outside Gemini', async () => {
+    await expect(
+      getLlmProvider('ollama').generate({
+        model: 'qwen',
+        contents: 'Draw',
+        config: { responseModalities: ['IMAGE'] },
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,539 @@
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * Server-side model backends behind the `/api/gemini` proxy. Every provider
+ * takes the same prompt payload (contents, system instruction, JSON mode) so
+ * the client prompts work unchanged against Gemini, any OpenAI-compatible
+ * chat completions server, or a local Ollama instance. Base URLs and keys
+ * only ever come from the server environment.
+ */
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama';
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['gemini', 'openai', 'ollama'];
+
+export interface LlmRequestConfig {
+  systemInstruction?: string;
+  responseMimeType?: string;
+  responseModalities?: string[];
+  thinkingBudget?: number;
+  temperature?: number;
+  imageConfig?: {
+    aspectRatio?: string;
+    imageSize?: string;
+  };
+}
+
+export interface LlmRequest {
+  model: string;
+  contents: unknown;
+  config: LlmRequestConfig;
+  abortSignal?: AbortSignal;
+}
+
+/** Token counts in Gemini's `usageMetadata` shape, for every provider. */
+export interface LlmUsageMetadata {
+  promptTokenCount: number;
+  candidatesTokenCount: number; // Visible output, excluding thinking
+  thoughtsTokenCount: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  inlineData: Array<{ mimeType: string; data: string }>;
+  usageMetadata?: LlmUsageMetadata;
+}
+
+/** Yields text deltas and returns the usage, when the provider reports it. */
+export type LlmStream = AsyncGenerator<
+  string,
+  LlmUsageMetadata | undefined,
+  undefined
+>;
+
+export interface LlmProvider {
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+  /** Resolves once the stream is open. */
+  stream: (request: LlmRequest) => Promise<LlmStream>;
+}
+
+export interface StatusError extends Error {
+  status?: number;
+}
+
+export const createStatusError = (
+  status: number,
+  message: string,
+): StatusError => {
+  const error = new Error(message) as StatusError;
+  error.status = status;
+  return error;
+};
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isLlmProviderId = (value: unknown): value is LlmProviderId =>
+  typeof value === 'string' && (LLM_PROVIDER_IDS as string[]).includes(value);
+
+/** The provider used when a request does not name one. */
+export const getDefaultLlmProviderId = (): LlmProviderId => {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return isLlmProviderId(configured) ? configured : 'gemini';
+};
+
+const toTokenCount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? Math.round(value)
+    : 0;
+
+/** `undefined` when the provider reported neither prompt nor output counts. */
+const toUsageMetadata = (
+  promptTokens: unknown,
+  outputTokens: unknown,
+  thinkingTokens?: unknown,
+): LlmUsageMetadata | undefined =>
+  typeof promptTokens === 'number' || typeof outputTokens === 'number'
+    ? {
+        promptTokenCount: toTokenCount(promptTokens),
+        candidatesTokenCount: toTokenCount(outputTokens),
+        thoughtsTokenCount: toTokenCount(thinkingTokens),
+      }
+    : undefined;
+
+const isJsonMode = (config: LlmRequestConfig): boolean =>
+  config.responseMimeType === 'application/json';
+
+const toTemperature = (config: LlmRequestConfig): number | undefined =>
+  typeof config.temperature === 'number' && Number.isFinite(config.temperature)
+    ? Math.min(2, Math.max(0, config.temperature))
+    : undefined;
+
+const wantsImageOutput = (config: LlmRequestConfig): boolean =>
+  Array.isArray(config.responseModalities) &&
+  config.responseModalities.includes('IMAGE');
+
+/** Gemini contents (a string, parts or content list) as plain text. */
+const contentsToText = (contents: unknown): string => {
+  if (typeof contents === 'string') {
+    return contents;
+  }
+  if (Array.isArray(contents)) {
+    return contents.map(contentsToText).join('\n\n');
+  }
+  if (isRecord(contents)) {
+    if (typeof contents.text === 'string') {
+      return contents.text;
+    }
+    if (Array.isArray(contents.parts)) {
+      return contents.parts.map(contentsToText).join('\n\n');
+    }
+  }
+  return '';
+};
+
+const toChatMessages = (request: LlmRequest): ChatMessage[] => [
+  ...(typeof request.config.systemInstruction === 'string' &&
+  request.config.systemInstruction
+    ? [{ role: 'system' as const, content: request.config.systemInstruction }]
+    : []),
+  { role: 'user', content: contentsToText(request.contents) },
+];
+
+const trimTrailingSlashes = (url: string): string => url.replace(/\/+$/, '');
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const raw = await response.text().catch(() => '');
+  try {
+    const payload = JSON.parse(raw) as unknown;
+    if (isRecord(payload)) {
+      if (typeof payload.error === 'string') {
+        return payload.error;
+      }
+      if (
+        isRecord(payload.error) &&
+        typeof payload.error.message === 'string'
+      ) {
+        return payload.error.message;
+      }
+    }
+  } catch {
+    // Plain-text error bodies are returned as-is.
+  }
+  return raw.trim() || `Request failed (${response.status}).`;
+};
+
+const postJson = async (
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  abortSignal: AbortSignal | undefined,
+  label: string,
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: abortSignal,
+  });
+
+  if (!response.ok) {
+    throw createStatusError(
+      response.status,
+      `${label} request failed: ${await readErrorMessage(response)}`,
+    );
+  }
+
+  return response;
+};
+
+async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      yield* lines;
+    }
+    buffered += decoder.decode();
+    if (buffered) {
+      yield buffered;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const buildGeminiConfig = (
+  config: LlmRequestConfig,
+): Record<string, unknown> => {
+  const normalized: Record<string, unknown> = {};
+
+  if (typeof config.systemInstruction === 'string') {
+    normalized.systemInstruction = config.systemInstruction;
+  }
+
+  if (typeof config.responseMimeType === 'string') {
+    normalized.responseMimeType = config.responseMimeType;
+  }
+
+  if (Array.isArray(config.responseModalities)) {
+    normalized.responseModalities = config.responseModalities.filter(
+      (modality): modality is string =>
+        typeof modality === 'string' && modality.trim().length > 0,
+    );
+  }
+
+  if (
+    typeof config.thinkingBudget === 'number' &&
+    Number.isFinite(config.thinkingBudget)
+  ) {
+    normalized.thinkingConfig = {
+      thinkingBudget: Math.max(0, Math.floor(config.thinkingBudget)),
+    };
+  }
+
+  const temperature = toTemperature(config);
+  if (temperature !== undefined) {
+    normalized.temperature = temperature;
+  }
+
+  if (config.imageConfig) {
+    normalized.imageConfig = {
+      ...(typeof config.imageConfig.aspectRatio === 'string'
+        ? { aspectRatio: config.imageConfig.aspectRatio }
+        : {}),
+      ...(typeof config.imageConfig.imageSize === 'string'
+        ? { imageSize: config.imageConfig.imageSize }
+        : {}),
+    };
+  }
+
+  return normalized;
+};
+
+const createGeminiProvider = (): LlmProvider => {
+  const apiKey =
+    process.env.GEMINI_API_KEY?.trim() || process.env.API_KEY?.trim() || '';
+
+  if (!apiKey) {
+    throw createStatusError(
+      500,
+      'Gemini API key is not configured on the server. Set GEMINI_API_KEY.',
+    );
+  }
+
+  const client = new GoogleGenAI({ apiKey });
+  const toParams = (request: LlmRequest) => ({
+    model: request.model,
+    contents: request.contents as string,
+    config: {
+      ...buildGeminiConfig(request.config),
+      abortSignal: request.abortSignal,
+    },
+  });
+
+  return {
+    generate: async (request) => {
+      const response = await client.models.generateContent(toParams(request));
+      const inlineData = (response.candidates?.[0]?.content?.parts || [])
+        .map((part) => part.inlineData)
+        .filter((part): part is { mimeType: string; data: string } =>
+          Boolean(part?.mimeType && part?.data),
+        )
+        .map((part) => ({
+          mimeType: part.mimeType,
+          data: part.data,
+        }));
+
+      return {
+        text: response.text || '',
+        inlineData,
+        usageMetadata: toUsageMetadata(
+          response.usageMetadata?.promptTokenCount,
+          response.usageMetadata?.candidatesTokenCount,
+          response.usageMetadata?.thoughtsTokenCount,
+        ),
+      };
+    },
+    stream: async (request) => {
+      const stream = await client.models.generateContentStream(
+        toParams(request),
+      );
+      return (async function* () {
+        // Chunks carry running totals; the last one has the final count.
+        let usageMetadata: LlmUsageMetadata | undefined;
+        for await (const chunk of stream) {
+          usageMetadata =
+            toUsageMetadata(
+              chunk.usageMetadata?.promptTokenCount,
+              chunk.usageMetadata?.candidatesTokenCount,
+              chunk.usageMetadata?.thoughtsTokenCount,
+            ) ?? usageMetadata;
+          if (chunk.text) {
+            yield chunk.text;
+          }
+        }
+        return usageMetadata;
+      })();
+    },
+  };
+};
+
+/** Chat completions API, as served by OpenAI, vLLM, LM Studio and others. */
+const createOpenAiProvider = (): LlmProvider => {
+  const configuredBaseUrl = process.env.OPENAI_BASE_URL?.trim() || '';
+  const apiKey = process.env.OPENAI_API_KEY?.trim() || '';
+
+  if (!configuredBaseUrl && !apiKey) {
+    throw createStatusError(
+      500,
+      'OpenAI-compatible provider is not configured on the server. Set OPENAI_API_KEY and/or OPENAI_BASE_URL.',
+    );
+  }
+
+  const url = `${trimTrailingSlashes(configuredBaseUrl || DEFAULT_OPENAI_BASE_URL)}/chat/completions`;
+  const headers: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {};
+  // Completion tokens include reasoning tokens, which Gemini counts apart.
+  const toOpenAiUsage = (usage: OpenAiUsage | null | undefined) => {
+    const reasoning = usage?.completion_tokens_details?.reasoning_tokens || 0;
+    return toUsageMetadata(
+      usage?.prompt_tokens,
+      typeof usage?.completion_tokens === 'number'
+        ? usage.completion_tokens - reasoning
+        : undefined,
+      reasoning,
+    );
+  };
+  const post = (request: LlmRequest, stream: boolean) => {
+    const temperature = toTemperature(request.config);
+    if (wantsImageOutput(request.config)) {
+      throw createStatusError(
+        400,
+        'The OpenAI-compatible provider does not support image output.',
+      );
+    }
+    return postJson(
+      url,
+      {
+        model: request.model,
+        messages: toChatMessages(request),
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...(temperature === undefined ? {} : { temperature }),
+        ...(isJsonMode(request.config)
+          ? { response_format: { type: 'json_object' } }
+          : {}),
+      },
+      headers,
+      request.abortSignal,
+      'OpenAI-compatible',
+    );
+  };
+
+  return {
+    generate: async (request) => {
+      const payload = (await (await post(request, false)).json()) as {
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: OpenAiUsage;
+      };
+      return {
+        text: payload.choices?.[0]?.message?.content || '',
+        inlineData: [],
+        usageMetadata: toOpenAiUsage(payload.usage),
+      };
+    },
+    stream: async (request) => {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw createStatusError(502, 'OpenAI-compatible stream had no body.');
+      }
+      const body = response.body;
+      // Server-sent events: `data: {json}` lines, ended by `data: [DONE]`.
+      // With `include_usage`, the last event before it has the usage.
+      return (async function* () {
+        let usageMetadata: LlmUsageMetadata | undefined;
+        for await (const line of readLines(body)) {
+          const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+          if (!data) {
+            continue;
+          }
+          if (data === '[DONE]') {
+            return usageMetadata;
+          }
+          const event = JSON.parse(data) as {
+            choices?: Array<{ delta?: { content?: string | null } }>;
+            usage?: OpenAiUsage | null;
+            error?: { message?: string };
+          };
+          usageMetadata = toOpenAiUsage(event.usage) ?? usageMetadata;
+          if (event.error) {
+            throw createStatusError(
+              502,
+              event.error.message || 'OpenAI-compatible stream failed.',
+            );
+          }
+          const text = event.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+        return usageMetadata;
+      })();
+    },
+  };
+};
+
+/** Ollama's native chat API, for self-hosted models on an offline machine. */
+const createOllamaProvider = (): LlmProvider => {
+  const url = `${trimTrailingSlashes(
+    process.env.OLLAMA_BASE_URL?.trim() || DEFAULT_OLLAMA_BASE_URL,
+  )}/api/chat`;
+  const post = (request: LlmRequest, stream: boolean) => {
+    const temperature = toTemperature(request.config);
+    if (wantsImageOutput(request.config)) {
+      throw createStatusError(
+        400,
+        'The Ollama provider does not support image output.',
+      );
+    }
+    return postJson(
+      url,
+      {
+        model: request.model,
+        messages: toChatMessages(request),
+        stream,
+        ...(isJsonMode(request.config) ? { format: 'json' } : {}),
+        ...(temperature === undefined ? {} : { options: { temperature } }),
+      },
+      {},
+      request.abortSignal,
+      'Ollama',
+    );
+  };
+
+  return {
+    generate: async (request) => {
+      const payload = (await (await post(request, false)).json()) as {
+        message?: { content?: string };
+        prompt_eval_count?: number;
+        eval_count?: number;
+      };
+      return {
+        text: payload.message?.content || '',
+        inlineData: [],
+        usageMetadata: toUsageMetadata(
+          payload.prompt_eval_count,
+          payload.eval_count,
+        ),
+      };
+    },
+    stream: async (request) => {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw createStatusError(502, 'Ollama stream had no body.');
+      }
+      const body = response.body;
+      // Newline-delimited JSON, the last object has `done: true`.
+      return (async function* () {
+        for await (const line of readLines(body)) {
+          if (!line.trim()) {
+            continue;
+          }
+          const event = JSON.parse(line) as {
+            message?: { content?: string };
+            done?: boolean;
+            prompt_eval_count?: number;
+            eval_count?: number;
+            error?: string;
+          };
+          if (event.error) {
+            throw createStatusError(502, event.error);
+          }
+          if (event.message?.content) {
+            yield event.message.content;
+          }
+          if (event.done) {
+            return toUsageMetadata(event.prompt_eval_count, event.eval_count);
+          }
+        }
+        return undefined;
+      })();
+    },
+  };
+};
+
+export const getLlmProvider = (id: LlmProviderId): LlmProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAiProvider();
+    case 'ollama':
+      return createOllamaProvider();
+    default:
+      return createGeminiProvider();
+  }
+};
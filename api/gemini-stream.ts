@@ -0,0 +1,10 @@
+import { handleGeminiStreamProxyRequest } from './_lib/geminiProxy.js';
+
+const handler = async (
+  req: import('node:http').IncomingMessage & { body?: unknown },
+  res: import('node:http').ServerResponse,
+): Promise<void> => {
+  await handleGeminiStreamProxyRequest(req, res);
+};
+
+export default handler;
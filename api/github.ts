@@ -0,0 +1,10 @@
+import { handleGitHubProxyRequest } from './_lib/githubProxy.js';
+
+const handler = async (
+  req: import('node:http').IncomingMessage,
+  res: import('node:http').ServerResponse,
+): Promise<void> => {
+  await handleGitHubProxyRequest(req, res);
+};
+
+export default handler;
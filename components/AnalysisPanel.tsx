@@ -1,7 +1,12 @@
 import React from 'react';
-import { AnalysisResult } from '../types';
+import {
+  AnalysisResult,
+  PackageInventoryEntry,
+  PackageReplacement,
+} from '../types';
 import {
   AlertTriangle,
+  ArrowRight,
   Boxes,
   Code2,
   FileSearch,
@@ -12,9 +17,74 @@ import {
 
 interface AnalysisPanelProps {
   analysis: AnalysisResult | null;
+  packageInventory?: PackageInventoryEntry[];
+  packageReplacements?: PackageReplacement[];
+  showSummary?: boolean;
+}
+
+interface PackageRow {
+  name: string;
+  version: string;
+  origin: string; // Manifest path, or how the package was found
+  dev: boolean;
+  replacement?: PackageReplacement;
 }
 
-const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
+/**
+ * Declared packages with the model's proposed replacements. Replacements for
+ * packages missing from the manifests (inferred ones) are listed after them.
+ */
+const buildPackageRows = (
+  inventory: PackageInventoryEntry[],
+  replacements: PackageReplacement[],
+): PackageRow[] => {
+  const replacementByName = new Map(
+    replacements.map((entry) => [entry.legacyPackage.toLowerCase(), entry]),
+  );
+  const declaredNames = new Set<string>();
+  const rows: PackageRow[] = inventory.map((entry) => {
+    const key = entry.name.toLowerCase();
+    declaredNames.add(key);
+    return {
+      name: entry.name,
+      version: entry.version,
+      origin: `${entry.ecosystem} · ${entry.manifestPath}`,
+      dev: entry.dev,
+      replacement: replacementByName.get(key),
+    };
+  });
+
+  replacements
+    .filter((entry) => !declaredNames.has(entry.legacyPackage.toLowerCase()))
+    .forEach((entry) =>
+      rows.push({
+        name: entry.legacyPackage,
+        version: '',
+        origin: 'inferred',
+        dev: false,
+        replacement: entry,
+      }),
+    );
+
+  // Runtime packages before dev-only ones; within each, replaced ones first.
+  return rows.sort(
+    (a, b) =>
+      Number(a.dev) - Number(b.dev) ||
+      Number(!a.replacement) - Number(!b.replacement),
+  );
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  analysis,
+  packageInventory = [],
+  packageReplacements = [],
+  showSummary = true,
+}) => {
+  const packageRows = React.useMemo(
+    () => buildPackageRows(packageInventory, packageReplacements),
+    [packageInventory, packageReplacements],
+  );
+
   if (!analysis) return null;
 
   return (
@@ -26,9 +96,11 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
         </h3>
       </div>
 
-      <p className="text-gray-300 text-sm leading-relaxed border-l-2 border-accent-500/50 pl-3">
-        {analysis.summary}
-      </p>
+      {showSummary && (
+        <p className="text-gray-300 text-sm leading-relaxed border-l-2 border-accent-500/50 pl-3">
+          {analysis.summary}
+        </p>
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
         <div className="bg-dark-900/50 rounded-lg p-3 border border-dark-700/50">
@@ -84,6 +156,71 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
         </div>
       </div>
 
+      {packageRows.length > 0 && (
+        <div className="bg-dark-900/50 rounded-lg p-3 border border-dark-700/50">
+          <div className="flex items-center gap-2 mb-3 text-blue-400">
+            <Package className="w-4 h-4" />
+            <span className="text-xs font-bold uppercase tracking-wider">
+              Package Inventory
+            </span>
+            <span className="text-[11px] text-gray-500 normal-case">
+              {packageInventory.length} declared
+              {packageReplacements.length > 0 &&
+                ` · ${packageReplacements.length} replacement(s) proposed`}
+            </span>
+          </div>
+          <div className="max-h-72 overflow-auto custom-scrollbar">
+            <table className="w-full text-xs text-left">
+              <thead className="text-[10px] uppercase tracking-wide text-gray-500 sticky top-0 bg-dark-900">
+                <tr>
+                  <th className="py-1.5 pr-3 font-semibold">Legacy package</th>
+                  <th className="py-1.5 pr-3 font-semibold">Version</th>
+                  <th className="py-1.5 pr-3 font-semibold">Source</th>
+                  <th className="py-1.5 font-semibold">Modern replacement</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-dark-700/60">
+                {packageRows.map((row) => (
+                  <tr key={`${row.origin}:${row.name}`} className="align-top">
+                    <td className="py-1.5 pr-3 font-mono text-gray-200 break-all">
+                      {row.name}
+                      {row.dev && (
+                        <span className="ml-1.5 px-1 rounded bg-dark-700 text-[10px] text-gray-400 font-sans">
+                          dev
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5 pr-3 font-mono text-gray-400 whitespace-nowrap">
+                      {row.version || '—'}
+                    </td>
+                    <td className="py-1.5 pr-3 text-gray-500 break-all">
+                      {row.origin}
+                    </td>
+                    <td className="py-1.5">
+                      {row.replacement ? (
+                        <div>
+                          <span className="inline-flex items-center gap-1 font-mono text-accent-300">
+                            <ArrowRight className="w-3 h-3 opacity-70" />
+                            {row.replacement.replacement}
+                          </span>
+                          {row.replacement.rationale && (
+                            <p className="text-[11px] text-gray-500 mt-0.5">
+                              {row.replacement.rationale}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-600">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {analysis.risks.length > 0 && (
         <div className="bg-orange-950/20 rounded-lg p-3 border border-orange-500/20">
           <div className="flex items-center gap-2 mb-2 text-orange-400">
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Coins, PauseCircle, SkipForward, Square } from 'lucide-react';
+import { RunBudget, RunBudgetPause } from '../types';
+
+interface BudgetPauseDialogProps {
+  pause: RunBudgetPause;
+  budget: RunBudget;
+  onRaiseBudget: (budget: RunBudget) => void;
+  onSkipLowPriority: () => void;
+  onStop: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full bg-dark-950 border border-dark-700 rounded-md px-2 py-1.5 text-xs text-gray-100 font-mono focus:outline-none focus:border-accent-500';
+
+const parseLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0
+    ? null
+    : parsed;
+};
+
+const BudgetPauseDialog: React.FC<BudgetPauseDialogProps> = ({
+  pause,
+  budget,
+  onRaiseBudget,
+  onSkipLowPriority,
+  onStop,
+}) => {
+  // The capped field starts at the smallest value that lets the next request
+  // through.
+  const [maxCostUsd, setMaxCostUsd] = React.useState(
+    pause.limit === 'cost'
+      ? (
+          Math.ceil((pause.spentCostUsd + pause.nextCostUsd) * 100) / 100
+        ).toFixed(2)
+      : String(budget.maxCostUsd ?? ''),
+  );
+  const [maxTokens, setMaxTokens] = React.useState(
+    pause.limit === 'tokens'
+      ? String(pause.spentTokens + pause.nextTokens)
+      : String(budget.maxTokens ?? ''),
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="budget-pause-title"
+        className="bg-dark-900 border border-dark-700 rounded-2xl w-full max-w-lg shadow-2xl p-6 space-y-5"
+      >
+        <div>
+          <h2
+            id="budget-pause-title"
+            className="text-lg font-display font-bold text-foreground-primary flex items-center gap-2"
+          >
+            <PauseCircle className="w-4 h-4 text-amber-300" />
+            Run paused at budget
+          </h2>
+          <p className="mt-1 text-xs text-gray-400">
+            The next {pause.stage} request
+            {pause.filePath && (
+              <>
+                {' '}
+                for <span className="font-mono">{pause.filePath}</span>
+              </>
+            )}{' '}
+            {pause.limit === 'unpriced'
+              ? 'uses a model with no known price, so the spend cap cannot hold it back. Set a token cap to continue.'
+              : `would pass the ${pause.limit === 'cost' ? 'spend' : 'token'} cap.`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div className="rounded-lg border border-dark-700 bg-dark-950 px-3 py-2">
+            <p className="text-gray-500">Spent so far</p>
+            <p className="text-gray-200 font-mono">
+              ${pause.spentCostUsd.toFixed(4)} /{' '}
+              {pause.spentTokens.toLocaleString()} tokens
+            </p>
+          </div>
+          <div className="rounded-lg border border-dark-700 bg-dark-950 px-3 py-2">
+            <p className="text-gray-500">Next request (est.)</p>
+            <p className="text-gray-200 font-mono">
+              ${pause.nextCostUsd.toFixed(4)} /{' '}
+              {pause.nextTokens.toLocaleString()} tokens
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block space-y-1">
+            <span className="text-[11px] text-gray-400">Max spend (USD)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={maxCostUsd}
+              onChange={(event) => setMaxCostUsd(event.target.value)}
+              placeholder="No limit"
+              aria-label="New max spend"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[11px] text-gray-400">Max tokens</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={maxTokens}
+              onChange={(event) => setMaxTokens(event.target.value)}
+              placeholder={pause.limit === 'unpriced' ? 'Required' : 'No limit'}
+              aria-label="New max tokens"
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onStop}
+            className="px-3 py-2 rounded-lg border border-dark-600 text-sm text-gray-300 hover:bg-dark-800 transition-colors flex items-center gap-1.5"
+          >
+            <Square className="w-3.5 h-3.5" />
+            Stop with partial output
+          </button>
+          {pause.lowPriorityRemaining > 0 && (
+            <button
+              onClick={onSkipLowPriority}
+              className="px-3 py-2 rounded-lg border border-dark-600 text-sm text-gray-300 hover:bg-dark-800 transition-colors flex items-center gap-1.5"
+            >
+              <SkipForward className="w-3.5 h-3.5" />
+              Skip low-priority files ({pause.lowPriorityRemaining})
+            </button>
+          )}
+          <button
+            onClick={() =>
+              onRaiseBudget({
+                maxCostUsd: parseLimit(maxCostUsd),
+                maxTokens: parseLimit(maxTokens),
+              })
+            }
+            className="px-3 py-2 rounded-lg bg-accent-600 hover:bg-accent-500 text-sm font-semibold text-white transition-colors flex items-center gap-1.5"
+          >
+            <Coins className="w-3.5 h-3.5" />
+            Raise budget and continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetPauseDialog;
@@ -0,0 +1,37 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import DependencyGraphPanel from './DependencyGraphPanel';
+
+describe('DependencyGraphPanel', () => {
+  it('selects files on click and toggles the target mapping overlay', () => {
+    const onSelectNode = vi.fn();
+    render(
+      <DependencyGraphPanel
+        graph={{ 'src/app.js': ['src/utils', 'src/gone'], 'src/utils.js': [] }}
+        sourcePaths={['src/app.js', 'src/utils.js']}
+        targetPaths={['app/page.tsx']}
+        mappings={[
+          {
+            sourcePath: 'src/app.js',
+            targetPath: 'app/page.tsx',
+            rationale: 'entry',
+            confidence: 0.8,
+          },
+        ]}
+        selectedFile={null}
+        activeTree="source"
+        onSelectNode={onSelectNode}
+      />,
+    );
+
+    expect(screen.getByText('1 unresolved')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'src/utils.js' }));
+    expect(onSelectNode).toHaveBeenCalledWith('src/utils.js', 'source');
+
+    expect(
+      screen.queryByRole('button', { name: 'app/page.tsx' }),
+    ).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Target mappings'));
+    fireEvent.click(screen.getByRole('button', { name: 'app/page.tsx' }));
+    expect(onSelectNode).toHaveBeenCalledWith('app/page.tsx', 'target');
+  });
+});
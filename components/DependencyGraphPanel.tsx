@@ -0,0 +1,298 @@
+import React from 'react';
+import { GitFork, Minus, Plus, RotateCcw } from 'lucide-react';
+import { RepoAnalysisResult } from '../types';
+import { DependencyGraph } from '../services/dependencyGraph';
+import {
+  buildDependencyGraphView,
+  GRAPH_NODE_HEIGHT,
+  GRAPH_NODE_WIDTH,
+  GraphViewNode,
+  toGraphNodeId,
+} from '../services/dependencyGraphView';
+
+interface DependencyGraphPanelProps {
+  graph: DependencyGraph;
+  sourcePaths: string[];
+  targetPaths: string[];
+  mappings: RepoAnalysisResult['semanticFileMappings'];
+  selectedFile: string | null;
+  activeTree: 'source' | 'target';
+  onSelectNode: (path: string, tree: 'source' | 'target') => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 1.2;
+const VIEW_PADDING = 16;
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const NODE_STYLES: Record<GraphViewNode['kind'], string> = {
+  source: 'fill-dark-800 stroke-dark-600',
+  target: 'fill-accent-500/10 stroke-accent-500/60',
+  unresolved: 'fill-red-900/20 stroke-red-500/60',
+};
+
+const EDGE_STYLES = {
+  import: 'stroke-gray-500/50',
+  cycle: 'stroke-yellow-400',
+  mapping: 'stroke-accent-400/70',
+  unresolved: 'stroke-red-400/60',
+};
+
+const DependencyGraphPanel: React.FC<DependencyGraphPanelProps> = ({
+  graph,
+  sourcePaths,
+  targetPaths,
+  mappings,
+  selectedFile,
+  activeTree,
+  onSelectNode,
+}) => {
+  const [showMappings, setShowMappings] = React.useState(false);
+  const [zoom, setZoom] = React.useState(1);
+  const [pan, setPan] = React.useState({ x: 0, y: 0 });
+  const dragRef = React.useRef<{ x: number; y: number } | null>(null);
+  const svgRef = React.useRef<SVGSVGElement>(null);
+
+  const view = React.useMemo(
+    () =>
+      buildDependencyGraphView({
+        graph,
+        sourcePaths,
+        targetPaths,
+        mappings,
+        showMappings,
+      }),
+    [graph, sourcePaths, targetPaths, mappings, showMappings],
+  );
+  const nodeById = React.useMemo(
+    () => new Map(view.nodes.map((node) => [node.id, node])),
+    [view.nodes],
+  );
+  const hasNodes = view.nodes.length > 0;
+  const selectedId = selectedFile
+    ? toGraphNodeId(activeTree, selectedFile)
+    : null;
+
+  // React registers wheel listeners as passive, so zooming needs a native
+  // listener to stop the page from scrolling.
+  React.useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setZoom((current) =>
+        clampZoom(event.deltaY < 0 ? current * ZOOM_STEP : current / ZOOM_STEP),
+      );
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [hasNodes]);
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const edgePath = (fromId: string, toId: string): string | null => {
+    const from = nodeById.get(fromId);
+    const to = nodeById.get(toId);
+    if (!from || !to) {
+      return null;
+    }
+    const startX = from.x + GRAPH_NODE_WIDTH;
+    const startY = from.y + GRAPH_NODE_HEIGHT / 2;
+    const endX = to.x;
+    const endY = to.y + GRAPH_NODE_HEIGHT / 2;
+    const bend = Math.max(40, Math.abs(endX - startX) / 2);
+    return `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`;
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="px-3 py-2 border-b border-dark-700 bg-dark-900/80 flex flex-wrap items-center justify-between gap-2 text-xs">
+        <div className="flex items-center gap-2 text-gray-300">
+          <GitFork className="w-4 h-4 text-accent-400" />
+          <span className="font-semibold">Dependency Graph</span>
+          <span className="text-gray-500">
+            {Object.keys(graph).length} files
+          </span>
+          {view.cycleCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded bg-yellow-900/30 border border-yellow-500/40 text-yellow-200">
+              {view.cycleCount} cycle(s)
+            </span>
+          )}
+          {view.unresolvedCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded bg-red-900/30 border border-red-500/40 text-red-200">
+              {view.unresolvedCount} unresolved
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showMappings}
+              onChange={(event) => setShowMappings(event.target.checked)}
+            />
+            Target mappings
+          </label>
+          <button
+            onClick={() => setZoom((current) => clampZoom(current / ZOOM_STEP))}
+            aria-label="Zoom out"
+            className="p-1 rounded border border-dark-600 text-gray-300 hover:bg-dark-700"
+          >
+            <Minus className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setZoom((current) => clampZoom(current * ZOOM_STEP))}
+            aria-label="Zoom in"
+            className="p-1 rounded border border-dark-600 text-gray-300 hover:bg-dark-700"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={resetView}
+            aria-label="Reset view"
+            className="p-1 rounded border border-dark-600 text-gray-300 hover:bg-dark-700"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {!hasNodes ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500 p-6 text-center">
+          No imports were found in the files read for context.
+        </div>
+      ) : (
+        <svg
+          ref={svgRef}
+          role="img"
+          aria-label="Source dependency graph"
+          className="flex-1 min-h-0 w-full cursor-grab active:cursor-grabbing bg-dark-900/50 select-none"
+          onPointerDown={(event) => {
+            dragRef.current = { x: event.clientX, y: event.clientY };
+          }}
+          onPointerMove={(event) => {
+            const start = dragRef.current;
+            if (!start) {
+              return;
+            }
+            dragRef.current = { x: event.clientX, y: event.clientY };
+            setPan((current) => ({
+              x: current.x + event.clientX - start.x,
+              y: current.y + event.clientY - start.y,
+            }));
+          }}
+          onPointerUp={() => {
+            dragRef.current = null;
+          }}
+          onPointerLeave={() => {
+            dragRef.current = null;
+          }}
+        >
+          <g
+            transform={`translate(${pan.x + VIEW_PADDING} ${pan.y + VIEW_PADDING}) scale(${zoom})`}
+          >
+            {view.clusters.map((cluster) => (
+              <g key={`${cluster.kind}:${cluster.name}`}>
+                <rect
+                  x={cluster.x}
+                  y={cluster.y}
+                  width={cluster.width}
+                  height={cluster.height}
+                  rx={8}
+                  className="fill-dark-800/40 stroke-dark-700"
+                />
+                <text
+                  x={cluster.x + 10}
+                  y={cluster.y + 14}
+                  className="fill-gray-400 text-[10px] font-mono"
+                >
+                  {cluster.name}
+                </text>
+              </g>
+            ))}
+
+            {view.edges.map((edge) => {
+              const path = edgePath(edge.from, edge.to);
+              if (!path) {
+                return null;
+              }
+              const style = edge.inCycle
+                ? EDGE_STYLES.cycle
+                : EDGE_STYLES[edge.kind];
+              return (
+                <path
+                  key={`${edge.kind}:${edge.from}->${edge.to}`}
+                  d={path}
+                  fill="none"
+                  strokeWidth={edge.inCycle ? 1.75 : 1}
+                  strokeDasharray={edge.kind === 'import' ? undefined : '4 3'}
+                  className={style}
+                />
+              );
+            })}
+
+            {view.nodes.map((node) => {
+              const isSelected = node.id === selectedId;
+              const tree = node.kind === 'target' ? 'target' : 'source';
+              return (
+                <g
+                  key={node.id}
+                  role={node.kind === 'unresolved' ? undefined : 'button'}
+                  aria-label={node.path}
+                  className={node.kind === 'unresolved' ? '' : 'cursor-pointer'}
+                  onClick={() => {
+                    if (node.kind !== 'unresolved') {
+                      onSelectNode(node.path, tree);
+                    }
+                  }}
+                >
+                  <title>
+                    {node.path}
+                    {node.inCycle ? ' (import cycle)' : ''}
+                    {node.kind === 'unresolved'
+                      ? ' (no matching file in the repository)'
+                      : ''}
+                  </title>
+                  <rect
+                    x={node.x}
+                    y={node.y}
+                    width={GRAPH_NODE_WIDTH}
+                    height={GRAPH_NODE_HEIGHT}
+                    rx={4}
+                    strokeWidth={isSelected ? 2 : 1}
+                    className={
+                      isSelected
+                        ? 'fill-accent-500/20 stroke-accent-400'
+                        : node.inCycle
+                          ? 'fill-yellow-900/20 stroke-yellow-400'
+                          : NODE_STYLES[node.kind]
+                    }
+                  />
+                  <text
+                    x={node.x + 8}
+                    y={node.y + GRAPH_NODE_HEIGHT / 2 + 4}
+                    className="fill-gray-200 text-[11px] font-mono"
+                  >
+                    {node.label.length > 26
+                      ? `${node.label.slice(0, 25)}…`
+                      : node.label}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default DependencyGraphPanel;
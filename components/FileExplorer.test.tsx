@@ -115,4 +115,57 @@ describe('FileExplorer', () => {
 
     expect(mockOnRegenerateFile).toHaveBeenCalledWith('README.md');
   });
+
+  it('lists importers and offers regenerating with dependents', () => {
+    render(
+      <FileExplorer
+        files={mockFiles}
+        onSelectFile={mockOnSelectFile}
+        selectedFile={null}
+        activeTree="target"
+        onToggleTree={mockOnToggleTree}
+        onRegenerateFile={mockOnRegenerateFile}
+        getUsedBy={() => ['src/App.tsx']}
+      />,
+    );
+
+    fireEvent.contextMenu(screen.getByText('README.md'));
+    expect(screen.getByText('Used by (1)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'src/App.tsx' }));
+    expect(mockOnSelectFile).toHaveBeenCalledWith('src/App.tsx');
+
+    fireEvent.contextMenu(screen.getByText('README.md'));
+    fireEvent.click(
+      screen.getByRole('button', { name: /Regenerate with dependents/i }),
+    );
+    expect(mockOnRegenerateFile).toHaveBeenCalledWith('README.md', {
+      includeDependents: true,
+    });
+  });
+
+  it('greys out unreachable source files and offers excluding them', () => {
+    const onExcludeUnreachable = vi.fn();
+    render(
+      <FileExplorer
+        files={mockFiles}
+        onSelectFile={mockOnSelectFile}
+        selectedFile={null}
+        activeTree="source"
+        onToggleTree={mockOnToggleTree}
+        unreachablePaths={new Set(['src/index.ts'])}
+        onExcludeUnreachable={onExcludeUnreachable}
+      />,
+    );
+
+    expect(screen.getByText('index.ts').parentElement).toHaveAttribute(
+      'title',
+      'src/index.ts is not reachable from any entry point',
+    );
+    expect(screen.getByText('README.md').parentElement).not.toHaveAttribute(
+      'title',
+    );
+    expect(screen.getByText('1 unreachable file(s)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Exclude from scope' }));
+    expect(onExcludeUnreachable).toHaveBeenCalled();
+  });
 });
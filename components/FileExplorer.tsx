@@ -20,6 +20,8 @@ import {
   Box,
   Coffee,
   RefreshCw,
+  GitBranch,
+  EyeOff,
 } from 'lucide-react';
 import {
   ReactIcon,
@@ -38,7 +40,13 @@ interface FileExplorerProps {
   selectedFile: string | null;
   activeTree: 'source' | 'target';
   onToggleTree: (mode: 'source' | 'target') => void;
-  onRegenerateFile?: (path: string) => void;
+  onRegenerateFile?: (
+    path: string,
+    options?: { includeDependents?: boolean },
+  ) => void;
+  getUsedBy?: (path: string) => string[]; // Files importing `path`
+  unreachablePaths?: Set<string>; // Source files no entry point reaches
+  onExcludeUnreachable?: () => void;
 }
 
 const getFileIconConfig = (filename: string) => {
@@ -91,6 +99,7 @@ const FileItem: React.FC<{
     event: React.MouseEvent<HTMLDivElement>,
     path: string,
   ) => void;
+  unreachablePaths?: Set<string>;
 }> = ({
   node,
   depth,
@@ -98,6 +107,7 @@ const FileItem: React.FC<{
   selectedFile,
   activeTree,
   onOpenContextMenu,
+  unreachablePaths,
 }) => {
   const [isOpen, setIsOpen] = React.useState(true);
 
@@ -141,6 +151,7 @@ const FileItem: React.FC<{
                 selectedFile={selectedFile}
                 activeTree={activeTree}
                 onOpenContextMenu={onOpenContextMenu}
+                unreachablePaths={unreachablePaths}
               />
             ))}
           </div>
@@ -150,6 +161,8 @@ const FileItem: React.FC<{
   }
 
   const isSelected = selectedFile === node.path;
+  const isUnreachable =
+    activeTree === 'source' && Boolean(unreachablePaths?.has(node.path));
   const { icon: Icon, color } = getFileIconConfig(node.name);
 
   return (
@@ -157,8 +170,14 @@ const FileItem: React.FC<{
       className={`
         flex items-center py-1.5 pr-2 cursor-pointer transition-all border-l-2 gap-1 group relative overflow-hidden
         ${isSelected ? 'bg-accent-900/20 border-accent-500 text-accent-100' : 'border-transparent hover:bg-dark-800 text-gray-400'}
+        ${isUnreachable ? 'opacity-40 italic' : ''}
       `}
       style={rowStyle}
+      title={
+        isUnreachable
+          ? `${node.path} is not reachable from any entry point`
+          : undefined
+      }
       onClick={() => onSelect(node.path)}
       onContextMenu={(event) => {
         if (activeTree !== 'target' || !onOpenContextMenu) {
@@ -207,6 +226,9 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
   activeTree,
   onToggleTree,
   onRegenerateFile,
+  getUsedBy,
+  unreachablePaths,
+  onExcludeUnreachable,
 }) => {
   const [contextMenu, setContextMenu] = React.useState<{
     path: string;
@@ -252,6 +274,11 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
     setContextMenu(null);
   }, [activeTree, files]);
 
+  const usedBy = React.useMemo(
+    () => (contextMenu && getUsedBy ? getUsedBy(contextMenu.path) : []),
+    [contextMenu, getUsedBy],
+  );
+
   return (
     <div className="h-full flex flex-col bg-dark-900 rounded-xl border border-dark-700 overflow-hidden shadow-inner relative">
       <div className="px-2 py-2 border-b border-dark-700 bg-dark-900 flex gap-1">
@@ -310,11 +337,31 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
                 selectedFile={selectedFile}
                 activeTree={activeTree}
                 onOpenContextMenu={handleOpenContextMenu}
+                unreachablePaths={unreachablePaths}
               />
             ))}
           </div>
         )}
       </div>
+      {activeTree === 'source' &&
+        unreachablePaths &&
+        unreachablePaths.size > 0 && (
+          <div className="px-3 py-2 border-t border-dark-700 bg-dark-900 flex items-center justify-between gap-2 text-[11px] text-gray-400">
+            <span className="inline-flex items-center gap-1.5">
+              <EyeOff className="w-3.5 h-3.5 text-gray-500" />
+              {unreachablePaths.size} unreachable file(s)
+            </span>
+            {onExcludeUnreachable && (
+              <button
+                type="button"
+                onClick={onExcludeUnreachable}
+                className="px-2 py-1 rounded border border-dark-600 text-gray-300 hover:bg-dark-800 hover:text-foreground-primary"
+              >
+                Exclude from scope
+              </button>
+            )}
+          </div>
+        )}
       {contextMenu && onRegenerateFile && (
         <div
           className="fixed z-50 min-w-[170px] rounded-md border border-dark-600 bg-dark-900 shadow-xl py-1"
@@ -331,6 +378,43 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
             <RefreshCw className="w-3.5 h-3.5 text-accent-400" />
             Regenerate this file
           </button>
+          {usedBy.length > 0 && (
+            <>
+              <button
+                type="button"
+                className="w-full px-3 py-2 text-left text-xs text-gray-200 hover:bg-dark-800 inline-flex items-center gap-2"
+                onClick={() => {
+                  onRegenerateFile(contextMenu.path, {
+                    includeDependents: true,
+                  });
+                  setContextMenu(null);
+                }}
+              >
+                <GitBranch className="w-3.5 h-3.5 text-accent-400" />
+                Regenerate with dependents
+              </button>
+              <div className="mt-1 border-t border-dark-700 px-3 pt-2 pb-1">
+                <p className="text-[10px] uppercase tracking-wide text-gray-500">
+                  Used by ({usedBy.length})
+                </p>
+                {usedBy.slice(0, 8).map((path) => (
+                  <button
+                    key={path}
+                    type="button"
+                    className="block w-full max-w-[260px] truncate py-0.5 text-left text-[11px] font-mono text-gray-400 hover:text-gray-200"
+                    onClick={() => onSelectFile(path)}
+                  >
+                    {path}
+                  </button>
+                ))}
+                {usedBy.length > 8 && (
+                  <p className="text-[11px] text-gray-500">
+                    +{usedBy.length - 8} more
+                  </p>
+                )}
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
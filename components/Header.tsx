@@ -1,16 +1,34 @@
 import React, { useState } from 'react';
-import { Bot, Terminal, HelpCircle, BookOpen, Moon, Sun } from 'lucide-react';
+import {
+  Bot,
+  Terminal,
+  HelpCircle,
+  BookOpen,
+  Moon,
+  Sun,
+  Cpu,
+} from 'lucide-react';
 import InfoModal from './InfoModal';
+import LlmSettingsModal from './LlmSettingsModal';
+import { LLM_PROVIDERS, LlmSettings } from '../services/llmProviders';
 
 interface HeaderProps {
   theme: 'dark' | 'light';
   onToggleTheme: () => void;
+  llmSettings: LlmSettings;
+  onLlmSettingsChange: (settings: LlmSettings) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme }) => {
+const Header: React.FC<HeaderProps> = ({
+  theme,
+  onToggleTheme,
+  llmSettings,
+  onLlmSettingsChange,
+}) => {
   const [infoModal, setInfoModal] = useState<'about' | 'how-it-works' | null>(
     null,
   );
+  const [showLlmSettings, setShowLlmSettings] = useState(false);
 
   return (
     <>
@@ -76,6 +94,15 @@ const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme }) => {
                 <BookOpen className="w-4 h-4" />
                 <span>How it Works</span>
               </button>
+              <div className="w-px h-4 bg-dark-700"></div>
+              <button
+                onClick={() => setShowLlmSettings(true)}
+                title="Choose the model provider"
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-foreground-muted hover:text-accent-400 hover:bg-dark-700 rounded-md transition-all"
+              >
+                <Cpu className="w-4 h-4" />
+                <span>{LLM_PROVIDERS[llmSettings.provider].label}</span>
+              </button>
             </nav>
 
             <div className="hidden lg:flex items-center gap-2 text-sm text-accent-500/60 border-l border-dark-700 pl-6">
@@ -87,6 +114,13 @@ const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme }) => {
       </header>
 
       <InfoModal type={infoModal} onClose={() => setInfoModal(null)} />
+      {showLlmSettings && (
+        <LlmSettingsModal
+          settings={llmSettings}
+          onChange={onLlmSettingsChange}
+          onClose={() => setShowLlmSettings(false)}
+        />
+      )}
     </>
   );
 };
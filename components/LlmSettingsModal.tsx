@@ -0,0 +1,236 @@
+import React from 'react';
+import { Check, Cpu, Server, X } from 'lucide-react';
+import {
+  getDefaultLlmSettings,
+  LLM_PROVIDERS,
+  LLM_STAGES,
+  LlmProviderId,
+  LlmSettings,
+  LlmStage,
+  LlmStageRouting,
+  MAX_TEMPERATURE,
+  MAX_THINKING_BUDGET,
+} from '../services/llmProviders';
+
+interface LlmSettingsModalProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full bg-dark-950 border border-dark-700 rounded-md px-2 py-1.5 text-xs text-gray-100 font-mono focus:outline-none focus:border-accent-500';
+
+// Blank number inputs mean "not set" rather than zero.
+const parseOptionalNumber = (value: string, max: number): number | null => {
+  const parsed = Number(value);
+  return value.trim() === '' || !Number.isFinite(parsed)
+    ? null
+    : Math.min(max, Math.max(0, parsed));
+};
+
+const LlmSettingsModal: React.FC<LlmSettingsModalProps> = ({
+  settings,
+  onChange,
+  onClose,
+}) => {
+  const provider = LLM_PROVIDERS[settings.provider];
+
+  const selectProvider = (id: LlmProviderId) => {
+    if (id !== settings.provider) {
+      onChange(getDefaultLlmSettings(id));
+    }
+  };
+
+  const updateStage = (stage: LlmStage, update: Partial<LlmStageRouting>) => {
+    onChange({
+      ...settings,
+      stages: {
+        ...settings.stages,
+        [stage]: { ...settings.stages[stage], ...update },
+      },
+    });
+  };
+
+  // Thinking budgets are a Gemini setting; other providers ignore them.
+  const showThinkingBudget = settings.provider === 'gemini';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-dark-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-dark-900 w-full max-w-3xl rounded-2xl border border-dark-700 shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300">
+        <div className="p-6 border-b border-dark-700 flex items-center justify-between bg-dark-800/50">
+          <div>
+            <h2 className="text-xl font-bold text-foreground-primary flex items-center gap-2 font-display">
+              <Cpu className="w-5 h-5 text-accent-400" />
+              Model Provider
+            </h2>
+            <p className="text-gray-400 text-sm mt-1">
+              Prompts are sent through the server proxy to the provider below.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close model provider settings"
+            className="p-2 rounded-lg text-gray-400 hover:text-foreground-primary hover:bg-dark-700 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-1 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {Object.values(LLM_PROVIDERS).map((option) => {
+              const selected = option.id === settings.provider;
+              return (
+                <button
+                  key={option.id}
+                  onClick={() => selectProvider(option.id)}
+                  aria-pressed={selected}
+                  className={`relative flex flex-col items-start p-4 rounded-xl border text-left transition-all ${
+                    selected
+                      ? 'bg-accent-900/20 border-accent-500/50'
+                      : 'bg-dark-800 border-dark-700 hover:border-dark-600'
+                  }`}
+                >
+                  {selected && (
+                    <span className="absolute top-3 right-3 w-5 h-5 rounded-full bg-accent-500 flex items-center justify-center">
+                      <Check className="w-3 h-3 text-white" strokeWidth={3} />
+                    </span>
+                  )}
+                  <span className="font-semibold text-gray-200 mb-1">
+                    {option.label}
+                  </span>
+                  <span className="text-xs text-gray-500 leading-relaxed">
+                    {option.description}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-200">
+                Stage routing
+              </h3>
+              <p className="text-[11px] text-gray-500">
+                Model, thinking budget and temperature per pipeline stage. Leave
+                a number blank to use the provider default.
+              </p>
+            </div>
+            {LLM_STAGES.filter(
+              (stage) => stage.tier !== 'image' || provider.supportsImages,
+            ).map((stage) => {
+              const routing = settings.stages[stage.id];
+              return (
+                <div
+                  key={stage.id}
+                  className="grid grid-cols-1 md:grid-cols-[10rem_1fr_7rem_6rem] gap-2 items-start rounded-lg border border-dark-700 bg-dark-800/60 p-3"
+                >
+                  <div>
+                    <span className="block text-xs text-gray-200 font-semibold">
+                      {stage.label}
+                    </span>
+                    <span className="block text-[11px] text-gray-500">
+                      {stage.description}
+                    </span>
+                  </div>
+                  <label className="block space-y-1">
+                    <span className="text-[11px] text-gray-400">Model</span>
+                    <input
+                      type="text"
+                      value={routing.model}
+                      onChange={(event) =>
+                        updateStage(stage.id, { model: event.target.value })
+                      }
+                      placeholder={provider.defaultModels[stage.tier]}
+                      aria-label={`${stage.label} model`}
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                  {showThinkingBudget ? (
+                    <label className="block space-y-1">
+                      <span className="text-[11px] text-gray-400">
+                        Thinking
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_THINKING_BUDGET}
+                        step={128}
+                        value={routing.thinkingBudget ?? ''}
+                        onChange={(event) =>
+                          updateStage(stage.id, {
+                            thinkingBudget: parseOptionalNumber(
+                              event.target.value,
+                              MAX_THINKING_BUDGET,
+                            ),
+                          })
+                        }
+                        placeholder="Default"
+                        aria-label={`${stage.label} thinking budget`}
+                        className={INPUT_CLASS}
+                      />
+                    </label>
+                  ) : (
+                    <span className="hidden md:block" />
+                  )}
+                  <label className="block space-y-1">
+                    <span className="text-[11px] text-gray-400">
+                      Temperature
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_TEMPERATURE}
+                      step={0.1}
+                      value={routing.temperature ?? ''}
+                      onChange={(event) =>
+                        updateStage(stage.id, {
+                          temperature: parseOptionalNumber(
+                            event.target.value,
+                            MAX_TEMPERATURE,
+                          ),
+                        })
+                      }
+                      placeholder="Default"
+                      aria-label={`${stage.label} temperature`}
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                </div>
+              );
+            })}
+            {!provider.supportsImages && (
+              <p className="text-[11px] text-gray-500">
+                {provider.label} cannot generate images, so architecture
+                diagrams are skipped.
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-lg border border-dark-700 bg-dark-950 p-3 text-xs text-gray-400 flex gap-2">
+            <Server className="w-4 h-4 shrink-0 text-gray-500" />
+            <span>
+              Server setup:{' '}
+              <span className="font-mono">{provider.serverSetup}</span>. Keys
+              and URLs are read from the server environment and never reach the
+              browser.
+            </span>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-dark-700 bg-dark-800/50 flex justify-end rounded-b-2xl">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-accent-600 hover:bg-accent-500 text-white font-bold rounded-lg shadow-lg shadow-accent-900/20 transition-all"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsModal;
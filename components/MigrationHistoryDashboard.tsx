@@ -15,6 +15,10 @@ const formatSigned = (value: number, suffix = ''): string => {
   return `${sign}${value}${suffix}`;
 };
 
+// Runs recorded before usage tracking only have the estimate.
+const getRunCost = (entry: MigrationHistoryEntry): number =>
+  entry.actualCostUsd ?? entry.estimatedCostUsd;
+
 const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
   history,
   onClearHistory,
@@ -61,7 +65,7 @@ const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
 
   const scoreDelta = leftRun.modernizationScore - rightRun.modernizationScore;
   const durationDelta = leftRun.durationSeconds - rightRun.durationSeconds;
-  const costDelta = leftRun.estimatedCostUsd - rightRun.estimatedCostUsd;
+  const costDelta = getRunCost(leftRun) - getRunCost(rightRun);
 
   return (
     <section className="rounded-xl border border-dark-700 bg-dark-800 p-4 flex flex-col gap-3 shadow-lg">
@@ -150,11 +154,14 @@ const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
         <div className="rounded-lg border border-dark-700 bg-dark-900 px-3 py-2">
           <p className="text-gray-400 flex items-center gap-1.5">
             <Coins className="w-3.5 h-3.5 text-amber-300" />
-            Estimated Cost
+            Cost
           </p>
           <p className="text-gray-100 font-semibold mt-1">
-            ${leftRun.estimatedCostUsd.toFixed(4)} vs $
-            {rightRun.estimatedCostUsd.toFixed(4)}
+            ${getRunCost(leftRun).toFixed(4)} vs $
+            {getRunCost(rightRun).toFixed(4)}
+          </p>
+          <p className="text-gray-500 mt-1">
+            Actual where tracked, otherwise estimated
           </p>
           <p
             className={
@@ -174,7 +181,8 @@ const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
               <th className="font-semibold px-2">Repo</th>
               <th className="font-semibold px-2">Score</th>
               <th className="font-semibold px-2">Duration</th>
-              <th className="font-semibold px-2">Cost</th>
+              <th className="font-semibold px-2">Tokens (est.)</th>
+              <th className="font-semibold px-2">Cost (est.)</th>
             </tr>
           </thead>
           <tbody>
@@ -185,6 +193,14 @@ const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
                 </td>
                 <td className="px-2 py-1 text-gray-300 font-mono truncate max-w-[220px]">
                   {entry.repoUrl}
+                  {entry.commitSha && (
+                    <span
+                      className="ml-1 text-gray-500"
+                      title={`${entry.ref || 'default branch'} @ ${entry.commitSha}`}
+                    >
+                      @{entry.commitSha.slice(0, 7)}
+                    </span>
+                  )}
                 </td>
                 <td className="px-2 py-1 text-gray-100">
                   {entry.modernizationScore}
@@ -193,7 +209,20 @@ const MigrationHistoryDashboard: React.FC<MigrationHistoryDashboardProps> = ({
                   {entry.durationSeconds}s
                 </td>
                 <td className="px-2 py-1 text-gray-100">
-                  ${entry.estimatedCostUsd.toFixed(4)}
+                  {entry.actualTokens === undefined
+                    ? '-'
+                    : entry.actualTokens.toLocaleString()}{' '}
+                  <span className="text-gray-500">
+                    ({entry.estimatedTokens.toLocaleString()})
+                  </span>
+                </td>
+                <td className="px-2 py-1 text-gray-100">
+                  {entry.actualCostUsd === undefined
+                    ? '-'
+                    : `$${entry.actualCostUsd.toFixed(4)}`}{' '}
+                  <span className="text-gray-500">
+                    (${entry.estimatedCostUsd.toFixed(4)})
+                  </span>
                 </td>
               </tr>
             ))}
@@ -6,28 +6,46 @@ import {
   Coins,
   Settings2,
 } from 'lucide-react';
-import { MigrationCostEstimate, MigrationPlaybook } from '../types';
+import { MigrationCostEstimate, MigrationPlaybook, RunBudget } from '../types';
 
 interface MigrationPlaybookPanelProps {
   playbook: MigrationPlaybook;
   costEstimate: MigrationCostEstimate | null;
   answers: Record<string, string>;
   notes: string;
+  contextTokenBudget: number;
+  runBudget: RunBudget;
+  unpricedBudgetModels: string[]; // Generation/verification models without a price
   isStartingGeneration: boolean;
   onAnswerChange: (questionId: string, answer: string) => void;
   onNotesChange: (notes: string) => void;
+  onContextTokenBudgetChange: (tokens: number) => void;
+  onRunBudgetChange: (budget: RunBudget) => void;
   onApprove: () => void;
   onOpenConfig: () => void;
 }
 
+// Blank or non-positive input turns the limit off.
+const toOptionalLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0
+    ? null
+    : parsed;
+};
+
 const MigrationPlaybookPanel: React.FC<MigrationPlaybookPanelProps> = ({
   playbook,
   costEstimate,
   answers,
   notes,
+  contextTokenBudget,
+  runBudget,
+  unpricedBudgetModels,
   isStartingGeneration,
   onAnswerChange,
   onNotesChange,
+  onContextTokenBudgetChange,
+  onRunBudgetChange,
   onApprove,
   onOpenConfig,
 }) => {
@@ -120,7 +138,7 @@ const MigrationPlaybookPanel: React.FC<MigrationPlaybookPanelProps> = ({
           <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
             <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400 flex items-center gap-1.5">
               <Coins className="w-3.5 h-3.5 text-amber-300" />
-              Estimated Gemini Usage
+              Estimated Model Usage
             </h4>
             <span className="px-2 py-0.5 rounded bg-amber-900/20 border border-amber-500/40 text-amber-100 font-mono">
               ~${costEstimate.estimatedCostUsd.toFixed(4)}
@@ -149,6 +167,89 @@ const MigrationPlaybookPanel: React.FC<MigrationPlaybookPanelProps> = ({
         </div>
       )}
 
+      <div className="rounded-lg border border-dark-700 bg-dark-900 p-3 text-xs flex flex-wrap items-center justify-between gap-2">
+        <label
+          htmlFor="context-token-budget"
+          className="text-gray-200 font-semibold"
+        >
+          Source context budget (tokens per file)
+        </label>
+        <input
+          id="context-token-budget"
+          type="number"
+          min={2000}
+          step={1000}
+          value={contextTokenBudget}
+          onChange={(event) =>
+            onContextTokenBudgetChange(Number(event.target.value))
+          }
+          disabled={isStartingGeneration}
+          className="w-28 bg-dark-950 border border-dark-700 rounded px-1.5 py-0.5 text-gray-200 font-mono focus:outline-none focus:border-accent-500"
+        />
+        <p className="w-full text-gray-500">
+          Larger legacy sources are searched per target file and only the most
+          relevant chunks up to this budget go into each prompt.
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-dark-700 bg-dark-900 p-3 text-xs flex flex-wrap items-center gap-2">
+        <span className="text-gray-200 font-semibold mr-auto">Run budget</span>
+        <label htmlFor="run-budget-cost" className="text-gray-400">
+          Max spend (USD)
+        </label>
+        <input
+          id="run-budget-cost"
+          type="number"
+          min={0}
+          step={0.01}
+          value={runBudget.maxCostUsd ?? ''}
+          onChange={(event) =>
+            onRunBudgetChange({
+              ...runBudget,
+              maxCostUsd: toOptionalLimit(event.target.value),
+            })
+          }
+          placeholder="No limit"
+          disabled={isStartingGeneration}
+          className="w-24 bg-dark-950 border border-dark-700 rounded px-1.5 py-0.5 text-gray-200 font-mono focus:outline-none focus:border-accent-500"
+        />
+        <label htmlFor="run-budget-tokens" className="text-gray-400">
+          Max tokens
+        </label>
+        <input
+          id="run-budget-tokens"
+          type="number"
+          min={0}
+          step={10000}
+          value={runBudget.maxTokens ?? ''}
+          onChange={(event) =>
+            onRunBudgetChange({
+              ...runBudget,
+              maxTokens: toOptionalLimit(event.target.value),
+            })
+          }
+          placeholder="No limit"
+          disabled={isStartingGeneration}
+          className="w-28 bg-dark-950 border border-dark-700 rounded px-1.5 py-0.5 text-gray-200 font-mono focus:outline-none focus:border-accent-500"
+        />
+        <p className="w-full text-gray-500">
+          Generation and verification pause before a request that would pass
+          either cap, so you can raise it, skip tests and docs, or stop.
+        </p>
+        {runBudget.maxCostUsd !== null &&
+          runBudget.maxTokens === null &&
+          unpricedBudgetModels.length > 0 && (
+            <p className="w-full text-yellow-300 flex gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              <span>
+                No price is known for {unpricedBudgetModels.join(', ')}, so the
+                spend cap cannot limit it. Set a token cap too, or the run
+                pauses before its first request to ask for one.
+              </span>
+            </p>
+          )}
+      </div>
+
       <div className="rounded-lg border border-dark-700 bg-dark-900 p-3 space-y-3">
         <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">
           Human-In-The-Loop Decisions
@@ -40,6 +40,53 @@ describe('MigrationReportModal', () => {
     ).toBeInTheDocument();
   });
 
+  it('compares actual token usage with the estimate', () => {
+    const totals = {
+      requests: 2,
+      promptTokens: 1_000,
+      candidateTokens: 400,
+      thinkingTokens: 100,
+      costUsd: 0.0021,
+    };
+    render(
+      <MigrationReportModal
+        report={{
+          ...report,
+          usage: {
+            stages: { generation: totals },
+            files: { 'app/page.tsx': totals },
+            unpricedModels: [],
+          },
+          costEstimate: {
+            inputTokens: 1_200,
+            outputTokens: 600,
+            totalTokens: 1_800,
+            estimatedCostUsd: 0.003,
+            assumptions: [],
+            stageBreakdown: [
+              {
+                stage: 'File Generation',
+                llmStage: 'generation',
+                model: 'gemini-3-flash-preview',
+                inputTokens: 1_200,
+                outputTokens: 600,
+                estimatedCostUsd: 0.003,
+              },
+            ],
+          },
+        }}
+        onClose={vi.fn()}
+        onDownload={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Token Usage')).toBeInTheDocument();
+    expect(screen.getByText('Generation')).toBeInTheDocument();
+    expect(screen.getByText('app/page.tsx')).toBeInTheDocument();
+    expect(screen.getByText('$0.0030')).toBeInTheDocument();
+    expect(screen.getByText('(1,800)')).toBeInTheDocument();
+  });
+
   it('calls close and download actions', () => {
     const onClose = vi.fn();
     const onDownload = vi.fn();
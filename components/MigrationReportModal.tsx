@@ -1,7 +1,14 @@
 import React from 'react';
-import { MigrationReport } from '../types';
+import {
+  MigrationCostEstimate,
+  MigrationReport,
+  MigrationUsage,
+} from '../types';
+import { LLM_STAGES } from '../services/llmProviders';
+import { getTotalTokens, sumUsage } from '../services/usageTracking';
 import {
   CheckCircle2,
+  Coins,
   X,
   Download,
   ShieldCheck,
@@ -18,6 +25,150 @@ interface MigrationReportModalProps {
   onDownload: () => void;
 }
 
+const MAX_LISTED_FILES = 8;
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+// Actual usage per stage next to the pre-run estimate, when there was one.
+const TokenUsageSection: React.FC<{
+  usage: MigrationUsage;
+  costEstimate?: MigrationCostEstimate;
+}> = ({ usage, costEstimate }) => {
+  const totals = sumUsage(usage);
+  const stages = LLM_STAGES.map((stage) => {
+    const estimated = (costEstimate?.stageBreakdown || []).filter(
+      (entry) => entry.llmStage === stage.id,
+    );
+    return {
+      id: stage.id,
+      label: stage.label,
+      actual: usage.stages[stage.id],
+      estimatedTokens: estimated.length
+        ? estimated.reduce(
+            (sum, entry) => sum + entry.inputTokens + entry.outputTokens,
+            0,
+          )
+        : null,
+      estimatedCostUsd: estimated.length
+        ? estimated.reduce((sum, entry) => sum + entry.estimatedCostUsd, 0)
+        : null,
+    };
+  }).filter((stage) => stage.actual || stage.estimatedTokens !== null);
+  const files = Object.keys(usage.files)
+    .sort(
+      (a, b) => getTotalTokens(usage.files[b]) - getTotalTokens(usage.files[a]),
+    )
+    .slice(0, MAX_LISTED_FILES);
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-foreground-primary mb-4 flex items-center gap-2">
+        <Coins className="w-5 h-5 text-gray-400" />
+        Token Usage
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="bg-dark-800 rounded-lg border border-dark-700 p-3">
+          <p className="text-xs text-gray-500">Actual tokens</p>
+          <p className="text-lg font-mono text-foreground-primary">
+            {formatTokens(getTotalTokens(totals))}
+          </p>
+        </div>
+        <div className="bg-dark-800 rounded-lg border border-dark-700 p-3">
+          <p className="text-xs text-gray-500">Estimated tokens</p>
+          <p className="text-lg font-mono text-gray-300">
+            {costEstimate ? formatTokens(costEstimate.totalTokens) : '-'}
+          </p>
+        </div>
+        <div className="bg-dark-800 rounded-lg border border-dark-700 p-3">
+          <p className="text-xs text-gray-500">Actual cost</p>
+          <p className="text-lg font-mono text-foreground-primary">
+            ${totals.costUsd.toFixed(4)}
+          </p>
+        </div>
+        <div className="bg-dark-800 rounded-lg border border-dark-700 p-3">
+          <p className="text-xs text-gray-500">Estimated cost</p>
+          <p className="text-lg font-mono text-gray-300">
+            {costEstimate
+              ? `$${costEstimate.estimatedCostUsd.toFixed(4)}`
+              : '-'}
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-medium pb-2">Stage</th>
+              <th className="font-medium pb-2 text-right">Requests</th>
+              <th className="font-medium pb-2 text-right">Tokens (est.)</th>
+              <th className="font-medium pb-2 text-right">Cost (est.)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map((stage) => (
+              <tr key={stage.id} className="border-t border-dark-700">
+                <td className="py-1.5 text-gray-300">{stage.label}</td>
+                <td className="py-1.5 text-right font-mono text-gray-400">
+                  {stage.actual?.requests ?? 0}
+                </td>
+                <td className="py-1.5 text-right font-mono text-gray-300">
+                  {formatTokens(
+                    stage.actual ? getTotalTokens(stage.actual) : 0,
+                  )}
+                  {stage.estimatedTokens !== null && (
+                    <span className="text-gray-500">
+                      {' '}
+                      ({formatTokens(stage.estimatedTokens)})
+                    </span>
+                  )}
+                </td>
+                <td className="py-1.5 text-right font-mono text-gray-300">
+                  ${(stage.actual?.costUsd ?? 0).toFixed(4)}
+                  {stage.estimatedCostUsd !== null && (
+                    <span className="text-gray-500">
+                      {' '}
+                      (${stage.estimatedCostUsd.toFixed(4)})
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {files.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-2">
+              Most expensive generated files
+            </p>
+            <ul className="space-y-1">
+              {files.map((path) => (
+                <li
+                  key={path}
+                  className="flex justify-between gap-3 text-xs font-mono"
+                >
+                  <span className="text-gray-300 truncate" title={path}>
+                    {path}
+                  </span>
+                  <span className="text-gray-400 shrink-0">
+                    {formatTokens(getTotalTokens(usage.files[path]))} / $
+                    {usage.files[path].costUsd.toFixed(4)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      {usage.unpricedModels.length > 0 && (
+        <p className="text-[11px] text-gray-500 mt-3">
+          No pricing is known for {usage.unpricedModels.join(', ')}; their
+          tokens are counted as free.
+        </p>
+      )}
+    </div>
+  );
+};
+
 const MigrationReportModal: React.FC<MigrationReportModalProps> = ({
   report,
   onClose,
@@ -163,6 +314,13 @@ const MigrationReportModal: React.FC<MigrationReportModalProps> = ({
             </div>
           </div>
 
+          {report.usage && (
+            <TokenUsageSection
+              usage={report.usage}
+              costEstimate={report.costEstimate}
+            />
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Key Wins */}
             <div>
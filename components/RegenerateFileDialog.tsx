@@ -0,0 +1,164 @@
+import React from 'react';
+import { FileCode2, GitBranch, RefreshCw, X } from 'lucide-react';
+import type { RegenerationImpact } from '../services/migrationOrchestrator';
+
+interface RegenerateFileDialogProps {
+  path: string;
+  impact: RegenerationImpact | null;
+  defaultIncludeDependents?: boolean;
+  onCancel: () => void;
+  onConfirm: (instructions: string, includeDependents: boolean) => void;
+}
+
+const ImpactList: React.FC<{
+  title: string;
+  paths: string[];
+  emptyText: string;
+}> = ({ title, paths, emptyText }) => (
+  <div>
+    <p className="text-[11px] uppercase tracking-wide text-gray-500 mb-1">
+      {title} ({paths.length})
+    </p>
+    {paths.length === 0 ? (
+      <p className="text-xs text-gray-500 italic">{emptyText}</p>
+    ) : (
+      <ul className="max-h-28 overflow-y-auto custom-scrollbar space-y-0.5">
+        {paths.map((path) => (
+          <li key={path} className="text-xs font-mono text-gray-300 truncate">
+            {path}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const RegenerateFileDialog: React.FC<RegenerateFileDialogProps> = ({
+  path,
+  impact,
+  defaultIncludeDependents = false,
+  onCancel,
+  onConfirm,
+}) => {
+  const dependentCount = impact?.dependents.length ?? 0;
+  const [instructions, setInstructions] = React.useState('');
+  const [includeDependents, setIncludeDependents] = React.useState(
+    defaultIncludeDependents && dependentCount > 0,
+  );
+  const indirectCount = dependentCount - (impact?.usedBy.length ?? 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="regenerate-file-title"
+        className="bg-dark-900 border border-dark-700 rounded-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto shadow-2xl relative"
+      >
+        <button
+          onClick={onCancel}
+          aria-label="Close dialog"
+          className="absolute top-4 right-4 p-1.5 rounded-lg text-gray-400 hover:text-foreground-primary hover:bg-dark-800 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <h2
+              id="regenerate-file-title"
+              className="text-lg font-display font-bold text-foreground-primary flex items-center gap-2"
+            >
+              <RefreshCw className="w-4 h-4 text-accent-400" />
+              Regenerate file
+            </h2>
+            <p className="mt-1 text-xs font-mono text-gray-400 break-all">
+              {path}
+            </p>
+          </div>
+
+          {impact && (
+            <div className="grid gap-4 sm:grid-cols-2 p-4 rounded-xl bg-dark-800/60 border border-dark-700">
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-gray-200 flex items-center gap-1.5">
+                  <GitBranch className="w-3.5 h-3.5 text-accent-400" />
+                  Generated project
+                </p>
+                <ImpactList
+                  title="Used by"
+                  paths={impact.usedBy}
+                  emptyText="No generated file imports it."
+                />
+                {indirectCount > 0 && (
+                  <p className="text-[11px] text-gray-500">
+                    +{indirectCount} indirect dependent(s)
+                  </p>
+                )}
+              </div>
+              <div className="space-y-3">
+                <p className="text-xs font-semibold text-gray-200 flex items-center gap-1.5">
+                  <FileCode2 className="w-3.5 h-3.5 text-blue-400" />
+                  Legacy source
+                </p>
+                <ImpactList
+                  title="Derived from"
+                  paths={impact.derivedFrom}
+                  emptyText="No mapped legacy file."
+                />
+                {impact.derivedFrom.length > 0 && (
+                  <ImpactList
+                    title="Legacy used by"
+                    paths={impact.legacyUsedBy}
+                    emptyText="No legacy file imports it."
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="text-xs text-gray-400">
+              Instructions (optional)
+            </span>
+            <textarea
+              value={instructions}
+              onChange={(event) => setInstructions(event.target.value)}
+              rows={3}
+              placeholder="Leave blank to use defaults."
+              className="mt-1 w-full rounded-lg bg-dark-800 border border-dark-600 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-accent-500"
+            />
+          </label>
+
+          <label
+            className={`flex items-center gap-2 text-xs ${dependentCount > 0 ? 'text-gray-300 cursor-pointer' : 'text-gray-600'}`}
+          >
+            <input
+              type="checkbox"
+              checked={includeDependents}
+              disabled={dependentCount === 0}
+              onChange={(event) => setIncludeDependents(event.target.checked)}
+            />
+            Also regenerate {dependentCount} dependent file(s)
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onCancel}
+              className="px-3 py-2 rounded-lg text-xs font-semibold text-gray-300 border border-dark-600 hover:bg-dark-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(instructions, includeDependents)}
+              className="px-3 py-2 rounded-lg text-xs font-semibold bg-accent-600 hover:bg-accent-500 text-white"
+            >
+              {includeDependents ? 'Regenerate with dependents' : 'Regenerate'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegenerateFileDialog;
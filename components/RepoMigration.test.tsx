@@ -10,6 +10,7 @@ const {
   mockRunRegenerateFilePhase,
   mockRunVerificationPhase,
   mockGenerateReport,
+  mockAnalyzeRegenerationImpact,
 } = vi.hoisted(() => ({
   mockValidateGeminiApiKey: vi.fn(),
   mockRunAnalyzePhase: vi.fn(),
@@ -19,6 +20,7 @@ const {
   mockRunRegenerateFilePhase: vi.fn(),
   mockRunVerificationPhase: vi.fn(),
   mockGenerateReport: vi.fn(),
+  mockAnalyzeRegenerationImpact: vi.fn(),
 }));
 
 vi.mock('../services/geminiService', () => ({
@@ -69,6 +71,8 @@ vi.mock('../services/migrationOrchestrator', () => {
   };
 
   return {
+    analyzeRegenerationImpact: mockAnalyzeRegenerationImpact,
+    estimateMigrationCost: vi.fn(),
     flattenFiles,
     generateReport: mockGenerateReport,
     isImageFile: (filename: string) =>
@@ -207,6 +211,7 @@ describe('RepoMigration', () => {
           'app/page.tsx',
           'export default function Page() { return <main>Hello</main>; }',
         );
+        return { stopped: false, skippedFiles: [] };
       },
     );
 
@@ -249,19 +254,19 @@ describe('RepoMigration', () => {
     });
   });
 
-  it('shows inline validation and disables analysis for non-GitHub URLs', () => {
+  it('shows inline validation and disables analysis for unsupported hosts', () => {
     render(<RepoMigration />);
 
     fireEvent.change(
       screen.getByPlaceholderText('https://github.com/username/repository'),
       {
-        target: { value: 'https://gitlab.com/example-org/legacy-app' },
+        target: { value: 'https://git.example.com/example-org/legacy-app' },
       },
     );
 
     expect(
       screen.getByText(
-        /Enter a GitHub repository URL like\s+https:\/\/github\.com\/owner\/repo\./i,
+        /Enter a GitHub, GitLab, Bitbucket or Gitea repository URL like\s+https:\/\/github\.com\/owner\/repo\./i,
       ),
     ).toBeInTheDocument();
     expect(
@@ -270,6 +275,58 @@ describe('RepoMigration', () => {
     expect(mockValidateGeminiApiKey).not.toHaveBeenCalled();
   });
 
+  it('accepts self-hosted repository URLs once the server is configured', () => {
+    render(<RepoMigration />);
+
+    fireEvent.change(screen.getByLabelText('Self-hosted server type'), {
+      target: { value: 'gitea' },
+    });
+    fireEvent.change(screen.getByLabelText('Self-hosted server URL'), {
+      target: { value: 'https://git.example.com' },
+    });
+    fireEvent.change(
+      screen.getByPlaceholderText('https://github.com/username/repository'),
+      {
+        target: { value: 'https://git.example.com/example-org/legacy-app' },
+      },
+    );
+
+    expect(
+      screen.queryByText(/Enter a GitHub, GitLab, Bitbucket or Gitea/i),
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByPlaceholderText('Gitea access token (optional)'),
+    ).toBeInTheDocument();
+  });
+
+  it('remembers scope patterns per repository', () => {
+    render(<RepoMigration />);
+    const urlInput = screen.getByPlaceholderText(
+      'https://github.com/username/repository',
+    );
+
+    fireEvent.change(urlInput, {
+      target: { value: 'https://github.com/example-org/legacy-app' },
+    });
+    const excludeInput = screen.getByLabelText('Exclude Patterns');
+    fireEvent.change(excludeInput, {
+      target: { value: 'vendor/**\n\n**/*.min.js' },
+    });
+    fireEvent.blur(excludeInput);
+
+    fireEvent.change(urlInput, {
+      target: { value: 'https://github.com/example-org/other-app' },
+    });
+    expect(screen.getByLabelText('Exclude Patterns')).toHaveValue('');
+
+    fireEvent.change(urlInput, {
+      target: { value: 'https://github.com/example-org/legacy-app' },
+    });
+    expect(screen.getByLabelText('Exclude Patterns')).toHaveValue(
+      'vendor/**\n**/*.min.js',
+    );
+  });
+
   it('normalizes valid GitHub URLs on blur', async () => {
     render(<RepoMigration />);
 
@@ -307,7 +364,10 @@ describe('RepoMigration', () => {
     await waitFor(() => {
       expect(mockRunAnalyzePhase).toHaveBeenCalledWith(
         expect.objectContaining({
-          url: 'https://github.com/example-org/legacy-app',
+          source: expect.objectContaining({
+            kind: 'github',
+            label: 'example-org/legacy-app',
+          }),
         }),
       );
     });
@@ -395,7 +455,7 @@ describe('RepoMigration', () => {
       ).toBeInTheDocument();
     });
 
-    expect(screen.getByText(/Estimated Gemini Usage/i)).toBeInTheDocument();
+    expect(screen.getByText(/Estimated Model Usage/i)).toBeInTheDocument();
     expect(screen.getByText(/~\$0\.0123/i)).toBeInTheDocument();
   });
 
@@ -483,9 +543,12 @@ describe('RepoMigration', () => {
   });
 
   it('regenerates a single target file with optional instructions', async () => {
-    const promptSpy = vi
-      .spyOn(window, 'prompt')
-      .mockReturnValue('Use server component style');
+    mockAnalyzeRegenerationImpact.mockReturnValue({
+      usedBy: ['components/Shell.tsx'],
+      dependents: ['components/Shell.tsx'],
+      derivedFrom: ['src/App.jsx'],
+      legacyUsedBy: [],
+    });
 
     render(<RepoMigration />);
 
@@ -521,15 +584,22 @@ describe('RepoMigration', () => {
 
     fireEvent.click(screen.getByRole('button', { name: /Regenerate File/i }));
 
+    const dialog = screen.getByRole('dialog');
+    expect(dialog).toHaveTextContent('components/Shell.tsx');
+    expect(dialog).toHaveTextContent('src/App.jsx');
+    fireEvent.change(screen.getByLabelText(/Instructions/i), {
+      target: { value: 'Use server component style' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /^Regenerate$/ }));
+
     await waitFor(() => {
       expect(mockRunRegenerateFilePhase).toHaveBeenCalledWith(
         expect.objectContaining({
           targetPath: 'app/page.tsx',
           userInstructions: 'Use server component style',
+          dependentPaths: [],
         }),
       );
     });
-
-    promptSpy.mockRestore();
   });
 });
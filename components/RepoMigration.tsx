@@ -23,18 +23,49 @@ import {
   Clock3,
   Copy,
   Check,
+  KeyRound,
+  ShieldCheck,
+  Tag,
+  Pin,
+  FolderTree,
+  FileArchive,
+  FileUp,
+  FolderUp,
+  Trash2,
 } from 'lucide-react';
 import AgentLogs from './AgentLogs';
+import AnalysisPanel from './AnalysisPanel';
 import FileExplorer from './FileExplorer';
 import CodeEditor from './CodeEditor';
 import MigrationReportModal from './MigrationReportModal';
 import MigrationConfigModal from './MigrationConfig';
 import MigrationPlaybookPanel from './MigrationPlaybookPanel';
 import MigrationHistoryDashboard from './MigrationHistoryDashboard';
+import ScopePatternsEditor from './ScopePatternsEditor';
+import DependencyGraphPanel from './DependencyGraphPanel';
+import RegenerateFileDialog from './RegenerateFileDialog';
+import BudgetPauseDialog from './BudgetPauseDialog';
+import { SKIPPED_FILE_REASON_LABELS } from '../services/fileClassifier';
+import {
+  DEFAULT_LLM_SETTINGS,
+  getUnpricedModels,
+} from '../services/llmProviders';
+import type { LlmSettings } from '../services/llmProviders';
 import { NextjsIcon, ReactIcon, VueIcon, PythonIcon, PhpIcon } from './Icons';
 import { AgentStatus, FileNode } from '../types';
 import { useRepoMigration, isImageFile } from '../hooks/useRepoMigration';
-import { normalizeGitHubRepoUrl } from '../services/githubService';
+import {
+  getSourceHostName,
+  hasAmbiguousSourceRef,
+  normalizeSourceUrl,
+  parseSourceUrl,
+} from '../services/sourceHosts';
+import {
+  collectDroppedFiles,
+  getLocalSourceName,
+  isLocalSourceUrl,
+  LocalSourceFile,
+} from '../services/localSourceService';
 
 const flattenFilePaths = (nodes: FileNode[]): string[] => {
   const filePaths: string[] = [];
@@ -71,7 +102,11 @@ const getFrameworkIcon = (name: string) => {
   return <Code2 className="w-4 h-4 text-gray-400" />;
 };
 
-const RepoMigration: React.FC = () => {
+interface RepoMigrationProps {
+  llmSettings?: LlmSettings;
+}
+
+const RepoMigration: React.FC<RepoMigrationProps> = ({ llmSettings }) => {
   const {
     state,
     isDiagramOpen,
@@ -87,10 +122,29 @@ const RepoMigration: React.FC = () => {
     isAwaitingPlanApproval,
     regeneratingFilePath,
     selectedNode,
+    accessToken,
+    isLoadingRefs,
+    isLoadingLocalSource,
+    sourceCacheStats,
+    dependencyGraph,
     setUrl,
+    setBranch,
+    setRootPath,
+    setIngestionMode,
+    setSelfHostedServer,
+    loadRepoRefs,
+    loadLocalSource,
+    setAccessToken,
     setConfig,
     setIncludeDirectories,
     setExcludeDirectories,
+    setScopePatterns,
+    excludeSourceFiles,
+    setMaxFileSizeKb,
+    setContextTokenBudget,
+    budgetPause,
+    setRunBudget,
+    resolveBudgetPause,
     setActiveTree,
     startRepoProcess,
     cancelCurrentRun,
@@ -99,11 +153,20 @@ const RepoMigration: React.FC = () => {
     setPlaybookNotes,
     setClarificationAnswer,
     clearHistory,
+    refreshSourceCacheStats,
+    clearSourceCache,
     handleDownload,
     handleFileSelect,
     handleGeneratedFileEdit,
+    getRegenerationImpact,
     regenerateTargetFile,
-  } = useRepoMigration();
+  } = useRepoMigration(llmSettings);
+
+  const sourceCacheSizeLabel = sourceCacheStats
+    ? sourceCacheStats.totalBytes >= 1024 * 1024
+      ? `${(sourceCacheStats.totalBytes / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.ceil(sourceCacheStats.totalBytes / 1024)} KB`
+    : null;
 
   const rateLimitResetLabel = state.githubRateLimit?.resetAt
     ? new Date(state.githubRateLimit.resetAt).toLocaleTimeString([], {
@@ -118,6 +181,17 @@ const RepoMigration: React.FC = () => {
     'idle' | 'copied' | 'error'
   >('idle');
 
+  const [mainView, setMainView] = React.useState<'code' | 'graph'>('code');
+  const sourceFilePaths = React.useMemo(
+    () => flattenFilePaths(state.files),
+    [state.files],
+  );
+  const targetFilePaths = React.useMemo(
+    () => flattenFilePaths(state.generatedFiles),
+    [state.generatedFiles],
+  );
+  const isGraphViewOpen = mainView === 'graph' && dependencyGraph !== null;
+
   const activeFilePaths = React.useMemo(() => {
     const tree =
       state.activeTree === 'source' ? state.files : state.generatedFiles;
@@ -154,10 +228,22 @@ const RepoMigration: React.FC = () => {
   );
   const trimmedRepoUrl = state.url.trim();
   const normalizedRepoUrl = React.useMemo(
-    () => normalizeGitHubRepoUrl(state.url),
-    [state.url],
+    () => normalizeSourceUrl(state.url, state.selfHostedServer),
+    [state.selfHostedServer, state.url],
   );
-  const isRepoUrlValid = Boolean(normalizedRepoUrl);
+  const sourceHostKind = React.useMemo(
+    () => parseSourceUrl(state.url, state.selfHostedServer)?.kind || null,
+    [state.selfHostedServer, state.url],
+  );
+  const sourceHostName = sourceHostKind
+    ? getSourceHostName(sourceHostKind)
+    : 'GitHub';
+  const supportsArchiveDownload =
+    !sourceHostKind || sourceHostKind === 'github';
+  const isLocalSource = isLocalSourceUrl(state.url);
+  const localSourceName = getLocalSourceName(state.url);
+  const isRepoUrlValid = Boolean(normalizedRepoUrl) || isLocalSource;
+  const [isDraggingSource, setIsDraggingSource] = React.useState(false);
   const showRepoUrlError = trimmedRepoUrl.length > 0 && !isRepoUrlValid;
   const isAnalyzeDisabled =
     isBusy || trimmedRepoUrl.length === 0 || !isRepoUrlValid;
@@ -219,9 +305,64 @@ const RepoMigration: React.FC = () => {
 
   const handleRepoUrlBlur = React.useCallback(() => {
     if (normalizedRepoUrl && normalizedRepoUrl !== state.url) {
+      if (hasAmbiguousSourceRef(state.url, state.selfHostedServer)) {
+        // Refs like release/1.2 can only be told apart from the subpath once
+        // the branch and tag names are known.
+        void loadRepoRefs();
+      }
       setUrl(normalizedRepoUrl);
     }
-  }, [normalizedRepoUrl, setUrl, state.url]);
+  }, [
+    loadRepoRefs,
+    normalizedRepoUrl,
+    setUrl,
+    state.selfHostedServer,
+    state.url,
+  ]);
+
+  const handleLocalFilesSelected = React.useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const fileList = event.target.files;
+      const files: LocalSourceFile[] = [];
+      for (let index = 0; index < (fileList?.length || 0); index++) {
+        const file = fileList?.item(index);
+        if (file) {
+          files.push({ path: file.webkitRelativePath || file.name, file });
+        }
+      }
+      event.target.value = '';
+      void loadLocalSource(files);
+    },
+    [loadLocalSource],
+  );
+
+  const handleSourceDragOver = React.useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      if (isBusy || !event.dataTransfer.types.includes('Files')) {
+        return;
+      }
+      event.preventDefault();
+      setIsDraggingSource(true);
+    },
+    [isBusy],
+  );
+
+  const handleSourceDrop = React.useCallback(
+    async (event: React.DragEvent<HTMLDivElement>) => {
+      if (isBusy || !event.dataTransfer.types.includes('Files')) {
+        return;
+      }
+      event.preventDefault();
+      setIsDraggingSource(false);
+      const files = await collectDroppedFiles(event.dataTransfer);
+      await loadLocalSource(files);
+    },
+    [isBusy, loadLocalSource],
+  );
+
+  const isRevisionPinned = Boolean(
+    state.revision && state.branch === state.revision.commitSha,
+  );
 
   const handleAnalyzeClick = React.useCallback(() => {
     if (isAnalyzeDisabled) {
@@ -237,6 +378,16 @@ const RepoMigration: React.FC = () => {
     void approveMigrationPlan();
   }, [approveMigrationPlan, isAwaitingPlanApproval]);
 
+  const [regenerateRequest, setRegenerateRequest] = React.useState<{
+    path: string;
+    includeDependents: boolean;
+  } | null>(null);
+  const regenerateImpact = React.useMemo(
+    () =>
+      regenerateRequest ? getRegenerationImpact(regenerateRequest.path) : null,
+    [getRegenerationImpact, regenerateRequest],
+  );
+
   const handleRegenerateClick = React.useCallback(() => {
     if (
       !(
@@ -248,20 +399,11 @@ const RepoMigration: React.FC = () => {
       return;
     }
 
-    const instructions = window.prompt(
-      'Optional instructions for this file regeneration (leave blank to use defaults).',
-      '',
-    );
-
-    if (instructions === null) {
-      return;
-    }
-
-    void regenerateTargetFile(selectedNode.path, instructions);
-  }, [regenerateTargetFile, selectedNode, state.activeTree]);
+    setRegenerateRequest({ path: selectedNode.path, includeDependents: false });
+  }, [selectedNode, state.activeTree]);
 
   const handleRegenerateFromExplorer = React.useCallback(
-    (path: string) => {
+    (path: string, options: { includeDependents?: boolean } = {}) => {
       if (
         state.status !== AgentStatus.COMPLETED &&
         state.status !== AgentStatus.VERIFYING
@@ -269,20 +411,44 @@ const RepoMigration: React.FC = () => {
         return;
       }
 
-      const instructions = window.prompt(
-        `Optional instructions for regenerating ${path} (leave blank to use defaults).`,
-        '',
-      );
+      setRegenerateRequest({
+        path,
+        includeDependents: Boolean(options.includeDependents),
+      });
+    },
+    [state.status],
+  );
 
-      if (instructions === null) {
+  const handleRegenerateConfirm = React.useCallback(
+    (instructions: string, includeDependents: boolean) => {
+      if (!regenerateRequest) {
         return;
       }
-
-      void regenerateTargetFile(path, instructions);
+      setRegenerateRequest(null);
+      void regenerateTargetFile(regenerateRequest.path, instructions, {
+        includeDependents,
+      });
     },
-    [regenerateTargetFile, state.status],
+    [regenerateRequest, regenerateTargetFile],
+  );
+
+  const getGeneratedFileUsedBy = React.useCallback(
+    (path: string) => getRegenerationImpact(path)?.usedBy || [],
+    [getRegenerationImpact],
   );
 
+  const unreachableFiles = state.repoScope?.unreachableFiles;
+  const unreachablePaths = React.useMemo(
+    () => new Set(unreachableFiles || []),
+    [unreachableFiles],
+  );
+  // Excluding only makes sense before scaffolding reads the source.
+  const canExcludeUnreachable =
+    !isBusy && state.generatedFiles.length === 0 && unreachablePaths.size > 0;
+  const handleExcludeUnreachable = React.useCallback(() => {
+    excludeSourceFiles(unreachableFiles || []);
+  }, [excludeSourceFiles, unreachableFiles]);
+
   React.useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       const target = event.target as HTMLElement | null;
@@ -420,7 +586,16 @@ const RepoMigration: React.FC = () => {
   return (
     <>
       <div className="flex flex-col gap-6 h-full min-h-0 overflow-y-auto">
-        <div className="bg-dark-800 p-4 rounded-xl border border-dark-700 flex flex-col gap-4 shrink-0 shadow-lg">
+        <div
+          onDragOver={handleSourceDragOver}
+          onDragLeave={() => setIsDraggingSource(false)}
+          onDrop={(event) => void handleSourceDrop(event)}
+          className={`bg-dark-800 p-4 rounded-xl border flex flex-col gap-4 shrink-0 shadow-lg transition-colors ${
+            isDraggingSource
+              ? 'border-accent-500 border-dashed'
+              : 'border-dark-700'
+          }`}
+        >
           <div className="flex flex-col gap-2 w-full">
             <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
               <span className="text-gray-500 font-medium uppercase tracking-wider w-full sm:w-auto">
@@ -500,22 +675,300 @@ const RepoMigration: React.FC = () => {
             </div>
             {showRepoUrlError && (
               <p className="text-xs text-red-300">
-                Enter a GitHub repository URL like
-                {' https://github.com/owner/repo'}.
+                Enter a GitHub, GitLab, Bitbucket or Gitea repository URL like
+                {' https://github.com/owner/repo'}. Self-hosted servers need
+                their base URL below.
               </p>
             )}
             {!showRepoUrlError && (
               <p className="text-xs text-gray-500">
-                Paste any public GitHub repository link. We will normalize it
-                for you.
+                Paste a GitHub, GitLab or Bitbucket repository link. Links to a
+                branch or folder (/tree/&lt;ref&gt;/&lt;path&gt;) also set the
+                ref and project root.
               </p>
             )}
+            <div className="flex gap-2 w-full">
+              <select
+                name="self-hosted-kind"
+                id="self-hosted-kind"
+                value={state.selfHostedServer.kind}
+                onChange={(event) =>
+                  setSelfHostedServer({
+                    ...state.selfHostedServer,
+                    kind: event.target
+                      .value as typeof state.selfHostedServer.kind,
+                  })
+                }
+                disabled={isBusy}
+                aria-label="Self-hosted server type"
+                className="bg-dark-900 border border-dark-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-accent-500 transition-colors"
+              >
+                <option value="github">GitHub Enterprise</option>
+                <option value="gitlab">GitLab</option>
+                <option value="gitea">Gitea</option>
+              </select>
+              <div className="relative flex-1">
+                <Server className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+                <input
+                  type="text"
+                  name="self-hosted-url"
+                  id="self-hosted-url"
+                  autoComplete="off"
+                  value={state.selfHostedServer.baseUrl}
+                  onChange={(event) =>
+                    setSelfHostedServer({
+                      ...state.selfHostedServer,
+                      baseUrl: event.target.value,
+                    })
+                  }
+                  disabled={isBusy}
+                  placeholder="Self-hosted server URL, e.g. https://git.example.com (optional)"
+                  inputMode="url"
+                  aria-label="Self-hosted server URL"
+                  className="w-full bg-dark-900 border border-dark-600 rounded-lg pl-10 pr-4 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-accent-500 transition-colors"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+              <span>No repository host? Upload a</span>
+              <label
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-dark-900 border border-dark-600 text-gray-300 transition-colors ${
+                  isBusy || isLoadingLocalSource
+                    ? 'opacity-50 cursor-not-allowed'
+                    : 'cursor-pointer hover:border-accent-500/50 hover:text-foreground-primary'
+                }`}
+              >
+                <FileUp className="w-3.5 h-3.5" />
+                Zip file
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="sr-only"
+                  disabled={isBusy || isLoadingLocalSource}
+                  onChange={handleLocalFilesSelected}
+                  aria-label="Upload a zip file"
+                />
+              </label>
+              <label
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-dark-900 border border-dark-600 text-gray-300 transition-colors ${
+                  isBusy || isLoadingLocalSource
+                    ? 'opacity-50 cursor-not-allowed'
+                    : 'cursor-pointer hover:border-accent-500/50 hover:text-foreground-primary'
+                }`}
+              >
+                <FolderUp className="w-3.5 h-3.5" />
+                Folder
+                <input
+                  type="file"
+                  multiple
+                  ref={(node) => node?.setAttribute('webkitdirectory', '')}
+                  className="sr-only"
+                  disabled={isBusy || isLoadingLocalSource}
+                  onChange={handleLocalFilesSelected}
+                  aria-label="Upload a folder"
+                />
+              </label>
+              <span>or drop one here.</span>
+              {isLoadingLocalSource && (
+                <Loader2 className="w-3.5 h-3.5 animate-spin text-accent-400" />
+              )}
+              {isLocalSource && localSourceName && (
+                <span className="px-2 py-0.5 rounded bg-dark-900 border border-dark-700 font-mono text-gray-300">
+                  Using {localSourceName}
+                </span>
+              )}
+            </div>
+            {!isLocalSource && (
+              <>
+                <div className="flex gap-2 w-full">
+                  <div className="relative flex-1">
+                    <GitBranch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+                    <input
+                      type="text"
+                      name="repo-ref"
+                      id="repo-ref"
+                      autoComplete="off"
+                      list="repo-ref-options"
+                      value={state.branch}
+                      onChange={(event) => setBranch(event.target.value)}
+                      disabled={isBusy}
+                      placeholder={
+                        state.availableRefs
+                          ? `Default branch (${state.availableRefs.defaultBranch})`
+                          : 'Branch, tag or commit SHA (default branch)'
+                      }
+                      aria-label="Branch, tag or commit SHA"
+                      className="w-full bg-dark-900 border border-dark-600 rounded-lg pl-10 pr-4 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-accent-500 transition-colors"
+                    />
+                    <datalist id="repo-ref-options">
+                      {state.availableRefs?.branches.map((name) => (
+                        <option key={`branch:${name}`} value={name}>
+                          Branch
+                        </option>
+                      ))}
+                      {state.availableRefs?.tags.map((name) => (
+                        <option key={`tag:${name}`} value={name}>
+                          Tag
+                        </option>
+                      ))}
+                    </datalist>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void loadRepoRefs()}
+                    disabled={isBusy || isLoadingRefs || !isRepoUrlValid}
+                    title="Load branches and tags"
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-dark-900 border border-dark-600 text-xs text-gray-300 hover:text-foreground-primary hover:border-accent-500/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoadingRefs ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : (
+                      <Tag className="w-3.5 h-3.5" />
+                    )}
+                    {state.availableRefs
+                      ? `${state.availableRefs.branches.length} branches · ${state.availableRefs.tags.length} tags`
+                      : 'Load refs'}
+                  </button>
+                </div>
+              </>
+            )}
+            <div className="relative w-full">
+              <FolderTree className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+              <input
+                type="text"
+                name="repo-root-path"
+                id="repo-root-path"
+                autoComplete="off"
+                value={state.rootPath}
+                onChange={(event) => setRootPath(event.target.value)}
+                disabled={isBusy}
+                placeholder="Project root inside the repo, e.g. apps/legacy-admin (optional)"
+                aria-label="Project root directory"
+                className="w-full bg-dark-900 border border-dark-600 rounded-lg pl-10 pr-4 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-accent-500 transition-colors"
+              />
+            </div>
+            {state.revision && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <span className="font-mono">
+                  Analyzed {state.revision.ref} @{' '}
+                  <span className="text-gray-200">
+                    {state.revision.commitSha.slice(0, 7)}
+                  </span>
+                  {state.repoScope?.rootPath && (
+                    <> · root {state.repoScope.rootPath}/</>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setBranch(state.revision?.commitSha || '')}
+                  disabled={isBusy || isRevisionPinned}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded border border-dark-600 hover:border-accent-500/50 hover:text-foreground-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Pin className="w-3 h-3" />
+                  {isRevisionPinned ? 'Pinned' : 'Pin this commit'}
+                </button>
+              </div>
+            )}
+            <div className="relative w-full">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+              <input
+                type="password"
+                name="access-token"
+                id="access-token"
+                autoComplete="off"
+                data-1p-ignore
+                data-lpignore="true"
+                value={accessToken}
+                onChange={(event) => setAccessToken(event.target.value)}
+                disabled={isBusy}
+                placeholder={`${sourceHostName} access token (optional)`}
+                aria-label="Repository access token"
+                className="w-full bg-dark-900 border border-dark-600 rounded-lg pl-10 pr-4 py-2 text-sm text-gray-200 focus:outline-none focus:border-accent-500 transition-colors"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Required for private repositories and raises the GitHub limit to
+              5,000 requests/hour. It is sent to whichever host the URL points
+              at, stays in memory for this tab and is never saved to browser
+              storage.
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+              <FileArchive className="w-3.5 h-3.5" />
+              <span>Source download:</span>
+              <div
+                role="radiogroup"
+                aria-label="Source download mode"
+                className="flex rounded-md border border-dark-600 overflow-hidden"
+              >
+                {(
+                  [
+                    { mode: 'archive', label: 'Single archive' },
+                    { mode: 'contents', label: 'Per-file API' },
+                  ] as const
+                ).map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    role="radio"
+                    aria-checked={state.ingestionMode === mode}
+                    onClick={() => setIngestionMode(mode)}
+                    disabled={isBusy}
+                    className={`px-2.5 py-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      state.ingestionMode === mode
+                        ? 'bg-accent-900/20 text-accent-400'
+                        : 'bg-dark-900 text-gray-400 hover:text-foreground-primary'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <span className="text-gray-500">
+                {!supportsArchiveDownload
+                  ? `${sourceHostName} sources are always read one file at a time.`
+                  : state.ingestionMode === 'archive'
+                    ? 'One zipball download per commit; files are read from memory.'
+                    : 'One GitHub request per file (max 50 context files).'}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+              <Database className="w-3.5 h-3.5" />
+              <span>Source cache:</span>
+              <span className="text-gray-500" aria-live="polite">
+                {sourceCacheStats
+                  ? `${sourceCacheStats.blobCount} files, ${sourceCacheStats.responseCount} tree/repo responses (~${sourceCacheSizeLabel})`
+                  : 'Unchanged GitHub files and trees are reused across runs.'}
+              </span>
+              <button
+                type="button"
+                onClick={() => void refreshSourceCacheStats()}
+                className="flex items-center gap-1 px-2 py-0.5 rounded border border-dark-600 bg-dark-900 hover:text-foreground-primary transition-colors"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Inspect
+              </button>
+              <button
+                type="button"
+                onClick={() => void clearSourceCache()}
+                disabled={isBusy}
+                className="flex items-center gap-1 px-2 py-0.5 rounded border border-dark-600 bg-dark-900 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-3 h-3" />
+                Clear cache
+              </button>
+            </div>
+            <ScopePatternsEditor
+              key={`${normalizedRepoUrl}#${state.rootPath}`}
+              patterns={state.scopePatterns}
+              disabled={isBusy}
+              onChange={setScopePatterns}
+            />
             {state.status === AgentStatus.ERROR && (
               <div className="flex items-center gap-2 p-3 rounded-lg bg-red-900/20 border border-red-500/30 text-red-200 text-sm animate-in fade-in slide-in-from-top-2">
                 <AlertCircle className="w-4 h-4 shrink-0 text-red-400" />
                 <span>
                   Analysis failed. Please check the URL, repository privacy
-                  settings, or GitHub API limits and try again.
+                  settings, or {sourceHostName} API limits and try again.
                 </span>
               </div>
             )}
@@ -526,6 +979,20 @@ const RepoMigration: React.FC = () => {
                   <Github className="w-3.5 h-3.5" />
                   Rate Limit
                 </div>
+                <span
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded border font-mono ${
+                    state.githubRateLimit.authenticated
+                      ? 'bg-green-900/20 border-green-500/30 text-green-200'
+                      : 'bg-dark-800 border-dark-700 text-gray-400'
+                  }`}
+                >
+                  {state.githubRateLimit.authenticated && (
+                    <ShieldCheck className="w-3.5 h-3.5" />
+                  )}
+                  {state.githubRateLimit.authenticated
+                    ? 'Authenticated'
+                    : 'Anonymous'}
+                </span>
                 <span className="px-2 py-0.5 rounded bg-dark-800 border border-dark-700 font-mono">
                   Remaining: {state.githubRateLimit.remaining ?? '--'} /{' '}
                   {state.githubRateLimit.limit ?? '--'}
@@ -552,8 +1019,127 @@ const RepoMigration: React.FC = () => {
                       Truncated to first {state.repoScope.analyzedFiles} files
                     </span>
                   )}
+                  {state.repoScope.treeIndex &&
+                    (state.repoScope.treeIndex.complete ? (
+                      <span className="px-2 py-0.5 rounded bg-green-900/20 border border-green-500/30 text-green-200">
+                        Index complete
+                        {state.repoScope.treeIndex.walkedDirectories > 0 &&
+                          ` (${state.repoScope.treeIndex.walkedDirectories} dirs walked)`}
+                      </span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded bg-yellow-900/30 border border-yellow-500/40 text-yellow-200">
+                        Index incomplete
+                      </span>
+                    ))}
+                  {(state.repoScope.skippedFiles?.length ?? 0) > 0 && (
+                    <span className="px-2 py-0.5 rounded bg-dark-800 border border-dark-700">
+                      Skipped: {state.repoScope.skippedFiles?.length}
+                    </span>
+                  )}
+                  {(state.repoScope.dependencyCycles?.length ?? 0) > 0 && (
+                    <span className="px-2 py-0.5 rounded bg-yellow-900/30 border border-yellow-500/40 text-yellow-200">
+                      Cycles: {state.repoScope.dependencyCycles?.length}
+                    </span>
+                  )}
+                  {unreachablePaths.size > 0 && (
+                    <span className="px-2 py-0.5 rounded bg-dark-800 border border-dark-700 text-gray-400">
+                      Unreachable: {unreachablePaths.size}
+                    </span>
+                  )}
+                  <label className="flex items-center gap-1.5 text-gray-400">
+                    Skip files over
+                    <input
+                      type="number"
+                      min={1}
+                      step={64}
+                      value={state.maxFileSizeKb}
+                      onChange={(event) =>
+                        setMaxFileSizeKb(Number(event.target.value))
+                      }
+                      disabled={isBusy}
+                      aria-label="Maximum source file size in KB"
+                      className="w-20 bg-dark-950 border border-dark-700 rounded px-1.5 py-0.5 text-gray-200 focus:outline-none focus:border-accent-500"
+                    />
+                    KB
+                  </label>
                 </div>
 
+                {state.repoScope.skippedFiles &&
+                  state.repoScope.skippedFiles.length > 0 && (
+                    <details className="text-xs text-gray-400">
+                      <summary className="cursor-pointer select-none hover:text-foreground-primary">
+                        {state.repoScope.skippedFiles.length} file(s) kept out
+                        of the migration context
+                      </summary>
+                      <ul className="mt-2 max-h-40 overflow-y-auto custom-scrollbar flex flex-col gap-1 font-mono">
+                        {state.repoScope.skippedFiles.map((file) => (
+                          <li
+                            key={file.path}
+                            className="flex items-center justify-between gap-3"
+                          >
+                            <span className="truncate">{file.path}</span>
+                            <span className="shrink-0 text-gray-500">
+                              {SKIPPED_FILE_REASON_LABELS[file.reason]}
+                              {typeof file.size === 'number' &&
+                                ` · ${Math.ceil(file.size / 1024)} KB`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+
+                {state.repoScope.dependencyCycles &&
+                  state.repoScope.dependencyCycles.length > 0 && (
+                    <details className="text-xs text-gray-400">
+                      <summary className="cursor-pointer select-none hover:text-foreground-primary">
+                        {state.repoScope.dependencyCycles.length} import
+                        cycle(s) in the source; their target files are generated
+                        together with shared context
+                      </summary>
+                      <ul className="mt-2 max-h-40 overflow-y-auto custom-scrollbar flex flex-col gap-1 font-mono">
+                        {state.repoScope.dependencyCycles.map((cycle) => (
+                          <li key={cycle.join('|')} className="break-all">
+                            {cycle.join(' ↔ ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+
+                {unreachableFiles && unreachableFiles.length > 0 && (
+                  <details className="text-xs text-gray-400">
+                    <summary className="cursor-pointer select-none hover:text-foreground-primary">
+                      {unreachableFiles.length} file(s) not reachable from any
+                      of the {state.repoScope.entryPoints?.length ?? 0} detected
+                      entry point(s)
+                    </summary>
+                    <ul className="mt-2 max-h-40 overflow-y-auto custom-scrollbar flex flex-col gap-1 font-mono">
+                      {unreachableFiles.map((path) => (
+                        <li key={path} className="truncate">
+                          {path}
+                        </li>
+                      ))}
+                    </ul>
+                    {canExcludeUnreachable && (
+                      <button
+                        onClick={handleExcludeUnreachable}
+                        className="mt-2 px-2 py-1 rounded border border-dark-600 text-gray-300 hover:bg-dark-800 hover:text-foreground-primary"
+                      >
+                        Exclude unreachable files from scope
+                      </button>
+                    )}
+                  </details>
+                )}
+
+                {state.repoScope.treeIndex?.complete === false && (
+                  <p className="text-xs text-yellow-200">
+                    The host only listed part of this repository, so some files
+                    are missing from the tree. Set a project root to index a
+                    smaller subdirectory.
+                  </p>
+                )}
+
                 {state.repoScope.truncated && (
                   <p className="text-xs text-yellow-200">
                     Large repository detected. Select directories to include or
@@ -857,6 +1443,17 @@ const RepoMigration: React.FC = () => {
           )}
         </div>
 
+        {state.analysis &&
+          ((state.analysis.packageInventory?.length ?? 0) > 0 ||
+            (state.analysis.packageReplacements?.length ?? 0) > 0) && (
+            <AnalysisPanel
+              analysis={state.analysis}
+              packageInventory={state.analysis.packageInventory}
+              packageReplacements={state.analysis.packageReplacements}
+              showSummary={false}
+            />
+          )}
+
         {isPreparingPlan && !state.playbook && (
           <div className="rounded-xl border border-accent-500/30 bg-accent-900/10 p-4 flex items-center gap-3 text-sm text-accent-100">
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -870,12 +1467,20 @@ const RepoMigration: React.FC = () => {
             costEstimate={state.costEstimate}
             answers={state.clarificationAnswers}
             notes={state.playbookNotes}
+            contextTokenBudget={state.contextTokenBudget}
+            runBudget={state.runBudget}
+            unpricedBudgetModels={getUnpricedModels(
+              llmSettings ?? DEFAULT_LLM_SETTINGS,
+              ['generation', 'verification'],
+            )}
             isStartingGeneration={
               state.status === AgentStatus.CONVERTING ||
               state.status === AgentStatus.VERIFYING
             }
             onAnswerChange={setClarificationAnswer}
             onNotesChange={setPlaybookNotes}
+            onContextTokenBudgetChange={setContextTokenBudget}
+            onRunBudgetChange={setRunBudget}
             onApprove={handleApprovePlan}
             onOpenConfig={() => setShowConfigModal(true)}
           />
@@ -905,12 +1510,53 @@ const RepoMigration: React.FC = () => {
               onToggleTree={setActiveTree}
               onSelectFile={(path) => void handleFileSelect(path)}
               onRegenerateFile={handleRegenerateFromExplorer}
+              getUsedBy={getGeneratedFileUsedBy}
+              unreachablePaths={unreachablePaths}
+              onExcludeUnreachable={
+                canExcludeUnreachable ? handleExcludeUnreachable : undefined
+              }
             />
           </div>
 
-          <div className="md:col-span-8 lg:col-span-6 flex flex-col h-full min-h-0 order-2 lg:order-3">
+          <div className="md:col-span-8 lg:col-span-6 flex flex-col h-full min-h-0 order-2 lg:order-3 gap-2">
+            {dependencyGraph && (
+              <div
+                role="tablist"
+                aria-label="Main view"
+                className="flex items-center gap-1 text-xs shrink-0"
+              >
+                {(['code', 'graph'] as const).map((view) => (
+                  <button
+                    key={view}
+                    role="tab"
+                    aria-selected={mainView === view}
+                    onClick={() => setMainView(view)}
+                    className={`px-3 py-1 rounded-md border font-semibold transition-colors ${
+                      mainView === view
+                        ? 'bg-accent-500/15 border-accent-500/40 text-accent-200'
+                        : 'bg-dark-800 border-dark-700 text-gray-400 hover:text-foreground-primary'
+                    }`}
+                  >
+                    {view === 'code' ? 'Code' : 'Dependency Graph'}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex-1 bg-dark-800 rounded-xl border border-dark-700 overflow-hidden relative min-h-0 shadow-lg flex flex-col h-full">
-              {selectedNode && selectedNode.type === 'file' ? (
+              {isGraphViewOpen ? (
+                <DependencyGraphPanel
+                  graph={dependencyGraph}
+                  sourcePaths={sourceFilePaths}
+                  targetPaths={targetFilePaths}
+                  mappings={state.analysis?.semanticFileMappings ?? []}
+                  selectedFile={state.selectedFile}
+                  activeTree={state.activeTree}
+                  onSelectNode={(path, tree) => {
+                    setMainView('code');
+                    void handleFileSelect(path, tree);
+                  }}
+                />
+              ) : selectedNode && selectedNode.type === 'file' ? (
                 isImageFile(selectedNode.name) ? (
                   <div className="flex flex-col h-full">
                     <div className="bg-dark-900 px-4 py-2 border-b border-dark-700 flex justify-between items-center shrink-0">
@@ -1070,6 +1716,28 @@ const RepoMigration: React.FC = () => {
         </div>
       )}
 
+      {regenerateRequest && (
+        <RegenerateFileDialog
+          key={regenerateRequest.path}
+          path={regenerateRequest.path}
+          impact={regenerateImpact}
+          defaultIncludeDependents={regenerateRequest.includeDependents}
+          onCancel={() => setRegenerateRequest(null)}
+          onConfirm={handleRegenerateConfirm}
+        />
+      )}
+
+      {budgetPause && (
+        <BudgetPauseDialog
+          key={`${budgetPause.stage}-${budgetPause.filePath}-${budgetPause.lowPriorityRemaining}`}
+          pause={budgetPause}
+          budget={state.runBudget}
+          onRaiseBudget={(budget) => resolveBudgetPause('continue', budget)}
+          onSkipLowPriority={() => resolveBudgetPause('skipLowPriority')}
+          onStop={() => resolveBudgetPause('stop')}
+        />
+      )}
+
       {showReport && state.report && (
         <MigrationReportModal
           report={state.report}
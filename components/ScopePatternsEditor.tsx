@@ -0,0 +1,95 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { ScopePatterns } from '../types';
+
+interface ScopePatternsEditorProps {
+  patterns: ScopePatterns;
+  disabled?: boolean;
+  onChange: (patterns: ScopePatterns) => void;
+}
+
+const toLines = (text: string): string[] => text.split('\n');
+
+// Drafts are committed on blur so typing blank lines is not fought by the
+// normalization in the reducer. Remount with a new key when the repository
+// changes to load its saved patterns.
+const ScopePatternsEditor: React.FC<ScopePatternsEditorProps> = ({
+  patterns,
+  disabled,
+  onChange,
+}) => {
+  const [includeDraft, setIncludeDraft] = React.useState(
+    patterns.include.join('\n'),
+  );
+  const [excludeDraft, setExcludeDraft] = React.useState(
+    patterns.exclude.join('\n'),
+  );
+  const patternCount = patterns.include.length + patterns.exclude.length;
+
+  const commit = () => {
+    onChange({
+      include: toLines(includeDraft),
+      exclude: toLines(excludeDraft),
+    });
+  };
+
+  return (
+    <details className="group text-xs text-gray-400">
+      <summary className="flex items-center gap-2 cursor-pointer select-none hover:text-foreground-primary">
+        <Filter className="w-3.5 h-3.5" />
+        <span>Scope patterns</span>
+        <span className="text-gray-500">
+          {patternCount > 0
+            ? `${patternCount} saved for this repository`
+            : 'gitignore-style globs, saved per repository'}
+        </span>
+      </summary>
+      <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor="scope-include-patterns"
+            className="text-[11px] uppercase tracking-wider text-gray-400 font-semibold"
+          >
+            Include Patterns
+          </label>
+          <textarea
+            id="scope-include-patterns"
+            value={includeDraft}
+            onChange={(event) => setIncludeDraft(event.target.value)}
+            onBlur={commit}
+            disabled={disabled}
+            placeholder={'src/**\nlib/**/*.js'}
+            spellCheck={false}
+            className="h-24 bg-dark-950 border border-dark-700 rounded-md px-2 py-1 font-mono text-xs text-gray-200 focus:outline-none focus:border-accent-500"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor="scope-exclude-patterns"
+            className="text-[11px] uppercase tracking-wider text-gray-400 font-semibold"
+          >
+            Exclude Patterns
+          </label>
+          <textarea
+            id="scope-exclude-patterns"
+            value={excludeDraft}
+            onChange={(event) => setExcludeDraft(event.target.value)}
+            onBlur={commit}
+            disabled={disabled}
+            placeholder={'**/*.min.js\nvendor/**\n!src/legacy/keep/**'}
+            spellCheck={false}
+            className="h-24 bg-dark-950 border border-dark-700 rounded-md px-2 py-1 font-mono text-xs text-gray-200 focus:outline-none focus:border-accent-500"
+          />
+        </div>
+      </div>
+      <p className="mt-2 text-gray-500">
+        One pattern per line; later lines win and <code>!pattern</code>{' '}
+        re-includes files. The repository&apos;s own .gitignore and
+        linguist-generated/vendored entries in .gitattributes are applied
+        automatically.
+      </p>
+    </details>
+  );
+};
+
+export default ScopePatternsEditor;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import StepIndicator from './StepIndicator';
 import AgentLogs from './AgentLogs';
 import CodeEditor from './CodeEditor';
@@ -11,6 +11,11 @@ import {
   validateGeminiApiKey,
   verifyCode,
 } from '../services/geminiService';
+import {
+  DEFAULT_LLM_SETTINGS,
+  LLM_PROVIDERS,
+  LlmSettings,
+} from '../services/llmProviders';
 import {
   Play,
   RotateCcw,
@@ -22,7 +27,13 @@ import {
 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
-const SnippetMigration: React.FC = () => {
+interface SnippetMigrationProps {
+  llmSettings?: LlmSettings;
+}
+
+const SnippetMigration: React.FC<SnippetMigrationProps> = ({
+  llmSettings = DEFAULT_LLM_SETTINGS,
+}) => {
   const [state, setState] = useState<MigrationState>({
     sourceLang: 'jquery',
     targetLang: 'react',
@@ -34,6 +45,12 @@ const SnippetMigration: React.FC = () => {
     verification: null,
   });
 
+  // Read through a ref so changing providers never re-runs a step.
+  const llmSettingsRef = useRef(llmSettings);
+  useEffect(() => {
+    llmSettingsRef.current = llmSettings;
+  }, [llmSettings]);
+
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
     setState((prev) => ({
       ...prev,
@@ -80,11 +97,13 @@ const SnippetMigration: React.FC = () => {
   // The Autonomous Agent Loop
   useEffect(() => {
     const runStep = async () => {
+      const llm = llmSettingsRef.current;
       try {
         if (state.status === AgentStatus.ANALYZING) {
-          addLog('Validating Gemini API key...', 'info');
-          await validateGeminiApiKey();
-          addLog('Gemini API key validated.', 'success');
+          const providerLabel = LLM_PROVIDERS[llm.provider].label;
+          addLog(`Validating ${providerLabel} access...`, 'info');
+          await validateGeminiApiKey({ llm });
+          addLog(`${providerLabel} access validated.`, 'success');
           addLog(
             `Analyzing ${state.sourceLang} source AST and dependencies...`,
             'info',
@@ -93,6 +112,7 @@ const SnippetMigration: React.FC = () => {
             state.sourceCode,
             state.sourceLang,
             state.targetLang,
+            { llm },
           );
 
           setState((prev) => ({
@@ -119,6 +139,7 @@ const SnippetMigration: React.FC = () => {
               state.sourceLang,
               state.targetLang,
               state.analysis,
+              { llm },
             );
             setState((prev) => ({
               ...prev,
@@ -141,6 +162,7 @@ const SnippetMigration: React.FC = () => {
             state.targetCode,
             state.sourceLang,
             state.targetLang,
+            { llm },
           );
 
           if (verification.passed) {
@@ -63,12 +63,16 @@ Repository File Structure:
 README Content:
 {readme}
 
+Declared Packages (parsed from the repository's package manifests):
+{packageInventory}
+
 Your task:
 1. Detect the primary source language/framework.
 2. The target is ALWAYS "Next.js 16.1 (App Router) + TypeScript + Tailwind CSS".
 3. Summarize the application architecture.
 4. Create a prompt description for an architecture diagram representing the OLD legacy system.
 5. Produce semantic file mappings between likely legacy source files and likely Next.js target files.
+6. Base "dependencies" on the declared packages when any are listed, and map each notable legacy package to its modern replacement in the target stack (use "none" when it can simply be dropped).
 
 Few-shot JSON style examples (format only):
 Example A:
@@ -124,12 +128,20 @@ Output strict JSON:
       "confidence": 0.0
     }
   ],
-  "migrationNotes": ["important planning notes for generation + verification"]
+  "migrationNotes": ["important planning notes for generation + verification"],
+  "packageReplacements": [
+    {
+      "legacyPackage": "name as declared",
+      "replacement": "modern package or none",
+      "rationale": "short reason"
+    }
+  ]
 }
 
 Rules:
 - confidence must be a number between 0 and 1.
 - Keep semanticFileMappings concise and high-value (max 30 entries).
+- Keep packageReplacements to runtime packages that need a decision (max 40 entries); skip build tooling that Next.js replaces wholesale.
 - Never return markdown, comments, or trailing text.
 `;
 
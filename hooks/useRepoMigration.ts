@@ -17,15 +17,55 @@ import {
   MigrationHistoryEntry,
   MigrationPlaybook,
   MigrationReport,
+  MigrationUsage,
   RepoAnalysisResult,
+  RepoIngestionMode,
+  RepoRefList,
+  RepoRevision,
   RepoScopeInfo,
   RepoState,
+  RunBudget,
+  RunBudgetPause,
+  ScopePatterns,
+  SelfHostedServerConfig,
+  SourceCacheStats,
 } from '../types';
+import { fetchGitHubProxyStatus } from '../services/githubService';
 import {
-  fetchFileContent,
-  normalizeGitHubRepoUrl,
-} from '../services/githubService';
+  createLocalSourceFromFiles,
+  createLocalSourceFromZip,
+  getLocalSourceName,
+  isLocalSourceUrl,
+  LocalSourceFile,
+} from '../services/localSourceService';
 import {
+  DEFAULT_MAX_SOURCE_FILE_KB,
+  mergeSkippedFiles,
+} from '../services/fileClassifier';
+import {
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  MAX_CONTEXT_TOKEN_BUDGET,
+  MIN_CONTEXT_TOKEN_BUDGET,
+} from '../services/contextRetrieval';
+import {
+  EMPTY_SCOPE_PATTERNS,
+  normalizeScopePatterns,
+  toLiteralScopePattern,
+} from '../services/scopePatterns';
+import {
+  clearSourceCache as clearStoredSourceCache,
+  getSourceCacheStats,
+} from '../services/sourceCache';
+import {
+  createSourceProvider,
+  hasAmbiguousSourceRef,
+  normalizeSourceUrl,
+  parseSourceUrl,
+} from '../services/sourceHosts';
+import { normalizeRootPath, SourceProvider } from '../services/sourceProvider';
+import {
+  analyzeRegenerationImpact,
+  estimateMigrationCost,
   flattenFiles,
   generateReport,
   isImageFile,
@@ -36,17 +76,45 @@ import {
   runScaffoldPhase,
   runVerificationPhase,
 } from '../services/migrationOrchestrator';
+import type {
+  BudgetCheck,
+  BudgetDecision,
+  RegenerationImpact,
+} from '../services/migrationOrchestrator';
 import { useMigrationLogs } from './useMigrationLogs';
 import { isAbortError } from '../services/abortUtils';
 import { validateGeminiApiKey } from '../services/geminiService';
+import {
+  DEFAULT_LLM_SETTINGS,
+  LLM_PROVIDERS,
+  LlmSettings,
+  LlmUsage,
+} from '../services/llmProviders';
+import {
+  createEmptyUsage,
+  getExceededBudgetLimit,
+  getTotalTokens,
+  recordUsage,
+  sumUsage,
+} from '../services/usageTracking';
 import type { DependencyGraph } from '../services/dependencyGraph';
+import type { SymbolIndex } from '../services/symbolIndex';
 
 const initialRepoState: RepoState = {
   url: '',
-  branch: 'main',
+  branch: '',
+  rootPath: '',
+  ingestionMode: 'archive',
+  revision: null,
+  availableRefs: null,
+  selfHostedServer: { kind: 'gitlab', baseUrl: '' },
   status: AgentStatus.IDLE,
   includeDirectories: [],
   excludeDirectories: [],
+  scopePatterns: EMPTY_SCOPE_PATTERNS,
+  savedScopePatterns: {},
+  maxFileSizeKb: DEFAULT_MAX_SOURCE_FILE_KB,
+  contextTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
   files: [],
   generatedFiles: [],
   selectedFile: null,
@@ -70,6 +138,8 @@ const initialRepoState: RepoState = {
   playbookNotes: '',
   clarificationAnswers: {},
   costEstimate: null,
+  usage: createEmptyUsage(),
+  runBudget: { maxCostUsd: null, maxTokens: null },
   history: [],
   awaitingPlanApproval: false,
 };
@@ -77,6 +147,7 @@ const initialRepoState: RepoState = {
 const REPO_STATE_STORAGE_KEY = 'dustoff.repo-state.v1';
 const MAX_PERSISTED_LOGS = 250;
 const MAX_HISTORY_ENTRIES = 20;
+const MAX_SAVED_SCOPE_PATTERNS = 50;
 
 const normalizeDirectories = (directories: string[]): string[] => {
   return Array.from(
@@ -95,9 +166,17 @@ interface PersistedLogEntry extends Omit<LogEntry, 'timestamp'> {
 interface PersistedRepoState {
   url: string;
   branch: string;
+  rootPath: string;
+  ingestionMode: RepoIngestionMode;
+  revision: RepoRevision | null;
+  selfHostedServer: SelfHostedServerConfig;
   status: AgentStatus;
   includeDirectories: string[];
   excludeDirectories: string[];
+  scopePatterns: ScopePatterns;
+  savedScopePatterns: Record<string, ScopePatterns>;
+  maxFileSizeKb: number;
+  contextTokenBudget: number;
   files: FileNode[];
   generatedFiles: FileNode[];
   selectedFile: string | null;
@@ -116,6 +195,8 @@ interface PersistedRepoState {
   playbookNotes: string;
   clarificationAnswers: Record<string, string>;
   costEstimate: MigrationCostEstimate | null;
+  usage: MigrationUsage;
+  runBudget: RunBudget;
   history: MigrationHistoryEntry[];
   awaitingPlanApproval: boolean;
 }
@@ -125,6 +206,8 @@ interface GenerationContextCache {
   fileContents: Record<string, string>;
   filesToRead: FileNode[];
   graph: DependencyGraph;
+  symbolIndex?: SymbolIndex;
+  decisionContext?: string; // Approved playbook, kept out of retrieval
 }
 
 const stripFileContents = (nodes: FileNode[]): FileNode[] => {
@@ -155,9 +238,17 @@ const serializeRepoState = (state: RepoState): PersistedRepoState => {
   return {
     url: state.url,
     branch: state.branch,
+    rootPath: state.rootPath,
+    ingestionMode: state.ingestionMode,
+    revision: state.revision,
+    selfHostedServer: state.selfHostedServer,
     status: isBusyStatus(state.status) ? AgentStatus.IDLE : state.status,
     includeDirectories: state.includeDirectories,
     excludeDirectories: state.excludeDirectories,
+    scopePatterns: state.scopePatterns,
+    savedScopePatterns: state.savedScopePatterns,
+    maxFileSizeKb: state.maxFileSizeKb,
+    contextTokenBudget: state.contextTokenBudget,
     files: stripFileContents(state.files),
     generatedFiles: state.generatedFiles,
     selectedFile: state.selectedFile,
@@ -179,6 +270,8 @@ const serializeRepoState = (state: RepoState): PersistedRepoState => {
     playbookNotes: state.playbookNotes,
     clarificationAnswers: state.clarificationAnswers,
     costEstimate: state.costEstimate,
+    usage: state.usage,
+    runBudget: state.runBudget,
     history: state.history,
     awaitingPlanApproval: state.awaitingPlanApproval,
   };
@@ -207,6 +300,64 @@ const toStringRecord = (value: unknown): Record<string, string> => {
   }, {});
 };
 
+const toScopePatterns = (value: unknown): ScopePatterns | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const patterns = value as Partial<Record<keyof ScopePatterns, unknown>>;
+  return {
+    include: normalizeScopePatterns(toStringArray(patterns.include)),
+    exclude: normalizeScopePatterns(toStringArray(patterns.exclude)),
+  };
+};
+
+const toSavedScopePatterns = (
+  value: unknown,
+): Record<string, ScopePatterns> => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  return Object.entries(value as Record<string, unknown>).reduce<
+    Record<string, ScopePatterns>
+  >((result, [key, entryValue]) => {
+    const patterns = toScopePatterns(entryValue);
+    if (patterns) {
+      result[key] = patterns;
+    }
+    return result;
+  }, {});
+};
+
+// Caps must be positive; anything else turns that limit off.
+const toRunBudget = (value: unknown): RunBudget => {
+  const budget = (value || {}) as Partial<Record<keyof RunBudget, unknown>>;
+  const toLimit = (limit: unknown): number | null =>
+    typeof limit === 'number' && Number.isFinite(limit) && limit > 0
+      ? limit
+      : null;
+  return {
+    maxCostUsd: toLimit(budget.maxCostUsd),
+    maxTokens:
+      toLimit(budget.maxTokens) === null
+        ? null
+        : Math.round(budget.maxTokens as number),
+  };
+};
+
+const toMigrationUsage = (value: unknown): MigrationUsage => {
+  const usage = value as Partial<MigrationUsage> | null | undefined;
+  return usage &&
+    usage.stages &&
+    typeof usage.stages === 'object' &&
+    usage.files &&
+    typeof usage.files === 'object' &&
+    Array.isArray(usage.unpricedModels)
+    ? (usage as MigrationUsage)
+    : createEmptyUsage();
+};
+
 const parsePersistedState = (
   payload: PersistedRepoState,
   fallback: RepoState,
@@ -231,6 +382,29 @@ const parsePersistedState = (
     url: typeof payload.url === 'string' ? payload.url : fallback.url,
     branch:
       typeof payload.branch === 'string' ? payload.branch : fallback.branch,
+    rootPath: normalizeRootPath(
+      typeof payload.rootPath === 'string' ? payload.rootPath : '',
+    ),
+    ingestionMode:
+      payload.ingestionMode === 'archive' ||
+      payload.ingestionMode === 'contents'
+        ? payload.ingestionMode
+        : fallback.ingestionMode,
+    revision:
+      payload.revision &&
+      typeof payload.revision.ref === 'string' &&
+      typeof payload.revision.commitSha === 'string'
+        ? payload.revision
+        : null,
+    availableRefs: null,
+    selfHostedServer:
+      payload.selfHostedServer &&
+      (payload.selfHostedServer.kind === 'github' ||
+        payload.selfHostedServer.kind === 'gitlab' ||
+        payload.selfHostedServer.kind === 'gitea') &&
+      typeof payload.selfHostedServer.baseUrl === 'string'
+        ? payload.selfHostedServer
+        : fallback.selfHostedServer,
     status: Object.values(AgentStatus).includes(payload.status)
       ? payload.status
       : AgentStatus.IDLE,
@@ -240,6 +414,18 @@ const parsePersistedState = (
     excludeDirectories: normalizeDirectories(
       toStringArray(payload.excludeDirectories),
     ),
+    scopePatterns:
+      toScopePatterns(payload.scopePatterns) || fallback.scopePatterns,
+    savedScopePatterns: toSavedScopePatterns(payload.savedScopePatterns),
+    maxFileSizeKb:
+      typeof payload.maxFileSizeKb === 'number' && payload.maxFileSizeKb > 0
+        ? payload.maxFileSizeKb
+        : fallback.maxFileSizeKb,
+    contextTokenBudget:
+      typeof payload.contextTokenBudget === 'number' &&
+      payload.contextTokenBudget > 0
+        ? payload.contextTokenBudget
+        : fallback.contextTokenBudget,
     files: Array.isArray(payload.files) ? payload.files : fallback.files,
     generatedFiles: Array.isArray(payload.generatedFiles)
       ? payload.generatedFiles
@@ -281,6 +467,8 @@ const parsePersistedState = (
       typeof payload.playbookNotes === 'string' ? payload.playbookNotes : '',
     clarificationAnswers: toStringRecord(payload.clarificationAnswers),
     costEstimate: payload.costEstimate || null,
+    usage: toMigrationUsage(payload.usage),
+    runBudget: toRunBudget(payload.runBudget),
     history,
     awaitingPlanApproval: Boolean(payload.awaitingPlanApproval),
     startTime: undefined,
@@ -352,6 +540,7 @@ const createHistoryEntry = ({
 }): MigrationHistoryEntry => {
   const durationMs = Math.max(1, endTime - (state.startTime || endTime));
   const durationSeconds = Math.max(1, Math.round(durationMs / 1000));
+  const actualUsage = report.usage ? sumUsage(report.usage) : null;
 
   return {
     id: `run_${endTime}_${Math.random().toString(36).slice(2, 8)}`,
@@ -365,17 +554,43 @@ const createHistoryEntry = ({
     modernizationScore: report.modernizationScore,
     estimatedCostUsd: state.costEstimate?.estimatedCostUsd || 0,
     estimatedTokens: state.costEstimate?.totalTokens || 0,
+    ...(actualUsage
+      ? {
+          actualCostUsd: Number(actualUsage.costUsd.toFixed(4)),
+          actualTokens: getTotalTokens(actualUsage),
+        }
+      : {}),
     config: state.config,
+    ref: state.revision?.ref,
+    commitSha: state.revision?.commitSha,
+    rootPath: state.repoScope?.rootPath || undefined,
   };
 };
 
+const getRefNames = (refs: RepoRefList | null): string[] => {
+  return refs ? [...refs.branches, ...refs.tags] : [];
+};
+
 type RepoAction =
   | { type: 'set_url'; payload: string }
+  | { type: 'set_branch'; payload: string }
+  | { type: 'set_root_path'; payload: string }
+  | { type: 'set_ingestion_mode'; payload: RepoIngestionMode }
+  | { type: 'set_revision'; payload: RepoRevision | null }
+  | { type: 'set_self_hosted_server'; payload: SelfHostedServerConfig }
+  | {
+      type: 'set_available_refs';
+      payload: { refs: RepoRefList; sourceUrl: string };
+    }
   | { type: 'set_status'; payload: AgentStatus }
   | { type: 'reset_for_analysis' }
   | { type: 'set_include_directories'; payload: string[] }
   | { type: 'set_exclude_directories'; payload: string[] }
+  | { type: 'set_scope_patterns'; payload: ScopePatterns }
+  | { type: 'set_max_file_size_kb'; payload: number }
+  | { type: 'set_context_token_budget'; payload: number }
   | { type: 'set_files'; payload: FileNode[] }
+  | { type: 'exclude_source_files'; payload: string[] }
   | { type: 'set_analysis'; payload: RepoAnalysisResult }
   | { type: 'set_repo_scope'; payload: RepoScopeInfo | null }
   | { type: 'set_github_rate_limit'; payload: GitHubRateLimitInfo | null }
@@ -390,6 +605,8 @@ type RepoAction =
     }
   | { type: 'set_clarification_answers'; payload: Record<string, string> }
   | { type: 'set_cost_estimate'; payload: MigrationCostEstimate | null }
+  | { type: 'set_usage'; payload: MigrationUsage }
+  | { type: 'set_run_budget'; payload: RunBudget }
   | { type: 'set_history'; payload: MigrationHistoryEntry[] }
   | { type: 'set_awaiting_plan_approval'; payload: boolean }
   | { type: 'set_generated_files'; payload: FileNode[] }
@@ -434,10 +651,153 @@ const updateTreeNode = (
   });
 };
 
+// Drops the given files and any directories left empty.
+const removeTreeFiles = (nodes: FileNode[], paths: Set<string>): FileNode[] =>
+  nodes.flatMap((node) => {
+    if (node.type === 'file') {
+      return paths.has(node.path) ? [] : [node];
+    }
+    const children = removeTreeFiles(node.children || [], paths);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+// Include/exclude directories are relative to the project root, so they no
+// longer apply once the root moves.
+const withRootPath = (state: RepoState, rootPath: string): RepoState => {
+  if (normalizeRootPath(rootPath) === normalizeRootPath(state.rootPath)) {
+    return { ...state, rootPath };
+  }
+
+  return {
+    ...state,
+    rootPath,
+    includeDirectories: [],
+    excludeDirectories: [],
+  };
+};
+
+const withUrl = (state: RepoState, url: string): RepoState => {
+  const parsedUrl = parseSourceUrl(
+    url,
+    state.selfHostedServer,
+    getRefNames(state.availableRefs),
+  );
+  if (parsedUrl?.ref) {
+    return withRootPath(
+      { ...state, url, branch: parsedUrl.ref },
+      normalizeRootPath(parsedUrl.subpath),
+    );
+  }
+
+  const repoChanged =
+    normalizeSourceUrl(url, state.selfHostedServer) !==
+    normalizeSourceUrl(state.url, state.selfHostedServer);
+  return repoChanged
+    ? withRootPath({ ...state, url, branch: '', availableRefs: null }, '')
+    : { ...state, url };
+};
+
+// Scope patterns are remembered per repository and project root; uploaded
+// sources have no stable identity and are not saved.
+const getScopePatternKey = (state: RepoState): string | null => {
+  const repoUrl = normalizeSourceUrl(state.url, state.selfHostedServer);
+  if (!repoUrl) {
+    return null;
+  }
+
+  const rootPath = normalizeRootPath(state.rootPath);
+  return rootPath ? `${repoUrl}#${rootPath}` : repoUrl;
+};
+
+const withSavedScopePatterns = (
+  previous: RepoState,
+  next: RepoState,
+): RepoState => {
+  const key = getScopePatternKey(next);
+  if (key === getScopePatternKey(previous)) {
+    return next;
+  }
+
+  return {
+    ...next,
+    scopePatterns:
+      (key && next.savedScopePatterns[key]) || EMPTY_SCOPE_PATTERNS,
+  };
+};
+
+const withScopePatterns = (
+  state: RepoState,
+  patterns: ScopePatterns,
+): RepoState => {
+  const scopePatterns: ScopePatterns = {
+    include: normalizeScopePatterns(patterns.include),
+    exclude: normalizeScopePatterns(patterns.exclude),
+  };
+  const key = getScopePatternKey(state);
+  if (!key) {
+    return { ...state, scopePatterns };
+  }
+
+  // Re-insert so the most recently edited repo is kept when trimming.
+  const { [key]: _previous, ...savedScopePatterns } = state.savedScopePatterns;
+  if (scopePatterns.include.length > 0 || scopePatterns.exclude.length > 0) {
+    savedScopePatterns[key] = scopePatterns;
+  }
+  const savedKeys = Object.keys(savedScopePatterns);
+  savedKeys
+    .slice(0, Math.max(savedKeys.length - MAX_SAVED_SCOPE_PATTERNS, 0))
+    .forEach((savedKey) => delete savedScopePatterns[savedKey]);
+
+  return { ...state, scopePatterns, savedScopePatterns };
+};
+
 const repoReducer = (state: RepoState, action: RepoAction): RepoState => {
   switch (action.type) {
     case 'set_url':
-      return { ...state, url: action.payload };
+      return withSavedScopePatterns(state, withUrl(state, action.payload));
+
+    case 'set_branch':
+      return { ...state, branch: action.payload.trim() };
+
+    case 'set_root_path':
+      return withSavedScopePatterns(state, withRootPath(state, action.payload));
+
+    case 'set_ingestion_mode':
+      return { ...state, ingestionMode: action.payload };
+
+    case 'set_revision':
+      return { ...state, revision: action.payload };
+
+    case 'set_self_hosted_server':
+      return withSavedScopePatterns(state, {
+        ...state,
+        selfHostedServer: action.payload,
+      });
+
+    case 'set_available_refs': {
+      const { refs, sourceUrl } = action.payload;
+      if (
+        normalizeSourceUrl(sourceUrl, state.selfHostedServer) !==
+        normalizeSourceUrl(state.url, state.selfHostedServer)
+      ) {
+        return state;
+      }
+
+      // Re-split /tree/<ref>/... now that refs containing slashes are known.
+      const parsedUrl = parseSourceUrl(
+        sourceUrl,
+        state.selfHostedServer,
+        getRefNames(refs),
+      );
+      if (!parsedUrl?.ref) {
+        return { ...state, availableRefs: refs };
+      }
+
+      return withRootPath(
+        { ...state, availableRefs: refs, branch: parsedUrl.ref },
+        normalizeRootPath(parsedUrl.subpath),
+      );
+    }
 
     case 'set_status':
       return { ...state, status: action.payload };
@@ -453,6 +813,7 @@ const repoReducer = (state: RepoState, action: RepoAction): RepoState => {
         activeTree: 'source',
         analysis: null,
         diagram: null,
+        revision: null,
         sourceContext: '',
         report: null,
         githubRateLimit: null,
@@ -462,6 +823,7 @@ const repoReducer = (state: RepoState, action: RepoAction): RepoState => {
         playbookNotes: '',
         clarificationAnswers: {},
         costEstimate: null,
+        usage: createEmptyUsage(),
         awaitingPlanApproval: false,
         startTime: Date.now(),
       };
@@ -488,9 +850,65 @@ const repoReducer = (state: RepoState, action: RepoAction): RepoState => {
       };
     }
 
+    case 'set_scope_patterns':
+      return withScopePatterns(state, action.payload);
+
+    case 'set_max_file_size_kb':
+      return Number.isFinite(action.payload) && action.payload > 0
+        ? { ...state, maxFileSizeKb: Math.round(action.payload) }
+        : state;
+
+    case 'set_context_token_budget':
+      return Number.isFinite(action.payload) && action.payload > 0
+        ? {
+            ...state,
+            contextTokenBudget: Math.min(
+              MAX_CONTEXT_TOKEN_BUDGET,
+              Math.max(MIN_CONTEXT_TOKEN_BUDGET, Math.round(action.payload)),
+            ),
+          }
+        : state;
+
     case 'set_files':
       return { ...state, files: action.payload };
 
+    case 'exclude_source_files': {
+      // Literal exclude patterns keep the files out of later re-analyses.
+      const excluded = new Set(action.payload);
+      const removedCount = flattenFiles(state.files).filter(
+        (file) => file.type === 'file' && excluded.has(file.path),
+      ).length;
+      const next = withScopePatterns(state, {
+        include: state.scopePatterns.include,
+        exclude: [
+          ...state.scopePatterns.exclude,
+          ...action.payload.map(toLiteralScopePattern),
+        ],
+      });
+
+      return {
+        ...next,
+        files: removeTreeFiles(state.files, excluded),
+        selectedFile:
+          state.activeTree === 'source' &&
+          state.selectedFile &&
+          excluded.has(state.selectedFile)
+            ? null
+            : state.selectedFile,
+        repoScope: state.repoScope && {
+          ...state.repoScope,
+          filteredFiles: state.repoScope.filteredFiles - removedCount,
+          analyzedFiles: Math.max(
+            state.repoScope.analyzedFiles - removedCount,
+            0,
+          ),
+          unreachableFiles: state.repoScope.unreachableFiles?.filter(
+            (path) => !excluded.has(path),
+          ),
+        },
+      };
+    }
+
     case 'set_analysis':
       return {
         ...state,
@@ -545,6 +963,12 @@ const repoReducer = (state: RepoState, action: RepoAction): RepoState => {
     case 'set_cost_estimate':
       return { ...state, costEstimate: action.payload };
 
+    case 'set_usage':
+      return { ...state, usage: action.payload };
+
+    case 'set_run_budget':
+      return { ...state, runBudget: toRunBudget(action.payload) };
+
     case 'set_history':
       return { ...state, history: action.payload };
 
@@ -632,10 +1056,29 @@ interface UseRepoMigrationResult {
   isAwaitingPlanApproval: boolean;
   regeneratingFilePath: string | null;
   selectedNode: FileNode | null;
+  accessToken: string;
+  isLoadingRefs: boolean;
+  isLoadingLocalSource: boolean;
+  sourceCacheStats: SourceCacheStats | null; // Null until first inspected
+  dependencyGraph: DependencyGraph | null; // Built at scaffold, not persisted
   setUrl: (url: string) => void;
+  setBranch: (branch: string) => void;
+  setRootPath: (rootPath: string) => void;
+  setIngestionMode: (mode: RepoIngestionMode) => void;
+  setSelfHostedServer: (server: SelfHostedServerConfig) => void;
+  loadRepoRefs: () => Promise<void>;
+  loadLocalSource: (files: LocalSourceFile[]) => Promise<void>;
+  setAccessToken: (token: string) => void;
   setConfig: (config: MigrationConfig) => void;
   setIncludeDirectories: (directories: string[]) => void;
   setExcludeDirectories: (directories: string[]) => void;
+  setScopePatterns: (patterns: ScopePatterns) => void;
+  excludeSourceFiles: (paths: string[]) => void;
+  setMaxFileSizeKb: (maxFileSizeKb: number) => void;
+  setContextTokenBudget: (tokens: number) => void;
+  budgetPause: RunBudgetPause | null; // Set while a run waits at its budget
+  setRunBudget: (budget: RunBudget) => void;
+  resolveBudgetPause: (decision: BudgetDecision, budget?: RunBudget) => void;
   setActiveTree: (tree: 'source' | 'target') => void;
   startRepoProcess: () => Promise<void>;
   cancelCurrentRun: () => void;
@@ -644,13 +1087,22 @@ interface UseRepoMigrationResult {
   setPlaybookNotes: (notes: string) => void;
   setClarificationAnswer: (questionId: string, answer: string) => void;
   clearHistory: () => void;
+  refreshSourceCacheStats: () => Promise<void>;
+  clearSourceCache: () => Promise<void>;
   handleDownload: () => Promise<void>;
-  handleFileSelect: (path: string) => Promise<void>;
+  handleFileSelect: (path: string, tree?: 'source' | 'target') => Promise<void>;
   handleGeneratedFileEdit: (path: string, content: string) => void;
-  regenerateTargetFile: (path: string, instructions?: string) => Promise<void>;
+  getRegenerationImpact: (path: string) => RegenerationImpact | null;
+  regenerateTargetFile: (
+    path: string,
+    instructions?: string,
+    options?: { includeDependents?: boolean },
+  ) => Promise<void>;
 }
 
-export const useRepoMigration = (): UseRepoMigrationResult => {
+export const useRepoMigration = (
+  llmSettings: LlmSettings = DEFAULT_LLM_SETTINGS,
+): UseRepoMigrationResult => {
   const [state, dispatch] = useReducer(
     repoReducer,
     initialRepoState,
@@ -662,15 +1114,119 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
   const [regeneratingFilePath, setRegeneratingFilePath] = useState<
     string | null
   >(null);
+  const [isLoadingRefs, setIsLoadingRefs] = useState(false);
+  const [isLoadingLocalSource, setIsLoadingLocalSource] = useState(false);
+  const [sourceCacheStats, setSourceCacheStats] =
+    useState<SourceCacheStats | null>(null);
+  const [dependencyGraph, setDependencyGraph] =
+    useState<DependencyGraph | null>(null);
+  const [budgetPause, setBudgetPause] = useState<RunBudgetPause | null>(null);
+  const budgetPauseRef = useRef<{
+    resolve: (decision: BudgetDecision) => void;
+    reject: (error: unknown) => void;
+  } | null>(null);
   const activeControllerRef = useRef<AbortController | null>(null);
   const cancelRequestedRef = useRef(false);
   const generationContextRef = useRef<GenerationContextCache | null>(null);
+  // Files already read during analysis, so scaffolding does not fetch them
+  // again. Not persisted; a restored session simply reads them anew.
+  const analysisContentsRef = useRef<Record<string, string>>({});
+  // The access token lives outside RepoState so it is never serialized into
+  // the persisted session blob.
+  const [accessToken, setAccessTokenState] = useState('');
+  const accessTokenRef = useRef('');
+  const serverGitHubTokenRef = useRef<boolean | null>(null);
 
   const stateRef = useRef(state);
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
+  const llmSettingsRef = useRef(llmSettings);
+
+  // Also kept in a ref so the report sees the last request's tokens before
+  // React has re-rendered.
+  const usageRef = useRef(state.usage);
+  const recordLlmUsage = useCallback((usage: LlmUsage) => {
+    usageRef.current = recordUsage(usageRef.current, usage);
+    dispatch({ type: 'set_usage', payload: usageRef.current });
+  }, []);
+
+  // Read before every request, so a raised cap applies as soon as the run
+  // resumes.
+  const runBudgetRef = useRef(state.runBudget);
+
+  // Resolves straight away while the next request fits the budget. Otherwise
+  // the run waits on the pause panel until the user raises the budget, skips
+  // low-priority files or stops.
+  const checkRunBudget = useCallback(
+    async (check: BudgetCheck): Promise<BudgetDecision> => {
+      for (;;) {
+        const spent = sumUsage(usageRef.current);
+        const limit = getExceededBudgetLimit(
+          runBudgetRef.current,
+          spent,
+          check,
+        );
+        if (!limit) {
+          return 'continue';
+        }
+
+        const decision = await new Promise<BudgetDecision>(
+          (resolve, reject) => {
+            budgetPauseRef.current = { resolve, reject };
+            setBudgetPause({
+              limit,
+              stage: check.stage,
+              filePath: check.filePath,
+              spentCostUsd: spent.costUsd,
+              spentTokens: getTotalTokens(spent),
+              nextCostUsd: check.estimatedCostUsd,
+              nextTokens: check.estimatedTokens,
+              lowPriorityRemaining: check.lowPriorityRemaining,
+            });
+          },
+        );
+        budgetPauseRef.current = null;
+        setBudgetPause(null);
+        if (decision !== 'continue') {
+          return decision;
+        }
+      }
+    },
+    [],
+  );
+
+  // The context budget and stage routing change what each prompt costs, so
+  // a shown estimate is recomputed when either changes.
+  const refreshCostEstimate = useCallback((contextTokenBudget: number) => {
+    const currentState = stateRef.current;
+    if (!currentState.costEstimate) {
+      return;
+    }
+    dispatch({
+      type: 'set_cost_estimate',
+      payload: estimateMigrationCost({
+        sourceContext:
+          generationContextRef.current?.sourceContext ||
+          currentState.sourceContext,
+        generatedFilePaths: flattenFiles(currentState.generatedFiles)
+          .filter((file) => file.type === 'file')
+          .map((file) => file.path),
+        contextTokenBudget,
+        llm: llmSettingsRef.current,
+      }),
+    });
+  }, []);
+
+  useEffect(() => {
+    if (llmSettingsRef.current === llmSettings) {
+      return;
+    }
+    llmSettingsRef.current = llmSettings;
+    refreshCostEstimate(stateRef.current.contextTokenBudget);
+  }, [llmSettings, refreshCostEstimate]);
+
   useEffect(() => {
     if (typeof window === 'undefined') {
       return;
@@ -708,6 +1264,27 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     dispatch({ type: 'set_url', payload: url });
   }, []);
 
+  const setBranch = useCallback((branch: string) => {
+    dispatch({ type: 'set_branch', payload: branch });
+  }, []);
+
+  const setRootPath = useCallback((rootPath: string) => {
+    dispatch({ type: 'set_root_path', payload: rootPath });
+  }, []);
+
+  const setIngestionMode = useCallback((mode: RepoIngestionMode) => {
+    dispatch({ type: 'set_ingestion_mode', payload: mode });
+  }, []);
+
+  const setSelfHostedServer = useCallback((server: SelfHostedServerConfig) => {
+    dispatch({ type: 'set_self_hosted_server', payload: server });
+  }, []);
+
+  const setAccessToken = useCallback((token: string) => {
+    accessTokenRef.current = token;
+    setAccessTokenState(token);
+  }, []);
+
   const setConfig = useCallback((config: MigrationConfig) => {
     dispatch({ type: 'set_config', payload: config });
   }, []);
@@ -720,6 +1297,71 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     dispatch({ type: 'set_exclude_directories', payload: directories });
   }, []);
 
+  const setScopePatterns = useCallback((patterns: ScopePatterns) => {
+    dispatch({ type: 'set_scope_patterns', payload: patterns });
+  }, []);
+
+  const excludeSourceFiles = useCallback(
+    (paths: string[]) => {
+      const currentState = stateRef.current;
+      if (paths.length === 0) {
+        return;
+      }
+      if (
+        isBusyStatus(currentState.status) ||
+        currentState.generatedFiles.length > 0
+      ) {
+        addLog(
+          'Files can only be excluded from scope before scaffolding. Run a new analysis to change the scope.',
+          'warning',
+        );
+        return;
+      }
+
+      dispatch({ type: 'exclude_source_files', payload: paths });
+      addLog(
+        `Excluded ${paths.length} file(s) from scope; they will be left out of scaffolding and generation.`,
+        'info',
+      );
+    },
+    [addLog],
+  );
+
+  const setMaxFileSizeKb = useCallback((maxFileSizeKb: number) => {
+    dispatch({ type: 'set_max_file_size_kb', payload: maxFileSizeKb });
+  }, []);
+
+  const setContextTokenBudget = useCallback(
+    (tokens: number) => {
+      dispatch({ type: 'set_context_token_budget', payload: tokens });
+      if (!Number.isFinite(tokens) || tokens <= 0) {
+        return;
+      }
+      refreshCostEstimate(
+        Math.min(
+          MAX_CONTEXT_TOKEN_BUDGET,
+          Math.max(MIN_CONTEXT_TOKEN_BUDGET, Math.round(tokens)),
+        ),
+      );
+    },
+    [refreshCostEstimate],
+  );
+
+  const setRunBudget = useCallback((budget: RunBudget) => {
+    runBudgetRef.current = toRunBudget(budget);
+    dispatch({ type: 'set_run_budget', payload: runBudgetRef.current });
+  }, []);
+
+  const resolveBudgetPause = useCallback(
+    (decision: BudgetDecision, budget?: RunBudget) => {
+      if (budget) {
+        setRunBudget(budget);
+      }
+      budgetPauseRef.current?.resolve(decision);
+    },
+    [setRunBudget],
+  );
+
   const setActiveTree = useCallback((tree: 'source' | 'target') => {
     dispatch({ type: 'set_active_tree', payload: tree });
   }, []);
@@ -731,6 +1373,84 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     [],
   );
 
+  // Builds the provider for the current host. The github.com server proxy is
+  // only probed when no personal token is set.
+  const resolveSourceProvider = useCallback(
+    async (
+      url: string,
+      signal?: AbortSignal,
+    ): Promise<SourceProvider | null> => {
+      const { selfHostedServer } = stateRef.current;
+      const token = accessTokenRef.current.trim();
+      const parsedUrl = parseSourceUrl(url, selfHostedServer);
+      const isGitHubDotCom = parsedUrl?.webBaseUrl === 'https://github.com';
+
+      if (!token && isGitHubDotCom && serverGitHubTokenRef.current === null) {
+        serverGitHubTokenRef.current = await fetchGitHubProxyStatus(signal);
+      }
+
+      return createSourceProvider(url, {
+        selfHostedServer,
+        token,
+        useGitHubServerProxy: Boolean(serverGitHubTokenRef.current),
+        onRateLimitUpdate: handleGitHubRateLimitUpdate,
+      });
+    },
+    [handleGitHubRateLimitUpdate],
+  );
+
+  const loadRepoRefs = useCallback(async () => {
+    const sourceUrl = stateRef.current.url;
+    if (isLocalSourceUrl(sourceUrl)) {
+      return;
+    }
+
+    setIsLoadingRefs(true);
+    try {
+      const source = await resolveSourceProvider(sourceUrl);
+      if (!source) {
+        return;
+      }
+      const refs = await source.listRefs();
+      dispatch({ type: 'set_available_refs', payload: { refs, sourceUrl } });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      addLog(`Could not load branches and tags: ${errorMessage}`, 'warning');
+    } finally {
+      setIsLoadingRefs(false);
+    }
+  }, [addLog, resolveSourceProvider]);
+
+  const loadLocalSource = useCallback(
+    async (files: LocalSourceFile[]) => {
+      if (files.length === 0) {
+        return;
+      }
+
+      setIsLoadingLocalSource(true);
+      try {
+        const isZipUpload =
+          files.length === 1 && /\.zip$/i.test(files[0].file.name);
+        const sourceUrl = isZipUpload
+          ? await createLocalSourceFromZip(files[0].file)
+          : createLocalSourceFromFiles(files);
+        dispatch({ type: 'set_url', payload: sourceUrl });
+        addLog(
+          `Loaded local source "${getLocalSourceName(sourceUrl)}". Click Analyze to start.`,
+          'success',
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        addLog(`Could not read the uploaded source: ${errorMessage}`, 'error');
+      } finally {
+        setIsLoadingLocalSource(false);
+      }
+    },
+    [addLog],
+  );
+
   const cancelCurrentRun = useCallback(() => {
     if (!activeControllerRef.current) {
       return;
@@ -740,6 +1460,11 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     cancelRequestedRef.current = true;
     activeControllerRef.current.abort();
     activeControllerRef.current = null;
+    budgetPauseRef.current?.reject(
+      new DOMException('Operation aborted', 'AbortError'),
+    );
+    budgetPauseRef.current = null;
+    setBudgetPause(null);
     dispatch({ type: 'set_generation_progress', payload: null });
     dispatch({ type: 'set_status', payload: AgentStatus.IDLE });
     addLog('Operation cancelled by user.', 'warning', currentStatus);
@@ -747,7 +1472,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
 
   const ensureDiagramApiKey = useCallback(async (): Promise<boolean> => {
     try {
-      await validateGeminiApiKey();
+      await validateGeminiApiKey({ llm: llmSettingsRef.current });
       return true;
     } catch {
       return false;
@@ -755,8 +1480,20 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
   }, []);
 
   const startRepoProcess = useCallback(async () => {
-    const { url, includeDirectories, excludeDirectories } = stateRef.current;
-    const normalizedUrl = normalizeGitHubRepoUrl(url);
+    const {
+      url,
+      branch,
+      rootPath,
+      ingestionMode,
+      includeDirectories,
+      excludeDirectories,
+      scopePatterns,
+      maxFileSizeKb,
+    } = stateRef.current;
+    const isLocalSource = isLocalSourceUrl(url);
+    const normalizedUrl = isLocalSource
+      ? url.trim()
+      : normalizeSourceUrl(url, stateRef.current.selfHostedServer);
 
     if (activeControllerRef.current) {
       addLog(
@@ -768,7 +1505,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
 
     if (!normalizedUrl) {
       addLog(
-        'Please enter a valid GitHub repository URL (https://github.com/owner/repo).',
+        'Please enter a valid GitHub, GitLab, Bitbucket or Gitea repository URL (https://github.com/owner/repo).',
         'error',
       );
       return;
@@ -779,38 +1516,82 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     }
 
     generationContextRef.current = null;
+    analysisContentsRef.current = {};
+    setDependencyGraph(null);
     setRegeneratingFilePath(null);
     dispatch({ type: 'reset_for_analysis' });
+    usageRef.current = createEmptyUsage();
     cancelRequestedRef.current = false;
     const controller = new AbortController();
     activeControllerRef.current = controller;
 
     try {
+      const providerLabel =
+        LLM_PROVIDERS[llmSettingsRef.current.provider].label;
       addLog(
-        'Validating Gemini API key before analysis...',
+        `Validating ${providerLabel} access before analysis...`,
         'info',
         AgentStatus.ANALYZING,
       );
-      await validateGeminiApiKey({ abortSignal: controller.signal });
+      await validateGeminiApiKey({
+        abortSignal: controller.signal,
+        llm: llmSettingsRef.current,
+      });
       addLog(
-        'Gemini API key validation succeeded.',
+        `${providerLabel} access validation succeeded.`,
         'success',
         AgentStatus.ANALYZING,
       );
 
+      const { selfHostedServer } = stateRef.current;
+      const source = await resolveSourceProvider(
+        normalizedUrl,
+        controller.signal,
+      );
+      if (!source) {
+        throw new Error('Unsupported repository host.');
+      }
+
+      let requestedRef = branch;
+      let requestedRootPath = normalizeRootPath(rootPath);
+      if (!isLocalSource && hasAmbiguousSourceRef(url, selfHostedServer)) {
+        const refs = await source.listRefs(controller.signal);
+        dispatch({
+          type: 'set_available_refs',
+          payload: { refs, sourceUrl: url },
+        });
+        const parsedUrl = parseSourceUrl(
+          url,
+          selfHostedServer,
+          getRefNames(refs),
+        );
+        if (parsedUrl?.ref) {
+          requestedRef = parsedUrl.ref;
+          requestedRootPath = normalizeRootPath(parsedUrl.subpath);
+        }
+      }
+
       const result = await runAnalyzePhase({
-        url: normalizedUrl,
+        source,
+        ref: isLocalSource ? undefined : requestedRef || undefined,
+        rootPath: requestedRootPath || undefined,
+        ingestionMode,
         includeDirectories,
         excludeDirectories,
+        scopePatterns,
+        maxFileSizeKb,
         addLog,
         ensureDiagramApiKey,
-        onGitHubRateLimitUpdate: handleGitHubRateLimitUpdate,
+        llm: llmSettingsRef.current,
+        onUsage: recordLlmUsage,
         abortSignal: controller.signal,
       });
 
+      analysisContentsRef.current = result.sourceContents || {};
       dispatch({ type: 'set_files', payload: result.files });
       dispatch({ type: 'set_analysis', payload: result.analysis });
       dispatch({ type: 'set_repo_scope', payload: result.repoScope });
+      dispatch({ type: 'set_revision', payload: result.revision || null });
 
       if (result.diagram) {
         dispatch({ type: 'set_diagram', payload: result.diagram });
@@ -835,7 +1616,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       }
       cancelRequestedRef.current = false;
     }
-  }, [addLog, ensureDiagramApiKey, handleGitHubRateLimitUpdate]);
+  }, [addLog, ensureDiagramApiKey, recordLlmUsage, resolveSourceProvider]);
 
   const prepareMigrationPlan = useCallback(async () => {
     const currentState = stateRef.current;
@@ -853,6 +1634,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     }
 
     generationContextRef.current = null;
+    setDependencyGraph(null);
     setRegeneratingFilePath(null);
     dispatch({ type: 'set_generation_progress', payload: null });
     dispatch({ type: 'set_playbook', payload: null });
@@ -867,13 +1649,27 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     activeControllerRef.current = controller;
 
     try {
+      const source = await resolveSourceProvider(
+        currentState.url,
+        controller.signal,
+      );
+      if (!source) {
+        throw new Error('Unsupported repository host.');
+      }
+
       const scaffoldResult = await runScaffoldPhase({
-        url: currentState.url,
+        source,
+        commitSha: currentState.revision?.commitSha,
+        rootPath: currentState.repoScope?.rootPath,
+        ingestionMode: currentState.ingestionMode,
+        maxFileSizeKb: currentState.maxFileSizeKb,
         sourceFiles: currentState.files,
+        sourceContents: analysisContentsRef.current,
         analysis: currentState.analysis,
         config: currentState.config,
         addLog,
-        onGitHubRateLimitUpdate: handleGitHubRateLimitUpdate,
+        llm: llmSettingsRef.current,
+        onUsage: recordLlmUsage,
         abortSignal: controller.signal,
       });
 
@@ -882,13 +1678,29 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         fileContents: scaffoldResult.fileContents,
         filesToRead: scaffoldResult.filesToRead,
         graph: scaffoldResult.graph,
+        symbolIndex: scaffoldResult.symbolIndex,
       };
+      setDependencyGraph(scaffoldResult.graph);
 
       dispatch({
         type: 'set_source_context',
         payload: scaffoldResult.sourceContext,
       });
 
+      if (currentState.repoScope) {
+        dispatch({
+          type: 'set_repo_scope',
+          payload: {
+            ...currentState.repoScope,
+            skippedFiles: mergeSkippedFiles(
+              currentState.repoScope.skippedFiles,
+              scaffoldResult.skippedFiles,
+            ),
+            dependencyCycles: scaffoldResult.dependencyCycles ?? [],
+          },
+        });
+      }
+
       dispatch({
         type: 'set_generated_files',
         payload: scaffoldResult.generatedFiles,
@@ -898,8 +1710,11 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         analysis: currentState.analysis,
         generatedFilePaths: scaffoldResult.generatedFilePaths,
         sourceContext: scaffoldResult.sourceContext,
+        contextTokenBudget: currentState.contextTokenBudget,
         config: currentState.config,
         addLog,
+        llm: llmSettingsRef.current,
+        onUsage: recordLlmUsage,
         abortSignal: controller.signal,
       });
 
@@ -944,7 +1759,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       }
       cancelRequestedRef.current = false;
     }
-  }, [addLog, handleGitHubRateLimitUpdate]);
+  }, [addLog, recordLlmUsage, resolveSourceProvider]);
 
   const approveMigrationPlan = useCallback(async () => {
     const currentState = stateRef.current;
@@ -986,9 +1801,10 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       ? `${generationContextRef.current.sourceContext}\n\n${decisionContext}`
       : generationContextRef.current.sourceContext;
 
+    // Kept apart so retrieval only searches the legacy source.
     generationContextRef.current = {
       ...generationContextRef.current,
-      sourceContext: enrichedSourceContext,
+      decisionContext,
     };
 
     dispatch({
@@ -1019,15 +1835,22 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         },
       });
 
-      await runGeneratePhase({
+      const generateResult = await runGeneratePhase({
         generatedFiles,
         analysis: currentState.analysis,
-        sourceContext: enrichedSourceContext,
+        sourceContext: generationContextRef.current.sourceContext,
         fileContents: generationContextRef.current.fileContents,
         filesToRead: generationContextRef.current.filesToRead,
         graph: generationContextRef.current.graph,
+        symbolIndex: generationContextRef.current.symbolIndex,
+        decisionContext,
+        playbookNotes: currentState.playbookNotes,
+        contextTokenBudget: currentState.contextTokenBudget,
         config: currentState.config,
         addLog,
+        llm: llmSettingsRef.current,
+        onUsage: recordLlmUsage,
+        checkBudget: checkRunBudget,
         abortSignal: controller.signal,
         onFileStart: (path) => {
           startedFileCount = Math.min(
@@ -1081,31 +1904,46 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         },
       });
 
-      dispatch({ type: 'set_status', payload: AgentStatus.VERIFYING });
-
-      const verificationResult = await runVerificationPhase({
-        generatedFiles,
-        analysis: currentState.analysis,
-        addLog,
-        abortSignal: controller.signal,
-        onFileFixed: (path, content) => {
-          dispatch({
-            type: 'update_file_content',
-            payload: { path, content, tree: 'target' },
-          });
-          dispatch({
-            type: 'update_file_status',
-            payload: { path, status: 'done', tree: 'target' },
-          });
-        },
-      });
-
-      if (!verificationResult.passed) {
+      // A run stopped at its budget keeps the files generated so far and
+      // skips verification, which would spend more.
+      let stoppedAtBudget = generateResult.stopped;
+      if (stoppedAtBudget) {
         addLog(
-          `Verification reported ${verificationResult.issues.length} issue(s). Review recommended before shipping.`,
+          'Run budget reached. Skipping verification and keeping the partial output.',
           'warning',
-          AgentStatus.VERIFYING,
+          AgentStatus.CONVERTING,
         );
+      } else {
+        dispatch({ type: 'set_status', payload: AgentStatus.VERIFYING });
+
+        const verificationResult = await runVerificationPhase({
+          generatedFiles,
+          analysis: currentState.analysis,
+          addLog,
+          llm: llmSettingsRef.current,
+          onUsage: recordLlmUsage,
+          checkBudget: checkRunBudget,
+          abortSignal: controller.signal,
+          onFileFixed: (path, content) => {
+            dispatch({
+              type: 'update_file_content',
+              payload: { path, content, tree: 'target' },
+            });
+            dispatch({
+              type: 'update_file_status',
+              payload: { path, status: 'done', tree: 'target' },
+            });
+          },
+        });
+        stoppedAtBudget = Boolean(verificationResult.stopped);
+
+        if (!verificationResult.passed) {
+          addLog(
+            `Verification reported ${verificationResult.issues.length} issue(s). Review recommended before shipping.`,
+            'warning',
+            AgentStatus.VERIFYING,
+          );
+        }
       }
 
       const endTime = Date.now();
@@ -1115,6 +1953,8 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         currentState.startTime || Date.now(),
         endTime,
         currentState.analysis,
+        usageRef.current,
+        currentState.costEstimate,
       );
       const historyEntry = createHistoryEntry({
         state: currentState,
@@ -1131,11 +1971,19 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       dispatch({ type: 'set_report', payload: report });
       dispatch({ type: 'set_status', payload: AgentStatus.COMPLETED });
       setShowReport(true);
-      addLog(
-        'Migration Complete. System Ready.',
-        'success',
-        AgentStatus.COMPLETED,
-      );
+      if (stoppedAtBudget) {
+        addLog(
+          'Migration stopped at the run budget with partial output.',
+          'warning',
+          AgentStatus.COMPLETED,
+        );
+      } else {
+        addLog(
+          'Migration Complete. System Ready.',
+          'success',
+          AgentStatus.COMPLETED,
+        );
+      }
     } catch (error: unknown) {
       if (isAbortError(error)) {
         if (!cancelRequestedRef.current) {
@@ -1158,7 +2006,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       }
       cancelRequestedRef.current = false;
     }
-  }, [addLog]);
+  }, [addLog, checkRunBudget, recordLlmUsage]);
 
   const handleConfigConfirm = useCallback(() => {
     setShowConfigModal(false);
@@ -1183,6 +2031,15 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     dispatch({ type: 'set_history', payload: [] });
   }, []);
 
+  const refreshSourceCacheStats = useCallback(async () => {
+    setSourceCacheStats(await getSourceCacheStats());
+  }, []);
+
+  const clearSourceCache = useCallback(async () => {
+    await clearStoredSourceCache();
+    setSourceCacheStats(await getSourceCacheStats());
+  }, []);
+
   const handleDownload = useCallback(async () => {
     const { generatedFiles } = stateRef.current;
 
@@ -1234,11 +2091,16 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
   }, [addLog]);
 
   const handleFileSelect = useCallback(
-    async (path: string) => {
+    async (path: string, tree?: 'source' | 'target') => {
+      const currentState = stateRef.current;
+      // Callers switching trees pass the new one; the ref lags a render.
+      const activeTree = tree ?? currentState.activeTree;
+      if (activeTree !== currentState.activeTree) {
+        dispatch({ type: 'set_active_tree', payload: activeTree });
+      }
       dispatch({ type: 'set_selected_file', payload: path });
 
-      const currentState = stateRef.current;
-      if (currentState.activeTree !== 'source') {
+      if (activeTree !== 'source') {
         return;
       }
 
@@ -1250,8 +2112,13 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
       }
 
       try {
-        const content = await fetchFileContent(currentState.url, path, {
-          onRateLimitUpdate: handleGitHubRateLimitUpdate,
+        const source = await resolveSourceProvider(currentState.url);
+        if (!source) {
+          throw new Error('Unsupported repository host.');
+        }
+        const content = await source.readFile(path, {
+          ref: currentState.revision?.commitSha,
+          rootPath: currentState.repoScope?.rootPath,
         });
         dispatch({
           type: 'update_file_content',
@@ -1270,7 +2137,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         });
       }
     },
-    [handleGitHubRateLimitUpdate],
+    [resolveSourceProvider],
   );
 
   const handleGeneratedFileEdit = useCallback(
@@ -1287,8 +2154,37 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     [],
   );
 
+  const getRegenerationImpact = useCallback(
+    (path: string): RegenerationImpact | null => {
+      const currentState = stateRef.current;
+      if (!currentState.analysis) {
+        return null;
+      }
+
+      const context = generationContextRef.current;
+      const sourcePaths = context?.filesToRead.length
+        ? context.filesToRead.map((file) => file.path)
+        : flattenFiles(currentState.files)
+            .filter((file) => file.type === 'file')
+            .map((file) => file.path);
+
+      return analyzeRegenerationImpact({
+        targetPath: path,
+        generatedFiles: currentState.generatedFiles,
+        analysis: currentState.analysis,
+        sourceGraph: context?.graph || {},
+        sourcePaths,
+      });
+    },
+    [],
+  );
+
   const regenerateTargetFile = useCallback(
-    async (path: string, instructions = '') => {
+    async (
+      path: string,
+      instructions = '',
+      { includeDependents = false }: { includeDependents?: boolean } = {},
+    ) => {
       const currentState = stateRef.current;
 
       if (isBusyStatus(currentState.status)) {
@@ -1334,7 +2230,18 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         return;
       }
 
-      const previousContent = targetNode.content || '';
+      const dependentPaths = includeDependents
+        ? getRegenerationImpact(path)?.dependents || []
+        : [];
+      const regenerationPaths = [path, ...dependentPaths];
+      const generatedNodes = flattenFiles(currentState.generatedFiles);
+      const previousContents = new Map(
+        regenerationPaths.map((filePath) => [
+          filePath,
+          generatedNodes.find((node) => node.path === filePath)?.content || '',
+        ]),
+      );
+      const finishedPaths = new Set<string>();
       const controller = new AbortController();
 
       cancelRequestedRef.current = false;
@@ -1352,9 +2259,16 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
           fileContents: generationContextRef.current?.fileContents || {},
           filesToRead: generationContextRef.current?.filesToRead || [],
           graph: generationContextRef.current?.graph || {},
+          symbolIndex: generationContextRef.current?.symbolIndex,
+          decisionContext: generationContextRef.current?.decisionContext,
+          playbookNotes: currentState.playbookNotes,
+          contextTokenBudget: currentState.contextTokenBudget,
           config: currentState.config,
           userInstructions: instructions.trim(),
+          dependentPaths,
           addLog,
+          llm: llmSettingsRef.current,
+          onUsage: recordLlmUsage,
           abortSignal: controller.signal,
           onFileStart: (filePath) => {
             dispatch({
@@ -1369,6 +2283,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
             });
           },
           onFileGenerated: (filePath, content) => {
+            finishedPaths.add(filePath);
             dispatch({
               type: 'update_file_content',
               payload: { path: filePath, content, tree: 'target' },
@@ -1379,6 +2294,15 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
             });
           },
           onFileError: (filePath) => {
+            finishedPaths.add(filePath);
+            dispatch({
+              type: 'update_file_content',
+              payload: {
+                path: filePath,
+                content: previousContents.get(filePath) || '',
+                tree: 'target',
+              },
+            });
             dispatch({
               type: 'update_file_status',
               payload: { path: filePath, status: 'error', tree: 'target' },
@@ -1386,24 +2310,46 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
           },
         });
 
-        addLog(`Regenerated ${path}.`, 'success', AgentStatus.COMPLETED);
+        addLog(
+          dependentPaths.length > 0
+            ? `Regenerated ${path} and ${dependentPaths.length} dependent file(s).`
+            : `Regenerated ${path}.`,
+          'success',
+          AgentStatus.COMPLETED,
+        );
       } catch (error: unknown) {
-        dispatch({
-          type: 'update_file_content',
-          payload: { path, content: previousContent, tree: 'target' },
-        });
-
         if (isAbortError(error)) {
-          dispatch({
-            type: 'update_file_status',
-            payload: { path, status: 'done', tree: 'target' },
-          });
+          // Files regenerated before the cancel keep their new content.
+          regenerationPaths
+            .filter((filePath) => !finishedPaths.has(filePath))
+            .forEach((filePath) => {
+              dispatch({
+                type: 'update_file_content',
+                payload: {
+                  path: filePath,
+                  content: previousContents.get(filePath) || '',
+                  tree: 'target',
+                },
+              });
+              dispatch({
+                type: 'update_file_status',
+                payload: { path: filePath, status: 'done', tree: 'target' },
+              });
+            });
           if (!cancelRequestedRef.current) {
             addLog(`Regeneration cancelled for ${path}.`, 'warning');
           }
           return;
         }
 
+        dispatch({
+          type: 'update_file_content',
+          payload: {
+            path,
+            content: previousContents.get(path) || '',
+            tree: 'target',
+          },
+        });
         dispatch({
           type: 'update_file_status',
           payload: { path, status: 'error', tree: 'target' },
@@ -1418,7 +2364,7 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
         setRegeneratingFilePath(null);
       }
     },
-    [addLog],
+    [addLog, getRegenerationImpact, recordLlmUsage],
   );
 
   const selectedNode = useMemo(() => {
@@ -1464,10 +2410,29 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     isAwaitingPlanApproval,
     regeneratingFilePath,
     selectedNode,
+    accessToken,
+    isLoadingRefs,
+    isLoadingLocalSource,
+    sourceCacheStats,
+    dependencyGraph,
     setUrl,
+    setBranch,
+    setRootPath,
+    setIngestionMode,
+    setSelfHostedServer,
+    loadRepoRefs,
+    loadLocalSource,
+    setAccessToken,
     setConfig,
     setIncludeDirectories,
     setExcludeDirectories,
+    setScopePatterns,
+    excludeSourceFiles,
+    setMaxFileSizeKb,
+    setContextTokenBudget,
+    budgetPause,
+    setRunBudget,
+    resolveBudgetPause,
     setActiveTree,
     startRepoProcess,
     cancelCurrentRun,
@@ -1476,9 +2441,12 @@ export const useRepoMigration = (): UseRepoMigrationResult => {
     setPlaybookNotes,
     setClarificationAnswer,
     clearHistory,
+    refreshSourceCacheStats,
+    clearSourceCache,
     handleDownload,
     handleFileSelect,
     handleGeneratedFileEdit,
+    getRegenerationImpact,
     regenerateTargetFile,
   };
 };
@@ -0,0 +1,92 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
+import { createBitbucketSourceProvider } from './bitbucketService';
+
+const globalFetch = global.fetch;
+
+describe('bitbucketService', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = globalFetch;
+    vi.restoreAllMocks();
+  });
+
+  const provider = () =>
+    createBitbucketSourceProvider({ workspace: 'team', repoSlug: 'legacy' });
+
+  it('resolves the main branch to a commit hash', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ mainbranch: { name: 'master' } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hash: 'bb-sha' }),
+      });
+
+    await expect(provider().resolveRevision()).resolves.toEqual({
+      ref: 'master',
+      commitSha: 'bb-sha',
+    });
+    expect((global.fetch as Mock).mock.calls[1][0]).toBe(
+      'https://api.bitbucket.org/2.0/repositories/team/legacy/commit/master',
+    );
+  });
+
+  it('follows next links while listing the source tree', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          values: [
+            { path: 'app', type: 'commit_directory' },
+            { path: 'app/index.php', type: 'commit_file' },
+          ],
+          next: 'https://api.bitbucket.org/2.0/page-2',
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          values: [{ path: 'app/db.php', type: 'commit_file' }],
+        }),
+      });
+
+    const tree = await provider().listTree({ ref: 'bb-sha', rootPath: 'app' });
+
+    expect(tree.map((node) => node.path)).toEqual(['db.php', 'index.php']);
+    expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+      'https://api.bitbucket.org/2.0/repositories/team/legacy/src/bb-sha/?max_depth=64&pagelen=100',
+    );
+    expect((global.fetch as Mock).mock.calls[1][0]).toBe(
+      'https://api.bitbucket.org/2.0/page-2',
+    );
+  });
+
+  it('reads raw file contents at a commit', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      text: async () => '<?php echo 1;',
+    });
+
+    await expect(
+      provider().readFile('index.php', { ref: 'bb-sha' }),
+    ).resolves.toBe('<?php echo 1;');
+
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+    await expect(
+      provider().readFile('missing.php', { ref: 'bb-sha' }),
+    ).rejects.toThrow('File not found: missing.php');
+  });
+});
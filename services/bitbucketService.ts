@@ -0,0 +1,219 @@
+import {
+  FileNode,
+  GitHubRateLimitInfo,
+  RepoRefList,
+  RepoRevision,
+  RepoTreeIndexInfo,
+} from '../types';
+import { abortIfSignaled } from './abortUtils';
+import {
+  buildFileTree,
+  encodeRefPath,
+  parseRateLimitHeaders,
+  readRawFileResponse,
+  RemoteSourceProviderOptions,
+  rerootTreeItems,
+  SourceProvider,
+  SourceReadOptions,
+  SourceTreeItem,
+  throwHostResponseError,
+  toRepoPath,
+} from './sourceProvider';
+
+interface BitbucketPage<T> {
+  values?: T[];
+  next?: string;
+}
+
+interface BitbucketSourceEntry {
+  path: string;
+  type: 'commit_file' | 'commit_directory';
+  size?: number;
+}
+
+export interface BitbucketSourceProviderOptions extends RemoteSourceProviderOptions {
+  workspace: string;
+  repoSlug: string;
+}
+
+const BITBUCKET_API_BASE_URL = 'https://api.bitbucket.org/2.0';
+const MAX_PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 100;
+const MAX_TREE_DEPTH = 64;
+
+/**
+ * Bitbucket Cloud lists directories through the `src` endpoint; `max_depth`
+ * makes it recursive and results are followed through the `next` links.
+ */
+export const createBitbucketSourceProvider = ({
+  workspace,
+  repoSlug,
+  token,
+  onRateLimitUpdate,
+}: BitbucketSourceProviderOptions): SourceProvider => {
+  const repoApiUrl = `${BITBUCKET_API_BASE_URL}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repoSlug)}`;
+  const authenticated = Boolean(token?.trim());
+  let lastRateLimit: GitHubRateLimitInfo | null = null;
+  let lastTreeIndex: RepoTreeIndexInfo | null = null;
+
+  const bitbucketFetch = async (
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<Response> => {
+    abortIfSignaled(signal);
+    const response = await fetch(
+      url,
+      authenticated
+        ? { signal, headers: { Authorization: `Bearer ${token?.trim()}` } }
+        : { signal },
+    );
+
+    const rateLimit = parseRateLimitHeaders(
+      response.headers,
+      'x-ratelimit',
+      authenticated,
+    );
+    if (rateLimit.limit !== null || rateLimit.remaining !== null) {
+      lastRateLimit = rateLimit;
+      onRateLimitUpdate?.(rateLimit);
+    }
+    return response;
+  };
+
+  const resolveDefaultBranch = async (signal?: AbortSignal) => {
+    const response = await bitbucketFetch(repoApiUrl, signal);
+    if (!response.ok) {
+      throwHostResponseError(
+        'Bitbucket',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as {
+      mainbranch?: { name?: unknown };
+    };
+    const name = data?.mainbranch?.name;
+    return typeof name === 'string' && name ? name : 'main';
+  };
+
+  const resolveRevision = async (
+    requestedRef?: string,
+    signal?: AbortSignal,
+  ): Promise<RepoRevision> => {
+    const ref = requestedRef?.trim() || (await resolveDefaultBranch(signal));
+    const response = await bitbucketFetch(
+      `${repoApiUrl}/commit/${encodeRefPath(ref)}`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'Bitbucket',
+        response,
+        `Ref '${ref}' not found in repository.`,
+      );
+    }
+
+    const data = (await response.json()) as { hash?: unknown };
+    if (typeof data?.hash !== 'string' || !data.hash) {
+      throw new Error(`Bitbucket did not return a commit for ref '${ref}'.`);
+    }
+    return { ref, commitSha: data.hash };
+  };
+
+  const fetchRefNames = async (
+    kind: 'branches' | 'tags',
+    signal?: AbortSignal,
+  ): Promise<string[]> => {
+    const response = await bitbucketFetch(
+      `${repoApiUrl}/refs/${kind}?pagelen=${MAX_PAGE_SIZE}`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'Bitbucket',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as BitbucketPage<{ name?: unknown }>;
+    return (data?.values || [])
+      .map((item) => item?.name)
+      .filter((name): name is string => typeof name === 'string');
+  };
+
+  const listRefs = async (signal?: AbortSignal): Promise<RepoRefList> => {
+    const defaultBranch = await resolveDefaultBranch(signal);
+    const branches = await fetchRefNames('branches', signal);
+    const tags = await fetchRefNames('tags', signal);
+    return { defaultBranch, branches, tags };
+  };
+
+  const listTree = async (options?: SourceReadOptions): Promise<FileNode[]> => {
+    const signal = options?.signal;
+    const ref = options?.ref?.trim() || (await resolveDefaultBranch(signal));
+
+    const items: SourceTreeItem[] = [];
+    let nextUrl: string | undefined =
+      `${repoApiUrl}/src/${encodeRefPath(ref)}/?max_depth=${MAX_TREE_DEPTH}&pagelen=${MAX_PAGE_SIZE}`;
+    for (
+      let pageCount = 0;
+      nextUrl && pageCount < MAX_TREE_PAGES;
+      pageCount++
+    ) {
+      const response = await bitbucketFetch(nextUrl, signal);
+      if (!response.ok) {
+        throwHostResponseError(
+          'Bitbucket',
+          response,
+          `Repository structure not found (404) for ref '${ref}'.`,
+        );
+      }
+
+      const data =
+        (await response.json()) as BitbucketPage<BitbucketSourceEntry>;
+      (data?.values || []).forEach((entry) => {
+        items.push({
+          path: entry.path,
+          type: entry.type === 'commit_directory' ? 'tree' : 'blob',
+          size: entry.size,
+        });
+      });
+      nextUrl = data?.next;
+    }
+
+    lastTreeIndex = { complete: !nextUrl, walkedDirectories: 0 };
+    return buildFileTree(rerootTreeItems(items, options?.rootPath, ref));
+  };
+
+  const readFile = async (
+    path: string,
+    options?: SourceReadOptions,
+  ): Promise<string> => {
+    const ref =
+      options?.ref?.trim() || (await resolveDefaultBranch(options?.signal));
+    const repoPath = toRepoPath(path, options?.rootPath);
+    const response = await bitbucketFetch(
+      `${repoApiUrl}/src/${encodeRefPath(ref)}/${encodeRefPath(repoPath)}`,
+      options?.signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError('Bitbucket', response, `File not found: ${path}`);
+    }
+
+    return readRawFileResponse(response, path);
+  };
+
+  return {
+    kind: 'bitbucket',
+    label: `${workspace}/${repoSlug}`,
+    resolveDefaultBranch,
+    resolveRevision,
+    listRefs,
+    listTree,
+    readFile,
+    getRateLimitInfo: () => lastRateLimit,
+    getTreeIndexInfo: () => lastTreeIndex,
+  };
+};
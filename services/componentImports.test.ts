@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractAngularReferences,
+  extractBlockSources,
+  extractImportBindings,
+  extractScriptBlocks,
+  extractTemplateComponents,
+} from './componentImports';
+
+describe('componentImports', () => {
+  it('splits a single-file component into scripts, sources and tags', () => {
+    const component = `<script context="module">
+  export const prerender = true;
+</script>
+<script lang="ts">
+  import Nav from './Nav.svelte';
+  const items: Array<string> = [];
+</script>
+
+<Nav />
+<data-table rows={items} />
+<svelte:head><title>Home</title></svelte:head>
+<style lang="scss" src="./home.scss" />`;
+
+    expect(extractScriptBlocks(component)).toContain(
+      "import Nav from './Nav.svelte';",
+    );
+    expect(extractScriptBlocks(component)).toContain('prerender');
+    expect(extractBlockSources(component)).toEqual(['./home.scss']);
+    expect(extractTemplateComponents(component)).toEqual(['Nav', 'DataTable']);
+  });
+
+  it('maps import bindings and Angular decorator references', () => {
+    const source = `import { NgModule } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { ShellComponent as Shell } from './shell/shell.component';
+import * as fromStore from './store';
+import Default, { helper } from './legacy';
+
+@NgModule({
+  declarations: [Shell],
+  imports: [RouterModule.forRoot([]), Unknown],
+})
+export class AppModule {}
+
+@Component({ templateUrl: 'app.component.html', styleUrl: './app.css' })
+export class AppComponent {}`;
+
+    const bindings = extractImportBindings(source);
+    expect(bindings.get('Shell')).toBe('./shell/shell.component');
+    expect(bindings.get('fromStore')).toBe('./store');
+    expect(bindings.get('Default')).toBe('./legacy');
+    expect(bindings.get('helper')).toBe('./legacy');
+
+    expect(extractAngularReferences(source)).toEqual([
+      './app.component.html',
+      './app.css',
+      './shell/shell.component',
+      '@angular/router',
+    ]);
+  });
+});
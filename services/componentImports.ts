@@ -0,0 +1,143 @@
+/**
+ * Extraction helpers for component files whose dependencies live outside
+ * plain `import` statements: Vue/Svelte single-file components (script
+ * blocks, `src` attributes, template tags) and Angular decorators
+ * (`templateUrl`, `styleUrls`, NgModule lists). They return raw specifiers;
+ * the dependency graph resolves them.
+ */
+
+const SINGLE_FILE_COMPONENT_PATTERN = /\.(vue|svelte)$/i;
+const BLOCK_PATTERN = /<(script|style|template)\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi;
+const ANGULAR_DECORATOR_PATTERN = /@(Component|NgModule|Directive|Pipe)\s*\(/;
+const NG_MODULE_LIST_PATTERN =
+  /\b(declarations|imports|exports|bootstrap)\s*:\s*\[([^\]]*)\]/g;
+
+export const isSingleFileComponent = (path: string): boolean =>
+  SINGLE_FILE_COMPONENT_PATTERN.test(path);
+
+export const isAngularSource = (content: string): boolean =>
+  ANGULAR_DECORATOR_PATTERN.test(content);
+
+const readSrcAttribute = (attributes: string): string | null =>
+  attributes.match(/\bsrc\s*=\s*(['"])([^'"]+)\1/)?.[2] ?? null;
+
+/** Concatenates every `<script>` / `<script setup>` body. */
+export const extractScriptBlocks = (content: string): string =>
+  Array.from(content.matchAll(BLOCK_PATTERN))
+    .filter((match) => match[1].toLowerCase() === 'script')
+    .map((match) => match[3])
+    .join('\n');
+
+/** `<script src>`, `<style src>` and `<template src>` specifiers. */
+export const extractBlockSources = (content: string): string[] => {
+  const sources: string[] = [];
+  for (const match of content.matchAll(BLOCK_PATTERN)) {
+    const source = readSrcAttribute(match[2]);
+    if (source) {
+      sources.push(source);
+    }
+  }
+  // Self-closing form: <style src="./theme.css" />
+  for (const match of content.matchAll(/<(?:script|style)\b([^>]*)\/>/gi)) {
+    const source = readSrcAttribute(match[1]);
+    if (source) {
+      sources.push(source);
+    }
+  }
+  return sources;
+};
+
+const toPascalCase = (tag: string): string =>
+  tag
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+/**
+ * Component names used as tags in the markup, PascalCased. Catches
+ * globally registered and auto-imported components that have no import.
+ */
+export const extractTemplateComponents = (content: string): string[] => {
+  const markup = content.replace(
+    /<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi,
+    '',
+  );
+  const names = new Set<string>();
+  for (const match of markup.matchAll(
+    /<([A-Z][\w]*|[a-z][a-z0-9]*(?:-[a-z0-9]+)+)[\s/>]/g,
+  )) {
+    names.add(toPascalCase(match[1]));
+  }
+  return Array.from(names);
+};
+
+/** Local binding name -> module specifier for each import statement. */
+export const extractImportBindings = (content: string): Map<string, string> => {
+  const bindings = new Map<string, string>();
+  const importRegex =
+    /import\s+(?:type\s+)?([\w*\s{},$]+?)\s+from\s+['"]([^'"]+)['"]/g;
+
+  for (const match of content.matchAll(importRegex)) {
+    const [, clause, specifier] = match;
+    const named = clause.match(/\{([^}]*)\}/)?.[1] ?? '';
+    const outside = clause.replace(/\{[^}]*\}/, '');
+
+    named.split(',').forEach((entry) => {
+      const name = entry
+        .trim()
+        .split(/\s+as\s+/)
+        .pop();
+      if (name) {
+        bindings.set(name, specifier);
+      }
+    });
+    outside.split(',').forEach((entry) => {
+      const name = entry.trim().replace(/^\*\s+as\s+/, '');
+      if (/^[\w$]+$/.test(name)) {
+        bindings.set(name, specifier);
+      }
+    });
+  }
+
+  return bindings;
+};
+
+const readStringLiterals = (expression: string): string[] =>
+  Array.from(expression.matchAll(/(['"`])([^'"`]+)\1/g)).map(
+    (match) => match[2],
+  );
+
+/**
+ * `templateUrl`, `styleUrl(s)` and the specifiers behind symbols listed in
+ * NgModule (or standalone component) `declarations`/`imports`/`exports`/
+ * `bootstrap`. Resource URLs are relative to the component file.
+ */
+export const extractAngularReferences = (content: string): string[] => {
+  const resourceUrls: string[] = [];
+  for (const match of content.matchAll(
+    /\b(?:templateUrl|styleUrl)\s*:\s*(['"`])([^'"`]+)\1/g,
+  )) {
+    resourceUrls.push(match[2]);
+  }
+  for (const match of content.matchAll(/\bstyleUrls\s*:\s*\[([^\]]*)\]/g)) {
+    resourceUrls.push(...readStringLiterals(match[1]));
+  }
+
+  // Angular resolves bare resource URLs against the component file too.
+  const references = resourceUrls.map((url) =>
+    url.startsWith('.') ? url : `./${url}`,
+  );
+
+  const bindings = extractImportBindings(content);
+  for (const match of content.matchAll(NG_MODULE_LIST_PATTERN)) {
+    // `RouterModule.forRoot(routes)` lists RouterModule.
+    for (const symbol of match[2].matchAll(/(?:^|[\s,[])([A-Z][\w$]*)/g)) {
+      const specifier = bindings.get(symbol[1]);
+      if (specifier) {
+        references.push(specifier);
+      }
+    }
+  }
+
+  return references;
+};
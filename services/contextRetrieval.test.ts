@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRetrievalIndex,
+  chunkSourceFiles,
+  formatRetrievedChunks,
+  retrieveChunks,
+  tokenizeForRetrieval,
+} from './contextRetrieval';
+import { buildSymbolIndex } from './symbolIndex';
+
+describe('contextRetrieval', () => {
+  it('splits identifiers into searchable terms', () => {
+    expect(tokenizeForRetrieval('const fetchUserProfile = get_cart;')).toEqual([
+      'fetchuserprofile',
+      'fetch',
+      'user',
+      'profile',
+      'get',
+      'cart',
+    ]);
+  });
+
+  it('chunks along symbol boundaries and windows unindexed files', () => {
+    const fileContents = {
+      'src/cart.js': [
+        "import api from './api';",
+        'export function addItem(item) {',
+        '  return api.post(item);',
+        '}',
+        'export function removeItem(id) {',
+        '  return api.delete(id);',
+        '}',
+      ].join('\n'),
+      'notes.txt': Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n'),
+    };
+
+    const chunks = chunkSourceFiles(
+      fileContents,
+      buildSymbolIndex(fileContents),
+    );
+
+    expect(
+      chunks.map(
+        (chunk) => `${chunk.path}:${chunk.startLine}-${chunk.endLine}`,
+      ),
+    ).toEqual([
+      'src/cart.js:1-1',
+      'src/cart.js:2-4',
+      'src/cart.js:5-7',
+      'notes.txt:1-40',
+      'notes.txt:41-50',
+    ]);
+  });
+
+  it('returns the best matching chunks within the token budget', () => {
+    const index = buildRetrievalIndex([
+      {
+        path: 'src/checkout.js',
+        startLine: 1,
+        endLine: 3,
+        text: 'function submitPayment(card) {\n  return charge(card);\n}',
+      },
+      {
+        path: 'src/profile.js',
+        startLine: 1,
+        endLine: 3,
+        text: 'function renderAvatar(user) {\n  return user.avatarUrl;\n}',
+      },
+      {
+        path: 'src/payment-utils.js',
+        startLine: 10,
+        endLine: 12,
+        text: `function formatPayment(amount) {\n  // ${'-'.repeat(400)}\n}`,
+      },
+    ]);
+
+    const retrieved = retrieveChunks(
+      index,
+      'app/checkout/page.tsx payment',
+      30,
+    );
+    expect(retrieved.map((chunk) => chunk.path)).toEqual(['src/checkout.js']);
+
+    const excluded = retrieveChunks(
+      index,
+      'checkout payment',
+      1_000,
+      new Set(['src/checkout.js']),
+    );
+    expect(excluded.map((chunk) => chunk.path)).toEqual([
+      'src/payment-utils.js',
+    ]);
+    expect(formatRetrievedChunks(excluded)).toContain(
+      '--- SOURCE CHUNK: src/payment-utils.js (lines 10-12) ---',
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { SymbolIndex } from './symbolIndex';
+
+/**
+ * Lexical retrieval over legacy source chunks. Files are split along symbol
+ * boundaries (line windows when a file has no index) and scored with BM25,
+ * so each generation prompt gets the chunks most relevant to its target
+ * file within a token budget instead of the whole aggregated source.
+ */
+export interface SourceChunk {
+  path: string;
+  startLine: number; // 1-based
+  endLine: number; // 1-based, inclusive
+  text: string;
+}
+
+export interface RetrievalIndex {
+  chunks: SourceChunk[];
+  termFrequencies: Array<Map<string, number>>;
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface RetrievedChunk extends SourceChunk {
+  score: number;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 24_000;
+export const MIN_CONTEXT_TOKEN_BUDGET = 2_000;
+export const MAX_CONTEXT_TOKEN_BUDGET = 200_000;
+
+const WINDOW_LINES = 40;
+const MAX_CHUNK_LINES = 80;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TOKENS_PER_CHAR = 1 / 4;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'this',
+  'that',
+  'from',
+  'return',
+  'const',
+  'let',
+  'var',
+  'function',
+  'import',
+  'export',
+  'default',
+  'true',
+  'false',
+  'null',
+  'undefined',
+  'new',
+  'class',
+  'public',
+  'private',
+  'static',
+  'void',
+  'else',
+  'php',
+  'echo',
+  'def',
+  'self',
+  'end',
+]);
+
+export const estimateChunkTokens = (text: string): number =>
+  Math.ceil(text.length * TOKENS_PER_CHAR);
+
+/**
+ * Lowercased terms with camelCase, snake_case and kebab-case identifiers
+ * split into their parts (the whole identifier is kept too).
+ */
+export const tokenizeForRetrieval = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const match of text.matchAll(/[A-Za-z][A-Za-z0-9]*/g)) {
+    const word = match[0];
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .toLowerCase()
+      .split(' ');
+    [word.toLowerCase(), ...(parts.length > 1 ? parts : [])].forEach((term) => {
+      if (term.length > 2 && !STOP_WORDS.has(term)) {
+        terms.push(term);
+      }
+    });
+  }
+  return terms;
+};
+
+const splitLines = (
+  path: string,
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  chunks: SourceChunk[],
+) => {
+  for (let start = startLine; start <= endLine; start += MAX_CHUNK_LINES) {
+    const end = Math.min(endLine, start + MAX_CHUNK_LINES - 1);
+    const text = lines.slice(start - 1, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ path, startLine: start, endLine: end, text });
+    }
+  }
+};
+
+export const chunkSourceFiles = (
+  fileContents: Record<string, string>,
+  symbolIndex: SymbolIndex = {},
+): SourceChunk[] => {
+  const chunks: SourceChunk[] = [];
+
+  Object.entries(fileContents).forEach(([path, content]) => {
+    const lines = content.split('\n');
+    const symbols = (symbolIndex[path] || []).filter(
+      (symbol) => symbol.kind !== 'option',
+    );
+
+    if (symbols.length === 0) {
+      for (let start = 1; start <= lines.length; start += WINDOW_LINES) {
+        splitLines(
+          path,
+          lines,
+          start,
+          Math.min(lines.length, start + WINDOW_LINES - 1),
+          chunks,
+        );
+      }
+      return;
+    }
+
+    // Symbols become chunks; code between them (imports, top-level
+    // statements) forms chunks of its own.
+    let nextLine = 1;
+    symbols.forEach((symbol) => {
+      if (symbol.startLine < nextLine) {
+        return;
+      }
+      splitLines(path, lines, nextLine, symbol.startLine - 1, chunks);
+      splitLines(path, lines, symbol.startLine, symbol.endLine, chunks);
+      nextLine = symbol.endLine + 1;
+    });
+    splitLines(path, lines, nextLine, lines.length, chunks);
+  });
+
+  return chunks;
+};
+
+export const buildRetrievalIndex = (chunks: SourceChunk[]): RetrievalIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = chunks.map((chunk) => {
+    // The path describes every chunk of the file.
+    const frequencies = new Map<string, number>();
+    [
+      ...tokenizeForRetrieval(chunk.path),
+      ...tokenizeForRetrieval(chunk.text),
+    ].forEach((term) =>
+      frequencies.set(term, (frequencies.get(term) || 0) + 1),
+    );
+    frequencies.forEach((_, term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1),
+    );
+    return frequencies;
+  });
+  const lengths = termFrequencies.map((frequencies) =>
+    Array.from(frequencies.values()).reduce((total, count) => total + count, 0),
+  );
+
+  return {
+    chunks,
+    termFrequencies,
+    lengths,
+    documentFrequency,
+    averageLength:
+      lengths.reduce((total, length) => total + length, 0) /
+      Math.max(lengths.length, 1),
+  };
+};
+
+/**
+ * Best-scoring chunks that fit `tokenBudget`, returned in file order.
+ * Chunks from `excludePaths` (already in the prompt) are skipped.
+ */
+export const retrieveChunks = (
+  index: RetrievalIndex,
+  query: string,
+  tokenBudget: number,
+  excludePaths: Set<string> = new Set(),
+): RetrievedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenizeForRetrieval(query)));
+  const chunkCount = index.chunks.length;
+
+  const scored = index.chunks
+    .map((chunk, chunkIndex) => {
+      const frequencies = index.termFrequencies[chunkIndex];
+      const lengthNorm =
+        1 -
+        BM25_B +
+        (BM25_B * index.lengths[chunkIndex]) / (index.averageLength || 1);
+      const score = queryTerms.reduce((total, term) => {
+        const frequency = frequencies.get(term) || 0;
+        if (frequency === 0) {
+          return total;
+        }
+        const documents = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(
+          1 + (chunkCount - documents + 0.5) / (documents + 0.5),
+        );
+        return (
+          total +
+          (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm)
+        );
+      }, 0);
+      return { ...chunk, score };
+    })
+    .filter((chunk) => chunk.score > 0 && !excludePaths.has(chunk.path))
+    .sort((a, b) => b.score - a.score);
+
+  const selected: RetrievedChunk[] = [];
+  let remaining = tokenBudget;
+  for (const chunk of scored) {
+    const tokens = estimateChunkTokens(chunk.text);
+    if (tokens <= remaining) {
+      selected.push(chunk);
+      remaining -= tokens;
+    }
+  }
+
+  return selected.sort(
+    (a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine,
+  );
+};
+
+export const formatRetrievedChunks = (chunks: SourceChunk[]): string =>
+  chunks
+    .map(
+      (chunk) =>
+        `\n\n--- SOURCE CHUNK: ${chunk.path} (lines ${chunk.startLine}-${chunk.endLine}) ---\n${chunk.text}`,
+    )
+    .join('');
@@ -2,8 +2,13 @@ import { describe, expect, test } from 'vitest';
 import {
   analyzeImports,
   buildDependencyGraph,
+  findDependencyCycles,
+  findStronglyConnectedComponents,
+  getDependents,
   getRelatedFiles,
+  getTransitiveDependents,
 } from './dependencyGraph';
+import { createImportResolver, parseTsConfigAliases } from './importResolver';
 import { FileNode } from '../types';
 
 describe('Dependency Graph', () => {
@@ -23,6 +28,24 @@ describe('Dependency Graph', () => {
     expect(imports).not.toContain('react'); // Should ignore external
   });
 
+  test('analyzeImports follows aliased imports through a resolver', () => {
+    const resolveImport = createImportResolver(
+      parseTsConfigAliases(
+        '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }',
+        'tsconfig.json',
+      ),
+      ['src/components/Header.tsx'],
+    );
+    const code = `
+      import Header from '@/components/Header';
+      import { format } from 'date-fns';
+    `;
+
+    expect(
+      analyzeImports(code, 'src/pages/Home.tsx', { resolveImport }),
+    ).toEqual(['src/components/Header.tsx']);
+  });
+
   test('getRelatedFiles returns dependencies recursively', () => {
     // Mock File Nodes
     const files: FileNode[] = [
@@ -67,4 +90,139 @@ describe('Dependency Graph', () => {
     const limitDeps = getRelatedFiles('src/app.js', graph, 1);
     expect(limitDeps).toHaveLength(1);
   });
+
+  test('buildDependencyGraph follows Vue and Angular components', () => {
+    const files: FileNode[] = [
+      {
+        name: 'App.vue',
+        path: 'src/App.vue',
+        type: 'file',
+        status: 'pending',
+        content: `<template>
+  <AppHeader />
+  <user-card :user="user" />
+  <router-view />
+</template>
+<script setup>
+import AppHeader from './components/AppHeader.vue';
+</script>
+<style src="./styles/app.css"></style>`,
+      },
+      {
+        name: 'AppHeader.vue',
+        path: 'src/components/AppHeader.vue',
+        type: 'file',
+        status: 'pending',
+        content: '<template><header /></template>',
+      },
+      {
+        name: 'UserCard.vue',
+        path: 'src/components/UserCard.vue',
+        type: 'file',
+        status: 'pending',
+        content: '<template><div /></template>',
+      },
+      {
+        name: 'app.module.ts',
+        path: 'ng/app.module.ts',
+        type: 'file',
+        status: 'pending',
+        content: `import { NgModule } from '@angular/core';
+import { HeaderComponent } from './header/header.component';
+@NgModule({ declarations: [HeaderComponent], bootstrap: [HeaderComponent] })
+export class AppModule {}`,
+      },
+      {
+        name: 'header.component.ts',
+        path: 'ng/header/header.component.ts',
+        type: 'file',
+        status: 'pending',
+        content: `@Component({
+  selector: 'app-header',
+  templateUrl: './header.component.html',
+  styleUrls: ['header.component.scss'],
+})
+export class HeaderComponent {}`,
+      },
+    ];
+
+    const graph = buildDependencyGraph(files);
+
+    expect(graph['src/App.vue']).toEqual([
+      'src/components/AppHeader.vue',
+      'src/styles/app.css',
+      'src/components/UserCard.vue',
+    ]);
+    expect(graph['ng/app.module.ts']).toEqual(['ng/header/header.component']);
+    expect(graph['ng/header/header.component.ts']).toEqual([
+      'ng/header/header.component.html',
+      'ng/header/header.component.scss',
+    ]);
+  });
+
+  test('findStronglyConnectedComponents lists dependencies first', () => {
+    const edges: Record<string, string[]> = {
+      app: ['store', 'ui'],
+      store: ['api'],
+      api: ['store'],
+      ui: [],
+    };
+
+    expect(
+      findStronglyConnectedComponents(
+        Object.keys(edges),
+        (node) => edges[node],
+      ),
+    ).toEqual([['api', 'store'], ['ui'], ['app']]);
+  });
+
+  test('findDependencyCycles reports mutual and self imports', () => {
+    expect(
+      findDependencyCycles({
+        'src/a.js': ['src/b'],
+        'src/b.js': ['src/c'],
+        'src/c.js': ['src/a'],
+        'src/d.js': ['src/d'],
+        'src/e.js': ['src/a'],
+      }),
+    ).toEqual([['src/a.js', 'src/b.js', 'src/c.js'], ['src/d.js']]);
+  });
+
+  test('findDependencyCycles resolves directory indexes and exact stems', () => {
+    const graph = {
+      'src/a.test.ts': ['src/a'],
+      'src/a.module.css': [],
+      'src/a.ts': ['src/components'],
+      'src/components/index.ts': ['src/components/Button'],
+      'src/components/Button.tsx': ['src/a'],
+    };
+
+    expect(findDependencyCycles(graph)).toEqual([
+      ['src/a.ts', 'src/components/Button.tsx', 'src/components/index.ts'],
+    ]);
+    expect(getRelatedFiles('src/a.test.ts', graph, 1)).toEqual(['src/a.ts']);
+    expect(getDependents('src/a.ts', graph)).toEqual([
+      'src/a.test.ts',
+      'src/components/Button.tsx',
+    ]);
+  });
+
+  test('getDependents and getTransitiveDependents follow imports backwards', () => {
+    const graph = {
+      'lib/api.ts': [],
+      'lib/index.ts': [],
+      'components/Cart.tsx': ['lib/api'],
+      'components/Nav.tsx': ['lib'],
+      'app/page.tsx': ['components/Cart', 'components/Nav'],
+    };
+
+    expect(getDependents('lib/api.ts', graph)).toEqual(['components/Cart.tsx']);
+    expect(getDependents('lib/index.ts', graph)).toEqual([
+      'components/Nav.tsx',
+    ]);
+    expect(getTransitiveDependents('lib/api.ts', graph)).toEqual([
+      'components/Cart.tsx',
+      'app/page.tsx',
+    ]);
+  });
 });
@@ -1,10 +1,47 @@
 import { FileNode } from '../types';
+import {
+  extractAngularReferences,
+  extractBlockSources,
+  extractImportBindings,
+  extractScriptBlocks,
+  extractTemplateComponents,
+  isAngularSource,
+  isSingleFileComponent,
+} from './componentImports';
+import { ImportResolver } from './importResolver';
+import {
+  createModuleIndex,
+  extractLanguageImports,
+  ModuleIndex,
+} from './languageImports';
 
 export interface DependencyGraph {
   [filePath: string]: string[]; // filePath -> list of imported file paths
 }
 
-export const analyzeImports = (content: string, filePath: string): string[] => {
+export interface ImportResolutionContext {
+  resolveImport?: ImportResolver; // JS/TS path aliases and workspace packages
+  moduleIndex?: ModuleIndex; // Repo files, for module and component lookups
+}
+
+const resolveSpecifier = (
+  specifier: string,
+  filePath: string,
+  resolveImport?: ImportResolver,
+): string | null => {
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    // Resolve relative path to absolute (repo-root relative) path
+    return resolvePath(filePath, specifier);
+  }
+  // Aliases and workspace packages; external packages resolve to null
+  return resolveImport ? resolveImport(specifier, filePath) : null;
+};
+
+const analyzeScriptImports = (
+  content: string,
+  filePath: string,
+  resolveImport?: ImportResolver,
+): string[] => {
   const imports: string[] = [];
   // Regex to match:
   // 1. import ... from '...'
@@ -16,18 +53,86 @@ export const analyzeImports = (content: string, filePath: string): string[] => {
   let match;
   while ((match = importRegex.exec(content)) !== null) {
     const importPath = match[1] || match[2] || match[3];
-    if (
-      importPath &&
-      (importPath.startsWith('./') || importPath.startsWith('../'))
-    ) {
-      // Resolve relative path to absolute (repo-root relative) path
-      const resolved = resolvePath(filePath, importPath);
+    const resolved =
+      importPath && resolveSpecifier(importPath, filePath, resolveImport);
+    if (resolved) {
       imports.push(resolved);
     }
   }
   return imports;
 };
 
+/**
+ * Vue/Svelte components: script blocks, `src` attributes, and template tags
+ * naming a component file in the repo (global or auto-imported ones).
+ */
+const analyzeComponentImports = (
+  content: string,
+  filePath: string,
+  { resolveImport, moduleIndex }: ImportResolutionContext,
+): string[] => {
+  const extension = filePath.slice(filePath.lastIndexOf('.'));
+  const script = extractScriptBlocks(content);
+  const bindings = extractImportBindings(script);
+  const imports = [
+    ...analyzeScriptImports(script, filePath, resolveImport),
+    ...extractBlockSources(content).map((source) =>
+      resolveSpecifier(source, filePath, resolveImport),
+    ),
+    ...extractTemplateComponents(content)
+      .filter((name) => !bindings.has(name))
+      .map((name) => moduleIndex?.findFile(`${name}${extension}`) ?? null),
+  ];
+
+  return Array.from(
+    new Set(
+      imports.filter(
+        (path): path is string => Boolean(path) && path !== filePath,
+      ),
+    ),
+  );
+};
+
+export const analyzeImports = (
+  content: string,
+  filePath: string,
+  context: ImportResolutionContext = {},
+): string[] => {
+  const languageImports = extractLanguageImports(
+    content,
+    filePath,
+    context.moduleIndex ?? createModuleIndex([]),
+  );
+  if (languageImports) {
+    return languageImports;
+  }
+
+  if (isSingleFileComponent(filePath)) {
+    return analyzeComponentImports(content, filePath, context);
+  }
+
+  const imports = analyzeScriptImports(
+    content,
+    filePath,
+    context.resolveImport,
+  );
+  if (isAngularSource(content)) {
+    // templateUrl/styleUrls and NgModule symbols, deduplicated against the
+    // plain imports they usually repeat.
+    extractAngularReferences(content).forEach((reference) => {
+      const resolved = resolveSpecifier(
+        reference,
+        filePath,
+        context.resolveImport,
+      );
+      if (resolved && !imports.includes(resolved)) {
+        imports.push(resolved);
+      }
+    });
+  }
+  return imports;
+};
+
 const resolvePath = (currentPath: string, importPath: string): string => {
   const currentDir = currentPath.split('/').slice(0, -1);
   const importParts = importPath.split('/');
@@ -43,14 +148,35 @@ const resolvePath = (currentPath: string, importPath: string): string => {
   return currentDir.join('/');
 };
 
-export const buildDependencyGraph = (files: FileNode[]): DependencyGraph => {
+export const buildDependencyGraph = (
+  files: FileNode[],
+  context: ImportResolutionContext = {},
+): DependencyGraph => {
   const graph: DependencyGraph = {};
+  const filePaths: string[] = [];
+  const collectPaths = (node: FileNode) => {
+    if (node.type === 'file') {
+      filePaths.push(node.path);
+    }
+    node.children?.forEach(collectPaths);
+  };
+  files.forEach(collectPaths);
+  // Without the full repo listing, module lookups can still find the files
+  // being graphed.
+  const resolutionContext = {
+    ...context,
+    moduleIndex: context.moduleIndex ?? createModuleIndex(filePaths),
+  };
 
   const processNode = (node: FileNode) => {
     if (node.type === 'file' && node.content) {
       // Basic normalization to ensure extensions don't mess up matching too much
       // Ideally we would check for .js, .ts, etc. but simple exact matching for now
-      graph[node.path] = analyzeImports(node.content, node.path);
+      graph[node.path] = analyzeImports(
+        node.content,
+        node.path,
+        resolutionContext,
+      );
     }
     if (node.children) {
       node.children.forEach(processNode);
@@ -61,6 +187,78 @@ export const buildDependencyGraph = (files: FileNode[]): DependencyGraph => {
   return graph;
 };
 
+// Extensionless imports prefer script files, as bundlers and tsc do.
+const EXTENSION_PRIORITY = [
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.vue',
+  '.svelte',
+];
+const INDEX_RANK_OFFSET = EXTENSION_PRIORITY.length + 1;
+
+const getExtensionRank = (extension: string): number => {
+  const rank = EXTENSION_PRIORITY.indexOf(extension);
+  return rank === -1 ? EXTENSION_PRIORITY.length : rank;
+};
+
+/**
+ * Maps an import as recorded in the graph to the graph key it names: the
+ * exact path, then the path plus one extension (`./a` is `a.ts`, never
+ * `a.test.ts`), then a directory index (`./components` is
+ * `components/index.ts`).
+ */
+const createPathResolver = (
+  paths: string[],
+): ((dep: string) => string | undefined) => {
+  const exact = new Set(paths);
+  const candidates = new Map<string, { path: string; rank: number }>();
+  const addCandidate = (key: string, path: string, rank: number) => {
+    const current = candidates.get(key);
+    if (
+      !current ||
+      rank < current.rank ||
+      (rank === current.rank && path < current.path)
+    ) {
+      candidates.set(key, { path, rank });
+    }
+  };
+
+  for (const path of paths) {
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    if (dot <= slash + 1) {
+      continue;
+    }
+    const stem = path.slice(0, dot);
+    const rank = getExtensionRank(path.slice(dot));
+    addCandidate(stem, path, rank);
+    if (stem.slice(slash + 1) === 'index' && slash > 0) {
+      addCandidate(path.slice(0, slash), path, INDEX_RANK_OFFSET + rank);
+    }
+  }
+
+  return (dep) => (exact.has(dep) ? dep : candidates.get(dep)?.path);
+};
+
+/** Graph keys a file imports, with each recorded import resolved exactly. */
+export const createDependencyResolver = (
+  graph: DependencyGraph,
+): ((path: string) => string[]) => {
+  const resolvePath = createPathResolver(Object.keys(graph));
+  return (path) =>
+    Array.from(
+      new Set(
+        (graph[path] || [])
+          .map(resolvePath)
+          .filter((dep): dep is string => Boolean(dep)),
+      ),
+    );
+};
+
 export const getRelatedFiles = (
   targetPath: string,
   graph: DependencyGraph,
@@ -68,19 +266,13 @@ export const getRelatedFiles = (
 ): string[] => {
   const related: Set<string> = new Set();
   const queue: string[] = [targetPath];
+  const resolveDependencies = createDependencyResolver(graph);
 
   // Simple BFS to find dependencies
   while (queue.length > 0 && related.size < limit) {
     const current = queue.shift()!;
-    const deps = graph[current] || [];
-
-    for (const dep of deps) {
-      // We try to match the import path to a key in the graph
-      // Since imports might omit extensions (e.g. ./utils instead of ./utils.ts), we try to find a match
-      const match = Object.keys(graph).find(
-        (k) => k === dep || k.startsWith(dep + '.'),
-      );
 
+    for (const match of resolveDependencies(current)) {
       if (match && !related.has(match) && match !== targetPath) {
         if (related.size >= limit) break;
         related.add(match);
@@ -92,3 +284,124 @@ export const getRelatedFiles = (
 
   return Array.from(related);
 };
+
+// Direct importers per file, each list sorted by path.
+const buildDependentsIndex = (
+  graph: DependencyGraph,
+): Map<string, string[]> => {
+  const resolveDependencies = createDependencyResolver(graph);
+  const dependents = new Map<string, string[]>();
+  for (const path of Object.keys(graph).sort()) {
+    for (const dep of resolveDependencies(path)) {
+      if (dep !== path) {
+        dependents.set(dep, [...(dependents.get(dep) || []), path]);
+      }
+    }
+  }
+  return dependents;
+};
+
+/** Files that import `targetPath` directly, sorted by path. */
+export const getDependents = (
+  targetPath: string,
+  graph: DependencyGraph,
+): string[] => buildDependentsIndex(graph).get(targetPath) || [];
+
+/**
+ * Every file that reaches `targetPath` through its imports, nearest first:
+ * direct importers, then their importers, and so on.
+ */
+export const getTransitiveDependents = (
+  targetPath: string,
+  graph: DependencyGraph,
+): string[] => {
+  const dependents: string[] = [];
+  const seen = new Set<string>([targetPath]);
+  const queue: string[] = [targetPath];
+  const dependentsIndex = buildDependentsIndex(graph);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependent of dependentsIndex.get(current) || []) {
+      if (!seen.has(dependent)) {
+        seen.add(dependent);
+        dependents.push(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  return dependents;
+};
+
+/**
+ * Tarjan's algorithm. Components are returned dependencies-first: every
+ * component comes after the components its members depend on.
+ */
+export const findStronglyConnectedComponents = (
+  nodes: string[],
+  getDependencies: (node: string) => Iterable<string>,
+): string[][] => {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (node: string) => {
+    indexOf.set(node, nextIndex);
+    lowLink.set(node, nextIndex);
+    nextIndex++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const dependency of getDependencies(node)) {
+      if (!indexOf.has(dependency)) {
+        visit(dependency);
+        lowLink.set(
+          node,
+          Math.min(lowLink.get(node)!, lowLink.get(dependency)!),
+        );
+      } else if (onStack.has(dependency)) {
+        lowLink.set(
+          node,
+          Math.min(lowLink.get(node)!, indexOf.get(dependency)!),
+        );
+      }
+    }
+
+    if (lowLink.get(node) === indexOf.get(node)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  nodes.forEach((node) => {
+    if (!indexOf.has(node)) {
+      visit(node);
+    }
+  });
+
+  return components;
+};
+
+/** Import cycles: groups of mutually dependent files, each sorted by path. */
+export const findDependencyCycles = (graph: DependencyGraph): string[][] => {
+  const paths = Object.keys(graph);
+  const resolveDependencies = createDependencyResolver(graph);
+
+  return findStronglyConnectedComponents(paths, resolveDependencies)
+    .filter(
+      (component) =>
+        component.length > 1 ||
+        resolveDependencies(component[0]).includes(component[0]),
+    )
+    .map((component) => [...component].sort());
+};
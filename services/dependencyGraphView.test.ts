@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraphView } from './dependencyGraphView';
+
+describe('dependencyGraphView', () => {
+  const graph = {
+    'src/app.js': ['src/lib/store', 'src/lib/missing'],
+    'src/lib/store.js': ['src/lib/api'],
+    'src/lib/api.js': ['src/lib/store'],
+  };
+
+  it('clusters files by directory and flags cycles and unresolved imports', () => {
+    const view = buildDependencyGraphView({
+      graph,
+      sourcePaths: ['src/app.js', 'src/lib/store.js', 'src/lib/api.js'],
+    });
+
+    expect(view.clusters.map((cluster) => cluster.name)).toEqual([
+      'src',
+      'src/lib',
+      'Unresolved imports',
+    ]);
+    expect(view.cycleCount).toBe(1);
+    expect(view.unresolvedCount).toBe(1);
+    expect(
+      view.nodes.filter((node) => node.inCycle).map((node) => node.path),
+    ).toEqual(['src/lib/api.js', 'src/lib/store.js']);
+    expect(
+      view.edges.filter((edge) => edge.inCycle).map((edge) => edge.from),
+    ).toEqual(['source:src/lib/store.js', 'source:src/lib/api.js']);
+    expect(view.edges).toContainEqual({
+      from: 'source:src/app.js',
+      to: 'unresolved:src/lib/missing',
+      kind: 'unresolved',
+      inCycle: false,
+    });
+  });
+
+  it('overlays semantic mappings onto existing target files', () => {
+    const view = buildDependencyGraphView({
+      graph,
+      sourcePaths: [],
+      targetPaths: ['app/page.tsx'],
+      mappings: [
+        {
+          sourcePath: 'src/app.js',
+          targetPath: 'app/page.tsx',
+          rationale: 'entry',
+          confidence: 0.9,
+        },
+        {
+          sourcePath: 'src/lib/api.js',
+          targetPath: 'lib/not-generated.ts',
+          rationale: 'api',
+          confidence: 0.5,
+        },
+      ],
+      showMappings: true,
+    });
+
+    expect(
+      view.nodes.filter((node) => node.kind === 'target').map((n) => n.path),
+    ).toEqual(['app/page.tsx']);
+    expect(view.edges.filter((edge) => edge.kind === 'mapping')).toEqual([
+      {
+        from: 'source:src/app.js',
+        to: 'target:app/page.tsx',
+        kind: 'mapping',
+        inCycle: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import { RepoAnalysisResult } from '../types';
+import { DependencyGraph, findDependencyCycles } from './dependencyGraph';
+
+/**
+ * Lays out the source dependency graph for the graph panel: files are
+ * clustered by directory, imports that match no repo file become
+ * "unresolved" nodes, and semantic source→target mappings can be overlaid
+ * as a target cluster.
+ */
+export type GraphViewNodeKind = 'source' | 'target' | 'unresolved';
+
+export interface GraphViewNode {
+  id: string;
+  path: string;
+  label: string;
+  kind: GraphViewNodeKind;
+  x: number;
+  y: number;
+  inCycle: boolean;
+}
+
+export interface GraphViewEdge {
+  from: string;
+  to: string;
+  kind: 'import' | 'mapping' | 'unresolved';
+  inCycle: boolean;
+}
+
+export interface GraphViewCluster {
+  name: string;
+  kind: GraphViewNodeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DependencyGraphView {
+  nodes: GraphViewNode[];
+  edges: GraphViewEdge[];
+  clusters: GraphViewCluster[];
+  width: number;
+  height: number;
+  cycleCount: number;
+  unresolvedCount: number;
+}
+
+interface DependencyGraphViewInput {
+  graph: DependencyGraph;
+  sourcePaths: string[]; // Every source file, not just those in the graph
+  targetPaths?: string[];
+  mappings?: RepoAnalysisResult['semanticFileMappings'];
+  showMappings?: boolean;
+}
+
+export const GRAPH_NODE_WIDTH = 180;
+export const GRAPH_NODE_HEIGHT = 22;
+const NODE_GAP = 6;
+const CLUSTER_PADDING = 10;
+const CLUSTER_HEADER = 20;
+const CLUSTER_GAP = 40;
+const CLUSTERS_PER_ROW = 4;
+const CLUSTER_WIDTH = GRAPH_NODE_WIDTH + CLUSTER_PADDING * 2;
+
+const getParentDirectory = (path: string): string =>
+  path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const toGraphNodeId = (kind: GraphViewNodeKind, path: string) =>
+  `${kind}:${path}`;
+
+export const buildDependencyGraphView = ({
+  graph,
+  sourcePaths,
+  targetPaths = [],
+  mappings = [],
+  showMappings = false,
+}: DependencyGraphViewInput): DependencyGraphView => {
+  const graphPaths = Object.keys(graph);
+  const knownSourcePaths = [...new Set([...graphPaths, ...sourcePaths])];
+  // Same matching as getRelatedFiles: imports may omit extensions or name a
+  // directory index.
+  const resolveDependency = (dep: string): string | null =>
+    knownSourcePaths.find(
+      (path) =>
+        path === dep ||
+        path.startsWith(`${dep}.`) ||
+        path.startsWith(`${dep}/index.`),
+    ) ?? null;
+
+  const cycles = findDependencyCycles(graph);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, index) =>
+    cycle.forEach((path) => cycleOf.set(path, index)),
+  );
+
+  const sourceNodes = new Set<string>(graphPaths);
+  const unresolvedNodes = new Set<string>();
+  const edges: GraphViewEdge[] = [];
+
+  graphPaths.forEach((path) => {
+    graph[path].forEach((dep) => {
+      const resolved = resolveDependency(dep);
+      if (!resolved) {
+        unresolvedNodes.add(dep);
+        edges.push({
+          from: toGraphNodeId('source', path),
+          to: toGraphNodeId('unresolved', dep),
+          kind: 'unresolved',
+          inCycle: false,
+        });
+        return;
+      }
+
+      sourceNodes.add(resolved);
+      const cycle = cycleOf.get(path);
+      edges.push({
+        from: toGraphNodeId('source', path),
+        to: toGraphNodeId('source', resolved),
+        kind: 'import',
+        inCycle: cycle !== undefined && cycleOf.get(resolved) === cycle,
+      });
+    });
+  });
+
+  const targetNodes = new Set<string>();
+  if (showMappings) {
+    const knownTargets = new Set(targetPaths);
+    mappings.forEach((mapping) => {
+      if (
+        !sourceNodes.has(mapping.sourcePath) ||
+        (knownTargets.size > 0 && !knownTargets.has(mapping.targetPath))
+      ) {
+        return;
+      }
+      targetNodes.add(mapping.targetPath);
+      edges.push({
+        from: toGraphNodeId('source', mapping.sourcePath),
+        to: toGraphNodeId('target', mapping.targetPath),
+        kind: 'mapping',
+        inCycle: false,
+      });
+    });
+  }
+
+  // Source directories first, then unresolved imports, then targets.
+  const groups: Array<{
+    name: string;
+    kind: GraphViewNodeKind;
+    paths: string[];
+  }> = [];
+  const byDirectory = new Map<string, string[]>();
+  Array.from(sourceNodes)
+    .sort()
+    .forEach((path) => {
+      const directory = getParentDirectory(path) || '(root)';
+      byDirectory.set(directory, [...(byDirectory.get(directory) || []), path]);
+    });
+  Array.from(byDirectory.keys())
+    .sort()
+    .forEach((directory) =>
+      groups.push({
+        name: directory,
+        kind: 'source',
+        paths: byDirectory.get(directory) || [],
+      }),
+    );
+  if (unresolvedNodes.size > 0) {
+    groups.push({
+      name: 'Unresolved imports',
+      kind: 'unresolved',
+      paths: Array.from(unresolvedNodes).sort(),
+    });
+  }
+  if (targetNodes.size > 0) {
+    groups.push({
+      name: 'Target files',
+      kind: 'target',
+      paths: Array.from(targetNodes).sort(),
+    });
+  }
+
+  const nodes: GraphViewNode[] = [];
+  const clusters: GraphViewCluster[] = [];
+  let rowY = 0;
+  let rowHeight = 0;
+  let width = 0;
+
+  groups.forEach((group, index) => {
+    const column = index % CLUSTERS_PER_ROW;
+    if (column === 0 && index > 0) {
+      rowY += rowHeight + CLUSTER_GAP;
+      rowHeight = 0;
+    }
+
+    const x = column * (CLUSTER_WIDTH + CLUSTER_GAP);
+    const height =
+      CLUSTER_HEADER +
+      CLUSTER_PADDING +
+      group.paths.length * (GRAPH_NODE_HEIGHT + NODE_GAP);
+    clusters.push({
+      name: group.name,
+      kind: group.kind,
+      x,
+      y: rowY,
+      width: CLUSTER_WIDTH,
+      height,
+    });
+
+    group.paths.forEach((path, position) => {
+      nodes.push({
+        id: toGraphNodeId(group.kind, path),
+        path,
+        label:
+          group.kind === 'unresolved' ? path : path.split('/').pop() || path,
+        kind: group.kind,
+        x: x + CLUSTER_PADDING,
+        y: rowY + CLUSTER_HEADER + position * (GRAPH_NODE_HEIGHT + NODE_GAP),
+        inCycle: group.kind === 'source' && cycleOf.has(path),
+      });
+    });
+
+    rowHeight = Math.max(rowHeight, height);
+    width = Math.max(width, x + CLUSTER_WIDTH);
+  });
+
+  return {
+    nodes,
+    edges,
+    clusters,
+    width,
+    height: rowY + rowHeight,
+    cycleCount: cycles.length,
+    unresolvedCount: unresolvedNodes.size,
+  };
+};
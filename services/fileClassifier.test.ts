@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyFileByPath,
+  classifyFileContent,
+  mergeSkippedFiles,
+  toMaxFileBytes,
+} from './fileClassifier';
+
+const maxBytes = toMaxFileBytes(256);
+
+describe('fileClassifier', () => {
+  it('classifies by extension, generated name and listed size', () => {
+    expect(classifyFileByPath('fonts/icons.woff2', 900, maxBytes)).toEqual({
+      path: 'fonts/icons.woff2',
+      reason: 'binary',
+      size: 900,
+    });
+    expect(
+      classifyFileByPath('public/js/app.min.js', undefined, maxBytes)?.reason,
+    ).toBe('generated');
+    expect(classifyFileByPath('dist/app.js.map', 10, maxBytes)?.reason).toBe(
+      'generated',
+    );
+    expect(
+      classifyFileByPath('db/dump.sql', 5 * 1024 * 1024, maxBytes)?.reason,
+    ).toBe('oversized');
+    expect(classifyFileByPath('src/app.js', 2048, maxBytes)).toBeNull();
+  });
+
+  it('sniffs binary and minified content after download', () => {
+    expect(
+      classifyFileContent(
+        'assets/data.dat2',
+        'PK\u0003\u0004\u0000\u0000',
+        maxBytes,
+      )?.reason,
+    ).toBe('binary');
+
+    const minified = `!function(){${'var a=1;'.repeat(400)}}();`;
+    expect(
+      classifyFileContent('vendor/lib.js', minified, maxBytes)?.reason,
+    ).toBe('minified');
+
+    const source = Array.from(
+      { length: 200 },
+      (_, index) => `const value${index} = ${index};`,
+    ).join('\n');
+    expect(classifyFileContent('src/values.js', source, maxBytes)).toBeNull();
+    expect(
+      classifyFileContent('src/values.js', source, toMaxFileBytes(1))?.reason,
+    ).toBe('oversized');
+  });
+
+  it('merges skip lists by path', () => {
+    expect(
+      mergeSkippedFiles(
+        [{ path: 'b.js', reason: 'oversized' }],
+        [
+          { path: 'b.js', reason: 'minified' },
+          { path: 'a.bin', reason: 'binary' },
+        ],
+      ),
+    ).toEqual([
+      { path: 'a.bin', reason: 'binary' },
+      { path: 'b.js', reason: 'minified' },
+    ]);
+  });
+});
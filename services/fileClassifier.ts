@@ -0,0 +1,170 @@
+import { SkippedFileReason, SkippedSourceFile } from '../types';
+
+export const DEFAULT_MAX_SOURCE_FILE_KB = 256;
+
+// Extensions that never hold migratable source. Images are handled
+// separately because the explorer can preview them.
+const BINARY_EXTENSIONS = new Set([
+  '7z',
+  'a',
+  'avi',
+  'bin',
+  'class',
+  'dat',
+  'db',
+  'dll',
+  'dmg',
+  'doc',
+  'docx',
+  'dylib',
+  'eot',
+  'exe',
+  'flac',
+  'gz',
+  'iso',
+  'jar',
+  'mdb',
+  'mov',
+  'mp3',
+  'mp4',
+  'o',
+  'ogg',
+  'otf',
+  'pdf',
+  'ppt',
+  'pptx',
+  'psd',
+  'pyc',
+  'rar',
+  'so',
+  'sqlite',
+  'sqlite3',
+  'swf',
+  'tar',
+  'tgz',
+  'tif',
+  'tiff',
+  'ttf',
+  'war',
+  'wasm',
+  'wav',
+  'webm',
+  'woff',
+  'woff2',
+  'xls',
+  'xlsx',
+  'zip',
+]);
+
+const GENERATED_FILE_PATTERNS = [
+  /\.min\.(js|mjs|css)$/i,
+  /\.(js|css)\.map$/i,
+  /[.-]bundle\.(js|css)$/i,
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|composer\.lock|Gemfile\.lock|Cargo\.lock|poetry\.lock|Pipfile\.lock)$/,
+  /(_pb2\.py|\.pb\.go|\.g\.dart)$/,
+];
+
+// Only the head of a file is sniffed; binaries show NULs early.
+const SNIFF_LENGTH = 8_000;
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+// Minified code packs whole modules onto a handful of very long lines.
+const MIN_MINIFIED_LENGTH = 1_000;
+const MIN_MINIFIED_AVERAGE_LINE_LENGTH = 250;
+
+export const SKIPPED_FILE_REASON_LABELS: Record<SkippedFileReason, string> = {
+  binary: 'Binary',
+  generated: 'Generated',
+  minified: 'Minified',
+  oversized: 'Too large',
+};
+
+export const toMaxFileBytes = (maxFileSizeKb: number): number =>
+  Math.max(1, maxFileSizeKb) * 1024;
+
+const getExtension = (path: string): string => {
+  const name = path.split('/').pop() || '';
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? name.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+/** Classifies from the path and listed size alone, before any download. */
+export const classifyFileByPath = (
+  path: string,
+  size: number | undefined,
+  maxFileBytes: number,
+): SkippedSourceFile | null => {
+  if (BINARY_EXTENSIONS.has(getExtension(path))) {
+    return { path, reason: 'binary', size };
+  }
+
+  if (GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(path))) {
+    return { path, reason: 'generated', size };
+  }
+
+  if (typeof size === 'number' && size > maxFileBytes) {
+    return { path, reason: 'oversized', size };
+  }
+
+  return null;
+};
+
+const looksBinary = (content: string): boolean => {
+  const head = content.slice(0, SNIFF_LENGTH);
+  if (head.includes('\u0000')) {
+    return true;
+  }
+
+  // Undecodable bytes surface as U+FFFD or stray C0 control characters.
+  let suspicious = 0;
+  for (let index = 0; index < head.length; index++) {
+    const code = head.charCodeAt(index);
+    if (
+      code === 0xfffd ||
+      (code < 32 && code !== 9 && code !== 10 && code !== 13 && code !== 12)
+    ) {
+      suspicious++;
+    }
+  }
+  return head.length > 0 && suspicious / head.length > MAX_CONTROL_CHAR_RATIO;
+};
+
+const looksMinified = (content: string): boolean => {
+  if (content.length < MIN_MINIFIED_LENGTH) {
+    return false;
+  }
+
+  const lineCount = content.split('\n').length;
+  return content.length / lineCount > MIN_MINIFIED_AVERAGE_LINE_LENGTH;
+};
+
+/** Classifies a downloaded file; catches what the path and size missed. */
+export const classifyFileContent = (
+  path: string,
+  content: string,
+  maxFileBytes: number,
+): SkippedSourceFile | null => {
+  if (looksBinary(content)) {
+    return { path, reason: 'binary', size: content.length };
+  }
+
+  if (content.length > maxFileBytes) {
+    return { path, reason: 'oversized', size: content.length };
+  }
+
+  if (looksMinified(content)) {
+    return { path, reason: 'minified', size: content.length };
+  }
+
+  return null;
+};
+
+/** Merges skip lists by path; later entries replace earlier ones. */
+export const mergeSkippedFiles = (
+  ...lists: (SkippedSourceFile[] | undefined)[]
+): SkippedSourceFile[] => {
+  const byPath = new Map<string, SkippedSourceFile>();
+  lists.forEach((list) => list?.forEach((file) => byPath.set(file.path, file)));
+  return Array.from(byPath.values()).sort((a, b) =>
+    a.path.localeCompare(b.path),
+  );
+};
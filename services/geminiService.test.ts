@@ -2,12 +2,35 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   analyzeCode,
   generateArchitectureDiagram,
+  generateNextJsFileStream,
   generateProjectStructure,
   validateGeminiApiKey,
+  verifyCode,
 } from './geminiService';
+import { getDefaultLlmSettings } from './llmProviders';
 
 const mockFetch = vi.fn();
 
+const streamResponse = (parts: string[]) => {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+        controller.close();
+      },
+    }),
+  };
+};
+
+const config = {
+  uiFramework: 'tailwind' as const,
+  stateManagement: 'context' as const,
+  testingLibrary: 'vitest' as const,
+};
+
 describe('geminiService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -45,6 +68,21 @@ describe('geminiService', () => {
       );
     });
 
+    it('keeps the lighter snippet thinking budget', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ text: '{}' }),
+      });
+
+      await analyzeCode('source', 'js', 'ts');
+      await verifyCode('target', 'js', 'ts');
+
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(JSON.parse(init.body).config.thinkingBudget).toBe(1024);
+      }
+    });
+
     it('handles API errors gracefully', async () => {
       mockFetch.mockRejectedValue(new Error('API Error'));
 
@@ -145,4 +183,183 @@ describe('geminiService', () => {
       );
     });
   });
+
+  describe('generateNextJsFileStream', () => {
+    it('reports content as stream chunks arrive', async () => {
+      mockFetch.mockResolvedValue(
+        streamResponse([
+          '{"type":"chunk","text":"```tsx\\nexport const a',
+          ' = 1;\\n"}\n{"type":"chunk","text":"export const b = 2;\\n```"}\n',
+          '{"type":"done"}\n',
+        ]),
+      );
+      const onChunk = vi.fn();
+
+      const content = await generateNextJsFileStream(
+        'app/page.tsx',
+        'source',
+        '',
+        config,
+        onChunk,
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/gemini-stream',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([
+        'export const a = 1;\n',
+        'export const a = 1;\nexport const b = 2;',
+        'export const a = 1;\nexport const b = 2;',
+      ]);
+      expect(content).toBe('export const a = 1;\nexport const b = 2;');
+    });
+
+    it('reports the token usage sent with the done event', async () => {
+      mockFetch.mockResolvedValue(
+        streamResponse([
+          '{"type":"chunk","text":"export {};"}\n',
+          '{"type":"done","usageMetadata":{"promptTokenCount":900,"candidatesTokenCount":40,"thoughtsTokenCount":120}}\n',
+        ]),
+      );
+      const onUsage = vi.fn();
+
+      await generateNextJsFileStream(
+        'app/page.tsx',
+        'source',
+        '',
+        config,
+        vi.fn(),
+        {
+          onUsage,
+        },
+      );
+
+      expect(onUsage).toHaveBeenCalledWith({
+        provider: 'gemini',
+        stage: 'generation',
+        model: 'gemini-3-flash-preview',
+        promptTokens: 900,
+        candidateTokens: 40,
+        thinkingTokens: 120,
+      });
+    });
+
+    it('restarts the request when the stream fails midway', async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce(
+          streamResponse([
+            '{"type":"chunk","text":"partial"}\n',
+            '{"type":"error","status":503,"error":"Unavailable"}\n',
+          ]),
+        )
+        .mockResolvedValueOnce(
+          streamResponse([
+            '{"type":"chunk","text":"complete"}\n{"type":"done"}\n',
+          ]),
+        );
+      const onChunk = vi.fn();
+      const warn = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => undefined);
+
+      const pending = generateNextJsFileStream(
+        'app/page.tsx',
+        'source',
+        '',
+        config,
+        onChunk,
+      );
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toBe('complete');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([
+        'partial',
+        'complete',
+        'complete',
+      ]);
+      warn.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('stops without retrying when aborted mid-stream', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: new ReadableStream<Uint8Array>({
+          start(streamController) {
+            streamController.enqueue(
+              new TextEncoder().encode('{"type":"chunk","text":"par"}\n'),
+            );
+            controller.signal.addEventListener('abort', () =>
+              streamController.error(
+                new DOMException('Operation aborted', 'AbortError'),
+              ),
+            );
+          },
+        }),
+      });
+      const onChunk = vi.fn(() => controller.abort());
+
+      await expect(
+        generateNextJsFileStream(
+          'app/page.tsx',
+          'source',
+          '',
+          config,
+          onChunk,
+          {
+            abortSignal: controller.signal,
+          },
+        ),
+      ).rejects.toThrow('aborted');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onChunk).toHaveBeenCalledWith('par');
+    });
+  });
+
+  describe('model providers', () => {
+    it('sends the provider and the stage routing with each request', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ text: JSON.stringify(['package.json']) }),
+      });
+      const ollama = getDefaultLlmSettings('ollama');
+
+      await generateProjectStructure('summary', config, false, {
+        llm: {
+          ...ollama,
+          stages: {
+            ...ollama.stages,
+            scaffold: {
+              model: 'llama3.3:70b',
+              thinkingBudget: null,
+              temperature: 0.2,
+            },
+          },
+        },
+      });
+
+      const payload = JSON.parse(
+        String((mockFetch.mock.calls[0] as [string, RequestInit])[1].body),
+      ) as { provider: string; model: string; config: object };
+      expect(payload.provider).toBe('ollama');
+      expect(payload.model).toBe('llama3.3:70b');
+      expect(payload.config).toMatchObject({ temperature: 0.2 });
+      expect(payload.config).not.toHaveProperty('thinkingBudget');
+    });
+
+    it('skips diagrams for providers without image output', async () => {
+      const result = await generateArchitectureDiagram('Legacy app', {
+        llm: getDefaultLlmSettings('openai'),
+      });
+
+      expect(result).toBe('');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -24,17 +24,29 @@ import {
   VerificationResult,
 } from '../types';
 import { abortIfSignaled, isAbortError } from './abortUtils';
+import {
+  DEFAULT_LLM_SETTINGS,
+  LLM_PROVIDERS,
+  LlmSettings,
+  LlmStage,
+  LlmUsage,
+  resolveStageRouting,
+} from './llmProviders';
 
 const GEMINI_PROXY_ENDPOINT = '/api/gemini';
+const GEMINI_STREAM_PROXY_ENDPOINT = '/api/gemini-stream';
 const API_KEY_VALIDATION_CACHE_TTL_MS = 10 * 60 * 1000;
 const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
 const NETWORK_ERROR_PATTERN =
   /network|fetch|timeout|temporar|econnreset|etimedout|enotfound|socket|eai_again|unavailable/i;
 
-let validatedApiKeyCache: { verifiedAt: number } | null = null;
+let validatedApiKeyCache: { verifiedAt: number; cacheKey: string } | null =
+  null;
 
 interface GeminiRequestOptions {
   abortSignal?: AbortSignal;
+  llm?: LlmSettings; // Provider and stage routing; Gemini defaults when omitted
+  onUsage?: (usage: LlmUsage) => void; // Tokens of each completed request
 }
 
 interface GeminiImageConfig {
@@ -47,17 +59,30 @@ interface GeminiProxyConfig {
   responseMimeType?: string;
   responseModalities?: string[];
   thinkingBudget?: number;
+  temperature?: number;
   imageConfig?: GeminiImageConfig;
 }
 
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
 interface GeminiProxyResponse {
   text?: string;
   inlineData?: Array<{
     mimeType: string;
     data: string;
   }>;
+  usageMetadata?: GeminiUsageMetadata;
 }
 
+type GeminiStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; usageMetadata?: GeminiUsageMetadata }
+  | { type: 'error'; status?: number; error?: string };
+
 interface GeminiProxyError extends Error {
   status?: number;
 }
@@ -138,8 +163,55 @@ const createGeminiProxyError = (
   return error;
 };
 
-const requestGemini = async (
-  model: string,
+/**
+ * Proxy payload for a stage. The stage's thinking budget and temperature
+ * apply unless the call site sets its own.
+ */
+const toProxyRequestBody = (
+  stage: LlmStage,
+  contents: unknown,
+  config: GeminiProxyConfig,
+  options?: GeminiRequestOptions,
+): string => {
+  const llm = options?.llm ?? DEFAULT_LLM_SETTINGS;
+  const routing = resolveStageRouting(llm, stage);
+  return JSON.stringify({
+    provider: llm.provider,
+    model: routing.model,
+    contents,
+    config: {
+      ...(routing.thinkingBudget === null
+        ? {}
+        : { thinkingBudget: routing.thinkingBudget }),
+      ...(routing.temperature === null
+        ? {}
+        : { temperature: routing.temperature }),
+      ...config,
+    },
+  });
+};
+
+const reportUsage = (
+  stage: LlmStage,
+  usageMetadata: GeminiUsageMetadata | undefined,
+  options?: GeminiRequestOptions,
+) => {
+  if (!usageMetadata || !options?.onUsage) {
+    return;
+  }
+  const llm = options.llm ?? DEFAULT_LLM_SETTINGS;
+  options.onUsage({
+    provider: llm.provider,
+    stage,
+    model: resolveStageRouting(llm, stage).model,
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    candidateTokens: usageMetadata.candidatesTokenCount || 0,
+    thinkingTokens: usageMetadata.thoughtsTokenCount || 0,
+  });
+};
+
+const requestLlm = async (
+  stage: LlmStage,
   contents: unknown,
   config: GeminiProxyConfig,
   options?: GeminiRequestOptions,
@@ -150,11 +222,7 @@ const requestGemini = async (
       'Content-Type': 'application/json',
     },
     signal: options?.abortSignal,
-    body: JSON.stringify({
-      model,
-      contents,
-      config,
-    }),
+    body: toProxyRequestBody(stage, contents, config, options),
   });
 
   let payload: unknown = null;
@@ -179,9 +247,107 @@ const requestGemini = async (
     );
   }
 
+  reportUsage(stage, (payload as GeminiProxyResponse).usageMetadata, options);
   return payload as GeminiProxyResponse;
 };
 
+/**
+ * Reads the proxy's NDJSON stream, calling `onText` with the text so far
+ * after every chunk. A stream that errors or ends without `done` throws a
+ * retryable status error so `withRetry` can start the request over.
+ */
+const requestLlmStream = async (
+  stage: LlmStage,
+  contents: unknown,
+  config: GeminiProxyConfig,
+  onText: (text: string) => void,
+  options?: GeminiRequestOptions,
+): Promise<string> => {
+  const response = await fetch(GEMINI_STREAM_PROXY_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    signal: options?.abortSignal,
+    body: toProxyRequestBody(stage, contents, config, options),
+  });
+
+  if (!response.ok) {
+    let payload: unknown = null;
+    try {
+      payload = await response.json();
+    } catch {
+      // Some proxy responses may not include JSON bodies.
+    }
+    const message =
+      typeof (payload as { error?: unknown })?.error === 'string'
+        ? (payload as { error: string }).error
+        : `Gemini proxy request failed (${response.status}).`;
+    throw createGeminiProxyError(response.status, message);
+  }
+
+  let text = '';
+  let isDone = false;
+  let usageMetadata: GeminiUsageMetadata | undefined;
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    let event: GeminiStreamEvent;
+    try {
+      event = JSON.parse(line) as GeminiStreamEvent;
+    } catch {
+      throw createGeminiProxyError(
+        502,
+        'Gemini proxy returned an invalid stream event.',
+      );
+    }
+    if (event.type === 'chunk' && typeof event.text === 'string') {
+      text += event.text;
+      onText(text);
+    } else if (event.type === 'error') {
+      throw createGeminiProxyError(
+        typeof event.status === 'number' ? event.status : 500,
+        event.error || 'Gemini stream failed.',
+      );
+    } else if (event.type === 'done') {
+      isDone = true;
+      usageMetadata = event.usageMetadata;
+    }
+  };
+
+  if (!response.body) {
+    (await response.text()).split('\n').forEach(handleLine);
+  } else {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffered + decoder.decode());
+    } catch (error) {
+      reader.cancel().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  if (!isDone) {
+    throw createGeminiProxyError(502, 'Gemini stream ended unexpectedly.');
+  }
+
+  reportUsage(stage, usageMetadata, options);
+  return text;
+};
+
 const normalizeRepoAnalysis = (
   payload: Partial<RepoAnalysisResult> | null | undefined,
 ): RepoAnalysisResult => {
@@ -208,6 +374,23 @@ const normalizeRepoAnalysis = (
       )
     : [];
 
+  const packageReplacements = Array.isArray(payload?.packageReplacements)
+    ? payload.packageReplacements
+        .map((entry) => ({
+          legacyPackage:
+            typeof entry?.legacyPackage === 'string'
+              ? entry.legacyPackage.trim()
+              : '',
+          replacement:
+            typeof entry?.replacement === 'string'
+              ? entry.replacement.trim()
+              : '',
+          rationale:
+            typeof entry?.rationale === 'string' ? entry.rationale : '',
+        }))
+        .filter((entry) => entry.legacyPackage && entry.replacement)
+    : [];
+
   return {
     summary:
       typeof payload?.summary === 'string' && payload.summary.trim()
@@ -251,6 +434,7 @@ const normalizeRepoAnalysis = (
         : 'A generic software architecture diagram.',
     semanticFileMappings,
     migrationNotes,
+    packageReplacements,
   };
 };
 
@@ -414,9 +598,12 @@ export const validateGeminiApiKey = async (
   options?: GeminiRequestOptions,
 ): Promise<void> => {
   const abortSignal = options?.abortSignal;
+  const llm = options?.llm ?? DEFAULT_LLM_SETTINGS;
+  const { model } = resolveStageRouting(llm, 'generation');
+  const cacheKey = `${llm.provider}:${model}`;
 
   if (
-    validatedApiKeyCache &&
+    validatedApiKeyCache?.cacheKey === cacheKey &&
     Date.now() - validatedApiKeyCache.verifiedAt <
       API_KEY_VALIDATION_CACHE_TTL_MS
   ) {
@@ -426,8 +613,8 @@ export const validateGeminiApiKey = async (
   try {
     await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-flash-preview',
+        requestLlm(
+          'generation',
           'Respond with: OK',
           {
             thinkingBudget: 128,
@@ -439,6 +626,7 @@ export const validateGeminiApiKey = async (
 
     validatedApiKeyCache = {
       verifiedAt: Date.now(),
+      cacheKey,
     };
   } catch (error) {
     if (isAbortError(error)) {
@@ -446,6 +634,14 @@ export const validateGeminiApiKey = async (
     }
 
     const status = (error as { status?: number }).status;
+    if (llm.provider !== 'gemini') {
+      const { label, serverSetup } = LLM_PROVIDERS[llm.provider];
+      throw new Error(
+        `${label} provider did not respond (${status ?? 'network error'}). Check ${serverSetup} on the server and that the model "${model}" is available.`,
+        { cause: error },
+      );
+    }
+
     if (status === 401 || status === 403) {
       throw new Error(
         'Gemini API key is invalid or unauthorized. Verify GEMINI_API_KEY on the server and try again.',
@@ -482,13 +678,12 @@ export const analyzeCode = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'snippetAnalysis',
           prompt + '\n\nSource Code:\n' + sourceCode,
           {
             systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 1024,
           },
           options,
         ),
@@ -520,24 +715,23 @@ export const analyzeCode = async (
 export const analyzeRepository = async (
   fileList: string,
   readme: string,
+  packageInventory: string = 'No package manifests found.',
   options?: GeminiRequestOptions,
 ): Promise<RepoAnalysisResult> => {
   const abortSignal = options?.abortSignal;
-  const prompt = REPO_ANALYSIS_PROMPT_TEMPLATE.replace(
-    '{fileList}',
-    fileList,
-  ).replace('{readme}', readme);
+  const prompt = REPO_ANALYSIS_PROMPT_TEMPLATE.replace('{fileList}', fileList)
+    .replace('{readme}', readme)
+    .replace('{packageInventory}', packageInventory);
 
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'analysis',
           prompt,
           {
             systemInstruction: REPO_ANALYSIS_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 2048,
           },
           options,
         ),
@@ -581,13 +775,12 @@ export const generateProjectStructure = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'scaffold',
           prompt,
           {
             systemInstruction: SCAFFOLD_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 1024,
           },
           options,
         ),
@@ -631,13 +824,12 @@ export const generateMigrationPlaybook = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'playbook',
           prompt,
           {
             systemInstruction: PLAYBOOK_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 2048,
           },
           options,
         ),
@@ -658,14 +850,12 @@ export const generateMigrationPlaybook = async (
   }
 };
 
-export const generateNextJsFile = async (
+const buildGenerationPrompt = (
   targetFilePath: string,
   sourceContext: string,
   relatedFilesContext: string,
   config: MigrationConfig,
-  options?: GeminiRequestOptions,
-): Promise<string> => {
-  const abortSignal = options?.abortSignal;
+): string => {
   const safeContext =
     sourceContext.length > 500000
       ? sourceContext.substring(0, 500000) + '\n...[truncated]'
@@ -678,23 +868,35 @@ export const generateNextJsFile = async (
 
   const userConfigStr = JSON.stringify(config, null, 2);
 
-  const prompt = GENERATION_PROMPT_TEMPLATE.replace(
-    '{targetFilePath}',
-    targetFilePath,
-  )
+  return GENERATION_PROMPT_TEMPLATE.replace('{targetFilePath}', targetFilePath)
     .replace('{sourceContext}', safeContext)
     .replace('{relatedFilesContext}', safeRelated)
     .replace('{userConfig}', userConfigStr);
+};
+
+export const generateNextJsFile = async (
+  targetFilePath: string,
+  sourceContext: string,
+  relatedFilesContext: string,
+  config: MigrationConfig,
+  options?: GeminiRequestOptions,
+): Promise<string> => {
+  const abortSignal = options?.abortSignal;
+  const prompt = buildGenerationPrompt(
+    targetFilePath,
+    sourceContext,
+    relatedFilesContext,
+    config,
+  );
 
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-flash-preview',
+        requestLlm(
+          'generation',
           prompt,
           {
             systemInstruction: GENERATION_SYSTEM_INSTRUCTION,
-            thinkingBudget: 2048,
           },
           options,
         ),
@@ -711,6 +913,11 @@ export const generateNextJsFile = async (
   }
 };
 
+/**
+ * Like `generateNextJsFile`, but `onChunk` receives the content generated
+ * so far as it arrives. A retried request starts over, so its first chunk
+ * replaces whatever the failed attempt had produced.
+ */
 export const generateNextJsFileStream = async (
   targetFilePath: string,
   sourceContext: string,
@@ -719,14 +926,30 @@ export const generateNextJsFileStream = async (
   onChunk: (content: string) => void,
   options?: GeminiRequestOptions,
 ): Promise<string> => {
+  const abortSignal = options?.abortSignal;
+  const prompt = buildGenerationPrompt(
+    targetFilePath,
+    sourceContext,
+    relatedFilesContext,
+    config,
+  );
+
   try {
-    const content = await generateNextJsFile(
-      targetFilePath,
-      sourceContext,
-      relatedFilesContext,
-      config,
-      options,
+    const text = await withRetry(
+      () =>
+        requestLlmStream(
+          'generation',
+          prompt,
+          {
+            systemInstruction: GENERATION_SYSTEM_INSTRUCTION,
+          },
+          (streamedText) => onChunk(sanitizeGeneratedCode(streamedText)),
+          options,
+        ),
+      { abortSignal },
     );
+
+    const content = sanitizeGeneratedCode(text);
     onChunk(content);
     return content;
   } catch (error) {
@@ -743,6 +966,12 @@ export const generateArchitectureDiagram = async (
   options?: GeminiRequestOptions,
 ): Promise<string> => {
   const abortSignal = options?.abortSignal;
+  if (
+    !LLM_PROVIDERS[(options?.llm ?? DEFAULT_LLM_SETTINGS).provider]
+      .supportsImages
+  ) {
+    return '';
+  }
   const prompt = `Create a professional, high-level software architecture diagram.
   Style: Whiteboard, technical, clean lines, blue and white color scheme.
   System Description: ${description}`;
@@ -750,8 +979,8 @@ export const generateArchitectureDiagram = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-image-preview',
+        requestLlm(
+          'diagram',
           {
             parts: [{ text: prompt }],
           },
@@ -799,12 +1028,11 @@ export const convertCode = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-flash-preview',
+        requestLlm(
+          'snippetConversion',
           prompt,
           {
             systemInstruction: GENERATION_SYSTEM_INSTRUCTION,
-            thinkingBudget: 2048,
           },
           options,
         ),
@@ -838,13 +1066,12 @@ export const verifyCode = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'snippetVerification',
           prompt,
           {
             systemInstruction: VERIFICATION_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 1024,
           },
           options,
         ),
@@ -911,13 +1138,12 @@ export const verifyRepositoryFiles = async (
   try {
     const response = await withRetry(
       () =>
-        requestGemini(
-          'gemini-3-pro-preview',
+        requestLlm(
+          'verification',
           prompt,
           {
             systemInstruction: VERIFICATION_SYSTEM_INSTRUCTION,
             responseMimeType: 'application/json',
-            thinkingBudget: 2048,
           },
           options,
         ),
@@ -0,0 +1,90 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
+import { createGiteaSourceProvider } from './giteaService';
+
+const globalFetch = global.fetch;
+
+describe('giteaService', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = globalFetch;
+    vi.restoreAllMocks();
+  });
+
+  const provider = (token?: string) =>
+    createGiteaSourceProvider({
+      apiBaseUrl: 'https://git.example.com/api/v1',
+      owner: 'team',
+      repo: 'app',
+      token,
+    });
+
+  it('resolves refs through the commits listing', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ sha: 'gitea-sha' }],
+    });
+
+    await expect(provider('secret').resolveRevision('main')).resolves.toEqual({
+      ref: 'main',
+      commitSha: 'gitea-sha',
+    });
+
+    const [url, init] = (global.fetch as Mock).mock.calls[0];
+    expect(url).toBe(
+      'https://git.example.com/api/v1/repos/team/app/commits?sha=main&limit=1&stat=false&files=false',
+    );
+    expect(init.headers.Authorization).toBe('token secret');
+  });
+
+  it('pages through truncated trees', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          tree: [
+            { path: 'lib', type: 'tree' },
+            { path: 'lib/a.go', type: 'blob' },
+          ],
+          truncated: true,
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          tree: [{ path: 'main.go', type: 'blob' }],
+          truncated: false,
+        }),
+      });
+
+    const tree = await provider().listTree({ ref: 'gitea-sha' });
+
+    expect(tree.map((node) => node.path)).toEqual(['lib', 'main.go']);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect((global.fetch as Mock).mock.calls[1][0]).toContain('&page=2');
+  });
+
+  it('reads raw files relative to the project root', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      text: async () => 'package main',
+    });
+
+    await expect(
+      provider().readFile('main.go', { ref: 'gitea-sha', rootPath: 'cmd' }),
+    ).resolves.toBe('package main');
+    expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+      'https://git.example.com/api/v1/repos/team/app/raw/cmd/main.go?ref=gitea-sha',
+    );
+  });
+});
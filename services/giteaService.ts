@@ -0,0 +1,197 @@
+import {
+  FileNode,
+  RepoRefList,
+  RepoRevision,
+  RepoTreeIndexInfo,
+} from '../types';
+import { abortIfSignaled } from './abortUtils';
+import {
+  buildFileTree,
+  encodeRefPath,
+  readRawFileResponse,
+  RemoteSourceProviderOptions,
+  rerootTreeItems,
+  SourceProvider,
+  SourceReadOptions,
+  SourceTreeItem,
+  throwHostResponseError,
+  toRepoPath,
+} from './sourceProvider';
+
+interface GiteaTreeResponse {
+  tree?: SourceTreeItem[];
+  truncated?: boolean;
+}
+
+export interface GiteaSourceProviderOptions extends RemoteSourceProviderOptions {
+  apiBaseUrl: string; // https://<host>/api/v1
+  owner: string;
+  repo: string;
+}
+
+const MAX_REFS_PER_PAGE = 50;
+const TREE_PAGE_SIZE = 1000;
+const MAX_TREE_PAGES = 50;
+
+/**
+ * Self-hosted Gitea (and Forgejo) instances. The recursive tree endpoint is
+ * paginated and flags `truncated` while more pages remain.
+ */
+export const createGiteaSourceProvider = ({
+  apiBaseUrl,
+  owner,
+  repo,
+  token,
+}: GiteaSourceProviderOptions): SourceProvider => {
+  const repoApiUrl = `${apiBaseUrl.replace(/\/+$/, '')}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const trimmedToken = token?.trim();
+  let lastTreeIndex: RepoTreeIndexInfo | null = null;
+
+  const giteaFetch = (url: string, signal?: AbortSignal): Promise<Response> => {
+    abortIfSignaled(signal);
+    return fetch(
+      url,
+      trimmedToken
+        ? { signal, headers: { Authorization: `token ${trimmedToken}` } }
+        : { signal },
+    );
+  };
+
+  const resolveDefaultBranch = async (signal?: AbortSignal) => {
+    const response = await giteaFetch(repoApiUrl, signal);
+    if (!response.ok) {
+      throwHostResponseError(
+        'Gitea',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as { default_branch?: unknown };
+    return typeof data?.default_branch === 'string' && data.default_branch
+      ? data.default_branch
+      : 'main';
+  };
+
+  const resolveRevision = async (
+    requestedRef?: string,
+    signal?: AbortSignal,
+  ): Promise<RepoRevision> => {
+    const ref = requestedRef?.trim() || (await resolveDefaultBranch(signal));
+    const response = await giteaFetch(
+      `${repoApiUrl}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&files=false`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'Gitea',
+        response,
+        `Ref '${ref}' not found in repository.`,
+      );
+    }
+
+    const data = (await response.json()) as { sha?: unknown }[];
+    const commitSha = Array.isArray(data) ? data[0]?.sha : undefined;
+    if (typeof commitSha !== 'string' || !commitSha) {
+      throw new Error(`Ref '${ref}' not found in repository.`);
+    }
+    return { ref, commitSha };
+  };
+
+  const fetchRefNames = async (
+    kind: 'branches' | 'tags',
+    signal?: AbortSignal,
+  ): Promise<string[]> => {
+    const response = await giteaFetch(
+      `${repoApiUrl}/${kind}?limit=${MAX_REFS_PER_PAGE}`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'Gitea',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as { name?: unknown }[];
+    return Array.isArray(data)
+      ? data
+          .map((item) => item?.name)
+          .filter((name): name is string => typeof name === 'string')
+      : [];
+  };
+
+  const listRefs = async (signal?: AbortSignal): Promise<RepoRefList> => {
+    const defaultBranch = await resolveDefaultBranch(signal);
+    const branches = await fetchRefNames('branches', signal);
+    const tags = await fetchRefNames('tags', signal);
+    return { defaultBranch, branches, tags };
+  };
+
+  const listTree = async (options?: SourceReadOptions): Promise<FileNode[]> => {
+    const signal = options?.signal;
+    // The trees endpoint only accepts commit SHAs, not branch names.
+    const ref =
+      options?.ref?.trim() ||
+      (await resolveRevision(undefined, signal)).commitSha;
+
+    const items: SourceTreeItem[] = [];
+    let hasMore = true;
+    for (let page = 1; hasMore && page <= MAX_TREE_PAGES; page++) {
+      const response = await giteaFetch(
+        `${repoApiUrl}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        signal,
+      );
+      if (!response.ok) {
+        throwHostResponseError(
+          'Gitea',
+          response,
+          `Repository structure not found (404) for ref '${ref}'.`,
+        );
+      }
+
+      const data = (await response.json()) as GiteaTreeResponse;
+      (data?.tree || []).forEach((item) => {
+        if (item.type === 'blob' || item.type === 'tree') {
+          items.push({ path: item.path, type: item.type, size: item.size });
+        }
+      });
+      hasMore = Boolean(data?.truncated) && (data?.tree || []).length > 0;
+    }
+
+    lastTreeIndex = { complete: !hasMore, walkedDirectories: 0 };
+    return buildFileTree(rerootTreeItems(items, options?.rootPath, ref));
+  };
+
+  const readFile = async (
+    path: string,
+    options?: SourceReadOptions,
+  ): Promise<string> => {
+    const ref = options?.ref?.trim();
+    const refQuery = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const repoPath = toRepoPath(path, options?.rootPath);
+    const response = await giteaFetch(
+      `${repoApiUrl}/raw/${encodeRefPath(repoPath)}${refQuery}`,
+      options?.signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError('Gitea', response, `File not found: ${path}`);
+    }
+
+    return readRawFileResponse(response, path);
+  };
+
+  return {
+    kind: 'gitea',
+    label: `${owner}/${repo}`,
+    resolveDefaultBranch,
+    resolveRevision,
+    listRefs,
+    listTree,
+    readFile,
+    // Gitea does not advertise rate-limit headers.
+    getRateLimitInfo: () => null,
+    getTreeIndexInfo: () => lastTreeIndex,
+  };
+};
@@ -12,14 +12,22 @@ import {
   normalizeGitHubRepoUrl,
   fetchRepoStructure,
   fetchFileContent,
+  fetchGitHubProxyStatus,
+  fetchRepoRefs,
+  loadRepoArchive,
+  resolveRepoRevision,
+  createGitHubSourceProvider,
 } from './githubService';
+import { clearSourceCache, getSourceCacheStats } from './sourceCache';
+import JSZip from 'jszip';
 
 // Mock fetch global
 const globalFetch = global.fetch;
 
 describe('githubService', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     global.fetch = vi.fn();
+    await clearSourceCache();
   });
 
   afterEach(() => {
@@ -32,24 +40,39 @@ describe('githubService', () => {
       expect(parseGitHubUrl('https://github.com/owner/repo')).toEqual({
         owner: 'owner',
         repo: 'repo',
-        branch: 'main',
+        ref: null,
+        subpath: '',
       });
       expect(parseGitHubUrl('github.com/owner/repo')).toEqual({
         owner: 'owner',
         repo: 'repo',
-        branch: 'main',
+        ref: null,
+        subpath: '',
       });
       expect(parseGitHubUrl('https://github.com/owner/repo.git')).toEqual({
         owner: 'owner',
         repo: 'repo',
-        branch: 'main',
+        ref: null,
+        subpath: '',
       });
       expect(
         parseGitHubUrl('https://github.com/owner/repo/tree/main/src'),
       ).toEqual({
         owner: 'owner',
         repo: 'repo',
-        branch: 'main',
+        ref: 'main',
+        subpath: 'src',
+      });
+    });
+
+    it('prefers known refs that contain slashes', () => {
+      const url = 'https://github.com/owner/repo/tree/release/1.2/packages/app';
+      expect(parseGitHubUrl(url)?.ref).toBe('release');
+      expect(parseGitHubUrl(url, ['main', 'release/1.2'])).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        ref: 'release/1.2',
+        subpath: 'packages/app',
       });
     });
 
@@ -114,6 +137,56 @@ describe('githubService', () => {
       expect(result.find((n) => n.name === 'src')?.children).toHaveLength(1); // src/index.ts
     });
 
+    it('walks a truncated tree one directory at a time', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            sha: 'root-sha',
+            tree: [{ path: 'lib/deep/partial.js', type: 'blob', sha: 'b0' }],
+            truncated: true,
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            sha: 'root-sha',
+            tree: [
+              { path: 'lib', type: 'tree', sha: 'lib-sha' },
+              { path: 'docs', type: 'tree', sha: 'docs-sha' },
+              { path: 'index.js', type: 'blob', sha: 'b1' },
+            ],
+            truncated: false,
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            sha: 'lib-sha',
+            tree: [{ path: 'util.js', type: 'blob', sha: 'b2' }],
+            truncated: false,
+          }),
+        });
+
+      const provider = createGitHubSourceProvider({
+        owner: 'owner',
+        repo: 'repo',
+      });
+      const tree = await provider.listTree({ ref: 'abc123', rootPath: 'lib' });
+
+      expect(tree.map((node) => node.path)).toEqual(['util.js']);
+      expect(provider.getTreeIndexInfo()).toEqual({
+        complete: true,
+        walkedDirectories: 2,
+      });
+      // The docs directory is outside the project root and never listed.
+      expect((global.fetch as Mock).mock.calls.map(([url]) => url)).toEqual([
+        'https://api.github.com/repos/owner/repo/git/trees/abc123?recursive=1',
+        'https://api.github.com/repos/owner/repo/git/trees/root-sha',
+        'https://api.github.com/repos/owner/repo/git/trees/lib-sha',
+      ]);
+    });
+
     it('throws error on invalid URL', async () => {
       await expect(fetchRepoStructure('invalid')).rejects.toThrow(
         'Invalid GitHub URL',
@@ -132,6 +205,219 @@ describe('githubService', () => {
     });
   });
 
+  describe('revisions', () => {
+    it('resolves the default branch to a commit SHA', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ default_branch: 'develop' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ sha: 'abc123def456' }),
+        });
+
+      const revision = await resolveRepoRevision(
+        'https://github.com/owner/repo',
+      );
+
+      expect(revision).toEqual({ ref: 'develop', commitSha: 'abc123def456' });
+      expect((global.fetch as Mock).mock.calls[1][0]).toBe(
+        'https://api.github.com/repos/owner/repo/commits/develop',
+      );
+    });
+
+    it('resolves an explicit ref without looking up the default branch', async () => {
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ sha: 'feedface' }),
+      });
+
+      const revision = await resolveRepoRevision(
+        'https://github.com/owner/repo',
+        { ref: 'release/1.2' },
+      );
+
+      expect(revision).toEqual({ ref: 'release/1.2', commitSha: 'feedface' });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+        'https://api.github.com/repos/owner/repo/commits/release/1.2',
+      );
+    });
+
+    it('reports unknown refs', async () => {
+      (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 422 });
+
+      await expect(
+        resolveRepoRevision('https://github.com/owner/repo', { ref: 'nope' }),
+      ).rejects.toThrow("Ref 'nope' not found");
+    });
+
+    it('reads the tree and file contents at the pinned commit', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ tree: [] }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ content: 'SGk=', encoding: 'base64' }),
+        });
+
+      await fetchRepoStructure('https://github.com/owner/repo', {
+        ref: 'abc123',
+      });
+      await fetchFileContent('https://github.com/owner/repo', 'src/a.js', {
+        ref: 'abc123',
+      });
+
+      expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+        'https://api.github.com/repos/owner/repo/git/trees/abc123?recursive=1',
+      );
+      expect((global.fetch as Mock).mock.calls[1][0]).toBe(
+        'https://api.github.com/repos/owner/repo/contents/src/a.js?ref=abc123',
+      );
+    });
+
+    it('re-roots the tree and file reads at a monorepo subdirectory', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            tree: [
+              { path: 'README.md', type: 'blob', url: '...' },
+              { path: 'apps', type: 'tree', url: '...' },
+              { path: 'apps/admin', type: 'tree', url: '...' },
+              { path: 'apps/admin/index.js', type: 'blob', url: '...' },
+              { path: 'apps/admin/lib', type: 'tree', url: '...' },
+              { path: 'apps/admin/lib/util.js', type: 'blob', url: '...' },
+              { path: 'apps/other/main.js', type: 'blob', url: '...' },
+            ],
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ content: 'SGk=', encoding: 'base64' }),
+        });
+
+      const files = await fetchRepoStructure('https://github.com/owner/repo', {
+        ref: 'main',
+        rootPath: '/apps/admin/',
+      });
+      await fetchFileContent('https://github.com/owner/repo', 'README.md', {
+        ref: 'main',
+        rootPath: 'apps/admin',
+      });
+
+      expect(files.map((node) => node.path)).toEqual(['lib', 'index.js']);
+      expect(files[0].children?.[0].path).toBe('lib/util.js');
+      expect((global.fetch as Mock).mock.calls[1][0]).toBe(
+        'https://api.github.com/repos/owner/repo/contents/apps/admin/README.md?ref=main',
+      );
+    });
+
+    it('rejects a project root that does not exist at the ref', async () => {
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          tree: [{ path: 'src/index.js', type: 'blob', url: '...' }],
+        }),
+      });
+
+      await expect(
+        fetchRepoStructure('https://github.com/owner/repo', {
+          ref: 'main',
+          rootPath: 'apps/missing',
+        }),
+      ).rejects.toThrow("Directory 'apps/missing' not found");
+    });
+
+    it('lists branches and tags for the ref picker', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ default_branch: 'main' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ name: 'main' }, { name: 'release/1.2' }],
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ name: 'v1.0.0' }],
+        });
+
+      await expect(
+        fetchRepoRefs('https://github.com/owner/repo'),
+      ).resolves.toEqual({
+        defaultBranch: 'main',
+        branches: ['main', 'release/1.2'],
+        tags: ['v1.0.0'],
+      });
+    });
+  });
+
+  describe('archive ingestion', () => {
+    const buildZipball = async (files: Record<string, string>) => {
+      const zip = new JSZip();
+      Object.entries(files).forEach(([path, content]) => {
+        zip.file(`owner-repo-abc123/${path}`, content);
+      });
+      return zip.generateAsync({ type: 'arraybuffer' });
+    };
+
+    it('serves file contents from the downloaded archive', async () => {
+      const zipball = await buildZipball({
+        'README.md': '# Legacy',
+        'src/app.js': 'console.log("hi");',
+      });
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => zipball,
+      });
+
+      const fileCount = await loadRepoArchive('https://github.com/owner/repo', {
+        ref: 'archive-sha-1',
+      });
+      const content = await fetchFileContent(
+        'https://github.com/owner/repo',
+        'src/app.js',
+        { ref: 'archive-sha-1' },
+      );
+
+      expect(fileCount).toBe(2);
+      expect(content).toBe('console.log("hi");');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+        'https://api.github.com/repos/owner/repo/zipball/archive-sha-1',
+      );
+    });
+
+    it('reuses a cached archive and reports files missing from it', async () => {
+      const zipball = await buildZipball({ 'index.js': 'export {};' });
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => zipball,
+      });
+
+      await loadRepoArchive('https://github.com/owner/repo', {
+        ref: 'archive-sha-2',
+      });
+      await loadRepoArchive('https://github.com/owner/repo', {
+        ref: 'archive-sha-2',
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      await expect(
+        fetchFileContent('https://github.com/owner/repo', 'missing.js', {
+          ref: 'archive-sha-2',
+        }),
+      ).rejects.toThrow('File not found: missing.js');
+    });
+  });
+
   describe('fetchFileContent', () => {
     it('fetches file content successfully', async () => {
       const mockContent = {
@@ -170,4 +456,215 @@ describe('githubService', () => {
       expect(content).toContain('data:image/png;base64,');
     });
   });
+
+  describe('source cache', () => {
+    const headersFor = (values: Record<string, string>) => ({
+      get: (name: string) => values[name.toLowerCase()] ?? null,
+    });
+    const treeBody = {
+      tree: [
+        { path: 'src', type: 'tree', sha: 'tree-src', url: '...' },
+        { path: 'src/a.js', type: 'blob', sha: 'blob-a', url: '...' },
+      ],
+    };
+
+    it('revalidates the tree with its ETag and reuses the cached body on 304', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: headersFor({ etag: '"tree-v1"' }),
+          json: async () => treeBody,
+          clone: () => ({ text: async () => JSON.stringify(treeBody) }),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 304,
+          headers: headersFor({}),
+        });
+
+      const url = 'https://github.com/owner/repo';
+      await fetchRepoStructure(url, { ref: 'abc123' });
+      const tree = await fetchRepoStructure(url, { ref: 'abc123' });
+
+      expect(tree[0].children?.[0].path).toBe('src/a.js');
+      const [, init] = (global.fetch as Mock).mock.calls[1];
+      expect(init.headers['If-None-Match']).toBe('"tree-v1"');
+    });
+
+    it('serves files from the blob cache once their SHA is known', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => treeBody })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            content: 'SGVsbG8gV29ybGQ=',
+            encoding: 'base64',
+            sha: 'blob-a',
+          }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => treeBody });
+
+      const url = 'https://github.com/owner/repo';
+      await fetchRepoStructure(url, { ref: 'abc123' });
+      await expect(
+        fetchFileContent(url, 'src/a.js', { ref: 'abc123' }),
+      ).resolves.toBe('Hello World');
+
+      // A later commit with the same blob needs no contents request.
+      await fetchRepoStructure(url, { ref: 'def456' });
+      await expect(
+        fetchFileContent(url, 'src/a.js', { ref: 'def456' }),
+      ).resolves.toBe('Hello World');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('keeps authenticated trees and contents out of the cache', async () => {
+      (global.fetch as Mock).mockImplementation(async (requestUrl: string) =>
+        requestUrl.includes('contents')
+          ? {
+              ok: true,
+              json: async () => ({
+                content: 'SGVsbG8gV29ybGQ=',
+                encoding: 'base64',
+                sha: 'blob-a',
+              }),
+            }
+          : {
+              ok: true,
+              status: 200,
+              headers: headersFor({ etag: '"tree-v1"' }),
+              json: async () => treeBody,
+              clone: () => ({ text: async () => JSON.stringify(treeBody) }),
+            },
+      );
+
+      const url = 'https://github.com/owner/private-repo';
+      for (const auth of [{ token: 'ghp_secret' }, { useServerProxy: true }]) {
+        await fetchRepoStructure(url, { ref: 'abc123', auth });
+        await fetchFileContent(url, 'src/a.js', { ref: 'abc123', auth });
+      }
+
+      await expect(getSourceCacheStats()).resolves.toMatchObject({
+        blobCount: 0,
+        responseCount: 0,
+      });
+    });
+  });
+
+  describe('authentication', () => {
+    const encodedHello = { content: 'SGVsbG8gV29ybGQ=', encoding: 'base64' };
+
+    it('attaches the personal access token to contents requests', async () => {
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => encodedHello,
+      });
+
+      await fetchFileContent('https://github.com/owner/repo', 'README.md', {
+        auth: { token: ' ghp_secret ' },
+      });
+
+      const [url, init] = (global.fetch as Mock).mock.calls[0];
+      expect(url).toBe(
+        'https://api.github.com/repos/owner/repo/contents/README.md',
+      );
+      expect(init.headers.Authorization).toBe('Bearer ghp_secret');
+    });
+
+    it('routes requests through the server proxy when no user token is set', async () => {
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => encodedHello,
+      });
+
+      await fetchFileContent('https://github.com/owner/repo', 'README.md', {
+        auth: { useServerProxy: true },
+      });
+
+      const [url, init] = (global.fetch as Mock).mock.calls[0];
+      expect(url).toBe(
+        `/api/github?path=${encodeURIComponent('/repos/owner/repo/contents/README.md')}`,
+      );
+      expect(init.headers).toBeUndefined();
+    });
+
+    it('reports the authenticated budget instead of stale anonymous counters', async () => {
+      const onRateLimitUpdate = vi.fn();
+      const headersFor = (values: Record<string, string>) => ({
+        get: (name: string) => values[name] ?? null,
+      });
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: headersFor({
+            'x-ratelimit-limit': '60',
+            'x-ratelimit-remaining': '3',
+          }),
+          json: async () => encodedHello,
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: headersFor({}),
+          json: async () => encodedHello,
+        });
+
+      await fetchFileContent('https://github.com/owner/repo', 'README.md', {
+        onRateLimitUpdate,
+      });
+      await fetchFileContent('https://github.com/owner/repo', 'README.md', {
+        onRateLimitUpdate,
+        auth: { token: 'ghp_secret' },
+      });
+
+      expect(onRateLimitUpdate).toHaveBeenLastCalledWith({
+        limit: 5000,
+        remaining: null,
+        resetAt: null,
+        authenticated: true,
+      });
+    });
+
+    it('surfaces rejected tokens with a dedicated error', async () => {
+      (global.fetch as Mock).mockResolvedValue({ ok: false, status: 401 });
+
+      await expect(
+        fetchFileContent('https://github.com/owner/repo', 'README.md', {
+          auth: { token: 'expired' },
+        }),
+      ).rejects.toThrow('GitHub rejected the access token');
+    });
+
+    it('talks to GitHub Enterprise Server without the github.com proxy', async () => {
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => encodedHello,
+      });
+
+      const provider = createGitHubSourceProvider({
+        owner: 'org',
+        repo: 'app',
+        apiBaseUrl: 'https://github.corp.example/api/v3/',
+        useServerProxy: true,
+      });
+      await expect(provider.readFile('README.md')).resolves.toBe('Hello World');
+
+      const [url] = (global.fetch as Mock).mock.calls[0];
+      expect(url).toBe(
+        'https://github.corp.example/api/v3/repos/org/app/contents/README.md',
+      );
+    });
+
+    it('reads whether the server has a GitHub token configured', async () => {
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ tokenConfigured: true }),
+      });
+      await expect(fetchGitHubProxyStatus()).resolves.toBe(true);
+
+      (global.fetch as Mock).mockRejectedValueOnce(new TypeError('offline'));
+      await expect(fetchGitHubProxyStatus()).resolves.toBe(false);
+    });
+  });
 });
@@ -1,5 +1,32 @@
-import { FileNode, GitHubRateLimitInfo } from '../types';
+import type JSZip from 'jszip';
+import {
+  FileNode,
+  GitHubRateLimitInfo,
+  RepoRefList,
+  RepoRevision,
+  RepoTreeIndexInfo,
+} from '../types';
 import { abortIfSignaled, isAbortError } from './abortUtils';
+import {
+  getCachedBlob,
+  getCachedResponse,
+  putCachedBlob,
+  putCachedResponse,
+} from './sourceCache';
+import {
+  buildFileTree,
+  encodeRefPath,
+  getMimeType,
+  IMAGE_FILE_REGEX,
+  normalizeRootPath,
+  parseRateLimitHeaders,
+  RemoteSourceProviderOptions,
+  rerootTreeItems,
+  SourceProvider,
+  splitTreeRef,
+  toRepoPath,
+  withProtocol,
+} from './sourceProvider';
 
 interface GitHubTreeItem {
   path: string;
@@ -17,15 +44,64 @@ interface GitHubTreeResponse {
   truncated: boolean;
 }
 
+export interface GitHubAuthConfig {
+  token?: string; // User-supplied personal access token (memory only)
+  useServerProxy?: boolean; // Route through /api/github with the server token
+}
+
 interface GitHubRequestOptions {
   signal?: AbortSignal;
   onRateLimitUpdate?: (info: GitHubRateLimitInfo) => void;
+  auth?: GitHubAuthConfig;
+}
+
+interface GitHubFetchOptions extends GitHubRequestOptions {
+  conditional?: boolean; // Revalidate a cached response with its ETag
+}
+
+interface GitHubRefRequestOptions extends GitHubRequestOptions {
+  ref?: string; // Branch, tag or commit SHA; defaults to the default branch
+  rootPath?: string; // Repo subdirectory treated as the project root
+}
+
+export interface ParsedGitHubUrl {
+  owner: string;
+  repo: string;
+  ref: string | null; // From /tree/<ref>/..., null for the default branch
+  subpath: string;
+}
+
+interface GitHubRepoTarget {
+  apiBaseUrl: string; // api.github.com, or <host>/api/v3 on Enterprise Server
+  owner: string;
+  repo: string;
 }
 
+const GITHUB_API_BASE_URL = 'https://api.github.com';
+const GITHUB_PROXY_ENDPOINT = '/api/github';
+const ANONYMOUS_HOURLY_LIMIT = 60;
+const AUTHENTICATED_HOURLY_LIMIT = 5_000;
 const MIN_GITHUB_REQUEST_INTERVAL_MS = 120;
 const LOW_REMAINING_THRESHOLD = 8;
 const CRITICAL_REMAINING_THRESHOLD = 2;
 const MAX_QUEUE_DELAY_MS = 20_000;
+const MAX_REFS_PER_PAGE = 100;
+const MAX_CACHED_ARCHIVES = 2;
+const MAX_CACHED_TREE_INDEXES = 4;
+const MAX_TREE_WALK_DIRECTORIES = 2_000;
+const MAX_ARCHIVE_BYTES = 150 * 1024 * 1024;
+const TREE_REF_SEGMENTS = new Set(['tree', 'blob', 'commit']);
+const GITHUB_TOKEN_REJECTED_MESSAGE =
+  'GitHub rejected the access token (401). Check that the token is valid and has repository read access.';
+
+interface RepoArchive {
+  files: Map<string, JSZip.JSZipObject>; // Keyed by repo-relative path
+}
+
+// Unpacked zipballs keyed by api/owner/repo@commit, most recently used last.
+const repoArchiveCache = new Map<string, RepoArchive>();
+// Repo path -> blob SHA from the last tree listing, keyed like the archives.
+const treeBlobShaCache = new Map<string, Map<string, string>>();
 
 let githubQueue: Promise<void> = Promise.resolve();
 let lastGitHubRequestAt = 0;
@@ -33,6 +109,7 @@ let lastKnownRateLimit: GitHubRateLimitInfo = {
   limit: null,
   remaining: null,
   resetAt: null,
+  authenticated: false,
 };
 
 const sleepWithAbort = async (
@@ -64,41 +141,30 @@ const sleepWithAbort = async (
   });
 };
 
-const parseRateLimitNumber = (raw: string | null): number | null => {
-  if (!raw) {
-    return null;
-  }
-
-  const value = Number.parseInt(raw, 10);
-  return Number.isFinite(value) ? value : null;
-};
-
-const parseRateLimitInfo = (
-  headers?: Pick<Headers, 'get'> | null,
-): GitHubRateLimitInfo => {
-  const limit = parseRateLimitNumber(headers?.get('x-ratelimit-limit') || null);
-  const remaining = parseRateLimitNumber(
-    headers?.get('x-ratelimit-remaining') || null,
-  );
-  const resetSeconds = parseRateLimitNumber(
-    headers?.get('x-ratelimit-reset') || null,
-  );
-
-  return {
-    limit,
-    remaining,
-    resetAt: resetSeconds !== null ? resetSeconds * 1000 : null,
-  };
-};
-
 const mergeRateLimitInfo = (
   next: GitHubRateLimitInfo,
   onRateLimitUpdate?: (info: GitHubRateLimitInfo) => void,
 ) => {
+  // Anonymous and authenticated requests are metered against separate
+  // budgets, so counters from the other mode must not leak into this one.
+  const previous: GitHubRateLimitInfo =
+    lastKnownRateLimit.authenticated === next.authenticated
+      ? lastKnownRateLimit
+      : {
+          limit: null,
+          remaining: null,
+          resetAt: null,
+          authenticated: next.authenticated,
+        };
+  const defaultLimit = next.authenticated
+    ? AUTHENTICATED_HOURLY_LIMIT
+    : ANONYMOUS_HOURLY_LIMIT;
+
   const merged: GitHubRateLimitInfo = {
-    limit: next.limit ?? lastKnownRateLimit.limit,
-    remaining: next.remaining ?? lastKnownRateLimit.remaining,
-    resetAt: next.resetAt ?? lastKnownRateLimit.resetAt,
+    limit: next.limit ?? previous.limit ?? defaultLimit,
+    remaining: next.remaining ?? previous.remaining,
+    resetAt: next.resetAt ?? previous.resetAt,
+    authenticated: next.authenticated,
   };
   lastKnownRateLimit = merged;
   onRateLimitUpdate?.(merged);
@@ -161,42 +227,122 @@ const enqueueGitHubRequest = async <T>(
   }
 };
 
+// The server proxy only holds a github.com token, so Enterprise Server
+// requests are never routed through it.
+const canUseServerProxy = (url: string, auth?: GitHubAuthConfig): boolean => {
+  return Boolean(auth?.useServerProxy) && url.startsWith(GITHUB_API_BASE_URL);
+};
+
+const isAuthenticatedRequest = (
+  url: string,
+  auth?: GitHubAuthConfig,
+): boolean => {
+  return Boolean(auth?.token?.trim()) || canUseServerProxy(url, auth);
+};
+
+const requestGitHub = (
+  url: string,
+  signal?: AbortSignal,
+  auth?: GitHubAuthConfig,
+  etag?: string,
+): Promise<Response> => {
+  const token = auth?.token?.trim();
+  const conditionalHeaders = etag ? { 'If-None-Match': etag } : undefined;
+
+  if (token) {
+    return fetch(url, {
+      signal,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${token}`,
+        ...conditionalHeaders,
+      },
+    });
+  }
+
+  if (canUseServerProxy(url, auth)) {
+    const apiPath = url.slice(GITHUB_API_BASE_URL.length);
+    return fetch(
+      `${GITHUB_PROXY_ENDPOINT}?path=${encodeURIComponent(apiPath)}`,
+      conditionalHeaders ? { signal, headers: conditionalHeaders } : { signal },
+    );
+  }
+
+  return fetch(
+    url,
+    conditionalHeaders ? { signal, headers: conditionalHeaders } : { signal },
+  );
+};
+
+// GitHub does not count 304 responses against the rate limit, so revalidating
+// unchanged trees and repo details is effectively free. Authenticated
+// responses may describe private repos, so they are never persisted: the
+// cache would outlive the token, which is only kept in memory.
 const githubFetch = async (
+  url: string,
+  options?: GitHubFetchOptions,
+): Promise<Response> => {
+  const useCache =
+    options?.conditional && !isAuthenticatedRequest(url, options?.auth);
+  const cached = useCache ? await getCachedResponse(url) : null;
+  const response = await sendGitHubRequest(url, options, cached?.etag);
+
+  if (cached && response.status === 304) {
+    return new Response(cached.body, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  const etag = useCache ? response.headers?.get('etag') : null;
+  if (etag && response.ok && typeof response.clone === 'function') {
+    await putCachedResponse(url, etag, await response.clone().text());
+  }
+
+  return response;
+};
+
+const sendGitHubRequest = async (
   url: string,
   options?: GitHubRequestOptions,
+  etag?: string,
 ): Promise<Response> => {
   const signal = options?.signal;
   const onRateLimitUpdate = options?.onRateLimitUpdate;
+  const auth = options?.auth;
 
   const response = await enqueueGitHubRequest(
-    () => fetch(url, { signal }),
+    () => requestGitHub(url, signal, auth, etag),
     options,
   );
 
-  mergeRateLimitInfo(parseRateLimitInfo(response.headers), onRateLimitUpdate);
+  mergeRateLimitInfo(
+    parseRateLimitHeaders(
+      response.headers,
+      'x-ratelimit',
+      isAuthenticatedRequest(url, auth),
+    ),
+    onRateLimitUpdate,
+  );
   return response;
 };
 
-const getMimeType = (filename: string) => {
-  const ext = filename.split('.').pop()?.toLowerCase();
-  switch (ext) {
-    case 'png':
-      return 'image/png';
-    case 'jpg':
-    case 'jpeg':
-      return 'image/jpeg';
-    case 'gif':
-      return 'image/gif';
-    case 'svg':
-      return 'image/svg+xml';
-    case 'ico':
-      return 'image/x-icon';
-    case 'webp':
-      return 'image/webp';
-    case 'bmp':
-      return 'image/bmp';
-    default:
-      return 'application/octet-stream';
+export const fetchGitHubProxyStatus = async (
+  signal?: AbortSignal,
+): Promise<boolean> => {
+  try {
+    const response = await fetch(GITHUB_PROXY_ENDPOINT, { signal });
+    if (!response.ok) {
+      return false;
+    }
+
+    const payload = (await response.json()) as { tokenConfigured?: unknown };
+    return payload?.tokenConfigured === true;
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return false;
   }
 };
 
@@ -204,13 +350,6 @@ const GITHUB_HOSTNAMES = new Set(['github.com', 'www.github.com']);
 const GITHUB_OWNER_REGEX = /^[A-Za-z\d](?:[A-Za-z\d-]{0,37}[A-Za-z\d])?$/;
 const GITHUB_REPO_REGEX = /^[A-Za-z\d._-]+$/;
 
-const withProtocol = (input: string): string => {
-  if (input.startsWith('http://') || input.startsWith('https://')) {
-    return input;
-  }
-  return `https://${input}`;
-};
-
 export const normalizeGitHubRepoUrl = (url: string): string | null => {
   const trimmed = url.trim();
   if (!trimmed) {
@@ -249,7 +388,24 @@ export const normalizeGitHubRepoUrl = (url: string): string | null => {
   }
 };
 
-export const parseGitHubUrl = (url: string) => {
+// Path segments after /tree/ (or /blob/, /commit/) in a GitHub URL.
+const extractTreeSegments = (url: string): string[] => {
+  try {
+    const urlObj = new URL(withProtocol(url.trim()));
+    const parts = urlObj.pathname.split('/').filter(Boolean);
+    if (parts.length < 4 || !TREE_REF_SEGMENTS.has(parts[2])) {
+      return [];
+    }
+    return parts.slice(3).map((segment) => decodeURIComponent(segment));
+  } catch {
+    return [];
+  }
+};
+
+export const parseGitHubUrl = (
+  url: string,
+  knownRefs?: string[],
+): ParsedGitHubUrl | null => {
   const normalizedUrl = normalizeGitHubRepoUrl(url);
   if (!normalizedUrl) {
     return null;
@@ -258,102 +414,60 @@ export const parseGitHubUrl = (url: string) => {
   try {
     const urlObj = new URL(normalizedUrl);
     const parts = urlObj.pathname.split('/').filter(Boolean);
+    const { ref, subpath } = splitTreeRef(extractTreeSegments(url), knownRefs);
     return {
       owner: parts[0],
       repo: parts[1],
-      // For simplicity in this demo, we ignore sub-paths for the root fetch and assume root of repo
-      // unless we want to support partial repo fetch. Let's stick to root for "Auto-detect".
-      branch: 'main', // default fallback, logic can be enhanced to detect default branch
+      ref,
+      subpath,
     };
   } catch {
     return null;
   }
 };
 
-const buildFileTree = (items: GitHubTreeItem[]): FileNode[] => {
-  const root: FileNode[] = [];
-  const map: Record<string, FileNode> = {};
-
-  // Sort by path length to ensure parents are created before children if we were building sequentially,
-  // but we use a 2-pass approach so order doesn't strictly matter for existence, but helps.
-  items.sort((a, b) => a.path.localeCompare(b.path));
-
-  // 1. Create all nodes
-  items.forEach((item) => {
-    // We only care about blobs (files) and trees (dirs)
-    if (item.type !== 'blob' && item.type !== 'tree') return;
-
-    const name = item.path.split('/').pop() || '';
-    map[item.path] = {
-      name: name,
-      path: item.path,
-      type: item.type === 'tree' ? 'dir' : 'file',
-      status: 'pending',
-      children: item.type === 'tree' ? [] : undefined,
-    };
-  });
-
-  // 2. Attach to parents
-  items.forEach((item) => {
-    const node = map[item.path];
-    if (!node) return;
-
-    const parts = item.path.split('/');
-    if (parts.length === 1) {
-      root.push(node);
-    } else {
-      const parentPath = parts.slice(0, -1).join('/');
-      const parent = map[parentPath];
-      if (parent && parent.children) {
-        parent.children.push(node);
-      } else {
-        // If parent not found (shouldn't happen with recursive=1 unless truncated), add to root
-        root.push(node);
-      }
-    }
-  });
-
-  // 3. Sort nodes (Dirs first, then alphabetical)
-  const sortNodes = (nodes: FileNode[]) => {
-    nodes.sort((a, b) => {
-      if (a.type === b.type) return a.name.localeCompare(b.name);
-      return a.type === 'dir' ? -1 : 1;
-    });
-    nodes.forEach((n) => {
-      if (n.children) sortNodes(n.children);
-    });
-  };
-  sortNodes(root);
-
-  return root;
+/** True when the ref in a /tree/ URL may contain slashes and needs the ref list. */
+export const hasAmbiguousTreeRef = (url: string): boolean => {
+  return extractTreeSegments(url).length > 1;
 };
 
-export const fetchRepoStructure = async (
-  url: string,
-  options?: GitHubRequestOptions,
-): Promise<FileNode[]> => {
-  const { signal } = options || {};
-  const onRateLimitUpdate = options?.onRateLimitUpdate;
-  abortIfSignaled(signal);
-
+const toGitHubTarget = (url: string): GitHubRepoTarget => {
   const repoInfo = parseGitHubUrl(url);
   if (!repoInfo)
     throw new Error(
       'Invalid GitHub URL. Format should be: https://github.com/owner/repo',
     );
 
-  // 1. Get the default branch
-  let branch = 'main';
+  return {
+    apiBaseUrl: GITHUB_API_BASE_URL,
+    owner: repoInfo.owner,
+    repo: repoInfo.repo,
+  };
+};
+
+const getRepoApiUrl = (target: GitHubRepoTarget): string =>
+  `${target.apiBaseUrl}/repos/${target.owner}/${target.repo}`;
+
+const fetchRepoDetails = async (
+  target: GitHubRepoTarget,
+  options?: GitHubRequestOptions,
+): Promise<{ default_branch?: string } | null> => {
+  const { signal, auth } = options || {};
+  const onRateLimitUpdate = options?.onRateLimitUpdate;
+
   try {
     abortIfSignaled(signal);
-    const repoDetailsRes = await githubFetch(
-      `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}`,
-      { signal, onRateLimitUpdate },
-    );
+    const repoDetailsRes = await githubFetch(getRepoApiUrl(target), {
+      signal,
+      onRateLimitUpdate,
+      auth,
+      conditional: true,
+    });
 
     if (repoDetailsRes.ok) {
-      const details = await repoDetailsRes.json();
-      branch = details.default_branch || 'main';
+      return await repoDetailsRes.json();
+    } else if (repoDetailsRes.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
     } else if (repoDetailsRes.status === 404) {
       throw new Error(
         'Repository not found (404). Check if private or URL is incorrect.',
@@ -366,19 +480,156 @@ export const fetchRepoStructure = async (
       throw e;
     }
     if (e instanceof Error) {
-      if (e.message.includes('rate limit') || e.message.includes('not found'))
+      if (
+        e.message.includes('rate limit') ||
+        e.message.includes('not found') ||
+        e.message === GITHUB_TOKEN_REJECTED_MESSAGE
+      )
         throw e;
     }
     console.warn("Could not fetch repo details, assuming 'main' branch.", e);
   }
 
-  // 2. Fetch Recursive Tree
-  const apiUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/git/trees/${branch}?recursive=1`;
+  return null;
+};
+
+const resolveDefaultBranch = async (
+  target: GitHubRepoTarget,
+  options?: GitHubRequestOptions,
+): Promise<string> => {
+  const details = await fetchRepoDetails(target, options);
+  return details?.default_branch || 'main';
+};
+
+const fetchRefNames = async (
+  apiUrl: string,
+  options?: GitHubRequestOptions,
+): Promise<string[]> => {
+  const response = await githubFetch(apiUrl, options);
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
+    }
+    if (response.status === 403 || response.status === 429) {
+      throw new Error('GitHub API rate limit exceeded.');
+    }
+    throw new Error(`Failed to list refs: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { name?: unknown }[];
+  return Array.isArray(data)
+    ? data
+        .map((item) => item?.name)
+        .filter((name): name is string => typeof name === 'string')
+    : [];
+};
+
+const listRepoRefs = async (
+  target: GitHubRepoTarget,
+  options?: GitHubRequestOptions,
+): Promise<RepoRefList> => {
+  abortIfSignaled(options?.signal);
+
+  const defaultBranch = await resolveDefaultBranch(target, options);
+  const repoApiUrl = getRepoApiUrl(target);
+  const branches = await fetchRefNames(
+    `${repoApiUrl}/branches?per_page=${MAX_REFS_PER_PAGE}`,
+    options,
+  );
+  const tags = await fetchRefNames(
+    `${repoApiUrl}/tags?per_page=${MAX_REFS_PER_PAGE}`,
+    options,
+  );
+
+  return { defaultBranch, branches, tags };
+};
+
+/**
+ * Lists branches and tags for the ref picker. Only the first page of each is
+ * requested to keep the call count low on anonymous budgets.
+ */
+export const fetchRepoRefs = async (
+  url: string,
+  options?: GitHubRequestOptions,
+): Promise<RepoRefList> => {
+  abortIfSignaled(options?.signal);
+  return listRepoRefs(toGitHubTarget(url), options);
+};
+
+const resolveRevision = async (
+  target: GitHubRepoTarget,
+  options?: GitHubRefRequestOptions,
+): Promise<RepoRevision> => {
+  const { signal, auth } = options || {};
+  const onRateLimitUpdate = options?.onRateLimitUpdate;
+
+  let ref = options?.ref?.trim();
+  if (!ref) {
+    ref = await resolveDefaultBranch(target, options);
+  }
 
   abortIfSignaled(signal);
-  const response = await githubFetch(apiUrl, { signal, onRateLimitUpdate });
+  const response = await githubFetch(
+    `${getRepoApiUrl(target)}/commits/${encodeRefPath(ref)}`,
+    { signal, onRateLimitUpdate, auth },
+  );
 
   if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
+    }
+    if (response.status === 403 || response.status === 429) {
+      throw new Error('GitHub API rate limit exceeded.');
+    }
+    if (response.status === 404 || response.status === 422) {
+      throw new Error(`Ref '${ref}' not found in repository.`);
+    }
+    throw new Error(`Failed to resolve ref '${ref}': ${response.status}`);
+  }
+
+  const data = (await response.json()) as { sha?: unknown };
+  if (typeof data?.sha !== 'string' || !data.sha) {
+    throw new Error(`GitHub did not return a commit for ref '${ref}'.`);
+  }
+
+  return { ref, commitSha: data.sha };
+};
+
+/**
+ * Resolves a branch, tag or SHA (or the default branch when omitted) to the
+ * commit it currently points at, so every later read uses the same snapshot.
+ */
+export const resolveRepoRevision = async (
+  url: string,
+  options?: GitHubRefRequestOptions,
+): Promise<RepoRevision> => {
+  abortIfSignaled(options?.signal);
+  return resolveRevision(toGitHubTarget(url), options);
+};
+
+const fetchGitTree = async (
+  target: GitHubRepoTarget,
+  treeRef: string,
+  recursive: boolean,
+  branch: string,
+  options?: GitHubRequestOptions,
+): Promise<GitHubTreeResponse> => {
+  const { signal, auth } = options || {};
+  const onRateLimitUpdate = options?.onRateLimitUpdate;
+  const apiUrl = `${getRepoApiUrl(target)}/git/trees/${encodeRefPath(treeRef)}${recursive ? '?recursive=1' : ''}`;
+
+  abortIfSignaled(signal);
+  const response = await githubFetch(apiUrl, {
+    signal,
+    onRateLimitUpdate,
+    auth,
+    conditional: true,
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
+    }
     if (response.status === 403 || response.status === 429) {
       throw new Error(
         'GitHub API rate limit exceeded. Please try again later or use a different IP.',
@@ -386,7 +637,7 @@ export const fetchRepoStructure = async (
     }
     if (response.status === 404) {
       throw new Error(
-        `Repository structure not found (404) for branch '${branch}'.`,
+        `Repository structure not found (404) for ref '${branch}'.`,
       );
     }
     const statusText = response.statusText ? ` ${response.statusText}` : '';
@@ -395,27 +646,333 @@ export const fetchRepoStructure = async (
     );
   }
 
-  const data: GitHubTreeResponse = await response.json();
-  return buildFileTree(data.tree);
+  return response.json();
 };
 
-export const fetchFileContent = async (
-  url: string,
-  path: string,
+// Directories that can contain files below the project root.
+const isOnRootPath = (path: string, rootPath: string): boolean =>
+  !rootPath ||
+  path === rootPath ||
+  path.startsWith(`${rootPath}/`) ||
+  rootPath.startsWith(`${path}/`);
+
+/**
+ * Recursive listings stop at GitHub's size limit (~100k entries) and set
+ * `truncated`. Re-list the tree one directory at a time, skipping branches
+ * outside the project root, up to MAX_TREE_WALK_DIRECTORIES requests.
+ */
+const walkTruncatedTree = async (
+  target: GitHubRepoTarget,
+  rootTreeSha: string,
+  branch: string,
+  rootPath: string,
   options?: GitHubRequestOptions,
-): Promise<string> => {
-  const { signal } = options || {};
-  const onRateLimitUpdate = options?.onRateLimitUpdate;
+): Promise<{ items: GitHubTreeItem[]; index: RepoTreeIndexInfo }> => {
+  const items: GitHubTreeItem[] = [];
+  const pending = [{ sha: rootTreeSha, prefix: '' }];
+  let walkedDirectories = 0;
+  let complete = true;
+
+  for (let next = pending.shift(); next; next = pending.shift()) {
+    if (walkedDirectories >= MAX_TREE_WALK_DIRECTORIES) {
+      complete = false;
+      break;
+    }
+
+    const listing = await fetchGitTree(
+      target,
+      next.sha,
+      false,
+      branch,
+      options,
+    );
+    walkedDirectories++;
+    if (listing.truncated) {
+      complete = false;
+    }
+
+    const prefix = next.prefix;
+    (listing.tree || []).forEach((item) => {
+      const path = prefix ? `${prefix}/${item.path}` : item.path;
+      items.push({ ...item, path });
+      if (item.type === 'tree' && isOnRootPath(path, rootPath)) {
+        pending.push({ sha: item.sha, prefix: path });
+      }
+    });
+  }
+
+  return { items, index: { complete, walkedDirectories } };
+};
+
+const listRepoTree = async (
+  target: GitHubRepoTarget,
+  options?: GitHubRefRequestOptions,
+): Promise<{ files: FileNode[]; index: RepoTreeIndexInfo }> => {
+  // 1. Use the requested ref, or look up the default branch
+  let branch = options?.ref?.trim() || '';
+  if (!branch) {
+    branch = await resolveDefaultBranch(target, options);
+  }
+
+  // 2. Fetch Recursive Tree, walking it directory by directory if truncated
+  const data = await fetchGitTree(target, branch, true, branch, options);
+  let items = data.tree;
+  let index: RepoTreeIndexInfo = { complete: true, walkedDirectories: 0 };
+  if (data.truncated) {
+    ({ items, index } = await walkTruncatedTree(
+      target,
+      data.sha,
+      branch,
+      normalizeRootPath(options?.rootPath),
+      options,
+    ));
+  }
+
+  rememberTreeBlobShas(target, branch, items);
+  return {
+    files: buildFileTree(rerootTreeItems(items, options?.rootPath, branch)),
+    index,
+  };
+};
+
+export const fetchRepoStructure = async (
+  url: string,
+  options?: GitHubRefRequestOptions,
+): Promise<FileNode[]> => {
+  abortIfSignaled(options?.signal);
+  return (await listRepoTree(toGitHubTarget(url), options)).files;
+};
+
+const getArchiveKey = (target: GitHubRepoTarget, ref: string): string => {
+  return `${target.apiBaseUrl}/${target.owner}/${target.repo}@${ref}`.toLowerCase();
+};
+
+const rememberEntry = <T>(
+  cache: Map<string, T>,
+  key: string,
+  value: T,
+  maxEntries: number,
+): void => {
+  cache.delete(key);
+  cache.set(key, value);
+  while (cache.size > maxEntries) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) {
+      break;
+    }
+    cache.delete(oldestKey);
+  }
+};
+
+const rememberArchive = (key: string, archive: RepoArchive): void => {
+  rememberEntry(repoArchiveCache, key, archive, MAX_CACHED_ARCHIVES);
+};
+
+const rememberTreeBlobShas = (
+  target: GitHubRepoTarget,
+  ref: string,
+  items: GitHubTreeItem[],
+): void => {
+  const blobShas = new Map<string, string>();
+  items.forEach((item) => {
+    if (item.type === 'blob' && item.sha) {
+      blobShas.set(item.path, item.sha);
+    }
+  });
+  rememberEntry(
+    treeBlobShaCache,
+    getArchiveKey(target, ref),
+    blobShas,
+    MAX_CACHED_TREE_INDEXES,
+  );
+};
+
+const loadArchive = async (
+  target: GitHubRepoTarget,
+  options: GitHubRefRequestOptions & { ref: string },
+): Promise<number> => {
+  const { signal, auth } = options;
+  const onRateLimitUpdate = options.onRateLimitUpdate;
+
+  const key = getArchiveKey(target, options.ref);
+  const cached = repoArchiveCache.get(key);
+  if (cached) {
+    rememberArchive(key, cached);
+    return cached.files.size;
+  }
+
+  const response = await githubFetch(
+    `${getRepoApiUrl(target)}/zipball/${encodeRefPath(options.ref)}`,
+    { signal, onRateLimitUpdate, auth },
+  );
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
+    }
+    if (response.status === 403 || response.status === 429) {
+      throw new Error('GitHub API rate limit exceeded.');
+    }
+    throw new Error(
+      `Failed to download repository archive: ${response.status}`,
+    );
+  }
+
+  const declaredSize = Number.parseInt(
+    response.headers?.get('content-length') || '',
+    10,
+  );
+  if (Number.isFinite(declaredSize) && declaredSize > MAX_ARCHIVE_BYTES) {
+    throw new Error(
+      'Repository archive is too large to unpack in the browser.',
+    );
+  }
+
+  const buffer = await response.arrayBuffer();
+  abortIfSignaled(signal);
+  if (buffer.byteLength > MAX_ARCHIVE_BYTES) {
+    throw new Error(
+      'Repository archive is too large to unpack in the browser.',
+    );
+  }
+
+  const { default: JSZipLib } = await import('jszip');
+  const zip = await new JSZipLib().loadAsync(buffer);
   abortIfSignaled(signal);
 
+  // Zipballs wrap everything in a single "<owner>-<repo>-<sha>/" folder.
+  const files = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((entryPath, entry) => {
+    if (entry.dir) {
+      return;
+    }
+    const slashIndex = entryPath.indexOf('/');
+    const repoPath =
+      slashIndex >= 0 ? entryPath.slice(slashIndex + 1) : entryPath;
+    if (repoPath) {
+      files.set(repoPath, entry);
+    }
+  });
+
+  rememberArchive(key, { files });
+  return files.size;
+};
+
+/**
+ * Downloads the zipball for a commit once and keeps it unpacked in memory, so
+ * later `fetchFileContent` calls for the same ref skip the contents API.
+ * Resolves to the number of files in the archive.
+ */
+export const loadRepoArchive = async (
+  url: string,
+  options: GitHubRefRequestOptions & { ref: string },
+): Promise<number> => {
+  abortIfSignaled(options.signal);
+
   const repoInfo = parseGitHubUrl(url);
   if (!repoInfo) throw new Error('Invalid URL');
 
-  const apiUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/contents/${path}`;
+  return loadArchive(
+    {
+      apiBaseUrl: GITHUB_API_BASE_URL,
+      owner: repoInfo.owner,
+      repo: repoInfo.repo,
+    },
+    options,
+  );
+};
 
-  const response = await githubFetch(apiUrl, { signal, onRateLimitUpdate });
+const readArchiveFile = async (
+  archive: RepoArchive,
+  repoPath: string,
+  path: string,
+): Promise<string> => {
+  const entry = archive.files.get(repoPath);
+  if (!entry) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  if (IMAGE_FILE_REGEX.test(path)) {
+    const base64 = await entry.async('base64');
+    return `data:${getMimeType(path)};base64,${base64}`;
+  }
+
+  return entry.async('string');
+};
+
+const decodeContentsPayload = (base64Content: string, path: string): string => {
+  const cleanBase64 = base64Content.replace(/\n/g, '');
+
+  // Handle Images: Return Data URI
+  if (IMAGE_FILE_REGEX.test(path)) {
+    return `data:${getMimeType(path)};base64,${cleanBase64}`;
+  }
+
+  // Robust decoding using TextDecoder for unicode support
+  try {
+    const binaryString = atob(cleanBase64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new TextDecoder('utf-8').decode(bytes);
+  } catch (_e) {
+    // Legacy fallback
+    try {
+      return decodeURIComponent(escape(atob(cleanBase64)));
+    } catch (_e2) {
+      return atob(cleanBase64);
+    }
+  }
+};
+
+const readRepoFile = async (
+  target: GitHubRepoTarget,
+  path: string,
+  options?: GitHubRefRequestOptions,
+): Promise<string> => {
+  const { signal, auth } = options || {};
+  const onRateLimitUpdate = options?.onRateLimitUpdate;
+
+  const ref = options?.ref?.trim();
+  const refQuery = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+  const repoPath = toRepoPath(path, options?.rootPath);
+  // Private file contents stay out of the persistent blob cache, as in
+  // githubFetch.
+  const cacheBlobs = !isAuthenticatedRequest(getRepoApiUrl(target), auth);
+  const blobSha = ref
+    ? treeBlobShaCache.get(getArchiveKey(target, ref))?.get(repoPath)
+    : undefined;
+  if (blobSha) {
+    const cachedContent = await getCachedBlob(blobSha);
+    if (cachedContent !== null) {
+      return cachedContent;
+    }
+  }
+
+  const archive = ref
+    ? repoArchiveCache.get(getArchiveKey(target, ref))
+    : undefined;
+  if (archive) {
+    const content = await readArchiveFile(archive, repoPath, path);
+    if (blobSha && cacheBlobs) {
+      await putCachedBlob(blobSha, content);
+    }
+    return content;
+  }
+
+  const apiUrl = `${getRepoApiUrl(target)}/contents/${repoPath}${refQuery}`;
+
+  const response = await githubFetch(apiUrl, {
+    signal,
+    onRateLimitUpdate,
+    auth,
+  });
 
   if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error(GITHUB_TOKEN_REJECTED_MESSAGE);
+    }
     if (response.status === 403 || response.status === 429) {
       throw new Error('GitHub API rate limit exceeded.');
     }
@@ -427,42 +984,105 @@ export const fetchFileContent = async (
 
   const data = await response.json();
 
-  // Handle Images: Return Data URI or Download URL
-  if (/\.(png|jpg|jpeg|gif|ico|svg|webp|bmp)$/i.test(path)) {
-    if (data.content && data.encoding === 'base64') {
-      const mimeType = getMimeType(path);
-      const cleanBase64 = String(data.content).replace(/\n/g, '');
-      return `data:${mimeType};base64,${cleanBase64}`;
-    }
-    if (data.download_url) {
-      return data.download_url as string;
+  // Large files come back without inline content; only cache decoded bodies.
+  if (data.content && data.encoding === 'base64') {
+    const content = decodeContentsPayload(String(data.content), path);
+    const sha = typeof data.sha === 'string' && data.sha ? data.sha : blobSha;
+    if (sha && cacheBlobs) {
+      await putCachedBlob(sha, content);
     }
+    return content;
   }
 
-  if (data.content && data.encoding === 'base64') {
-    // Robust decoding using TextDecoder for unicode support
-    try {
-      const binaryString = atob(String(data.content).replace(/\n/g, ''));
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      return new TextDecoder('utf-8').decode(bytes);
-    } catch (_e) {
-      // Legacy fallback
-      try {
-        return decodeURIComponent(
-          escape(atob(String(data.content).replace(/\n/g, ''))),
-        );
-      } catch (_e2) {
-        return atob(String(data.content).replace(/\n/g, ''));
-      }
-    }
+  if (IMAGE_FILE_REGEX.test(path) && data.download_url) {
+    return data.download_url as string;
   }
 
   throw new Error('Could not decode file content or format not supported.');
 };
 
+export const fetchFileContent = async (
+  url: string,
+  path: string,
+  options?: GitHubRefRequestOptions,
+): Promise<string> => {
+  abortIfSignaled(options?.signal);
+
+  const repoInfo = parseGitHubUrl(url);
+  if (!repoInfo) throw new Error('Invalid URL');
+
+  return readRepoFile(
+    {
+      apiBaseUrl: GITHUB_API_BASE_URL,
+      owner: repoInfo.owner,
+      repo: repoInfo.repo,
+    },
+    path,
+    options,
+  );
+};
+
+export interface GitHubSourceProviderOptions extends RemoteSourceProviderOptions {
+  owner: string;
+  repo: string;
+  apiBaseUrl?: string; // Defaults to api.github.com
+  useServerProxy?: boolean;
+}
+
+/**
+ * GitHub.com and GitHub Enterprise Server share the REST API, so the only
+ * difference is the API base URL (`https://<host>/api/v3` for GHES).
+ */
+export const createGitHubSourceProvider = ({
+  owner,
+  repo,
+  apiBaseUrl = GITHUB_API_BASE_URL,
+  token,
+  useServerProxy,
+  onRateLimitUpdate,
+}: GitHubSourceProviderOptions): SourceProvider => {
+  const target: GitHubRepoTarget = {
+    apiBaseUrl: apiBaseUrl.replace(/\/+$/, ''),
+    owner,
+    repo,
+  };
+  let lastTreeIndex: RepoTreeIndexInfo | null = null;
+  const requestOptions = (signal?: AbortSignal): GitHubRequestOptions => ({
+    signal,
+    onRateLimitUpdate,
+    auth: token?.trim() ? { token } : { useServerProxy },
+  });
+
+  return {
+    kind: 'github',
+    label: `${owner}/${repo}`,
+    resolveDefaultBranch: (signal) =>
+      resolveDefaultBranch(target, requestOptions(signal)),
+    resolveRevision: (ref, signal) =>
+      resolveRevision(target, { ...requestOptions(signal), ref }),
+    listRefs: (signal) => listRepoRefs(target, requestOptions(signal)),
+    listTree: async (options) => {
+      const listing = await listRepoTree(target, {
+        ...requestOptions(options?.signal),
+        ref: options?.ref,
+        rootPath: options?.rootPath,
+      });
+      lastTreeIndex = listing.index;
+      return listing.files;
+    },
+    readFile: (path, options) =>
+      readRepoFile(target, path, {
+        ...requestOptions(options?.signal),
+        ref: options?.ref,
+        rootPath: options?.rootPath,
+      }),
+    getRateLimitInfo: () => lastKnownRateLimit,
+    getTreeIndexInfo: () => lastTreeIndex,
+    loadArchive: (commitSha, signal) =>
+      loadArchive(target, { ...requestOptions(signal), ref: commitSha }),
+  };
+};
+
 // Mock data with nested structure
 export const getMockRepo = (): FileNode[] => [
   {
@@ -0,0 +1,128 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
+import { createGitLabSourceProvider } from './gitlabService';
+
+const globalFetch = global.fetch;
+
+const headersFor = (values: Record<string, string>) => ({
+  get: (name: string) => values[name.toLowerCase()] ?? null,
+});
+
+describe('gitlabService', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = globalFetch;
+    vi.restoreAllMocks();
+  });
+
+  const createProvider = (token?: string) =>
+    createGitLabSourceProvider({
+      apiBaseUrl: 'https://gitlab.com/api/v4',
+      projectPath: 'group/subgroup/project',
+      token,
+    });
+
+  it('walks every page of the recursive tree', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: headersFor({ 'x-next-page': '2' }),
+        json: async () => [
+          { path: 'src', type: 'tree' },
+          { path: 'src/index.js', type: 'blob' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: headersFor({ 'x-next-page': '' }),
+        json: async () => [
+          { path: 'README.md', type: 'blob' },
+          { path: 'vendor/lib', type: 'commit' },
+        ],
+      });
+
+    const provider = createProvider();
+    const tree = await provider.listTree({ ref: 'abc123' });
+
+    expect(tree.map((node) => node.path)).toEqual(['src', 'README.md']);
+    expect(provider.getTreeIndexInfo()?.complete).toBe(true);
+    expect(tree[0].children?.[0].path).toBe('src/index.js');
+    expect((global.fetch as Mock).mock.calls[0][0]).toBe(
+      'https://gitlab.com/api/v4/projects/group%2Fsubgroup%2Fproject/repository/tree?recursive=true&per_page=100&ref=abc123&page=1',
+    );
+    expect((global.fetch as Mock).mock.calls[1][0]).toContain('&page=2');
+  });
+
+  it('resolves the default branch and reads raw files with the token', async () => {
+    const onRateLimitUpdate = vi.fn();
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: headersFor({}),
+        json: async () => ({ default_branch: 'develop' }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: headersFor({
+          'ratelimit-limit': '2000',
+          'ratelimit-remaining': '1999',
+        }),
+        json: async () => ({ id: 'sha-develop' }),
+      });
+
+    const provider = createGitLabSourceProvider({
+      apiBaseUrl: 'https://gitlab.example.com/api/v4/',
+      projectPath: 'team/app',
+      token: ' glpat-secret ',
+      onRateLimitUpdate,
+    });
+
+    await expect(provider.resolveRevision()).resolves.toEqual({
+      ref: 'develop',
+      commitSha: 'sha-develop',
+    });
+    expect(onRateLimitUpdate).toHaveBeenCalledWith({
+      limit: 2000,
+      remaining: 1999,
+      resetAt: null,
+      authenticated: true,
+    });
+
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      headers: headersFor({}),
+      text: async () => 'console.log(1);',
+    });
+    await expect(
+      provider.readFile('main.js', { ref: 'sha-develop', rootPath: 'web' }),
+    ).resolves.toBe('console.log(1);');
+
+    const [url, init] = (global.fetch as Mock).mock.calls[2];
+    expect(url).toBe(
+      'https://gitlab.example.com/api/v4/projects/team%2Fapp/repository/files/web%2Fmain.js/raw?ref=sha-develop',
+    );
+    expect(init.headers['PRIVATE-TOKEN']).toBe('glpat-secret');
+  });
+
+  it('reports missing refs and rejected tokens', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+    await expect(createProvider().resolveRevision('nope')).rejects.toThrow(
+      "Ref 'nope' not found in repository.",
+    );
+
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 401 });
+    await expect(createProvider('expired').listRefs()).rejects.toThrow(
+      'GitLab rejected the access token',
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  FileNode,
+  GitHubRateLimitInfo,
+  RepoRefList,
+  RepoRevision,
+  RepoTreeIndexInfo,
+} from '../types';
+import { abortIfSignaled } from './abortUtils';
+import {
+  buildFileTree,
+  parseRateLimitHeaders,
+  readRawFileResponse,
+  RemoteSourceProviderOptions,
+  rerootTreeItems,
+  SourceProvider,
+  SourceReadOptions,
+  SourceTreeItem,
+  throwHostResponseError,
+  toRepoPath,
+} from './sourceProvider';
+
+interface GitLabTreeItem {
+  path: string;
+  type: 'blob' | 'tree' | 'commit'; // "commit" entries are submodules
+}
+
+export interface GitLabSourceProviderOptions extends RemoteSourceProviderOptions {
+  apiBaseUrl: string; // https://gitlab.com/api/v4 or a self-managed instance
+  projectPath: string; // Full namespace path, e.g. group/subgroup/project
+}
+
+const MAX_PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 100;
+
+/**
+ * GitLab addresses projects by their URL-encoded namespace path, lists trees
+ * page by page (X-Next-Page) and serves raw files from the files API.
+ */
+export const createGitLabSourceProvider = ({
+  apiBaseUrl,
+  projectPath,
+  token,
+  onRateLimitUpdate,
+}: GitLabSourceProviderOptions): SourceProvider => {
+  const projectApiUrl = `${apiBaseUrl.replace(/\/+$/, '')}/projects/${encodeURIComponent(projectPath)}`;
+  const authenticated = Boolean(token?.trim());
+  let lastRateLimit: GitHubRateLimitInfo | null = null;
+  let lastTreeIndex: RepoTreeIndexInfo | null = null;
+
+  const gitlabFetch = async (
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<Response> => {
+    abortIfSignaled(signal);
+    const response = await fetch(
+      url,
+      authenticated
+        ? { signal, headers: { 'PRIVATE-TOKEN': token?.trim() || '' } }
+        : { signal },
+    );
+
+    const rateLimit = parseRateLimitHeaders(
+      response.headers,
+      'ratelimit',
+      authenticated,
+    );
+    if (rateLimit.limit !== null || rateLimit.remaining !== null) {
+      lastRateLimit = rateLimit;
+      onRateLimitUpdate?.(rateLimit);
+    }
+    return response;
+  };
+
+  const resolveDefaultBranch = async (signal?: AbortSignal) => {
+    const response = await gitlabFetch(projectApiUrl, signal);
+    if (!response.ok) {
+      throwHostResponseError(
+        'GitLab',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as { default_branch?: unknown };
+    return typeof data?.default_branch === 'string' && data.default_branch
+      ? data.default_branch
+      : 'main';
+  };
+
+  const resolveRevision = async (
+    requestedRef?: string,
+    signal?: AbortSignal,
+  ): Promise<RepoRevision> => {
+    const ref = requestedRef?.trim() || (await resolveDefaultBranch(signal));
+    const response = await gitlabFetch(
+      `${projectApiUrl}/repository/commits/${encodeURIComponent(ref)}`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'GitLab',
+        response,
+        `Ref '${ref}' not found in repository.`,
+      );
+    }
+
+    const data = (await response.json()) as { id?: unknown };
+    if (typeof data?.id !== 'string' || !data.id) {
+      throw new Error(`GitLab did not return a commit for ref '${ref}'.`);
+    }
+    return { ref, commitSha: data.id };
+  };
+
+  const fetchRefNames = async (
+    kind: 'branches' | 'tags',
+    signal?: AbortSignal,
+  ): Promise<string[]> => {
+    const response = await gitlabFetch(
+      `${projectApiUrl}/repository/${kind}?per_page=${MAX_PAGE_SIZE}`,
+      signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError(
+        'GitLab',
+        response,
+        'Repository not found (404). Check if private or URL is incorrect.',
+      );
+    }
+
+    const data = (await response.json()) as { name?: unknown }[];
+    return Array.isArray(data)
+      ? data
+          .map((item) => item?.name)
+          .filter((name): name is string => typeof name === 'string')
+      : [];
+  };
+
+  const listRefs = async (signal?: AbortSignal): Promise<RepoRefList> => {
+    const defaultBranch = await resolveDefaultBranch(signal);
+    const branches = await fetchRefNames('branches', signal);
+    const tags = await fetchRefNames('tags', signal);
+    return { defaultBranch, branches, tags };
+  };
+
+  const listTree = async (options?: SourceReadOptions): Promise<FileNode[]> => {
+    const signal = options?.signal;
+    const ref =
+      options?.ref?.trim() || (await resolveDefaultBranch(options?.signal));
+
+    const items: SourceTreeItem[] = [];
+    let page = '1';
+    for (let pageCount = 0; page && pageCount < MAX_TREE_PAGES; pageCount++) {
+      const response = await gitlabFetch(
+        `${projectApiUrl}/repository/tree?recursive=true&per_page=${MAX_PAGE_SIZE}&ref=${encodeURIComponent(ref)}&page=${page}`,
+        signal,
+      );
+      if (!response.ok) {
+        throwHostResponseError(
+          'GitLab',
+          response,
+          `Repository structure not found (404) for ref '${ref}'.`,
+        );
+      }
+
+      const data = (await response.json()) as GitLabTreeItem[];
+      data
+        .filter((item) => item.type === 'blob' || item.type === 'tree')
+        .forEach((item) =>
+          items.push({ path: item.path, type: item.type as 'blob' | 'tree' }),
+        );
+      page = response.headers?.get('x-next-page') || '';
+    }
+
+    // A remaining next page means the page cap cut the listing short.
+    lastTreeIndex = { complete: !page, walkedDirectories: 0 };
+    return buildFileTree(rerootTreeItems(items, options?.rootPath, ref));
+  };
+
+  const readFile = async (
+    path: string,
+    options?: SourceReadOptions,
+  ): Promise<string> => {
+    const ref =
+      options?.ref?.trim() || (await resolveDefaultBranch(options?.signal));
+    const repoPath = toRepoPath(path, options?.rootPath);
+    const response = await gitlabFetch(
+      `${projectApiUrl}/repository/files/${encodeURIComponent(repoPath)}/raw?ref=${encodeURIComponent(ref)}`,
+      options?.signal,
+    );
+    if (!response.ok) {
+      throwHostResponseError('GitLab', response, `File not found: ${path}`);
+    }
+
+    return readRawFileResponse(response, path);
+  };
+
+  return {
+    kind: 'gitlab',
+    label: projectPath,
+    resolveDefaultBranch,
+    resolveRevision,
+    listRefs,
+    listTree,
+    readFile,
+    getRateLimitInfo: () => lastRateLimit,
+    getTreeIndexInfo: () => lastTreeIndex,
+  };
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createImportResolver,
+  parseBundlerAliases,
+  parseImportResolverConfig,
+  parseTsConfigAliases,
+  parseWorkspacePackage,
+} from './importResolver';
+
+describe('importResolver', () => {
+  it('reads tsconfig paths with comments, trailing commas and baseUrl', () => {
+    const aliases = parseTsConfigAliases(
+      `{
+        // Shared aliases
+        "compilerOptions": {
+          "baseUrl": "./src",
+          "paths": { "@/*": ["./*"], "~/utils": ["lib/utils/index.ts"], },
+        },
+      }`,
+      'web/tsconfig.json',
+    );
+
+    const resolve = createImportResolver(aliases, [
+      'web/src/components/Header.tsx',
+      'web/src/lib/utils/index.ts',
+      'web/src/store/index.js',
+    ]);
+
+    expect(resolve('@/components/Header', 'web/src/App.tsx')).toBe(
+      'web/src/components/Header.tsx',
+    );
+    expect(resolve('~/utils', 'web/src/App.tsx')).toBe(
+      'web/src/lib/utils/index.ts',
+    );
+    expect(resolve('store', 'web/src/App.tsx')).toBe('web/src/store/index.js');
+    expect(resolve('react', 'web/src/App.tsx')).toBeNull();
+    // Aliases only apply below the config that declares them.
+    expect(resolve('@/components/Header', 'api/server.ts')).toBeNull();
+  });
+
+  it('reads Vite and webpack alias blocks', () => {
+    const viteAliases = parseBundlerAliases(
+      `import { fileURLToPath, URL } from 'node:url';
+      export default defineConfig({
+        resolve: {
+          alias: {
+            '@': fileURLToPath(new URL('./src', import.meta.url)),
+            '~assets': '/src/assets',
+          },
+        },
+      });`,
+      'vite.config.ts',
+    );
+    const webpackAliases = parseBundlerAliases(
+      `module.exports = {
+        resolve: {
+          alias: [
+            { find: 'shared', replacement: path.resolve(__dirname, '..', 'shared') },
+            { find: /^legacy/, replacement: 'old' },
+          ],
+        },
+      };`,
+      'client/webpack.config.js',
+    );
+
+    const resolve = createImportResolver(
+      [...viteAliases, ...webpackAliases],
+      ['src/utils/date.js', 'shared/api.ts'],
+    );
+
+    expect(resolve('@/utils/date', 'src/main.js')).toBe('src/utils/date.js');
+    expect(resolve('~assets/logo.svg', 'src/main.js')).toBe(
+      'src/assets/logo.svg',
+    );
+    expect(resolve('shared/api', 'client/index.js')).toBe('shared/api.ts');
+    expect(resolve('legacy/thing', 'client/index.js')).toBeNull();
+  });
+
+  it('resolves workspace packages through exports and main', () => {
+    const aliases = [
+      ...parseWorkspacePackage(
+        JSON.stringify({
+          name: '@acme/ui',
+          exports: {
+            '.': { types: './dist/index.d.ts', import: './src/index.ts' },
+            './button': './src/Button.tsx',
+          },
+        }),
+        'packages/ui/package.json',
+      ),
+      ...parseImportResolverConfig(
+        JSON.stringify({ name: '@acme/config', main: 'lib/index.js' }),
+        'packages/config/package.json',
+      ),
+    ];
+
+    const resolve = createImportResolver(aliases, [
+      'packages/ui/src/index.ts',
+      'packages/ui/src/Button.tsx',
+      'packages/config/lib/index.js',
+      'packages/config/lib/eslint.js',
+    ]);
+
+    expect(resolve('@acme/ui', 'apps/web/page.tsx')).toBe(
+      'packages/ui/src/index.ts',
+    );
+    expect(resolve('@acme/ui/button', 'apps/web/page.tsx')).toBe(
+      'packages/ui/src/Button.tsx',
+    );
+    expect(resolve('@acme/config', 'apps/web/page.tsx')).toBe(
+      'packages/config/lib/index.js',
+    );
+    expect(resolve('@acme/config/lib/eslint', 'apps/web/page.tsx')).toBe(
+      'packages/config/lib/eslint.js',
+    );
+  });
+});
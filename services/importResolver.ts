@@ -0,0 +1,527 @@
+/**
+ * Resolves non-relative import specifiers to repo paths so the dependency
+ * graph can follow `@/components/Header`, `~/utils` or `@acme/ui`. Aliases
+ * come from tsconfig/jsconfig `paths`, Vite and webpack `resolve.alias`
+ * blocks, and workspace `package.json` entry points. Config parsing is
+ * best-effort: aliases computed at runtime are skipped, not evaluated.
+ */
+export interface PathAlias {
+  pattern: string; // At most one '*', e.g. '@/*' or '@acme/ui'
+  targets: string[]; // Repo paths; '*' receives the matched part
+  scopeDir: string; // Only applies to importers under this directory
+  onlyKnownPaths?: boolean; // baseUrl lookups must name a file in the tree
+}
+
+/** Returns the imported repo path, or null for external packages. */
+export type ImportResolver = (
+  specifier: string,
+  importerPath: string,
+) => string | null;
+
+const SOURCE_EXTENSIONS = [
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'mjs',
+  'cjs',
+  'vue',
+  'svelte',
+];
+const SOURCE_EXTENSION_PATTERN = /\.(?:[cm]?[jt]sx?)$/;
+
+// Export conditions in preference order; 'types' points at declarations.
+const EXPORT_CONDITIONS = [
+  'source',
+  'import',
+  'module',
+  'browser',
+  'default',
+  'require',
+  'node',
+  'types',
+];
+
+const getParentDirectory = (path: string): string =>
+  path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+/** Joins a relative path onto a directory, folding `.` and `..`. */
+export const joinRepoPath = (baseDir: string, relativePath: string): string => {
+  const parts = baseDir ? baseDir.split('/') : [];
+  relativePath.split('/').forEach((part) => {
+    if (!part || part === '.') {
+      return;
+    }
+    if (part === '..') {
+      parts.pop();
+      return;
+    }
+    parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const isWithinDirectory = (path: string, directory: string): boolean =>
+  !directory || path === directory || path.startsWith(`${directory}/`);
+
+/** Strips comments and trailing commas so tsconfig-style JSON parses. */
+const parseJsonWithComments = (content: string): unknown => {
+  let output = '';
+  let inString = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += content[index + 1] ?? '';
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+      continue;
+    }
+
+    if (char === '/' && content[index + 1] === '/') {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end - 1;
+      continue;
+    }
+
+    if (char === '/' && content[index + 1] === '*') {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    output += char;
+  }
+
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads `compilerOptions.baseUrl` and `paths` from a tsconfig/jsconfig. */
+export const parseTsConfigAliases = (
+  content: string,
+  configPath: string,
+): PathAlias[] => {
+  let config: unknown;
+  try {
+    config = parseJsonWithComments(content);
+  } catch {
+    return [];
+  }
+
+  const compilerOptions = isRecord(config) ? config.compilerOptions : null;
+  if (!isRecord(compilerOptions)) {
+    return [];
+  }
+
+  const configDir = getParentDirectory(configPath);
+  const baseUrl =
+    typeof compilerOptions.baseUrl === 'string'
+      ? joinRepoPath(configDir, compilerOptions.baseUrl)
+      : null;
+  // Since TypeScript 4.1, paths without baseUrl resolve from the config.
+  const pathsBase = baseUrl ?? configDir;
+  const aliases: PathAlias[] = [];
+
+  if (isRecord(compilerOptions.paths)) {
+    Object.entries(compilerOptions.paths).forEach(([pattern, targets]) => {
+      if (!Array.isArray(targets)) {
+        return;
+      }
+      const resolvedTargets = targets
+        .filter((target): target is string => typeof target === 'string')
+        .map((target) => joinRepoPath(pathsBase, target));
+      if (resolvedTargets.length > 0) {
+        aliases.push({
+          pattern,
+          targets: resolvedTargets,
+          scopeDir: configDir,
+        });
+      }
+    });
+  }
+
+  if (baseUrl !== null) {
+    aliases.push({
+      pattern: '*',
+      targets: [baseUrl ? `${baseUrl}/*` : '*'],
+      scopeDir: configDir,
+      onlyKnownPaths: true,
+    });
+  }
+
+  return aliases;
+};
+
+/** Returns the index just past the bracket closing the one at `start`. */
+const findBlockEnd = (source: string, start: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('{[('.includes(char)) {
+      depth++;
+    } else if ('}])'.includes(char)) {
+      depth--;
+      if (depth === 0) {
+        return index + 1;
+      }
+    }
+  }
+
+  return source.length;
+};
+
+/** Splits on commas and colons that are not nested or quoted. */
+const splitTopLevel = (source: string, separator: ',' | ':'): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += source[index + 1] ?? '';
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('{[('.includes(char)) {
+      depth++;
+    } else if ('}])'.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      if (separator === ':') {
+        parts.push(source.slice(index + 1));
+        return parts;
+      }
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+};
+
+const readStringLiterals = (expression: string): string[] =>
+  Array.from(expression.matchAll(/(['"`])((?:\\.|(?!\1).)*)\1/g))
+    .map((match) => match[2])
+    .filter((literal) => !literal.includes('${'));
+
+const readKey = (key: string): string | null => {
+  const trimmed = key.trim();
+  const literal = readStringLiterals(trimmed)[0];
+  if (literal !== undefined) {
+    return literal;
+  }
+  return /^[\w$@~-]+$/.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Turns `path.resolve(__dirname, 'src')`, `'/src'` or
+ * `fileURLToPath(new URL('./src', import.meta.url))` into a repo path by
+ * joining its string literals relative to the config file.
+ */
+const readAliasTarget = (
+  expression: string,
+  configDir: string,
+): string | null => {
+  const literals = readStringLiterals(expression);
+  if (literals.length === 0) {
+    return null;
+  }
+  return joinRepoPath(configDir, literals.join('/').replace(/^\/+/, ''));
+};
+
+const toBundlerAliases = (
+  key: string,
+  target: string,
+  scopeDir: string,
+): PathAlias[] => {
+  // webpack treats a trailing `$` as an exact-match alias.
+  if (key.endsWith('$')) {
+    return [{ pattern: key.slice(0, -1), targets: [target], scopeDir }];
+  }
+  return [
+    { pattern: key, targets: [target], scopeDir },
+    { pattern: `${key}/*`, targets: [`${target}/*`], scopeDir },
+  ];
+};
+
+/** Reads `alias` blocks from vite/webpack configs, object or array form. */
+export const parseBundlerAliases = (
+  content: string,
+  configPath: string,
+): PathAlias[] => {
+  const configDir = getParentDirectory(configPath);
+  const aliases: PathAlias[] = [];
+  const aliasPattern = /\balias\s*:\s*([{[])/g;
+  let match;
+
+  while ((match = aliasPattern.exec(content)) !== null) {
+    const start = match.index + match[0].length - 1;
+    const body = content.slice(start + 1, findBlockEnd(content, start) - 1);
+
+    splitTopLevel(body, ',').forEach((entry) => {
+      const trimmed = entry.trim();
+      if (!trimmed) {
+        return;
+      }
+
+      if (trimmed.startsWith('{')) {
+        const fields = new Map(
+          splitTopLevel(trimmed.slice(1, -1), ',').map((field) => {
+            const [name, value = ''] = splitTopLevel(field, ':');
+            return [name.trim(), value] as const;
+          }),
+        );
+        const find = fields.get('find');
+        const replacement = fields.get('replacement');
+        const key = find ? readStringLiterals(find)[0] : undefined;
+        const target = replacement
+          ? readAliasTarget(replacement, configDir)
+          : null;
+        if (key && target !== null) {
+          aliases.push(...toBundlerAliases(key, target, configDir));
+        }
+        return;
+      }
+
+      const [rawKey, value] = splitTopLevel(trimmed, ':');
+      const key = value === undefined ? null : readKey(rawKey);
+      const target = key ? readAliasTarget(value, configDir) : null;
+      if (key && target !== null) {
+        aliases.push(...toBundlerAliases(key, target, configDir));
+      }
+    });
+
+    aliasPattern.lastIndex = start + body.length;
+  }
+
+  return aliases;
+};
+
+const pickExportTarget = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = pickExportTarget(item);
+      if (target) {
+        return target;
+      }
+    }
+    return null;
+  }
+  if (isRecord(value)) {
+    for (const condition of EXPORT_CONDITIONS) {
+      const target = pickExportTarget(value[condition]);
+      if (target) {
+        return target;
+      }
+    }
+  }
+  return null;
+};
+
+/** Maps a workspace package name (and its subpaths) onto its directory. */
+export const parseWorkspacePackage = (
+  content: string,
+  packageJsonPath: string,
+): PathAlias[] => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  if (!isRecord(manifest) || typeof manifest.name !== 'string') {
+    return [];
+  }
+
+  const name = manifest.name;
+  const packageDir = getParentDirectory(packageJsonPath);
+  const toTarget = (target: string) => joinRepoPath(packageDir, target);
+  const aliases: PathAlias[] = [];
+  const { exports } = manifest;
+
+  if (
+    isRecord(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'))
+  ) {
+    Object.entries(exports).forEach(([subpath, value]) => {
+      const target = pickExportTarget(value);
+      if (!subpath.startsWith('.') || !target) {
+        return;
+      }
+      aliases.push({
+        pattern: subpath === '.' ? name : `${name}/${subpath.slice(2)}`,
+        targets: [toTarget(target)],
+        scopeDir: '',
+      });
+    });
+    return aliases;
+  }
+
+  const entry =
+    pickExportTarget(exports) ??
+    [manifest.source, manifest.module, manifest.main].find(
+      (field): field is string => typeof field === 'string',
+    ) ??
+    'index';
+  aliases.push(
+    { pattern: name, targets: [toTarget(entry)], scopeDir: '' },
+    {
+      pattern: `${name}/*`,
+      targets: [packageDir ? `${packageDir}/*` : '*'],
+      scopeDir: '',
+    },
+  );
+  return aliases;
+};
+
+/** Config files whose aliases the resolver understands. */
+export const isImportResolverConfig = (path: string): boolean => {
+  if (/(^|\/)node_modules\//.test(path)) {
+    return false;
+  }
+  const name = path.split('/').pop() || '';
+  return (
+    /^[jt]sconfig(\.[\w-]+)?\.json$/.test(name) ||
+    /^(vite|vitest|webpack)(\.[\w-]+)?\.config\.[cm]?[jt]s$/.test(name) ||
+    name === 'package.json'
+  );
+};
+
+/** Dispatches a config file to the matching parser. */
+export const parseImportResolverConfig = (
+  content: string,
+  path: string,
+): PathAlias[] => {
+  const name = path.split('/').pop() || '';
+  if (name === 'package.json') {
+    return parseWorkspacePackage(content, path);
+  }
+  if (name.endsWith('.json')) {
+    return parseTsConfigAliases(content, path);
+  }
+  return parseBundlerAliases(content, path);
+};
+
+const matchPattern = (pattern: string, specifier: string): string | null => {
+  const starIndex = pattern.indexOf('*');
+  if (starIndex === -1) {
+    return pattern === specifier ? '' : null;
+  }
+
+  const prefix = pattern.slice(0, starIndex);
+  const suffix = pattern.slice(starIndex + 1);
+  if (
+    specifier.length < prefix.length + suffix.length ||
+    !specifier.startsWith(prefix) ||
+    !specifier.endsWith(suffix)
+  ) {
+    return null;
+  }
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+};
+
+// Most specific first: deepest config, then exact patterns, then the
+// longest prefix before the wildcard (TypeScript's own tie-breaker).
+const compareAliases = (a: PathAlias, b: PathAlias): number => {
+  const depth = (alias: PathAlias) =>
+    alias.scopeDir ? alias.scopeDir.split('/').length : 0;
+  const prefixLength = (alias: PathAlias) => {
+    const starIndex = alias.pattern.indexOf('*');
+    return starIndex === -1 ? Infinity : starIndex;
+  };
+  return depth(b) - depth(a) || prefixLength(b) - prefixLength(a);
+};
+
+/**
+ * Builds a resolver over the given aliases. `knownPaths` (the repo's file
+ * list) picks the first alias target that exists, and maps extensionless or
+ * directory imports onto the real file.
+ */
+export const createImportResolver = (
+  aliases: PathAlias[],
+  knownPaths: string[] = [],
+): ImportResolver => {
+  const sortedAliases = [...aliases].sort(compareAliases);
+  const known = new Set(knownPaths);
+
+  const findKnownPath = (target: string): string | null => {
+    const stem = target.replace(SOURCE_EXTENSION_PATTERN, '');
+    const candidates = [
+      target,
+      ...SOURCE_EXTENSIONS.map((extension) => `${stem}.${extension}`),
+      ...SOURCE_EXTENSIONS.map((extension) => `${target}/index.${extension}`),
+    ];
+    return candidates.find((candidate) => known.has(candidate)) ?? null;
+  };
+
+  return (specifier, importerPath) => {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return null;
+    }
+
+    let fallback: string | null = null;
+    for (const alias of sortedAliases) {
+      if (!isWithinDirectory(importerPath, alias.scopeDir)) {
+        continue;
+      }
+      const wildcard = matchPattern(alias.pattern, specifier);
+      if (wildcard === null) {
+        continue;
+      }
+
+      for (const target of alias.targets) {
+        const resolved = joinRepoPath('', target.replace('*', wildcard));
+        const knownPath = findKnownPath(resolved);
+        if (knownPath) {
+          return knownPath;
+        }
+        if (fallback === null && !alias.onlyKnownPaths && resolved) {
+          fallback = resolved.replace(SOURCE_EXTENSION_PATTERN, '');
+        }
+      }
+    }
+
+    return fallback;
+  };
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createModuleIndex, extractLanguageImports } from './languageImports';
+
+describe('languageImports', () => {
+  it('resolves PHP includes and namespaced use statements', () => {
+    const index = createModuleIndex([
+      'public/index.php',
+      'includes/db.php',
+      'public/partials/header.php',
+      'config.php',
+      'app/Models/User.php',
+      'app/Http/Controllers/Controller.php',
+    ]);
+    const code = `<?php
+      require_once __DIR__ . '/../includes/db.php';
+      include 'partials/header.php';
+      require('config.php');
+      use App\\Models\\User;
+      use App\\Http\\Controllers\\{Controller, Missing};
+      use Illuminate\\Support\\Str;
+    `;
+
+    expect(extractLanguageImports(code, 'public/index.php', index)).toEqual([
+      'includes/db.php',
+      'public/partials/header.php',
+      'config.php',
+      'app/Models/User.php',
+      'app/Http/Controllers/Controller.php',
+    ]);
+  });
+
+  it('resolves Python absolute, relative and submodule imports', () => {
+    const index = createModuleIndex([
+      'src/shop/__init__.py',
+      'src/shop/models.py',
+      'src/shop/views.py',
+      'src/shop/utils/__init__.py',
+      'src/shop/utils/money.py',
+    ]);
+    const code = `
+import os, shop.models
+from . import models
+from .utils import money, format_price
+from ..shared import thing
+from django.db import models as dj
+    `;
+
+    expect(extractLanguageImports(code, 'src/shop/views.py', index)).toEqual([
+      'src/shop/models.py',
+      'src/shop/utils/__init__.py',
+      'src/shop/utils/money.py',
+    ]);
+  });
+
+  it('resolves Java, Kotlin, Go and Ruby imports', () => {
+    const index = createModuleIndex([
+      'src/main/java/com/acme/model/User.java',
+      'src/main/java/com/acme/util/Strings.kt',
+      'src/main/java/com/acme/util/Dates.kt',
+      'internal/db/db.go',
+      'internal/db/db_test.go',
+      'internal/errors/errors.go',
+      'lib/billing/invoice.rb',
+      'app/models/order.rb',
+    ]);
+
+    expect(
+      extractLanguageImports(
+        `import com.acme.model.User;
+import static com.acme.model.User.create;
+import com.acme.util.*;
+import java.util.List;`,
+        'src/main/java/com/acme/App.java',
+        index,
+      ),
+    ).toEqual([
+      'src/main/java/com/acme/model/User.java',
+      'src/main/java/com/acme/util/Strings.kt',
+      'src/main/java/com/acme/util/Dates.kt',
+    ]);
+
+    expect(
+      extractLanguageImports(
+        `import (
+  "errors"
+  db "github.com/acme/shop/internal/db"
+)`,
+        'cmd/server/main.go',
+        index,
+      ),
+    ).toEqual(['internal/db/db.go']);
+
+    expect(
+      extractLanguageImports(
+        `require 'json'
+require 'billing/invoice'
+require_relative '../models/order'`,
+        'app/controllers/orders_controller.rb',
+        index,
+      ),
+    ).toEqual(['lib/billing/invoice.rb', 'app/models/order.rb']);
+  });
+
+  it('leaves JavaScript files to the default extractor', () => {
+    expect(
+      extractLanguageImports(
+        "import x from './x';",
+        'src/a.js',
+        createModuleIndex([]),
+      ),
+    ).toBeNull();
+  });
+});
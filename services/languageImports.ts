@@ -0,0 +1,357 @@
+import { joinRepoPath } from './importResolver';
+
+/**
+ * Import extraction for non-JavaScript sources, selected by file extension.
+ * Module-style references (PHP namespaces, Python packages, Java classes, Go
+ * packages) carry no file path, so they are matched against the repo's file
+ * list by path suffix; references that match nothing are treated as
+ * external and dropped.
+ */
+export interface ModuleIndex {
+  has: (path: string) => boolean;
+  /** Shortest repo file equal to `suffix` or ending in `/suffix`. */
+  findFile: (suffix: string) => string | null;
+  /** Shortest repo directory equal to `suffix` or ending in `/suffix`. */
+  findDirectory: (suffix: string) => string | null;
+  listFiles: (directory: string) => string[];
+}
+
+type LanguageImportExtractor = (
+  content: string,
+  filePath: string,
+  index: ModuleIndex,
+) => string[];
+
+const getParentDirectory = (path: string): string =>
+  path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const getBaseName = (path: string): string => path.split('/').pop() || '';
+
+const getExtension = (path: string): string => {
+  const name = getBaseName(path);
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? name.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+const byLengthThenName = (a: string, b: string): number =>
+  a.length - b.length || a.localeCompare(b);
+
+export const createModuleIndex = (paths: string[]): ModuleIndex => {
+  const files = new Set(paths);
+  const filesByName = new Map<string, string[]>();
+  const directoriesByName = new Map<string, Set<string>>();
+  const filesByDirectory = new Map<string, string[]>();
+
+  const addTo = <T>(map: Map<string, T[]>, key: string, value: T) => {
+    const list = map.get(key) || [];
+    list.push(value);
+    map.set(key, list);
+  };
+
+  paths.forEach((path) => {
+    addTo(filesByName, getBaseName(path), path);
+    addTo(filesByDirectory, getParentDirectory(path), path);
+
+    let directory = getParentDirectory(path);
+    while (directory) {
+      const siblings =
+        directoriesByName.get(getBaseName(directory)) || new Set();
+      siblings.add(directory);
+      directoriesByName.set(getBaseName(directory), siblings);
+      directory = getParentDirectory(directory);
+    }
+  });
+
+  const findBySuffix = (candidates: Iterable<string>, suffix: string) =>
+    Array.from(candidates)
+      .filter((path) => path === suffix || path.endsWith(`/${suffix}`))
+      .sort(byLengthThenName)[0] ?? null;
+
+  return {
+    has: (path) => files.has(path),
+    findFile: (suffix) =>
+      findBySuffix(filesByName.get(getBaseName(suffix)) || [], suffix),
+    findDirectory: (suffix) =>
+      findBySuffix(
+        directoriesByName.get(getBaseName(suffix)) || new Set<string>(),
+        suffix,
+      ),
+    listFiles: (directory) => filesByDirectory.get(directory) || [],
+  };
+};
+
+/** Tries each file-name suffix, dropping leading segments until one matches. */
+const findBySegments = (
+  segments: string[],
+  extensions: string[],
+  index: ModuleIndex,
+  minSegments = 1,
+): string | null => {
+  for (let start = 0; segments.length - start >= minSegments; start++) {
+    const stem = segments.slice(start).join('/');
+    for (const extension of extensions) {
+      const found = index.findFile(`${stem}.${extension}`);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
+const readStringLiterals = (expression: string): string[] =>
+  Array.from(expression.matchAll(/(['"])((?:\\.|(?!\1).)*)\1/g)).map(
+    (match) => match[2],
+  );
+
+const unique = (paths: (string | null)[]): string[] =>
+  Array.from(new Set(paths.filter((path): path is string => Boolean(path))));
+
+/**
+ * `include`/`require` with literal paths (optionally prefixed by `__DIR__`
+ * or `dirname(__FILE__)`), plus `use` statements mapped PSR-4 style.
+ */
+const extractPhpImports: LanguageImportExtractor = (
+  content,
+  filePath,
+  index,
+) => {
+  const directory = getParentDirectory(filePath);
+  const imports: (string | null)[] = [];
+
+  const includeRegex =
+    /\b(?:include|include_once|require|require_once)\b\s*\(?([^;]+);/g;
+  for (const match of content.matchAll(includeRegex)) {
+    const expression = match[1];
+    const literal = readStringLiterals(expression).join('');
+    if (!literal) {
+      continue;
+    }
+
+    const fileRelative = joinRepoPath(directory, literal);
+    if (/__DIR__|__FILE__/.test(expression)) {
+      imports.push(fileRelative);
+      continue;
+    }
+    // PHP tries the include_path before the script's directory; the repo
+    // root stands in for it.
+    const rootRelative = joinRepoPath('', literal);
+    imports.push(
+      index.has(fileRelative) || !index.has(rootRelative)
+        ? fileRelative
+        : rootRelative,
+    );
+  }
+
+  const useRegex = /^\s*use\s+(?!function\b|const\b)([\w\\\s,{}]+?)\s*;/gm;
+  for (const match of content.matchAll(useRegex)) {
+    const clause = match[1].replace(/\s+as\s+\w+/g, '');
+    const groupMatch = clause.match(/^([\w\\]*)\\?\{([^}]*)\}$/);
+    const names = groupMatch
+      ? groupMatch[2]
+          .split(',')
+          .map((name) => `${groupMatch[1]}\\${name.trim()}`)
+      : clause.split(',');
+
+    names.forEach((name) => {
+      const segments = name.trim().split('\\').filter(Boolean);
+      imports.push(
+        findBySegments(segments, ['php'], index, Math.min(2, segments.length)),
+      );
+    });
+  }
+
+  return unique(imports);
+};
+
+const resolvePythonModule = (
+  modulePath: string,
+  baseDirectory: string | null,
+  index: ModuleIndex,
+): string | null => {
+  const segments = modulePath.split('.').filter(Boolean);
+  const candidates = (stem: string) => [`${stem}.py`, `${stem}/__init__.py`];
+
+  if (baseDirectory !== null) {
+    const stem = joinRepoPath(baseDirectory, segments.join('/'));
+    return candidates(stem).find((path) => index.has(path)) ?? null;
+  }
+
+  // Absolute imports: the repo root, then source roots such as src/.
+  const stem = segments.join('/');
+  for (const candidate of candidates(stem)) {
+    const found = index.findFile(candidate);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+};
+
+/** `import a.b`, `from a.b import c` and relative `from ..x import y`. */
+const extractPythonImports: LanguageImportExtractor = (
+  content,
+  filePath,
+  index,
+) => {
+  const directory = getParentDirectory(filePath);
+  const imports: (string | null)[] = [];
+
+  for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w., \t]+)$/gm)) {
+    match[1].split(',').forEach((part) => {
+      const modulePath = part.trim().split(/\s+as\s+/)[0];
+      imports.push(resolvePythonModule(modulePath, null, index));
+    });
+  }
+
+  const fromRegex = /^\s*from\s+(\.*)([\w.]*)\s+import\s+(\([^)]*\)|[^\n#]+)/gm;
+  for (const match of content.matchAll(fromRegex)) {
+    const [, dots, modulePath, names] = match;
+    let baseDirectory: string | null = null;
+    if (dots) {
+      baseDirectory = joinRepoPath(directory, '../'.repeat(dots.length - 1));
+    }
+
+    const resolvedModule = modulePath
+      ? resolvePythonModule(modulePath, baseDirectory, index)
+      : null;
+    imports.push(resolvedModule);
+
+    // Imported names may be submodules rather than attributes.
+    names
+      .replace(/[()]/g, '')
+      .split(',')
+      .map((name) => name.trim().split(/\s+as\s+/)[0])
+      .filter((name) => /^\w+$/.test(name))
+      .forEach((name) => {
+        const submodule = modulePath ? `${modulePath}.${name}` : name;
+        const resolved = resolvePythonModule(submodule, baseDirectory, index);
+        if (resolved && resolved !== resolvedModule) {
+          imports.push(resolved);
+        }
+      });
+  }
+
+  return unique(imports);
+};
+
+/** `import a.b.C;`, static member imports and package wildcards. */
+const extractJvmImports: LanguageImportExtractor = (content, _, index) => {
+  const imports: (string | null)[] = [];
+  const extensions = ['java', 'kt'];
+
+  const importRegex = /^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;?\s*$/gm;
+  for (const match of content.matchAll(importRegex)) {
+    const [, isStatic, name, wildcard] = match;
+    const segments = name.split('.');
+
+    if (wildcard && !isStatic) {
+      const directory = index.findDirectory(segments.join('/'));
+      if (directory) {
+        imports.push(
+          ...index
+            .listFiles(directory)
+            .filter((path) => extensions.includes(getExtension(path))),
+        );
+      }
+      continue;
+    }
+
+    // Static imports (and Kotlin top-level functions) name a member of the
+    // file, so fall back to the enclosing class.
+    imports.push(
+      findBySegments(segments, extensions, index, 2) ??
+        findBySegments(segments.slice(0, -1), extensions, index, 2),
+    );
+  }
+
+  return unique(imports);
+};
+
+/**
+ * Go imports name package directories, so every non-test file in the
+ * matching directory counts. Module paths are matched by their trailing
+ * segments since go.mod's module prefix is not part of the repo layout.
+ */
+const extractGoImports: LanguageImportExtractor = (content, _, index) => {
+  const specifiers: string[] = [];
+  for (const match of content.matchAll(/^\s*import\s+(?:\w+\s+)?"([^"]+)"/gm)) {
+    specifiers.push(match[1]);
+  }
+  for (const match of content.matchAll(/^\s*import\s*\(([^)]*)\)/gm)) {
+    specifiers.push(...readStringLiterals(match[1]));
+  }
+
+  const imports: string[] = [];
+  specifiers.forEach((specifier) => {
+    const segments = specifier.split('/');
+    // Standard library paths have no host; don't let `errors` or
+    // `net/http` match a repo directory by its last segment alone.
+    const hasHost = segments[0].includes('.');
+    const minSegments = hasHost ? 1 : 2;
+
+    for (let start = 0; segments.length - start >= minSegments; start++) {
+      const directory = index.findDirectory(segments.slice(start).join('/'));
+      if (directory) {
+        imports.push(
+          ...index
+            .listFiles(directory)
+            .filter(
+              (path) => path.endsWith('.go') && !path.endsWith('_test.go'),
+            ),
+        );
+        break;
+      }
+    }
+  });
+
+  return unique(imports);
+};
+
+/** `require_relative` from the file, `require` from load-path roots. */
+const extractRubyImports: LanguageImportExtractor = (
+  content,
+  filePath,
+  index,
+) => {
+  const directory = getParentDirectory(filePath);
+  const withExtension = (path: string) =>
+    path.endsWith('.rb') ? path : `${path}.rb`;
+  const imports: (string | null)[] = [];
+
+  const requireRegex = /\b(require_relative|require)\s*\(?\s*(['"])([^'"]+)\2/g;
+  for (const match of content.matchAll(requireRegex)) {
+    const [, kind, , target] = match;
+    if (kind === 'require_relative') {
+      imports.push(joinRepoPath(directory, withExtension(target)));
+      continue;
+    }
+    // Plain require searches $LOAD_PATH (lib/, app/...); gems won't match.
+    imports.push(index.findFile(withExtension(target)));
+  }
+
+  return unique(imports);
+};
+
+const EXTRACTORS_BY_EXTENSION: Record<string, LanguageImportExtractor> = {
+  php: extractPhpImports,
+  phtml: extractPhpImports,
+  inc: extractPhpImports,
+  py: extractPythonImports,
+  java: extractJvmImports,
+  kt: extractJvmImports,
+  kts: extractJvmImports,
+  go: extractGoImports,
+  rb: extractRubyImports,
+  rake: extractRubyImports,
+};
+
+/** Returns null for files handled by the JavaScript extractor. */
+export const extractLanguageImports = (
+  content: string,
+  filePath: string,
+  index: ModuleIndex,
+): string[] | null => {
+  const extractor = EXTRACTORS_BY_EXTENSION[getExtension(filePath)];
+  return extractor ? extractor(content, filePath, index) : null;
+};
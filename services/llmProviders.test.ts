@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LLM_SETTINGS,
+  getDefaultLlmSettings,
+  getModelPricing,
+  normalizeLlmSettings,
+} from './llmProviders';
+
+describe('llmProviders', () => {
+  it('falls back to Gemini defaults for missing or unknown settings', () => {
+    expect(normalizeLlmSettings(null)).toEqual(DEFAULT_LLM_SETTINGS);
+    expect(normalizeLlmSettings({ provider: 'acme' })).toEqual(
+      DEFAULT_LLM_SETTINGS,
+    );
+  });
+
+  it('routes stages by tier from settings saved with one model per tier', () => {
+    const defaults = getDefaultLlmSettings('ollama');
+    const settings = normalizeLlmSettings({
+      provider: 'ollama',
+      models: { pro: ' llama3.3:70b ', flash: '' },
+    });
+
+    expect(settings.stages.analysis.model).toBe('llama3.3:70b');
+    expect(settings.stages.verification.model).toBe('llama3.3:70b');
+    expect(settings.stages.generation).toEqual(defaults.stages.generation);
+  });
+
+  it('keeps stage routing and clamps out-of-range numbers', () => {
+    const settings = normalizeLlmSettings({
+      provider: 'gemini',
+      stages: {
+        generation: {
+          model: 'gemini-2.5-flash',
+          thinkingBudget: null,
+          temperature: 7,
+        },
+        verification: { thinkingBudget: -1, temperature: 'hot' },
+      },
+    });
+
+    expect(settings.stages.generation).toEqual({
+      model: 'gemini-2.5-flash',
+      thinkingBudget: null,
+      temperature: 2,
+    });
+    expect(settings.stages.verification).toEqual(
+      DEFAULT_LLM_SETTINGS.stages.verification,
+    );
+  });
+
+  it('prices known models by prefix and local models as free', () => {
+    expect(getModelPricing('openai', 'gpt-4.1-mini-2025-04-14')).toEqual({
+      inputUsd: 0.4,
+      outputUsd: 1.6,
+    });
+    expect(getModelPricing('ollama', 'qwen2.5-coder:7b')).toEqual({
+      inputUsd: 0,
+      outputUsd: 0,
+    });
+    expect(getModelPricing('openai', 'my-finetune')).toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Model providers the `/api/gemini` proxy can route prompts to. The browser
+ * only chooses a provider and model names; API keys and base URLs are read
+ * from the server environment, so a self-hosted model never needs a key in
+ * the client.
+ */
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama';
+
+// Default model class per stage: `pro` reasons, `flash` writes code.
+export type LlmModelTier = 'pro' | 'flash' | 'image';
+
+export type LlmStage =
+  | 'analysis'
+  | 'scaffold'
+  | 'playbook'
+  | 'generation'
+  | 'verification'
+  | 'diagram'
+  | 'snippetAnalysis'
+  | 'snippetConversion'
+  | 'snippetVerification';
+
+export interface LlmStageInfo {
+  id: LlmStage;
+  label: string;
+  description: string;
+  tier: LlmModelTier;
+  thinkingBudget: number | null; // Default; null sends no thinking config
+}
+
+export interface LlmStageRouting {
+  model: string;
+  thinkingBudget: number | null; // Gemini only; null leaves it to the model
+  temperature: number | null; // null keeps the provider default
+}
+
+export interface LlmModelPricing {
+  inputUsd: number; // Per million tokens
+  outputUsd: number;
+}
+
+/** Tokens one completed request used, as reported by the provider. */
+export interface LlmUsage {
+  provider: LlmProviderId;
+  stage: LlmStage;
+  model: string;
+  promptTokens: number;
+  candidateTokens: number; // Visible output
+  thinkingTokens: number; // Billed as output
+  filePath?: string; // Generated file the request was for
+}
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  description: string;
+  serverSetup: string; // Environment variables the proxy needs
+  defaultModels: Record<LlmModelTier, string>;
+  supportsImages: boolean;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  stages: Record<LlmStage, LlmStageRouting>;
+}
+
+export const LLM_STAGES: LlmStageInfo[] = [
+  {
+    id: 'analysis',
+    label: 'Analysis',
+    description: 'Repository analysis.',
+    tier: 'pro',
+    thinkingBudget: 2048,
+  },
+  {
+    id: 'scaffold',
+    label: 'Scaffold',
+    description: 'Target project structure.',
+    tier: 'pro',
+    thinkingBudget: 1024,
+  },
+  {
+    id: 'playbook',
+    label: 'Playbook',
+    description: 'Migration playbook and review questions.',
+    tier: 'pro',
+    thinkingBudget: 2048,
+  },
+  {
+    id: 'generation',
+    label: 'Generation',
+    description: 'Per-file code generation.',
+    tier: 'flash',
+    thinkingBudget: 2048,
+  },
+  {
+    id: 'verification',
+    label: 'Verification',
+    description: 'Cross-file repository verification.',
+    tier: 'pro',
+    thinkingBudget: 2048,
+  },
+  {
+    id: 'diagram',
+    label: 'Diagram',
+    description: 'Architecture diagram image.',
+    tier: 'image',
+    thinkingBudget: null,
+  },
+  {
+    id: 'snippetAnalysis',
+    label: 'Snippet analysis',
+    description: 'Snippet mode code analysis.',
+    tier: 'pro',
+    thinkingBudget: 1024,
+  },
+  {
+    id: 'snippetConversion',
+    label: 'Snippet conversion',
+    description: 'Snippet mode code conversion.',
+    tier: 'flash',
+    thinkingBudget: 2048,
+  },
+  {
+    id: 'snippetVerification',
+    label: 'Snippet verification',
+    description: 'Snippet mode code verification.',
+    tier: 'pro',
+    thinkingBudget: 1024,
+  },
+];
+
+export const MAX_THINKING_BUDGET = 32_768;
+export const MAX_TEMPERATURE = 2;
+
+// Prefix matches, most specific first. Prices are estimates in USD.
+const MODEL_PRICING: Array<{ prefix: string } & LlmModelPricing> = [
+  { prefix: 'gemini-3-pro', inputUsd: 3.5, outputUsd: 10.5 },
+  { prefix: 'gemini-3-flash', inputUsd: 0.35, outputUsd: 1.05 },
+  { prefix: 'gemini-2.5-pro', inputUsd: 1.25, outputUsd: 10 },
+  { prefix: 'gemini-2.5-flash-lite', inputUsd: 0.1, outputUsd: 0.4 },
+  { prefix: 'gemini-2.5-flash', inputUsd: 0.3, outputUsd: 2.5 },
+  { prefix: 'gpt-4.1-nano', inputUsd: 0.1, outputUsd: 0.4 },
+  { prefix: 'gpt-4.1-mini', inputUsd: 0.4, outputUsd: 1.6 },
+  { prefix: 'gpt-4.1', inputUsd: 2, outputUsd: 8 },
+  { prefix: 'gpt-4o-mini', inputUsd: 0.15, outputUsd: 0.6 },
+  { prefix: 'gpt-4o', inputUsd: 2.5, outputUsd: 10 },
+];
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderInfo> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Hosted Gemini models, including architecture diagrams.',
+    serverSetup: 'GEMINI_API_KEY',
+    defaultModels: {
+      pro: 'gemini-3-pro-preview',
+      flash: 'gemini-3-flash-preview',
+      image: 'gemini-3-pro-image-preview',
+    },
+    supportsImages: true,
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description:
+      'Any chat completions API: OpenAI, Azure, vLLM, LM Studio and others.',
+    serverSetup: 'OPENAI_API_KEY and/or OPENAI_BASE_URL',
+    defaultModels: {
+      pro: 'gpt-4.1',
+      flash: 'gpt-4.1-mini',
+      image: '',
+    },
+    supportsImages: false,
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama',
+    description: 'Local models on your own machine, no internet required.',
+    serverSetup: 'OLLAMA_BASE_URL (defaults to http://localhost:11434)',
+    defaultModels: {
+      pro: 'qwen2.5-coder:32b',
+      flash: 'qwen2.5-coder:7b',
+      image: '',
+    },
+    supportsImages: false,
+  },
+};
+
+const getDefaultStageRouting = (
+  provider: LlmProviderId,
+  stage: LlmStageInfo,
+): LlmStageRouting => ({
+  model: LLM_PROVIDERS[provider].defaultModels[stage.tier],
+  thinkingBudget: stage.thinkingBudget,
+  temperature: null,
+});
+
+export const getDefaultLlmSettings = (
+  provider: LlmProviderId = 'gemini',
+): LlmSettings => ({
+  provider,
+  stages: Object.fromEntries(
+    LLM_STAGES.map((stage) => [
+      stage.id,
+      getDefaultStageRouting(provider, stage),
+    ]),
+  ) as Record<LlmStage, LlmStageRouting>,
+});
+
+export const DEFAULT_LLM_SETTINGS = getDefaultLlmSettings();
+
+const isLlmProviderId = (value: unknown): value is LlmProviderId =>
+  typeof value === 'string' && value in LLM_PROVIDERS;
+
+const toBoundedNumber = (
+  value: unknown,
+  max: number,
+  fallback: number | null,
+): number | null => {
+  if (value === null) {
+    return null;
+  }
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.min(max, value)
+    : fallback;
+};
+
+/**
+ * Settings from storage, with missing or invalid values set to defaults.
+ * Settings saved before stage routing carried one model per tier.
+ */
+export const normalizeLlmSettings = (value: unknown): LlmSettings => {
+  const candidate = (value || {}) as {
+    provider?: unknown;
+    stages?: Partial<Record<LlmStage, Partial<LlmStageRouting>>>;
+    models?: Partial<Record<LlmModelTier, unknown>>;
+  };
+  const provider = isLlmProviderId(candidate.provider)
+    ? candidate.provider
+    : DEFAULT_LLM_SETTINGS.provider;
+  const defaults = getDefaultLlmSettings(provider);
+
+  return {
+    provider,
+    stages: Object.fromEntries(
+      LLM_STAGES.map((stage) => {
+        const saved = candidate.stages?.[stage.id] || {};
+        const fallback = defaults.stages[stage.id];
+        const model = [saved.model, candidate.models?.[stage.tier]].find(
+          (entry): entry is string =>
+            typeof entry === 'string' && entry.trim().length > 0,
+        );
+        return [
+          stage.id,
+          {
+            model: model?.trim() || fallback.model,
+            thinkingBudget:
+              saved.thinkingBudget === undefined
+                ? fallback.thinkingBudget
+                : toBoundedNumber(
+                    saved.thinkingBudget,
+                    MAX_THINKING_BUDGET,
+                    fallback.thinkingBudget,
+                  ),
+            temperature:
+              saved.temperature === undefined
+                ? fallback.temperature
+                : toBoundedNumber(
+                    saved.temperature,
+                    MAX_TEMPERATURE,
+                    fallback.temperature,
+                  ),
+          },
+        ];
+      }),
+    ) as Record<LlmStage, LlmStageRouting>,
+  };
+};
+
+/** Routing for a stage, with a blank model replaced by the default. */
+export const resolveStageRouting = (
+  settings: LlmSettings,
+  stage: LlmStage,
+): LlmStageRouting => {
+  const routing = settings.stages[stage];
+  const info = LLM_STAGES.find((entry) => entry.id === stage)!;
+  return {
+    ...routing,
+    model:
+      routing.model.trim() ||
+      LLM_PROVIDERS[settings.provider].defaultModels[info.tier],
+  };
+};
+
+/**
+ * Estimated price of a model, `null` when unknown. Local Ollama models are
+ * free to run.
+ */
+export const getModelPricing = (
+  provider: LlmProviderId,
+  model: string,
+): LlmModelPricing | null => {
+  if (provider === 'ollama') {
+    return { inputUsd: 0, outputUsd: 0 };
+  }
+  const normalized = model.trim().toLowerCase();
+  const match = MODEL_PRICING.find((entry) =>
+    normalized.startsWith(entry.prefix),
+  );
+  return match
+    ? { inputUsd: match.inputUsd, outputUsd: match.outputUsd }
+    : null;
+};
+
+/** Models routed to `stages` that have no known price, deduplicated. */
+export const getUnpricedModels = (
+  settings: LlmSettings,
+  stages: LlmStage[],
+): string[] =>
+  Array.from(
+    new Set(
+      stages
+        .map((stage) => resolveStageRouting(settings, stage).model)
+        .filter((model) => !getModelPricing(settings.provider, model)),
+    ),
+  );
+
+/** Cost of a request at the model's estimated price, `null` when unknown. */
+export const getTokenCostUsd = (
+  provider: LlmProviderId,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number | null => {
+  const pricing = getModelPricing(provider, model);
+  return pricing
+    ? (inputTokens / 1_000_000) * pricing.inputUsd +
+        (outputTokens / 1_000_000) * pricing.outputUsd
+    : null;
+};
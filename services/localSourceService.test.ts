@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  createLocalSourceFromFiles,
+  createLocalSourceFromZip,
+  fetchLocalFileContent,
+  fetchLocalRepoStructure,
+  getLocalSourceName,
+  isLocalSourceUrl,
+} from './localSourceService';
+
+const buildZipFile = async (
+  name: string,
+  files: Record<string, string>,
+): Promise<File> => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => {
+    zip.file(path, content);
+  });
+  const buffer = await zip.generateAsync({ type: 'uint8array' });
+  return new File([buffer], name, { type: 'application/zip' });
+};
+
+describe('localSourceService', () => {
+  it('builds a file tree from an uploaded zip export', async () => {
+    const zipFile = await buildZipFile('legacy-app.zip', {
+      'legacy-app/index.php': '<?php echo "hi";',
+      'legacy-app/lib/db.php': '<?php',
+      'legacy-app/README.md': '# Legacy',
+      'legacy-app/node_modules/pkg/index.js': '',
+      '__MACOSX/legacy-app/._index.php': '',
+    });
+
+    const url = await createLocalSourceFromZip(zipFile);
+    const tree = fetchLocalRepoStructure(url);
+
+    expect(isLocalSourceUrl(url)).toBe(true);
+    expect(getLocalSourceName(url)).toBe('legacy-app');
+    expect(tree.map((node) => node.path)).toEqual([
+      'lib',
+      'index.php',
+      'README.md',
+    ]);
+    expect(tree[0].children?.[0].path).toBe('lib/db.php');
+    await expect(fetchLocalFileContent(url, 'index.php')).resolves.toBe(
+      '<?php echo "hi";',
+    );
+  });
+
+  it('reads files from a selected folder relative to a project root', async () => {
+    const url = createLocalSourceFromFiles([
+      {
+        path: 'monorepo/apps/admin/main.js',
+        file: new File(['console.log(1);'], 'main.js'),
+      },
+      {
+        path: 'monorepo/apps/site/index.js',
+        file: new File([''], 'index.js'),
+      },
+      {
+        path: 'monorepo/.git/config',
+        file: new File([''], 'config'),
+      },
+    ]);
+
+    expect(getLocalSourceName(url)).toBe('monorepo');
+    expect(
+      fetchLocalRepoStructure(url, 'apps/admin').map((node) => node.path),
+    ).toEqual(['main.js']);
+    await expect(
+      fetchLocalFileContent(url, 'main.js', 'apps/admin'),
+    ).resolves.toBe('console.log(1);');
+    await expect(fetchLocalFileContent(url, '.git/config')).rejects.toThrow(
+      'File not found',
+    );
+  });
+
+  it('rejects uploads without any usable files', () => {
+    expect(() =>
+      createLocalSourceFromFiles([
+        { path: 'app/.DS_Store', file: new File([''], '.DS_Store') },
+      ]),
+    ).toThrow('does not contain any files');
+  });
+});
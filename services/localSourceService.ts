@@ -0,0 +1,309 @@
+import type JSZip from 'jszip';
+import { FileNode } from '../types';
+import {
+  buildFileTree,
+  bytesToBase64,
+  getMimeType,
+  IMAGE_FILE_REGEX,
+  normalizeRootPath,
+  SourceProvider,
+  withParentDirectories,
+} from './sourceProvider';
+
+export const LOCAL_SOURCE_URL_PREFIX = 'local://';
+
+const IGNORED_PATH_SEGMENTS = new Set([
+  '.git',
+  '.svn',
+  'node_modules',
+  '__MACOSX',
+]);
+const IGNORED_FILE_NAMES = new Set(['.DS_Store', 'Thumbs.db']);
+const MAX_LOCAL_SOURCES = 2;
+
+interface LocalSourceEntry {
+  size?: number; // Known for picked/dropped files, not for zip entries
+  readText: () => Promise<string>;
+  readBase64: () => Promise<string>;
+}
+
+interface LocalSource {
+  name: string;
+  files: Map<string, LocalSourceEntry>;
+}
+
+export interface LocalSourceFile {
+  path: string; // Relative path, including the dropped/selected folder name
+  file: File;
+}
+
+// Uploaded sources only live for the lifetime of the tab.
+const localSources = new Map<string, LocalSource>();
+
+const normalizeEntryPath = (path: string): string => {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.')
+    .join('/');
+};
+
+const isIgnoredPath = (path: string): boolean => {
+  const segments = path.split('/');
+  const fileName = segments[segments.length - 1];
+  return (
+    IGNORED_FILE_NAMES.has(fileName) ||
+    segments.some((segment) => IGNORED_PATH_SEGMENTS.has(segment))
+  );
+};
+
+// Zip exports and folder picks usually wrap everything in one top-level
+// folder; drop it so paths look like they would in a repository.
+const stripSharedTopLevelFolder = <T>(
+  entries: Map<string, T>,
+): Map<string, T> => {
+  const paths = Array.from(entries.keys());
+  const firstSegment = paths[0]?.split('/')[0];
+  const hasSharedFolder =
+    Boolean(firstSegment) &&
+    paths.every((path) => path.startsWith(`${firstSegment}/`));
+
+  if (!hasSharedFolder) {
+    return entries;
+  }
+
+  return new Map(
+    Array.from(entries.entries()).map(([path, entry]) => [
+      path.slice(firstSegment.length + 1),
+      entry,
+    ]),
+  );
+};
+
+const createSourceId = (): string => {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+};
+
+const registerLocalSource = (source: LocalSource): string => {
+  if (source.files.size === 0) {
+    throw new Error('The uploaded source does not contain any files.');
+  }
+
+  const id = createSourceId();
+  localSources.set(id, source);
+  while (localSources.size > MAX_LOCAL_SOURCES) {
+    const oldestId = localSources.keys().next().value;
+    if (oldestId === undefined) {
+      break;
+    }
+    localSources.delete(oldestId);
+  }
+
+  return `${LOCAL_SOURCE_URL_PREFIX}${id}/${encodeURIComponent(source.name)}`;
+};
+
+export const isLocalSourceUrl = (url: string): boolean => {
+  return url.trim().startsWith(LOCAL_SOURCE_URL_PREFIX);
+};
+
+export const getLocalSourceName = (url: string): string | null => {
+  if (!isLocalSourceUrl(url)) {
+    return null;
+  }
+
+  const [, encodedName = ''] = url
+    .trim()
+    .slice(LOCAL_SOURCE_URL_PREFIX.length)
+    .split('/');
+  try {
+    return decodeURIComponent(encodedName) || null;
+  } catch {
+    return encodedName || null;
+  }
+};
+
+const getLocalSource = (url: string): LocalSource => {
+  const [id] = url.trim().slice(LOCAL_SOURCE_URL_PREFIX.length).split('/');
+  const source = localSources.get(id);
+  if (!source) {
+    throw new Error(
+      'The uploaded source is no longer in memory. Upload the zip or folder again.',
+    );
+  }
+  return source;
+};
+
+export const createLocalSourceFromZip = async (file: File): Promise<string> => {
+  const { default: JSZipLib } = await import('jszip');
+  const zip = await new JSZipLib().loadAsync(await file.arrayBuffer());
+
+  const entries = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((entryPath, entry) => {
+    const path = normalizeEntryPath(entryPath);
+    if (!entry.dir && path && !isIgnoredPath(path)) {
+      entries.set(path, entry);
+    }
+  });
+
+  const files = new Map<string, LocalSourceEntry>();
+  stripSharedTopLevelFolder(entries).forEach((entry, path) => {
+    files.set(path, {
+      readText: () => entry.async('string'),
+      readBase64: () => entry.async('base64'),
+    });
+  });
+
+  return registerLocalSource({
+    name: file.name.replace(/\.zip$/i, '') || file.name,
+    files,
+  });
+};
+
+export const createLocalSourceFromFiles = (
+  sourceFiles: LocalSourceFile[],
+): string => {
+  const entries = new Map<string, File>();
+  sourceFiles.forEach(({ path, file }) => {
+    const normalizedPath = normalizeEntryPath(path);
+    if (normalizedPath && !isIgnoredPath(normalizedPath)) {
+      entries.set(normalizedPath, file);
+    }
+  });
+
+  const firstPath = entries.keys().next().value;
+  const folderName =
+    firstPath && firstPath.includes('/')
+      ? firstPath.split('/')[0]
+      : 'local-folder';
+
+  const files = new Map<string, LocalSourceEntry>();
+  stripSharedTopLevelFolder(entries).forEach((file, path) => {
+    files.set(path, {
+      size: file.size,
+      readText: () => file.text(),
+      readBase64: async () =>
+        bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+    });
+  });
+
+  return registerLocalSource({ name: folderName, files });
+};
+
+const readDirectoryEntries = (
+  reader: FileSystemDirectoryReader,
+): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => {
+    reader.readEntries(resolve, reject);
+  });
+};
+
+const collectEntryFiles = async (
+  entry: FileSystemEntry,
+  results: LocalSourceFile[],
+): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    results.push({ path: entry.fullPath, file });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    if (IGNORED_PATH_SEGMENTS.has(entry.name)) {
+      return;
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until it yields an empty list.
+    let batch = await readDirectoryEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        await collectEntryFiles(child, results);
+      }
+      batch = await readDirectoryEntries(reader);
+    }
+  }
+};
+
+/**
+ * Collects files from a drag-and-drop payload. Dropped folders are walked
+ * recursively; plain files keep their name as the path.
+ */
+export const collectDroppedFiles = async (
+  dataTransfer: DataTransfer,
+): Promise<LocalSourceFile[]> => {
+  const entries = Array.from(dataTransfer.items || [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files || []).map((file) => ({
+      path: file.name,
+      file,
+    }));
+  }
+
+  const results: LocalSourceFile[] = [];
+  for (const entry of entries) {
+    await collectEntryFiles(entry, results);
+  }
+  return results;
+};
+
+export const fetchLocalRepoStructure = (
+  url: string,
+  rootPath?: string,
+): FileNode[] => {
+  const source = getLocalSource(url);
+  const root = normalizeRootPath(rootPath);
+  const prefix = root ? `${root}/` : '';
+
+  const filePaths = Array.from(source.files.keys())
+    .filter((path) => path.startsWith(prefix))
+    .map((path) => path.slice(prefix.length));
+
+  if (filePaths.length === 0) {
+    throw new Error(`Directory '${root}' not found in the uploaded source.`);
+  }
+
+  return buildFileTree(
+    withParentDirectories(filePaths).map((item) =>
+      item.type === 'blob'
+        ? { ...item, size: source.files.get(`${prefix}${item.path}`)?.size }
+        : item,
+    ),
+  );
+};
+
+export const fetchLocalFileContent = async (
+  url: string,
+  path: string,
+  rootPath?: string,
+): Promise<string> => {
+  const source = getLocalSource(url);
+  const root = normalizeRootPath(rootPath);
+  const entry = source.files.get(root ? `${root}/${path}` : path);
+  if (!entry) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  if (IMAGE_FILE_REGEX.test(path)) {
+    return `data:${getMimeType(path)};base64,${await entry.readBase64()}`;
+  }
+
+  return entry.readText();
+};
+
+export const createLocalSourceProvider = (url: string): SourceProvider => ({
+  kind: 'local',
+  label: `uploaded source "${getLocalSourceName(url) || 'local'}"`,
+  resolveDefaultBranch: async () => '',
+  resolveRevision: async () => null,
+  listRefs: async () => ({ defaultBranch: '', branches: [], tags: [] }),
+  listTree: async (options) => fetchLocalRepoStructure(url, options?.rootPath),
+  readFile: (path, options) =>
+    fetchLocalFileContent(url, path, options?.rootPath),
+  getRateLimitInfo: () => null,
+  // Uploads are read in full, so the index is always complete.
+  getTreeIndexInfo: () => ({ complete: true, walkedDirectories: 0 }),
+});
@@ -1,7 +1,26 @@
-import { describe, expect, it } from 'vitest';
-import { generateReport } from './migrationOrchestrator';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  analyzeRegenerationImpact,
+  estimateMigrationCost,
+  generateReport,
+  runGeneratePhase,
+  runRegenerateFilePhase,
+  runScaffoldPhase,
+} from './migrationOrchestrator';
+import type { BudgetCheck, BudgetDecision } from './migrationOrchestrator';
+import { generateNextJsFileStream } from './geminiService';
+import { getDefaultLlmSettings } from './llmProviders';
+import type { SourceProvider } from './sourceProvider';
 import { FileNode, RepoAnalysisResult } from '../types';
 
+vi.mock('./geminiService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./geminiService')>()),
+  generateNextJsFileStream: vi.fn(
+    async (path: string) => `export const generated = '${path}';`,
+  ),
+  generateProjectStructure: vi.fn(async () => ['app/page.tsx']),
+}));
+
 const sourceFiles: FileNode[] = [
   {
     name: 'src',
@@ -85,3 +104,529 @@ describe('generateReport duration formatting', () => {
     expect(report.duration).toBe('1m 1s');
   });
 });
+
+describe('runScaffoldPhase source reads', () => {
+  it('reuses files read during analysis instead of downloading them again', async () => {
+    const readFile = vi.fn(async (path: string) => `// fetched ${path}`);
+    const source = { kind: 'github', readFile } as unknown as SourceProvider;
+    const files: FileNode[] = ['src/index.js', 'src/util.js'].map((path) => ({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      status: 'done',
+    }));
+
+    const result = await runScaffoldPhase({
+      source,
+      commitSha: 'abc123',
+      sourceFiles: files,
+      sourceContents: { 'src/index.js': 'import "./util";' },
+      analysis,
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'none',
+      },
+      addLog: vi.fn(),
+    });
+
+    expect(readFile.mock.calls.map((call) => call[0])).toEqual(['src/util.js']);
+    expect(result.fileContents).toEqual({
+      'src/index.js': 'import "./util";',
+      'src/util.js': '// fetched src/util.js',
+    });
+  });
+});
+
+describe('runGeneratePhase dependency cycles', () => {
+  it('generates mutually dependent files as one batch with peer context', async () => {
+    const toFile = (path: string): FileNode => ({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      status: 'pending',
+    });
+    const addLog = vi.fn();
+
+    await runGeneratePhase({
+      generatedFiles: [
+        toFile('components/Cart.tsx'),
+        toFile('components/Checkout.tsx'),
+      ],
+      analysis: {
+        ...analysis,
+        semanticFileMappings: [
+          {
+            sourcePath: 'src/cart.js',
+            targetPath: 'components/Cart.tsx',
+            rationale: 'cart',
+            confidence: 0.9,
+          },
+          {
+            sourcePath: 'src/checkout.js',
+            targetPath: 'components/Checkout.tsx',
+            rationale: 'checkout',
+            confidence: 0.9,
+          },
+        ],
+      },
+      sourceContext: '',
+      fileContents: {
+        'src/cart.js': "import './checkout';\nexport function addItem() {}",
+        'src/checkout.js': "import './cart';\nexport class Checkout {}",
+      },
+      filesToRead: [toFile('src/cart.js'), toFile('src/checkout.js')],
+      graph: {
+        'src/cart.js': ['src/checkout'],
+        'src/checkout.js': ['src/cart'],
+      },
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'none',
+      },
+      addLog,
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated: vi.fn(),
+      onFileError: vi.fn(),
+    });
+
+    expect(addLog).toHaveBeenCalledWith(
+      expect.stringContaining('components/Cart.tsx ↔ components/Checkout.tsx'),
+      'warning',
+      expect.anything(),
+    );
+
+    const calls = vi.mocked(generateNextJsFileStream).mock.calls;
+    expect(calls.map((call) => call[0])).toEqual([
+      'components/Cart.tsx',
+      'components/Checkout.tsx',
+    ]);
+    expect(calls[0][2]).toContain(
+      '--- CYCLE PEER (pending): components/Checkout.tsx ---',
+    );
+    expect(calls[0][2]).toContain('Expected to define: Checkout.');
+    expect(calls[1][2]).toContain(
+      "export const generated = 'components/Cart.tsx';",
+    );
+  });
+});
+
+describe('runGeneratePhase batch planning', () => {
+  it('binds extensionless imports exactly instead of to test files', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const toFile = (path: string): FileNode => ({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      status: 'pending',
+    });
+    const toMapping = (sourcePath: string, targetPath: string) => ({
+      sourcePath,
+      targetPath,
+      rationale: targetPath,
+      confidence: 0.9,
+    });
+    const addLog = vi.fn();
+
+    await runGeneratePhase({
+      generatedFiles: [
+        toFile('components/A.test.tsx'),
+        toFile('components/A.tsx'),
+        toFile('components/B.tsx'),
+      ],
+      analysis: {
+        ...analysis,
+        semanticFileMappings: [
+          toMapping('src/a.test.js', 'components/A.test.tsx'),
+          toMapping('src/a.js', 'components/A.tsx'),
+          toMapping('src/b.js', 'components/B.tsx'),
+        ],
+      },
+      sourceContext: '',
+      fileContents: {
+        'src/a.test.js': "import './b';",
+        'src/a.js': 'export const a = 1;',
+        'src/b.js': "import './a';",
+      },
+      filesToRead: ['src/a.test.js', 'src/a.js', 'src/b.js'].map(toFile),
+      // The test file comes first, so a prefix match on `src/a` would pick
+      // it and report a spurious cycle with B.
+      graph: {
+        'src/a.test.js': ['src/b'],
+        'src/a.js': [],
+        'src/b.js': ['src/a'],
+      },
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'vitest',
+      },
+      addLog,
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated: vi.fn(),
+      onFileError: vi.fn(),
+    });
+
+    expect(addLog).not.toHaveBeenCalledWith(
+      expect.stringContaining('dependency cycle'),
+      expect.anything(),
+      expect.anything(),
+    );
+    const calls = vi.mocked(generateNextJsFileStream).mock.calls;
+    expect(calls.map((call) => call[0])).toEqual([
+      'components/A.tsx',
+      'components/B.tsx',
+      'components/A.test.tsx',
+    ]);
+    expect(calls.some((call) => call[2].includes('CYCLE PEER'))).toBe(false);
+  });
+});
+
+describe('runGeneratePhase symbol-level context', () => {
+  it('includes only the referenced symbols of related files', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const toFile = (path: string): FileNode => ({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      status: 'pending',
+    });
+    const padding = '// '.padEnd(600, '-');
+    const addLog = vi.fn();
+
+    await runGeneratePhase({
+      generatedFiles: [toFile('components/Price.tsx')],
+      analysis: {
+        ...analysis,
+        semanticFileMappings: [
+          {
+            sourcePath: 'src/price.js',
+            targetPath: 'components/Price.tsx',
+            rationale: 'price',
+            confidence: 0.9,
+          },
+        ],
+      },
+      sourceContext: '',
+      fileContents: {
+        'src/price.js':
+          "import { formatPrice } from './utils';\nexport const render = (v) => formatPrice(v);",
+        'src/utils.js': [
+          'export function formatPrice(value) {',
+          '  return CURRENCY + value.toFixed(2);',
+          '}',
+          "const CURRENCY = '$';",
+          'export function parseDate(value) {',
+          `  ${padding}`,
+          '}',
+          'export function slugify(value) {',
+          `  ${padding}`,
+          '}',
+        ].join('\n'),
+      },
+      filesToRead: [toFile('src/price.js'), toFile('src/utils.js')],
+      graph: { 'src/price.js': ['src/utils'], 'src/utils.js': [] },
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'none',
+      },
+      addLog,
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated: vi.fn(),
+      onFileError: vi.fn(),
+    });
+
+    const relatedContext = vi.mocked(generateNextJsFileStream).mock.calls[0][2];
+    expect(relatedContext).toContain(
+      '--- PRIMARY SOURCE FILE: src/price.js ---',
+    );
+    expect(relatedContext).toContain(
+      '--- RELATED SOURCE SYMBOLS: src/utils.js ---',
+    );
+    expect(relatedContext).toContain('// lines 1-3: function formatPrice');
+    expect(relatedContext).toContain("const CURRENCY = '$';");
+    expect(relatedContext).not.toContain(padding);
+    expect(relatedContext).toContain(
+      '// Not referenced, omitted: parseDate, slugify',
+    );
+    expect(addLog).toHaveBeenCalledWith(
+      expect.stringContaining('Symbol-level context trimmed related files'),
+      'info',
+      expect.anything(),
+    );
+  });
+});
+
+describe('runGeneratePhase source retrieval', () => {
+  it('sends retrieved chunks instead of the whole source when over budget', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const toFile = (path: string): FileNode => ({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      status: 'pending',
+    });
+    const fileContents = {
+      'src/api.js':
+        'export function submitCheckout(cart) {\n  return pay(cart.total);\n}',
+      'src/blog.js': `export function renderBlogPost(post) {\n  // ${'-'.repeat(400)}\n}`,
+    };
+
+    await runGeneratePhase({
+      generatedFiles: [toFile('app/checkout/page.tsx')],
+      analysis,
+      sourceContext: Object.values(fileContents).join('\n'),
+      fileContents,
+      filesToRead: Object.keys(fileContents).map(toFile),
+      graph: { 'src/api.js': [], 'src/blog.js': [] },
+      decisionContext: 'APPROVED DECISIONS',
+      contextTokenBudget: 50,
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'none',
+      },
+      addLog: vi.fn(),
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated: vi.fn(),
+      onFileError: vi.fn(),
+    });
+
+    const sourceContext = vi.mocked(generateNextJsFileStream).mock.calls[0][1];
+    expect(sourceContext).toContain(
+      '--- SOURCE CHUNK: src/api.js (lines 1-3) ---',
+    );
+    expect(sourceContext).not.toContain('renderBlogPost');
+    expect(sourceContext).toContain('APPROVED DECISIONS');
+  });
+});
+
+describe('runGeneratePhase budget checks', () => {
+  const toFile = (path: string): FileNode => ({
+    name: path.split('/').pop() || path,
+    path,
+    type: 'file',
+    status: 'pending',
+  });
+  const runWithBudget = (
+    paths: string[],
+    checkBudget: Parameters<typeof runGeneratePhase>[0]['checkBudget'],
+  ) =>
+    runGeneratePhase({
+      generatedFiles: paths.map(toFile),
+      analysis,
+      sourceContext: 'console.log("legacy");',
+      fileContents: { 'src/index.js': 'console.log("legacy");' },
+      filesToRead: [toFile('src/index.js')],
+      graph: { 'src/index.js': [] },
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'vitest',
+      },
+      addLog: vi.fn(),
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated: vi.fn(),
+      onFileError: vi.fn(),
+      checkBudget,
+    });
+
+  it('skips the remaining low-priority files once asked to', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const checkBudget = vi.fn(async (check: BudgetCheck) =>
+      check.filePath === 'app/page.test.tsx'
+        ? ('skipLowPriority' as const)
+        : ('continue' as const),
+    );
+
+    const result = await runWithBudget(
+      ['app/page.test.tsx', 'app/page.tsx', 'docs/guide.md'],
+      checkBudget,
+    );
+
+    expect(
+      vi.mocked(generateNextJsFileStream).mock.calls.map((call) => call[0]),
+    ).toEqual(['app/page.tsx']);
+    expect(result).toEqual({
+      stopped: false,
+      skippedFiles: expect.arrayContaining([
+        'app/page.test.tsx',
+        'docs/guide.md',
+      ]),
+    });
+    expect(checkBudget).toHaveBeenCalledTimes(2);
+    expect(
+      checkBudget.mock.calls.find(
+        ([check]) => check.filePath === 'app/page.test.tsx',
+      )?.[0],
+    ).toMatchObject({ stage: 'generation', lowPriorityRemaining: 2 });
+  });
+
+  it('stops before the request that would pass the budget', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const checkBudget = vi
+      .fn<(check: BudgetCheck) => Promise<BudgetDecision>>()
+      .mockResolvedValueOnce('continue')
+      .mockResolvedValue('stop');
+
+    const result = await runWithBudget(
+      ['app/page.tsx', 'lib/db.ts'],
+      checkBudget,
+    );
+
+    expect(generateNextJsFileStream).toHaveBeenCalledTimes(1);
+    expect(result.stopped).toBe(true);
+    expect(checkBudget.mock.calls[0][0]).toMatchObject({
+      estimatedTokens: expect.any(Number),
+      priced: true,
+    });
+  });
+});
+
+describe('estimateMigrationCost stage routing', () => {
+  const input = {
+    sourceContext: 'x'.repeat(40_000),
+    generatedFilePaths: ['app/page.tsx', 'lib/db.ts'],
+  };
+
+  it('prices each stage with its routed model', () => {
+    const defaults = getDefaultLlmSettings('gemini');
+    const routed = {
+      ...defaults,
+      stages: {
+        ...defaults.stages,
+        generation: { ...defaults.stages.generation, model: 'gemini-3-pro' },
+      },
+    };
+
+    const base = estimateMigrationCost({ ...input, llm: defaults });
+    const estimate = estimateMigrationCost({ ...input, llm: routed });
+    const generation = estimate.stageBreakdown.find(
+      (stage) => stage.stage === 'File Generation',
+    );
+
+    expect(generation?.model).toBe('gemini-3-pro');
+    expect(estimate.totalTokens).toBe(base.totalTokens);
+    expect(estimate.estimatedCostUsd).toBeGreaterThan(base.estimatedCostUsd);
+  });
+
+  it('counts local models as free and notes unpriced ones', () => {
+    expect(
+      estimateMigrationCost({ ...input, llm: getDefaultLlmSettings('ollama') })
+        .estimatedCostUsd,
+    ).toBe(0);
+
+    const openai = getDefaultLlmSettings('openai');
+    const estimate = estimateMigrationCost({
+      ...input,
+      llm: {
+        ...openai,
+        stages: {
+          ...openai.stages,
+          verification: {
+            ...openai.stages.verification,
+            model: 'my-finetune',
+          },
+        },
+      },
+    });
+    expect(estimate.assumptions.join(' ')).toContain('my-finetune');
+  });
+});
+
+describe('regeneration impact', () => {
+  const toFile = (path: string, content?: string): FileNode => ({
+    name: path.split('/').pop() || path,
+    path,
+    type: 'file',
+    status: 'done',
+    content,
+  });
+  const generatedFiles = [
+    toFile('lib/api.ts', 'export const fetchCart = () => [];'),
+    toFile(
+      'components/Cart.tsx',
+      "import { fetchCart } from '@/lib/api';\nexport function Cart() {}",
+    ),
+    toFile(
+      'app/cart/page.tsx',
+      "import { Cart } from '../../components/Cart';",
+    ),
+    toFile('app/page.tsx', 'export default function Page() {}'),
+  ];
+  const impactAnalysis: RepoAnalysisResult = {
+    ...analysis,
+    semanticFileMappings: [
+      {
+        sourcePath: 'src/api.js',
+        targetPath: 'lib/api.ts',
+        rationale: 'api client',
+        confidence: 0.9,
+      },
+    ],
+  };
+
+  it('finds generated importers and the legacy files a target derives from', () => {
+    const impact = analyzeRegenerationImpact({
+      targetPath: 'lib/api.ts',
+      generatedFiles,
+      analysis: impactAnalysis,
+      sourceGraph: {
+        'src/api.js': [],
+        'src/cart.js': ['src/api'],
+        'src/app.js': ['src/cart'],
+      },
+      sourcePaths: ['src/api.js', 'src/cart.js', 'src/app.js'],
+    });
+
+    expect(impact).toEqual({
+      usedBy: ['components/Cart.tsx'],
+      dependents: ['components/Cart.tsx', 'app/cart/page.tsx'],
+      derivedFrom: ['src/api.js'],
+      legacyUsedBy: ['src/cart.js'],
+    });
+  });
+
+  it('regenerates dependents after the target with its new content', async () => {
+    vi.mocked(generateNextJsFileStream).mockClear();
+    const onFileGenerated = vi.fn();
+
+    await runRegenerateFilePhase({
+      targetPath: 'lib/api.ts',
+      generatedFiles,
+      analysis: impactAnalysis,
+      sourceContext: '',
+      config: {
+        uiFramework: 'tailwind',
+        stateManagement: 'context',
+        testingLibrary: 'none',
+      },
+      userInstructions: 'Return promises',
+      dependentPaths: ['components/Cart.tsx', 'missing/File.tsx'],
+      addLog: vi.fn(),
+      onFileStart: vi.fn(),
+      onFileChunk: vi.fn(),
+      onFileGenerated,
+      onFileError: vi.fn(),
+    });
+
+    const calls = vi.mocked(generateNextJsFileStream).mock.calls;
+    expect(calls.map((call) => call[0])).toEqual([
+      'lib/api.ts',
+      'components/Cart.tsx',
+    ]);
+    expect(calls[0][2]).toContain('Return promises');
+    expect(calls[1][2]).not.toContain('Return promises');
+    expect(calls[1][2]).toContain(
+      "--- REGENERATED DEPENDENCY: lib/api.ts ---\nexport const generated = 'lib/api.ts';",
+    );
+    expect(onFileGenerated).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,16 +1,21 @@
 import {
   AgentStatus,
   FileNode,
-  GitHubRateLimitInfo,
   LogEntry,
   MigrationCostEstimate,
   MigrationConfig,
   MigrationPlaybook,
   MigrationReport,
+  MigrationUsage,
+  PackageInventoryEntry,
   RepoAnalysisResult,
+  RepoIngestionMode,
+  RepoRevision,
   RepoScopeInfo,
+  ScopePatterns,
+  SkippedSourceFile,
 } from '../types';
-import { fetchFileContent, fetchRepoStructure } from './githubService';
+import type { SourceProvider, SourceReadOptions } from './sourceProvider';
 import {
   analyzeRepository,
   generateMigrationPlaybook,
@@ -19,26 +24,94 @@ import {
   generateProjectStructure,
   verifyRepositoryFiles,
 } from './geminiService';
+import {
+  DEFAULT_LLM_SETTINGS,
+  getTokenCostUsd,
+  LLM_PROVIDERS,
+  LlmSettings,
+  LlmStage,
+  LlmUsage,
+  resolveStageRouting,
+} from './llmProviders';
 import {
   analyzeImports,
   buildDependencyGraph,
+  createDependencyResolver,
   DependencyGraph,
+  findDependencyCycles,
+  findStronglyConnectedComponents,
+  getDependents,
   getRelatedFiles,
+  getTransitiveDependents,
 } from './dependencyGraph';
 import { abortIfSignaled, isAbortError } from './abortUtils';
+import {
+  createImportResolver,
+  ImportResolver,
+  isImportResolverConfig,
+  parseImportResolverConfig,
+  PathAlias,
+} from './importResolver';
+import { createModuleIndex } from './languageImports';
+import {
+  buildPackageInventory,
+  formatPackageInventory,
+  isPackageManifest,
+} from './packageManifests';
+import {
+  classifyFileByPath,
+  classifyFileContent,
+  DEFAULT_MAX_SOURCE_FILE_KB,
+  toMaxFileBytes,
+} from './fileClassifier';
+import {
+  compileScopeRules,
+  createScopeFilter,
+  parseGitAttributes,
+  parseGitIgnore,
+  ScopeRule,
+} from './scopePatterns';
+import {
+  analyzeReachability,
+  isReachabilityCandidate,
+  isReachabilityInput,
+  ReachabilityResult,
+} from './reachability';
+import {
+  buildSymbolIndex,
+  countIndexedSymbols,
+  getSymbolSource,
+  selectRelatedSymbols,
+  SymbolIndex,
+} from './symbolIndex';
+import {
+  buildRetrievalIndex,
+  chunkSourceFiles,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  formatRetrievedChunks,
+  RetrievalIndex,
+  retrieveChunks,
+} from './contextRetrieval';
 
 const MAX_ANALYSIS_PATHS = 500;
 const MAX_CONTEXT_FILES = 50;
+const MAX_ARCHIVE_CONTEXT_FILES = 300;
 const MAX_RELATED_CONTEXT_FILES = 8;
+const MAX_REPO_IGNORE_FILES = 20;
+const MAX_CYCLE_PEER_CHARS = 4_000;
+const MAX_CYCLE_PEER_SYMBOLS = 20;
+const MAX_IMPORT_RESOLVER_CONFIG_FILES = 40;
+const MAX_PACKAGE_MANIFEST_FILES = 20;
+const MAX_REACHABILITY_FILES = 100;
+const MAX_ARCHIVE_REACHABILITY_FILES = 500;
 const REPO_VERIFICATION_PASSES = 2;
 const TOKENS_PER_CHAR = 1 / 4;
-const PRICING_PER_MILLION = {
-  proInputUsd: 3.5,
-  proOutputUsd: 10.5,
-  flashInputUsd: 0.35,
-  flashOutputUsd: 1.05,
-};
-
+const PROMPT_OVERHEAD_TOKENS = 950;
+const VERIFICATION_OUTPUT_TOKENS = 480;
+// Tests, stories and docs are the first files dropped when a run hits its
+// budget.
+const LOW_PRIORITY_TARGET_PATTERN =
+  /\.(test|spec|stories)\.[jt]sx?$|(^|\/)__tests__\/|\.mdx?$/i;
 type AddLogFn = (
   message: string,
   type?: LogEntry['type'],
@@ -52,12 +125,18 @@ interface SemanticTargetMatch {
 }
 
 export interface AnalyzePhaseInput {
-  url: string;
+  source: SourceProvider;
+  ref?: string; // Branch, tag or SHA; the default branch when omitted
+  rootPath?: string; // Monorepo subdirectory analyzed as the project root
+  ingestionMode?: RepoIngestionMode;
   includeDirectories: string[];
   excludeDirectories: string[];
+  scopePatterns?: ScopePatterns;
+  maxFileSizeKb?: number; // Larger files are skipped as oversized
   addLog: AddLogFn;
   ensureDiagramApiKey: () => Promise<boolean>;
-  onGitHubRateLimitUpdate?: (info: GitHubRateLimitInfo) => void;
+  llm?: LlmSettings; // Model provider; Gemini defaults when omitted
+  onUsage?: (usage: LlmUsage) => void; // Token counts of each model request
   abortSignal?: AbortSignal;
 }
 
@@ -66,15 +145,23 @@ export interface AnalyzePhaseResult {
   analysis: RepoAnalysisResult;
   diagram: string | null;
   repoScope: RepoScopeInfo;
+  revision: RepoRevision | null; // null for uploaded local sources
+  sourceContents: Record<string, string>; // Files read while analyzing, by path
 }
 
 export interface ScaffoldPhaseInput {
-  url: string;
+  source: SourceProvider;
+  commitSha?: string; // Pins file reads to the commit resolved during analysis
+  rootPath?: string;
+  ingestionMode?: RepoIngestionMode;
+  maxFileSizeKb?: number;
   sourceFiles: FileNode[];
+  sourceContents?: Record<string, string>; // Read during analysis at commitSha
   analysis: RepoAnalysisResult;
   config: MigrationConfig;
   addLog: AddLogFn;
-  onGitHubRateLimitUpdate?: (info: GitHubRateLimitInfo) => void;
+  llm?: LlmSettings;
+  onUsage?: (usage: LlmUsage) => void;
   abortSignal?: AbortSignal;
 }
 
@@ -82,7 +169,10 @@ export interface ScaffoldPhaseResult {
   sourceContext: string;
   fileContents: Record<string, string>;
   filesToRead: FileNode[];
+  skippedFiles?: SkippedSourceFile[]; // Classified while reading context
+  dependencyCycles?: string[][]; // Source import cycles, sorted by path
   graph: DependencyGraph;
+  symbolIndex?: SymbolIndex;
   generatedFilePaths: string[];
   generatedFiles: FileNode[];
 }
@@ -91,8 +181,11 @@ export interface PlanReviewPhaseInput {
   analysis: RepoAnalysisResult;
   generatedFilePaths: string[];
   sourceContext: string;
+  contextTokenBudget?: number;
   config: MigrationConfig;
   addLog: AddLogFn;
+  llm?: LlmSettings;
+  onUsage?: (usage: LlmUsage) => void;
   abortSignal?: AbortSignal;
 }
 
@@ -101,6 +194,21 @@ export interface PlanReviewPhaseResult {
   costEstimate: MigrationCostEstimate;
 }
 
+export type BudgetDecision = 'continue' | 'skipLowPriority' | 'stop';
+
+export interface BudgetCheck {
+  stage: LlmStage;
+  filePath?: string; // Generated file the next request is for
+  estimatedTokens: number; // Next request, prompt plus output
+  estimatedCostUsd: number; // 0 when the model is unpriced
+  priced: boolean; // False when the routed model has no known price
+  lowPriorityRemaining: number; // Files a skip decision would drop
+}
+
+// Called before each request. Resolves straight away while the run is within
+// budget, otherwise once the user has decided how to go on.
+export type CheckBudgetFn = (check: BudgetCheck) => Promise<BudgetDecision>;
+
 export interface GeneratePhaseInput {
   generatedFiles: FileNode[];
   analysis: RepoAnalysisResult;
@@ -108,15 +216,27 @@ export interface GeneratePhaseInput {
   fileContents: Record<string, string>;
   filesToRead: FileNode[];
   graph: DependencyGraph;
+  symbolIndex?: SymbolIndex; // Rebuilt from fileContents when missing
+  decisionContext?: string; // Approved playbook, added to every prompt
+  playbookNotes?: string; // Also used as retrieval query terms
+  contextTokenBudget?: number; // Per-file source context, in tokens
   config: MigrationConfig;
   addLog: AddLogFn;
   onFileStart: (path: string) => void;
   onFileChunk: (path: string, content: string) => void;
   onFileGenerated: (path: string, content: string) => void;
   onFileError: (path: string) => void;
+  llm?: LlmSettings;
+  onUsage?: (usage: LlmUsage) => void;
+  checkBudget?: CheckBudgetFn;
   abortSignal?: AbortSignal;
 }
 
+export interface GeneratePhaseResult {
+  stopped: boolean; // Stopped at the budget cap with partial output
+  skippedFiles: string[]; // Low-priority files skipped to save budget
+}
+
 export interface RegenerateFilePhaseInput {
   targetPath: string;
   generatedFiles: FileNode[];
@@ -125,21 +245,46 @@ export interface RegenerateFilePhaseInput {
   fileContents?: Record<string, string>;
   filesToRead?: FileNode[];
   graph?: DependencyGraph;
+  symbolIndex?: SymbolIndex;
+  decisionContext?: string;
+  playbookNotes?: string;
+  contextTokenBudget?: number;
   config: MigrationConfig;
   userInstructions?: string;
+  dependentPaths?: string[]; // Regenerated after the target, in this order
   addLog: AddLogFn;
   onFileStart: (path: string) => void;
   onFileChunk: (path: string, content: string) => void;
   onFileGenerated: (path: string, content: string) => void;
   onFileError: (path: string) => void;
+  llm?: LlmSettings;
+  onUsage?: (usage: LlmUsage) => void;
   abortSignal?: AbortSignal;
 }
 
+export interface RegenerationImpactInput {
+  targetPath: string;
+  generatedFiles: FileNode[];
+  analysis: RepoAnalysisResult;
+  sourceGraph: DependencyGraph;
+  sourcePaths: string[];
+}
+
+export interface RegenerationImpact {
+  usedBy: string[]; // Generated files importing the target directly
+  dependents: string[]; // Every generated file reaching it, nearest first
+  derivedFrom: string[]; // Legacy files the target is migrated from
+  legacyUsedBy: string[]; // Legacy files importing those sources
+}
+
 export interface VerifyPhaseInput {
   generatedFiles: FileNode[];
   analysis: RepoAnalysisResult;
   addLog: AddLogFn;
   onFileFixed: (path: string, content: string) => void;
+  llm?: LlmSettings;
+  onUsage?: (usage: LlmUsage) => void;
+  checkBudget?: CheckBudgetFn;
   abortSignal?: AbortSignal;
 }
 
@@ -147,6 +292,7 @@ export interface VerifyPhaseResult {
   passed: boolean;
   issues: string[];
   fixedFilesApplied: number;
+  stopped?: boolean; // Remaining passes were skipped at the budget cap
 }
 
 export const flattenFiles = (nodes: FileNode[]): FileNode[] => {
@@ -160,43 +306,157 @@ export const flattenFiles = (nodes: FileNode[]): FileNode[] => {
   return result;
 };
 
-const normalizeDirectoryList = (directories: string[]): string[] => {
-  return Array.from(
-    new Set(
-      directories
-        .map((directory) => directory.trim().replace(/^\/+|\/+$/g, ''))
-        .filter(Boolean),
-    ),
-  ).sort();
-};
+const getParentDirectory = (path: string): string =>
+  path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
 
-const pathInDirectory = (path: string, directory: string): boolean => {
-  return path === directory || path.startsWith(`${directory}/`);
+/**
+ * Reads the repository's own .gitignore and .gitattributes files (shallowest
+ * first) into scope rules, each relative to the directory it lives in.
+ */
+const loadRepoScopeRules = async (
+  source: SourceProvider,
+  filePaths: string[],
+  readOptions: SourceReadOptions,
+): Promise<{ rules: ScopeRule[]; fileCount: number }> => {
+  const ignoreFiles = filePaths
+    .filter((path) => /(^|\/)\.git(ignore|attributes)$/.test(path))
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .slice(0, MAX_REPO_IGNORE_FILES);
+
+  const rules: ScopeRule[] = [];
+  let fileCount = 0;
+  for (const path of ignoreFiles) {
+    let content: string;
+    try {
+      content = await source.readFile(path, readOptions);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      continue;
+    }
+
+    const patterns = path.endsWith('.gitignore')
+      ? parseGitIgnore(content)
+      : parseGitAttributes(content);
+    rules.push(...compileScopeRules(patterns, getParentDirectory(path)));
+    fileCount++;
+  }
+
+  return { rules, fileCount };
 };
 
-const applyDirectoryScope = (
+const loadImportResolver = async (
+  source: SourceProvider,
   filePaths: string[],
-  includeDirectories: string[],
-  excludeDirectories: string[],
-): string[] => {
-  const includes = normalizeDirectoryList(includeDirectories);
-  const excludes = normalizeDirectoryList(excludeDirectories);
+  readOptions: SourceReadOptions,
+): Promise<{ resolveImport: ImportResolver; aliasCount: number }> => {
+  const configFiles = filePaths
+    .filter(isImportResolverConfig)
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .slice(0, MAX_IMPORT_RESOLVER_CONFIG_FILES);
+
+  const aliases: PathAlias[] = [];
+  for (const path of configFiles) {
+    try {
+      const content = await source.readFile(path, readOptions);
+      aliases.push(...parseImportResolverConfig(content, path));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+    }
+  }
 
-  let scopedPaths = [...filePaths];
+  return {
+    resolveImport: createImportResolver(aliases, filePaths),
+    aliasCount: aliases.length,
+  };
+};
 
-  if (includes.length > 0) {
-    scopedPaths = scopedPaths.filter((path) =>
-      includes.some((directory) => pathInDirectory(path, directory)),
-    );
+/** Reads package manifests, root-most first, into one inventory. */
+const loadPackageInventory = async (
+  source: SourceProvider,
+  filePaths: string[],
+  readOptions: SourceReadOptions,
+): Promise<{ inventory: PackageInventoryEntry[]; manifestCount: number }> => {
+  const manifestPaths = filePaths
+    .filter(isPackageManifest)
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .slice(0, MAX_PACKAGE_MANIFEST_FILES);
+
+  const manifests: Array<{ path: string; content: string }> = [];
+  for (const path of manifestPaths) {
+    try {
+      manifests.push({
+        path,
+        content: await source.readFile(path, readOptions),
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+    }
   }
 
-  if (excludes.length > 0) {
-    scopedPaths = scopedPaths.filter(
-      (path) => !excludes.some((directory) => pathInDirectory(path, directory)),
-    );
+  return {
+    inventory: buildPackageInventory(manifests),
+    manifestCount: manifests.length,
+  };
+};
+
+/**
+ * Reads code, markup and package manifests to find code files no entry point
+ * reaches. Returns null when the files to read exceed the budget or any read
+ * fails, since a partial graph would report used files as unreachable. Every
+ * file read is also added to `readContents`, so scaffolding can reuse it
+ * instead of requesting it again.
+ */
+const loadReachability = async (
+  source: SourceProvider,
+  filePaths: string[],
+  readOptions: SourceReadOptions,
+  maxFileBytes: number,
+  readContents: Record<string, string>,
+): Promise<ReachabilityResult | null> => {
+  const readPaths = filePaths.filter(isReachabilityInput);
+
+  const contents: Record<string, string> = {};
+  for (const path of readPaths) {
+    abortIfSignaled(readOptions.signal);
+    try {
+      const content = await source.readFile(path, readOptions);
+      readContents[path] = content;
+      if (!classifyFileContent(path, content, maxFileBytes)) {
+        contents[path] = content;
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return null;
+    }
   }
 
-  return scopedPaths;
+  const { resolveImport } = await loadImportResolver(
+    source,
+    filePaths,
+    readOptions,
+  );
+  const graph = buildDependencyGraph(
+    Object.keys(contents)
+      .filter(isReachabilityCandidate)
+      .map((path) => ({
+        path,
+        name: path.split('/').pop() || path,
+        type: 'file' as const,
+        content: contents[path],
+        status: 'pending' as const,
+      })),
+    { resolveImport, moduleIndex: createModuleIndex(filePaths) },
+  );
+
+  return analyzeReachability(graph, filePaths, contents);
 };
 
 const extractAvailableDirectories = (filePaths: string[]): string[] => {
@@ -493,15 +753,15 @@ const getGenerationPriority = (path: string): number => {
   return 5;
 };
 
-const orderTargetFilesByDependencyPlan = (
+const planTargetGenerationBatches = (
   files: FileNode[],
   semanticMatches: Map<string, SemanticTargetMatch>,
   sourceGraph: DependencyGraph,
-): FileNode[] => {
+): { batches: FileNode[][]; cycles: string[][] } => {
   const fileMap = new Map(files.map((file) => [file.path, file]));
   const dependencyMap = new Map<string, Set<string>>();
-  const reverseDependencyMap = new Map<string, Set<string>>();
   const sourceToTargets = new Map<string, Set<string>>();
+  const resolveSourceDependencies = createDependencyResolver(sourceGraph);
 
   for (const [targetPath, match] of semanticMatches.entries()) {
     for (const sourcePath of match.sourcePaths) {
@@ -513,21 +773,14 @@ const orderTargetFilesByDependencyPlan = (
 
   for (const file of files) {
     dependencyMap.set(file.path, new Set());
-    reverseDependencyMap.set(file.path, new Set());
   }
 
   for (const [targetPath, match] of semanticMatches.entries()) {
     const sourceDeps = new Set<string>();
 
     for (const sourcePath of match.sourcePaths) {
-      const directDeps = sourceGraph[sourcePath] || [];
-      for (const dep of directDeps) {
-        const resolved = Object.keys(sourceGraph).find(
-          (candidate) => candidate === dep || candidate.startsWith(dep + '.'),
-        );
-        if (resolved) {
-          sourceDeps.add(resolved);
-        }
+      for (const resolved of resolveSourceDependencies(sourcePath)) {
+        sourceDeps.add(resolved);
       }
 
       for (const transitiveDep of getRelatedFiles(sourcePath, sourceGraph, 6)) {
@@ -547,16 +800,10 @@ const orderTargetFilesByDependencyPlan = (
         }
 
         dependencyMap.get(targetPath)?.add(dependencyTargetPath);
-        reverseDependencyMap.get(dependencyTargetPath)?.add(targetPath);
       }
     }
   }
 
-  const indegree = new Map<string, number>();
-  for (const file of files) {
-    indegree.set(file.path, dependencyMap.get(file.path)?.size || 0);
-  }
-
   const comparePaths = (a: string, b: string): number => {
     const priorityDelta = getGenerationPriority(a) - getGenerationPriority(b);
     if (priorityDelta !== 0) {
@@ -565,53 +812,145 @@ const orderTargetFilesByDependencyPlan = (
     return a.localeCompare(b);
   };
 
-  const queue = files
-    .filter((file) => (indegree.get(file.path) || 0) === 0)
-    .map((file) => file.path)
-    .sort(comparePaths);
+  // Files in an import cycle cannot be ordered among themselves, so each
+  // strongly connected component becomes one batch and batches are ordered
+  // topologically.
+  const components = findStronglyConnectedComponents(
+    files.map((file) => file.path),
+    (path) => dependencyMap.get(path) || [],
+  ).map((component) => [...component].sort(comparePaths));
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) =>
+    component.forEach((path) => componentOf.set(path, index)),
+  );
 
-  const orderedPaths: string[] = [];
+  const indegree = components.map(() => 0);
+  const dependents = components.map(() => new Set<number>());
+  components.forEach((component, index) => {
+    const dependencyComponents = new Set<number>();
+    component.forEach((path) =>
+      dependencyMap.get(path)?.forEach((dependencyPath) => {
+        const dependencyComponent = componentOf.get(dependencyPath);
+        if (
+          dependencyComponent !== undefined &&
+          dependencyComponent !== index
+        ) {
+          dependencyComponents.add(dependencyComponent);
+        }
+      }),
+    );
+    indegree[index] = dependencyComponents.size;
+    dependencyComponents.forEach((dependencyComponent) =>
+      dependents[dependencyComponent].add(index),
+    );
+  });
 
-  while (queue.length > 0) {
-    queue.sort(comparePaths);
-    const currentPath = queue.shift();
-    if (!currentPath) {
-      continue;
-    }
+  const compareComponents = (a: number, b: number): number =>
+    comparePaths(components[a][0], components[b][0]);
+  const queue = components
+    .map((_, index) => index)
+    .filter((index) => indegree[index] === 0);
+  const batches: FileNode[][] = [];
 
-    orderedPaths.push(currentPath);
+  while (queue.length > 0) {
+    queue.sort(compareComponents);
+    const current = queue.shift()!;
+    batches.push(
+      components[current]
+        .map((path) => fileMap.get(path))
+        .filter((file): file is FileNode => Boolean(file)),
+    );
 
-    const dependents =
-      reverseDependencyMap.get(currentPath) || new Set<string>();
-    for (const dependentPath of dependents) {
-      const currentIndegree = indegree.get(dependentPath) || 0;
-      const nextIndegree = currentIndegree - 1;
-      indegree.set(dependentPath, nextIndegree);
-      if (nextIndegree === 0) {
-        queue.push(dependentPath);
+    dependents[current].forEach((dependent) => {
+      indegree[dependent] -= 1;
+      if (indegree[dependent] === 0) {
+        queue.push(dependent);
       }
-    }
+    });
   }
 
-  const remainingPaths = files
-    .map((file) => file.path)
-    .filter((path) => !orderedPaths.includes(path))
-    .sort(comparePaths);
+  return {
+    batches,
+    cycles: components.filter((component) => component.length > 1),
+  };
+};
 
-  for (const path of remainingPaths) {
-    orderedPaths.push(path);
+const extractExportedSymbols = (content: string): string[] => {
+  const symbols = new Set<string>();
+  const patterns = [
+    /\bexport\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([\w$]+)/g,
+    /^\s*(?:abstract\s+|final\s+)?(?:public\s+)?(?:class|interface|trait|def|func|function)\s+([\w$]+)/gm,
+  ];
+  patterns.forEach((pattern) => {
+    for (const match of content.matchAll(pattern)) {
+      symbols.add(match[1]);
+    }
+  });
+  return Array.from(symbols).slice(0, MAX_CYCLE_PEER_SYMBOLS);
+};
+
+/**
+ * Context shared between members of a dependency cycle: generated peers are
+ * included verbatim, pending peers as a stub of the symbols their source
+ * files define.
+ */
+const buildCyclePeerContext = (
+  targetPath: string,
+  batchPaths: string[],
+  generatedContents: Map<string, string>,
+  semanticMatches: Map<string, SemanticTargetMatch>,
+  fileContents: Record<string, string>,
+): string => {
+  const peers = batchPaths.filter((path) => path !== targetPath);
+  if (peers.length === 0) {
+    return '';
   }
 
-  return orderedPaths
-    .map((path) => fileMap.get(path))
-    .filter((file): file is FileNode => Boolean(file));
+  const sections = [
+    `--- DEPENDENCY CYCLE ---\n${targetPath} is generated together with ${peers.join(', ')} because they import each other. Keep their shared exports, props and types consistent.`,
+  ];
+
+  peers.forEach((peerPath) => {
+    const generated = generatedContents.get(peerPath);
+    if (generated) {
+      sections.push(
+        `--- CYCLE PEER (generated): ${peerPath} ---\n${generated.slice(0, MAX_CYCLE_PEER_CHARS)}`,
+      );
+      return;
+    }
+
+    const sourcePaths = semanticMatches.get(peerPath)?.sourcePaths || [];
+    const symbols = Array.from(
+      new Set(
+        sourcePaths.flatMap((sourcePath) =>
+          extractExportedSymbols(fileContents[sourcePath] || ''),
+        ),
+      ),
+    );
+    sections.push(
+      `--- CYCLE PEER (pending): ${peerPath} ---\nNot generated yet.${sourcePaths.length > 0 ? ` Migrated from ${sourcePaths.join(', ')}.` : ''}${symbols.length > 0 ? ` Expected to define: ${symbols.join(', ')}.` : ''}`,
+    );
+  });
+
+  return sections.join('\n\n');
 };
 
+interface RelatedContextStats {
+  fullChars: number; // Related files, whole
+  includedChars: number; // What the prompt actually got
+}
+
+/**
+ * Mapped source files are included whole; files they depend on only as the
+ * symbols the mapped sources (transitively) reference.
+ */
 const buildRelatedContext = (
   targetPath: string,
   semanticMatch: SemanticTargetMatch | undefined,
   sourceGraph: DependencyGraph,
   fileContents: Record<string, string>,
+  symbolIndex: SymbolIndex,
+  stats?: RelatedContextStats,
 ): string => {
   if (!semanticMatch) {
     return '';
@@ -647,16 +986,109 @@ const buildRelatedContext = (
     }
   }
 
-  return orderedRelatedPaths
-    .slice(0, MAX_RELATED_CONTEXT_FILES)
+  const contextPaths = orderedRelatedPaths.slice(0, MAX_RELATED_CONTEXT_FILES);
+  const mappedPaths = new Set([
+    semanticMatch.primarySourcePath,
+    ...semanticMatch.sourcePaths,
+  ]);
+  const selections = new Map(
+    selectRelatedSymbols(
+      contextPaths
+        .filter((path) => mappedPaths.has(path))
+        .map((path) => fileContents[path]),
+      contextPaths.filter((path) => !mappedPaths.has(path)),
+      symbolIndex,
+      fileContents,
+    ).map((selection) => [selection.path, selection]),
+  );
+
+  return contextPaths
     .map((depPath) => {
-      const label =
-        depPath === semanticMatch.primarySourcePath ? 'PRIMARY' : 'RELATED';
-      return `\n\n--- ${label} SOURCE FILE: ${depPath} ---\n${fileContents[depPath] || ''}`;
+      const content = fileContents[depPath] || '';
+      const selection = selections.get(depPath);
+      let section: string;
+      if (!selection || selection.wholeFile) {
+        const label =
+          depPath === semanticMatch.primarySourcePath ? 'PRIMARY' : 'RELATED';
+        section = `\n\n--- ${label} SOURCE FILE: ${depPath} ---\n${content}`;
+      } else {
+        const symbols = selection.symbols.map(
+          (symbol) =>
+            `// lines ${symbol.startLine}-${symbol.endLine}: ${symbol.kind} ${symbol.name}\n${getSymbolSource(content, symbol)}`,
+        );
+        const omitted =
+          selection.omittedSymbols.length > 0
+            ? `\n// Not referenced, omitted: ${selection.omittedSymbols.join(', ')}`
+            : '';
+        section = `\n\n--- RELATED SOURCE SYMBOLS: ${depPath} ---\n${symbols.join('\n\n')}${omitted}`;
+      }
+
+      if (stats && !mappedPaths.has(depPath)) {
+        stats.fullChars += content.length;
+        stats.includedChars += section.length;
+      }
+      return section;
     })
     .join('\n');
 };
 
+interface FileSourceContextInput {
+  targetPath: string;
+  sourceContext: string;
+  retrievalIndex: RetrievalIndex | null; // Null when the whole source fits
+  tokenBudget: number;
+  analysis: RepoAnalysisResult;
+  semanticMatch: SemanticTargetMatch | undefined;
+  playbookNotes?: string;
+  decisionContext?: string;
+}
+
+/**
+ * Source context for one target file: the chunks most relevant to its path,
+ * mapping rationale and the playbook notes, within the token budget. Mapped
+ * source files are left out because the related context has them whole.
+ */
+const buildFileSourceContext = ({
+  targetPath,
+  sourceContext,
+  retrievalIndex,
+  tokenBudget,
+  analysis,
+  semanticMatch,
+  playbookNotes,
+  decisionContext,
+}: FileSourceContextInput): string => {
+  let context = sourceContext;
+  if (retrievalIndex) {
+    const rationales = analysis.semanticFileMappings
+      .filter((mapping) => mapping.targetPath === targetPath)
+      .map((mapping) => mapping.rationale);
+    const mappedPaths = semanticMatch?.sourcePaths || [];
+    const query = [
+      targetPath,
+      ...rationales,
+      ...mappedPaths,
+      playbookNotes || '',
+    ].join('\n');
+    context = formatRetrievedChunks(
+      retrieveChunks(retrievalIndex, query, tokenBudget, new Set(mappedPaths)),
+    );
+  }
+  return decisionContext ? `${context}\n\n${decisionContext}` : context;
+};
+
+/** A chunk index, or null when the aggregated source fits the budget. */
+const createRetrievalIndex = (
+  sourceContext: string,
+  fileContents: Record<string, string>,
+  symbolIndex: SymbolIndex,
+  tokenBudget: number,
+): RetrievalIndex | null =>
+  tokensFromChars(sourceContext.length) > tokenBudget &&
+  Object.keys(fileContents).length > 0
+    ? buildRetrievalIndex(chunkSourceFiles(fileContents, symbolIndex))
+    : null;
+
 const hasGeneratedPathForImport = (
   depPath: string,
   generatedPaths: Set<string>,
@@ -741,116 +1173,96 @@ const estimateOutputTokensForPath = (path: string): number => {
 
 const estimateInputTokensForPath = (
   sourceContextTokens: number,
+  contextTokenBudget: number,
   path: string,
 ): number => {
-  const contextSlice = Math.min(
-    24_000,
-    Math.max(1_500, Math.round(sourceContextTokens * 0.28)),
-  );
-  const promptOverhead = 950;
+  // Context over the budget is retrieved chunk by chunk, up to the budget.
+  const contextSlice = Math.min(sourceContextTokens, contextTokenBudget);
   const relatedContext = /(\.tsx|\.ts|\.jsx|\.js)$/i.test(path) ? 640 : 320;
-  return contextSlice + promptOverhead + relatedContext;
-};
-
-const estimateUsd = (
-  inputTokens: number,
-  outputTokens: number,
-  model: 'pro' | 'flash',
-): number => {
-  const inputRate =
-    model === 'pro'
-      ? PRICING_PER_MILLION.proInputUsd
-      : PRICING_PER_MILLION.flashInputUsd;
-  const outputRate =
-    model === 'pro'
-      ? PRICING_PER_MILLION.proOutputUsd
-      : PRICING_PER_MILLION.flashOutputUsd;
-
-  return (
-    (inputTokens / 1_000_000) * inputRate +
-    (outputTokens / 1_000_000) * outputRate
-  );
+  return contextSlice + PROMPT_OVERHEAD_TOKENS + relatedContext;
 };
 
 export const estimateMigrationCost = ({
   sourceContext,
   generatedFilePaths,
+  contextTokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
+  llm = DEFAULT_LLM_SETTINGS,
 }: {
   sourceContext: string;
   generatedFilePaths: string[];
+  contextTokenBudget?: number;
+  llm?: LlmSettings; // Stage routing decides the priced models
 }): MigrationCostEstimate => {
   const fileCount = Math.max(generatedFilePaths.length, 1);
   const sourceContextTokens = tokensFromChars(sourceContext.length);
+  const unpricedModels = new Set<string>();
+
+  const estimateStage = (
+    label: string,
+    stage: LlmStage,
+    inputTokens: number,
+    outputTokens: number,
+  ) => {
+    const { model } = resolveStageRouting(llm, stage);
+    const costUsd = getTokenCostUsd(
+      llm.provider,
+      model,
+      inputTokens,
+      outputTokens,
+    );
+    if (costUsd === null) {
+      unpricedModels.add(model);
+    }
+    return {
+      stage: label,
+      llmStage: stage,
+      model,
+      inputTokens,
+      outputTokens,
+      estimatedCostUsd: Number((costUsd ?? 0).toFixed(4)),
+    };
+  };
 
-  const scaffoldInputTokens = 2_400 + fileCount * 18;
-  const scaffoldOutputTokens = 260 + fileCount * 24;
-
-  const playbookInputTokens = 2_000 + fileCount * 30;
-  const playbookOutputTokens = 1_100;
-
-  const generationInputTokens = generatedFilePaths.reduce(
-    (sum, path) => sum + estimateInputTokensForPath(sourceContextTokens, path),
-    0,
-  );
   const generationOutputTokens = generatedFilePaths.reduce(
     (sum, path) => sum + estimateOutputTokensForPath(path),
     0,
   );
 
-  const verificationInputTokens =
-    Math.round(generationOutputTokens * 1.45) * REPO_VERIFICATION_PASSES +
-    fileCount * 120;
-  const verificationOutputTokens = 480 * REPO_VERIFICATION_PASSES;
-
   const stageBreakdown = [
-    {
-      stage: 'Scaffold Design',
-      model: 'gemini-3-pro-preview',
-      inputTokens: scaffoldInputTokens,
-      outputTokens: scaffoldOutputTokens,
-      estimatedCostUsd: Number(
-        estimateUsd(scaffoldInputTokens, scaffoldOutputTokens, 'pro').toFixed(
-          4,
-        ),
-      ),
-    },
-    {
-      stage: 'Playbook Planning',
-      model: 'gemini-3-pro-preview',
-      inputTokens: playbookInputTokens,
-      outputTokens: playbookOutputTokens,
-      estimatedCostUsd: Number(
-        estimateUsd(playbookInputTokens, playbookOutputTokens, 'pro').toFixed(
-          4,
-        ),
-      ),
-    },
-    {
-      stage: 'File Generation',
-      model: 'gemini-3-flash-preview',
-      inputTokens: generationInputTokens,
-      outputTokens: generationOutputTokens,
-      estimatedCostUsd: Number(
-        estimateUsd(
-          generationInputTokens,
-          generationOutputTokens,
-          'flash',
-        ).toFixed(4),
-      ),
-    },
-    {
-      stage: 'Cross-file Verification',
-      model: 'gemini-3-pro-preview',
-      inputTokens: verificationInputTokens,
-      outputTokens: verificationOutputTokens,
-      estimatedCostUsd: Number(
-        estimateUsd(
-          verificationInputTokens,
-          verificationOutputTokens,
-          'pro',
-        ).toFixed(4),
+    estimateStage(
+      'Scaffold Design',
+      'scaffold',
+      2_400 + fileCount * 18,
+      260 + fileCount * 24,
+    ),
+    estimateStage(
+      'Playbook Planning',
+      'playbook',
+      2_000 + fileCount * 30,
+      1_100,
+    ),
+    estimateStage(
+      'File Generation',
+      'generation',
+      generatedFilePaths.reduce(
+        (sum, path) =>
+          sum +
+          estimateInputTokensForPath(
+            sourceContextTokens,
+            contextTokenBudget,
+            path,
+          ),
+        0,
       ),
-    },
+      generationOutputTokens,
+    ),
+    estimateStage(
+      'Cross-file Verification',
+      'verification',
+      Math.round(generationOutputTokens * 1.45) * REPO_VERIFICATION_PASSES +
+        fileCount * 120,
+      VERIFICATION_OUTPUT_TOKENS * REPO_VERIFICATION_PASSES,
+    ),
   ];
 
   const inputTokens = stageBreakdown.reduce(
@@ -875,45 +1287,157 @@ export const estimateMigrationCost = ({
     assumptions: [
       'Token usage uses a character-based heuristic and typical file-size priors.',
       `Generation assumes ${REPO_VERIFICATION_PASSES} verification pass(es) after file creation.`,
-      'Pricing uses configurable per-million-token estimates and may differ from actual billing.',
+      'Pricing uses per-million-token estimates for the routed models and may differ from actual billing.',
+      ...(unpricedModels.size > 0
+        ? [
+            `No pricing is known for ${Array.from(unpricedModels).join(', ')}; those stages are counted as free.`,
+          ]
+        : []),
     ],
     stageBreakdown,
   };
 };
 
+interface ArchiveIngestionInput {
+  source: SourceProvider;
+  commitSha: string;
+  addLog: AddLogFn;
+  step: AgentStatus;
+  abortSignal?: AbortSignal;
+}
+
+// Loads the commit's archive so later file reads are served from memory.
+// Returns false (after logging) when the host has no archive support or the
+// caller should fall back to per-file requests.
+const ingestRepoArchive = async ({
+  source,
+  commitSha,
+  addLog,
+  step,
+  abortSignal,
+}: ArchiveIngestionInput): Promise<boolean> => {
+  if (!source.loadArchive) {
+    return false;
+  }
+
+  try {
+    const fileCount = await source.loadArchive(commitSha, abortSignal);
+    addLog(
+      `Repository archive ready: ${fileCount} files unpacked in memory.`,
+      'success',
+      step,
+    );
+    return true;
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    addLog(
+      `Archive download failed (${message}). Falling back to per-file requests.`,
+      'warning',
+      step,
+    );
+    return false;
+  }
+};
+
 export const runAnalyzePhase = async ({
-  url,
+  source,
+  ref,
+  rootPath,
+  ingestionMode = 'contents',
   includeDirectories,
   excludeDirectories,
+  scopePatterns,
+  maxFileSizeKb = DEFAULT_MAX_SOURCE_FILE_KB,
   addLog,
   ensureDiagramApiKey,
-  onGitHubRateLimitUpdate,
+  llm,
+  onUsage,
   abortSignal,
 }: AnalyzePhaseInput): Promise<AnalyzePhaseResult> => {
   abortIfSignaled(abortSignal);
   addLog(
-    `Cloning repository structure from ${url}...`,
+    `Cloning repository structure from ${source.label}${rootPath ? ` (project root: ${rootPath})` : ''}...`,
     'info',
     AgentStatus.ANALYZING,
   );
-  const files = await fetchRepoStructure(url, {
+
+  const revision = await source.resolveRevision(ref, abortSignal);
+  let archiveReady = false;
+  if (revision) {
+    addLog(
+      `Resolved ${revision.ref} to commit ${revision.commitSha.slice(0, 7)}.`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+    if (ingestionMode === 'archive' && source.loadArchive) {
+      addLog(
+        'Downloading repository archive...',
+        'info',
+        AgentStatus.ANALYZING,
+      );
+      archiveReady = await ingestRepoArchive({
+        source,
+        commitSha: revision.commitSha,
+        addLog,
+        step: AgentStatus.ANALYZING,
+        abortSignal,
+      });
+    }
+  }
+
+  const readOptions: SourceReadOptions = {
+    ref: revision?.commitSha,
+    rootPath,
     signal: abortSignal,
-    onRateLimitUpdate: onGitHubRateLimitUpdate,
-  });
+  };
+  const files = await source.listTree(readOptions);
+  const treeIndex = source.getTreeIndexInfo() ?? undefined;
+  if (treeIndex && treeIndex.walkedDirectories > 0) {
+    addLog(
+      `Recursive tree listing was truncated; walked ${treeIndex.walkedDirectories} directories individually.`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+  }
+  if (treeIndex && !treeIndex.complete) {
+    addLog(
+      'File index is incomplete: the host stopped listing files before the end of the repository. Set a project root to index a smaller part of it.',
+      'warning',
+      AgentStatus.ANALYZING,
+    );
+  }
 
-  const allFilePaths = flattenFiles(files)
-    .filter((file) => file.type === 'file')
-    .map((file) => file.path);
+  const allFileNodes = flattenFiles(files).filter(
+    (file) => file.type === 'file',
+  );
+  const allFilePaths = allFileNodes.map((file) => file.path);
   const availableDirectories = extractAvailableDirectories(allFilePaths);
-  const scopedFilePaths = applyDirectoryScope(
+  const repoScopeRules = await loadRepoScopeRules(
+    source,
     allFilePaths,
+    readOptions,
+  );
+  const isInScope = createScopeFilter({
     includeDirectories,
     excludeDirectories,
-  );
+    patterns: scopePatterns,
+    repoRules: repoScopeRules.rules,
+  });
+  const scopedFilePaths = allFilePaths.filter(isInScope);
+  if (repoScopeRules.fileCount > 0) {
+    addLog(
+      `Applied ${repoScopeRules.fileCount} .gitignore/.gitattributes file(s) from the repository.`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+  }
 
   if (scopedFilePaths.length === 0) {
     throw new Error(
-      'No files matched the selected include/exclude directories. Adjust the filters and retry.',
+      'No files matched the selected include/exclude directories and patterns. Adjust the filters and retry.',
     );
   }
 
@@ -933,19 +1457,13 @@ export const runAnalyzePhase = async ({
   let readme: string;
 
   try {
-    readme = await fetchFileContent(url, 'README.md', {
-      signal: abortSignal,
-      onRateLimitUpdate: onGitHubRateLimitUpdate,
-    });
+    readme = await source.readFile('README.md', readOptions);
   } catch (error) {
     if (isAbortError(error)) {
       throw error;
     }
     try {
-      readme = await fetchFileContent(url, 'readme.md', {
-        signal: abortSignal,
-        onRateLimitUpdate: onGitHubRateLimitUpdate,
-      });
+      readme = await source.readFile('readme.md', readOptions);
     } catch (readmeError) {
       if (isAbortError(readmeError)) {
         throw readmeError;
@@ -959,45 +1477,139 @@ export const runAnalyzePhase = async ({
     }
   }
 
+  const { inventory: packageInventory, manifestCount } =
+    await loadPackageInventory(source, scopedFilePaths, readOptions);
+  if (manifestCount > 0) {
+    addLog(
+      `Package inventory: ${packageInventory.length} package(s) declared in ${manifestCount} manifest(s).`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+  }
+
+  const llmSettings = llm ?? DEFAULT_LLM_SETTINGS;
+  const analysisModel = resolveStageRouting(llmSettings, 'analysis').model;
   addLog(
-    'Engaging Deep Static Analysis (Gemini 3 Pro)...',
+    `Engaging Deep Static Analysis (${LLM_PROVIDERS[llmSettings.provider].label}, ${analysisModel})...`,
     'info',
     AgentStatus.ANALYZING,
   );
 
-  const truncated = scopedFilePaths.length > MAX_ANALYSIS_PATHS;
+  const scopedPathSet = new Set(scopedFilePaths);
+  const skippedFiles = allFileNodes
+    .filter((file) => scopedPathSet.has(file.path))
+    .map((file) =>
+      classifyFileByPath(file.path, file.size, toMaxFileBytes(maxFileSizeKb)),
+    )
+    .filter((file): file is SkippedSourceFile => file !== null);
+  const skippedPathSet = new Set(skippedFiles.map((file) => file.path));
+  const analyzablePaths = scopedFilePaths.filter(
+    (path) => !skippedPathSet.has(path),
+  );
+  if (skippedFiles.length > 0) {
+    addLog(
+      `Skipping ${skippedFiles.length} binary, generated or oversized file(s); see the scope panel for details.`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+  }
+
+  const truncated = analyzablePaths.length > MAX_ANALYSIS_PATHS;
   if (truncated) {
     addLog(
-      `Large repository scope: analyzing first ${MAX_ANALYSIS_PATHS} of ${scopedFilePaths.length} files. Refine include/exclude directories to target a smaller subset.`,
+      `Large repository scope: analyzing first ${MAX_ANALYSIS_PATHS} of ${analyzablePaths.length} files. Refine include/exclude directories to target a smaller subset.`,
       'warning',
       AgentStatus.ANALYZING,
     );
   }
 
-  if (includeDirectories.length > 0 || excludeDirectories.length > 0) {
+  const includeRuleCount =
+    includeDirectories.length + (scopePatterns?.include.length || 0);
+  const excludeRuleCount =
+    excludeDirectories.length + (scopePatterns?.exclude.length || 0);
+  if (includeRuleCount > 0 || excludeRuleCount > 0) {
     addLog(
-      `Scope filters applied. Include: ${includeDirectories.length || 0}, Exclude: ${excludeDirectories.length || 0}.`,
+      `Scope filters applied. Include: ${includeRuleCount}, Exclude: ${excludeRuleCount}.`,
       'info',
       AgentStatus.ANALYZING,
     );
   }
 
-  const limitedPaths = scopedFilePaths.slice(0, MAX_ANALYSIS_PATHS);
+  const limitedPaths = analyzablePaths.slice(0, MAX_ANALYSIS_PATHS);
   const repoScope: RepoScopeInfo = {
     totalFiles: allFilePaths.length,
     filteredFiles: scopedFilePaths.length,
     analyzedFiles: limitedPaths.length,
     truncated,
     availableDirectories,
+    rootPath: rootPath || '',
+    treeIndex,
+    skippedFiles,
   };
 
-  const analysis = await analyzeRepository(
-    JSON.stringify(limitedPaths),
-    readme,
-    {
-      abortSignal,
-    },
-  );
+  const sourceContents: Record<string, string> = {};
+
+  // Reachability needs every code file read; skip it when the scope was
+  // truncated or would take too many per-file requests.
+  const maxReachabilityFiles =
+    archiveReady || source.kind === 'local'
+      ? MAX_ARCHIVE_REACHABILITY_FILES
+      : MAX_REACHABILITY_FILES;
+  const reachabilityFileCount =
+    analyzablePaths.filter(isReachabilityInput).length;
+  if (truncated || reachabilityFileCount > maxReachabilityFiles) {
+    addLog(
+      truncated
+        ? 'Skipping unreachable-file detection: the analyzed scope is truncated.'
+        : `Skipping unreachable-file detection: ${reachabilityFileCount} file(s) would need reading (limit ${maxReachabilityFiles}). Narrow the scope to enable it.`,
+      'info',
+      AgentStatus.ANALYZING,
+    );
+  } else if (reachabilityFileCount > 0) {
+    addLog(
+      'Tracing entry points to find unreachable files...',
+      'info',
+      AgentStatus.ANALYZING,
+    );
+    const reachability = await loadReachability(
+      source,
+      analyzablePaths,
+      readOptions,
+      toMaxFileBytes(maxFileSizeKb),
+      sourceContents,
+    );
+    if (!reachability) {
+      addLog(
+        'Unreachable-file detection skipped: some files could not be read.',
+        'warning',
+        AgentStatus.ANALYZING,
+      );
+    } else {
+      repoScope.entryPoints = reachability.entryPoints.map(
+        (entryPoint) => entryPoint.path,
+      );
+      repoScope.unreachableFiles = reachability.unreachableFiles;
+      addLog(
+        `Found ${reachability.entryPoints.length} entry point(s); ${reachability.unreachableFiles.length} file(s) are not reachable from any of them.`,
+        reachability.unreachableFiles.length > 0 ? 'warning' : 'info',
+        AgentStatus.ANALYZING,
+      );
+    }
+  }
+
+  const analysis: RepoAnalysisResult = {
+    ...(await analyzeRepository(
+      JSON.stringify(limitedPaths),
+      readme,
+      formatPackageInventory(packageInventory),
+      {
+        abortSignal,
+        llm,
+        onUsage,
+      },
+    )),
+    packageInventory,
+  };
 
   addLog(
     `Detected: ${analysis.detectedFramework}. Target locked: Next.js (App Router).`,
@@ -1014,8 +1626,15 @@ export const runAnalyzePhase = async ({
   }
 
   let diagram: string | null = null;
+  const provider = LLM_PROVIDERS[llm?.provider ?? 'gemini'];
 
-  if (analysis.architectureDescription) {
+  if (analysis.architectureDescription && !provider.supportsImages) {
+    addLog(
+      `Skipping diagram: ${provider.label} cannot generate images.`,
+      'info',
+      AgentStatus.PLANNING,
+    );
+  } else if (analysis.architectureDescription) {
     addLog(
       'Generating legacy architecture diagram...',
       'info',
@@ -1028,7 +1647,7 @@ export const runAnalyzePhase = async ({
     if (canGenerateDiagram) {
       diagram = await generateArchitectureDiagram(
         analysis.architectureDescription,
-        { abortSignal },
+        { abortSignal, llm, onUsage },
       );
 
       if (diagram) {
@@ -1053,46 +1672,104 @@ export const runAnalyzePhase = async ({
     }
   }
 
-  return { files: scopedFiles, analysis, diagram, repoScope };
+  return {
+    files: scopedFiles,
+    analysis,
+    diagram,
+    repoScope,
+    revision,
+    sourceContents,
+  };
 };
 
 export const runScaffoldPhase = async ({
-  url,
+  source,
+  commitSha,
+  rootPath,
+  ingestionMode = 'contents',
+  maxFileSizeKb = DEFAULT_MAX_SOURCE_FILE_KB,
   sourceFiles,
+  sourceContents = {},
   analysis,
   config,
   addLog,
-  onGitHubRateLimitUpdate,
+  llm,
+  onUsage,
   abortSignal,
 }: ScaffoldPhaseInput): Promise<ScaffoldPhaseResult> => {
   abortIfSignaled(abortSignal);
+
+  // The archive is cached per commit, so this only downloads again after a
+  // page reload dropped the in-memory copy.
+  const archiveReady =
+    ingestionMode === 'archive' && commitSha
+      ? await ingestRepoArchive({
+          source,
+          commitSha,
+          addLog,
+          step: AgentStatus.PLANNING,
+          abortSignal,
+        })
+      : false;
+  const maxContextFiles =
+    archiveReady || source.kind === 'local'
+      ? MAX_ARCHIVE_CONTEXT_FILES
+      : MAX_CONTEXT_FILES;
+
   addLog(
-    `Ingesting key legacy source files for context (Max ${MAX_CONTEXT_FILES})...`,
+    `Ingesting key legacy source files for context (Max ${maxContextFiles})...`,
     'info',
     AgentStatus.PLANNING,
   );
 
-  const candidateFiles = flattenFiles(sourceFiles).filter(
-    (file) =>
-      file.type === 'file' &&
-      !file.name.endsWith('.md') &&
-      !file.name.endsWith('.json') &&
-      !file.name.endsWith('.lock') &&
-      !isImageFile(file.name),
-  );
+  const maxFileBytes = toMaxFileBytes(maxFileSizeKb);
+  const skippedFiles: SkippedSourceFile[] = [];
+  const candidateFiles = flattenFiles(sourceFiles).filter((file) => {
+    if (
+      file.type !== 'file' ||
+      file.name.endsWith('.md') ||
+      file.name.endsWith('.json') ||
+      file.name.endsWith('.lock') ||
+      isImageFile(file.name)
+    ) {
+      return false;
+    }
 
-  const filesToRead = candidateFiles.slice(0, MAX_CONTEXT_FILES);
+    const skipped = classifyFileByPath(file.path, file.size, maxFileBytes);
+    if (skipped) {
+      skippedFiles.push(skipped);
+    }
+    return !skipped;
+  });
 
+  const filesToRead: FileNode[] = [];
   let sourceContext = '';
   const fileContents: Record<string, string> = {};
 
-  for (const file of filesToRead) {
+  // Content checks can reject a file after download, so keep reading
+  // candidates until the context budget is filled.
+  for (const file of candidateFiles) {
+    if (filesToRead.length >= maxContextFiles) {
+      break;
+    }
+
     abortIfSignaled(abortSignal);
+    filesToRead.push(file);
     try {
-      const content = await fetchFileContent(url, file.path, {
-        signal: abortSignal,
-        onRateLimitUpdate: onGitHubRateLimitUpdate,
-      });
+      // Files read for reachability were pinned to the same commit.
+      const content =
+        sourceContents[file.path] ??
+        (await source.readFile(file.path, {
+          ref: commitSha,
+          rootPath,
+          signal: abortSignal,
+        }));
+      const skipped = classifyFileContent(file.path, content, maxFileBytes);
+      if (skipped) {
+        skippedFiles.push(skipped);
+        filesToRead.pop();
+        continue;
+      }
       sourceContext += `\n\n--- FILE: ${file.path} ---\n${content}`;
       fileContents[file.path] = content;
     } catch (error) {
@@ -1103,6 +1780,14 @@ export const runScaffoldPhase = async ({
     }
   }
 
+  if (skippedFiles.length > 0) {
+    addLog(
+      `Left ${skippedFiles.length} binary, generated, minified or oversized file(s) out of the context.`,
+      'info',
+      AgentStatus.PLANNING,
+    );
+  }
+
   addLog(
     `Smart Context loaded: ${sourceContext.length} chars from ${filesToRead.length} files.`,
     'success',
@@ -1116,7 +1801,26 @@ export const runScaffoldPhase = async ({
     content: fileContents[file.path],
   }));
 
-  const graph = buildDependencyGraph(filesWithContent);
+  const sourceFilePaths = flattenFiles(sourceFiles)
+    .filter((file) => file.type === 'file')
+    .map((file) => file.path);
+  const { resolveImport, aliasCount } = await loadImportResolver(
+    source,
+    sourceFilePaths,
+    { ref: commitSha, rootPath, signal: abortSignal },
+  );
+  if (aliasCount > 0) {
+    addLog(
+      `Resolving imports through ${aliasCount} path alias(es) and workspace package(s).`,
+      'info',
+      AgentStatus.PLANNING,
+    );
+  }
+
+  const graph = buildDependencyGraph(filesWithContent, {
+    resolveImport,
+    moduleIndex: createModuleIndex(sourceFilePaths),
+  });
 
   addLog(
     `Dependency Graph built with ${Object.keys(graph).length} nodes.`,
@@ -1124,6 +1828,25 @@ export const runScaffoldPhase = async ({
     AgentStatus.PLANNING,
   );
 
+  const dependencyCycles = findDependencyCycles(graph);
+  if (dependencyCycles.length > 0) {
+    addLog(
+      `Found ${dependencyCycles.length} import cycle(s) in the source; their target files will be generated together. ${dependencyCycles
+        .slice(0, 3)
+        .map((cycle) => cycle.join(' ↔ '))
+        .join('; ')}${dependencyCycles.length > 3 ? '; ...' : ''}`,
+      'warning',
+      AgentStatus.PLANNING,
+    );
+  }
+
+  const symbolIndex = buildSymbolIndex(fileContents);
+  addLog(
+    `Symbol index built: ${countIndexedSymbols(symbolIndex)} symbols across ${Object.keys(symbolIndex).length} files.`,
+    'info',
+    AgentStatus.PLANNING,
+  );
+
   addLog(
     `Designing Next.js 16.1 App Router project structure (${config.uiFramework}, ${config.stateManagement}, ${config.testingLibrary !== 'none' ? 'with tests' : 'no tests'})...`,
     'info',
@@ -1134,7 +1857,7 @@ export const runScaffoldPhase = async ({
     analysis.summary,
     config,
     config.testingLibrary !== 'none',
-    { abortSignal },
+    { abortSignal, llm, onUsage },
   );
 
   const generatedFiles = buildTreeFromPaths(generatedFilePaths);
@@ -1149,7 +1872,10 @@ export const runScaffoldPhase = async ({
     sourceContext,
     fileContents,
     filesToRead,
+    skippedFiles,
     graph,
+    dependencyCycles,
+    symbolIndex,
     generatedFilePaths,
     generatedFiles,
   };
@@ -1159,8 +1885,11 @@ export const runPlanReviewPhase = async ({
   analysis,
   generatedFilePaths,
   sourceContext,
+  contextTokenBudget,
   config,
   addLog,
+  llm,
+  onUsage,
   abortSignal,
 }: PlanReviewPhaseInput): Promise<PlanReviewPhaseResult> => {
   abortIfSignaled(abortSignal);
@@ -1174,13 +1903,15 @@ export const runPlanReviewPhase = async ({
     analysis,
     generatedFilePaths,
     config,
-    { abortSignal },
+    { abortSignal, llm, onUsage },
   );
 
   abortIfSignaled(abortSignal);
   const costEstimate = estimateMigrationCost({
     sourceContext,
     generatedFilePaths,
+    contextTokenBudget,
+    llm,
   });
 
   addLog(
@@ -1192,6 +1923,30 @@ export const runPlanReviewPhase = async ({
   return { playbook, costEstimate };
 };
 
+export const isLowPriorityTarget = (path: string): boolean =>
+  LOW_PRIORITY_TARGET_PATTERN.test(path);
+
+const estimateNextRequest = (
+  llm: LlmSettings | undefined,
+  stage: LlmStage,
+  inputTokens: number,
+  outputTokens: number,
+): Pick<BudgetCheck, 'estimatedTokens' | 'estimatedCostUsd' | 'priced'> => {
+  const settings = llm ?? DEFAULT_LLM_SETTINGS;
+  const { model } = resolveStageRouting(settings, stage);
+  const costUsd = getTokenCostUsd(
+    settings.provider,
+    model,
+    inputTokens,
+    outputTokens,
+  );
+  return {
+    estimatedTokens: inputTokens + outputTokens,
+    estimatedCostUsd: costUsd ?? 0,
+    priced: costUsd !== null,
+  };
+};
+
 export const runGeneratePhase = async ({
   generatedFiles,
   analysis,
@@ -1199,18 +1954,39 @@ export const runGeneratePhase = async ({
   fileContents,
   filesToRead,
   graph,
+  symbolIndex = buildSymbolIndex(fileContents),
+  decisionContext,
+  playbookNotes,
+  contextTokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
   config,
   addLog,
   onFileStart,
   onFileChunk,
   onFileGenerated,
   onFileError,
+  llm,
+  onUsage,
+  checkBudget,
   abortSignal,
-}: GeneratePhaseInput): Promise<void> => {
+}: GeneratePhaseInput): Promise<GeneratePhaseResult> => {
   const flatTargetFiles = flattenFiles(generatedFiles).filter(
     (file) => file.type === 'file',
   );
 
+  const retrievalIndex = createRetrievalIndex(
+    sourceContext,
+    fileContents,
+    symbolIndex,
+    contextTokenBudget,
+  );
+  if (retrievalIndex) {
+    addLog(
+      `Source context (~${tokensFromChars(sourceContext.length)} tokens) exceeds the ${contextTokenBudget}-token budget; retrieving relevant chunks per file from ${retrievalIndex.chunks.length} indexed chunks.`,
+      'info',
+      AgentStatus.CONVERTING,
+    );
+  }
+
   const sourcePaths = filesToRead.map((file) => file.path);
   const semanticMatches = buildSemanticTargetMatches(
     flatTargetFiles.map((file) => file.path),
@@ -1228,7 +2004,7 @@ export const runGeneratePhase = async ({
     AgentStatus.CONVERTING,
   );
 
-  const orderedFiles = orderTargetFilesByDependencyPlan(
+  const { batches, cycles } = planTargetGenerationBatches(
     flatTargetFiles,
     semanticMatches,
     graph,
@@ -1240,42 +2016,238 @@ export const runGeneratePhase = async ({
     AgentStatus.CONVERTING,
   );
 
-  for (const file of orderedFiles) {
-    abortIfSignaled(abortSignal);
-    onFileStart(file.path);
-    addLog(`Generating ${file.path}...`, 'info', AgentStatus.CONVERTING);
+  if (cycles.length > 0) {
+    addLog(
+      `${cycles.length} dependency cycle(s) among target files will be generated as shared-context batches: ${cycles.map((cycle) => cycle.join(' ↔ ')).join('; ')}.`,
+      'warning',
+      AgentStatus.CONVERTING,
+    );
+  }
+
+  const generatedContents = new Map<string, string>();
+  const relatedContextStats: RelatedContextStats = {
+    fullChars: 0,
+    includedChars: 0,
+  };
+
+  const pendingPaths = new Set(batches.flat().map((file) => file.path));
+  const skippedFiles: string[] = [];
+  let skipLowPriority = false;
+  let stopped = false;
+
+  // Asks again after a skip decision on a file that cannot be skipped, since
+  // the request itself is still over the cap.
+  const decideWithinBudget = async (
+    path: string,
+    inputTokens: number,
+  ): Promise<BudgetDecision> => {
+    for (;;) {
+      const decision = await checkBudget!({
+        stage: 'generation',
+        filePath: path,
+        ...estimateNextRequest(
+          llm,
+          'generation',
+          inputTokens,
+          estimateOutputTokensForPath(path),
+        ),
+        lowPriorityRemaining: skipLowPriority
+          ? 0
+          : Array.from(pendingPaths).filter(isLowPriorityTarget).length,
+      });
+      if (decision === 'skipLowPriority') {
+        skipLowPriority = true;
+        if (!isLowPriorityTarget(path)) {
+          continue;
+        }
+      }
+      return decision;
+    }
+  };
+
+  for (const batch of batches) {
+    const batchPaths = batch.map((file) => file.path);
+
+    for (const file of batch) {
+      abortIfSignaled(abortSignal);
 
-    try {
       const semanticMatch = semanticMatches.get(file.path);
-      const relatedContext = buildRelatedContext(
-        file.path,
+      const relatedContext = [
+        buildRelatedContext(
+          file.path,
+          semanticMatch,
+          graph,
+          fileContents,
+          symbolIndex,
+          relatedContextStats,
+        ),
+        buildCyclePeerContext(
+          file.path,
+          batchPaths,
+          generatedContents,
+          semanticMatches,
+          fileContents,
+        ),
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+      const fileSourceContext = buildFileSourceContext({
+        targetPath: file.path,
+        sourceContext,
+        retrievalIndex,
+        tokenBudget: contextTokenBudget,
+        analysis,
         semanticMatch,
-        graph,
-        fileContents,
-      );
+        playbookNotes,
+        decisionContext,
+      });
 
-      const content = await generateNextJsFileStream(
-        file.path,
-        sourceContext,
-        relatedContext,
-        config,
-        (streamedContent) => onFileChunk(file.path, streamedContent),
-        { abortSignal },
-      );
+      const decision =
+        skipLowPriority && isLowPriorityTarget(file.path)
+          ? 'skipLowPriority'
+          : checkBudget
+            ? await decideWithinBudget(
+                file.path,
+                tokensFromChars(
+                  fileSourceContext.length + relatedContext.length,
+                ) + PROMPT_OVERHEAD_TOKENS,
+              )
+            : 'continue';
+      if (decision === 'stop') {
+        stopped = true;
+        break;
+      }
+      pendingPaths.delete(file.path);
+      if (decision === 'skipLowPriority') {
+        skippedFiles.push(file.path);
+        continue;
+      }
 
-      onFileGenerated(file.path, content);
-    } catch (error) {
-      if (isAbortError(error)) {
-        throw error;
+      onFileStart(file.path);
+      addLog(`Generating ${file.path}...`, 'info', AgentStatus.CONVERTING);
+
+      try {
+        const content = await generateNextJsFileStream(
+          file.path,
+          fileSourceContext,
+          relatedContext,
+          config,
+          (streamedContent) => onFileChunk(file.path, streamedContent),
+          {
+            abortSignal,
+            llm,
+            onUsage:
+              onUsage &&
+              ((usage) => onUsage({ ...usage, filePath: file.path })),
+          },
+        );
+
+        generatedContents.set(file.path, content);
+        onFileGenerated(file.path, content);
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        onFileError(file.path);
+        addLog(
+          `Failed to generate ${file.path}`,
+          'error',
+          AgentStatus.CONVERTING,
+        );
       }
-      onFileError(file.path);
-      addLog(
-        `Failed to generate ${file.path}`,
-        'error',
-        AgentStatus.CONVERTING,
-      );
     }
+
+    if (stopped) {
+      break;
+    }
+  }
+
+  if (skippedFiles.length > 0) {
+    addLog(
+      `Skipped ${skippedFiles.length} low-priority file(s) to stay within the run budget: ${skippedFiles.join(', ')}.`,
+      'warning',
+      AgentStatus.CONVERTING,
+    );
+  }
+  if (stopped) {
+    addLog(
+      `Generation stopped at the run budget with ${pendingPaths.size} file(s) left ungenerated.`,
+      'warning',
+      AgentStatus.CONVERTING,
+    );
   }
+
+  const { fullChars, includedChars } = relatedContextStats;
+  if (includedChars < fullChars) {
+    addLog(
+      `Symbol-level context trimmed related files from ${fullChars} to ${includedChars} chars (${Math.round((1 - includedChars / fullChars) * 100)}% smaller).`,
+      'info',
+      AgentStatus.CONVERTING,
+    );
+  }
+
+  return { stopped, skippedFiles };
+};
+
+// create-next-app's default, for generated projects without tsconfig paths.
+const DEFAULT_TARGET_ALIASES: PathAlias[] = [
+  { pattern: '@/*', targets: ['*'], scopeDir: '', onlyKnownPaths: true },
+];
+
+/** Import graph of the generated project, resolving its own path aliases. */
+export const buildGeneratedImportGraph = (
+  generatedFiles: FileNode[],
+): DependencyGraph => {
+  const flatTargetFiles = flattenFiles(generatedFiles).filter(
+    (file) => file.type === 'file',
+  );
+  const aliases = flatTargetFiles
+    .filter((file) => file.content && isImportResolverConfig(file.path))
+    .flatMap((file) =>
+      parseImportResolverConfig(file.content || '', file.path),
+    );
+
+  return buildDependencyGraph(generatedFiles, {
+    resolveImport: createImportResolver(
+      aliases.length > 0 ? aliases : DEFAULT_TARGET_ALIASES,
+      flatTargetFiles.map((file) => file.path),
+    ),
+  });
+};
+
+/**
+ * What regenerating `targetPath` touches: the generated files that import it
+ * and the legacy files it is migrated from, with their own importers.
+ */
+export const analyzeRegenerationImpact = ({
+  targetPath,
+  generatedFiles,
+  analysis,
+  sourceGraph,
+  sourcePaths,
+}: RegenerationImpactInput): RegenerationImpact => {
+  const targetGraph = buildGeneratedImportGraph(generatedFiles);
+  const derivedFrom = [
+    ...(buildSemanticTargetMatches([targetPath], sourcePaths, analysis).get(
+      targetPath,
+    )?.sourcePaths || []),
+  ].sort();
+  const legacyUsedBy = Array.from(
+    new Set(
+      derivedFrom.flatMap((sourcePath) =>
+        getDependents(sourcePath, sourceGraph),
+      ),
+    ),
+  )
+    .filter((path) => !derivedFrom.includes(path))
+    .sort();
+
+  return {
+    usedBy: getDependents(targetPath, targetGraph),
+    dependents: getTransitiveDependents(targetPath, targetGraph),
+    derivedFrom,
+    legacyUsedBy,
+  };
 };
 
 export const runRegenerateFilePhase = async ({
@@ -1286,13 +2258,20 @@ export const runRegenerateFilePhase = async ({
   fileContents = {},
   filesToRead = [],
   graph = {},
+  symbolIndex = buildSymbolIndex(fileContents),
+  decisionContext,
+  playbookNotes,
+  contextTokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
   config,
   userInstructions,
+  dependentPaths = [],
   addLog,
   onFileStart,
   onFileChunk,
   onFileGenerated,
   onFileError,
+  llm,
+  onUsage,
   abortSignal,
 }: RegenerateFilePhaseInput): Promise<void> => {
   const flatTargetFiles = flattenFiles(generatedFiles).filter(
@@ -1304,56 +2283,109 @@ export const runRegenerateFilePhase = async ({
     throw new Error(`Cannot regenerate unknown target file: ${targetPath}`);
   }
 
+  const knownTargetPaths = new Set(flatTargetFiles.map((file) => file.path));
+  const regenerationPaths = [
+    targetPath,
+    ...dependentPaths.filter(
+      (path) => path !== targetPath && knownTargetPaths.has(path),
+    ),
+  ];
+
   const sourcePaths = filesToRead.map((file) => file.path);
   const semanticMatches = buildSemanticTargetMatches(
-    [targetPath],
+    regenerationPaths,
     sourcePaths,
     analysis,
   );
 
-  const semanticMatch = semanticMatches.get(targetPath);
-  let relatedContext = buildRelatedContext(
-    targetPath,
-    semanticMatch,
-    graph,
+  const trimmedInstructions = userInstructions?.trim();
+  let regeneratedTarget = '';
+  let failedDependents = 0;
+  const retrievalIndex = createRetrievalIndex(
+    sourceContext,
     fileContents,
+    symbolIndex,
+    contextTokenBudget,
   );
 
-  const trimmedInstructions = userInstructions?.trim();
-  if (trimmedInstructions) {
-    relatedContext = `${relatedContext}\n\n--- USER REGENERATION INSTRUCTIONS ---\n${trimmedInstructions}\nPrioritize these instructions while generating this file.`;
-  }
+  for (const path of regenerationPaths) {
+    abortIfSignaled(abortSignal);
+    const isTarget = path === targetPath;
 
-  onFileStart(targetPath);
-  addLog(
-    `Regenerating ${targetPath}${trimmedInstructions ? ' with custom instructions' : ''}...`,
-    'info',
-    AgentStatus.CONVERTING,
-  );
+    let relatedContext = buildRelatedContext(
+      path,
+      semanticMatches.get(path),
+      graph,
+      fileContents,
+      symbolIndex,
+    );
+    if (isTarget && trimmedInstructions) {
+      relatedContext = `${relatedContext}\n\n--- USER REGENERATION INSTRUCTIONS ---\n${trimmedInstructions}\nPrioritize these instructions while generating this file.`;
+    }
+    if (!isTarget) {
+      relatedContext = `${relatedContext}\n\n--- REGENERATED DEPENDENCY: ${targetPath} ---\n${regeneratedTarget.slice(0, MAX_CYCLE_PEER_CHARS)}\n${path} depends on this file, which was just regenerated. Keep imports and usages consistent with its current exports.`;
+    }
 
-  try {
-    const content = await generateNextJsFileStream(
-      targetPath,
-      sourceContext,
-      relatedContext,
-      config,
-      (streamedContent) => onFileChunk(targetPath, streamedContent),
-      { abortSignal },
+    onFileStart(path);
+    addLog(
+      isTarget
+        ? `Regenerating ${path}${trimmedInstructions ? ' with custom instructions' : ''}...`
+        : `Regenerating dependent ${path}...`,
+      'info',
+      AgentStatus.CONVERTING,
     );
 
-    onFileGenerated(targetPath, content);
-  } catch (error) {
-    if (isAbortError(error)) {
-      throw error;
+    try {
+      const content = await generateNextJsFileStream(
+        path,
+        buildFileSourceContext({
+          targetPath: path,
+          sourceContext,
+          retrievalIndex,
+          tokenBudget: contextTokenBudget,
+          analysis,
+          semanticMatch: semanticMatches.get(path),
+          // The user's instructions steer retrieval for the target too.
+          playbookNotes: [playbookNotes, isTarget ? trimmedInstructions : '']
+            .filter(Boolean)
+            .join('\n'),
+          decisionContext,
+        }),
+        relatedContext,
+        config,
+        (streamedContent) => onFileChunk(path, streamedContent),
+        {
+          abortSignal,
+          llm,
+          onUsage:
+            onUsage && ((usage) => onUsage({ ...usage, filePath: path })),
+        },
+      );
+
+      onFileGenerated(path, content);
+      if (isTarget) {
+        regeneratedTarget = content;
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      onFileError(path);
+      addLog(`Failed to regenerate ${path}`, 'error', AgentStatus.CONVERTING);
+      if (isTarget) {
+        throw error;
+      }
+      failedDependents++;
     }
+  }
 
-    onFileError(targetPath);
+  if (failedDependents > 0) {
     addLog(
-      `Failed to regenerate ${targetPath}`,
-      'error',
+      `${failedDependents} dependent file(s) of ${targetPath} could not be regenerated and kept their previous content.`,
+      'warning',
       AgentStatus.CONVERTING,
     );
-    throw error;
   }
 };
 
@@ -1362,6 +2394,9 @@ export const runVerificationPhase = async ({
   analysis,
   addLog,
   onFileFixed,
+  llm,
+  onUsage,
+  checkBudget,
   abortSignal,
 }: VerifyPhaseInput): Promise<VerifyPhaseResult> => {
   const generatedFileMap = new Map<string, string>();
@@ -1376,6 +2411,7 @@ export const runVerificationPhase = async ({
   const observedIssueSet = new Set<string>();
   let fixedFilesApplied = 0;
   let unresolvedModelIssues: string[] = [];
+  let stopped = false;
 
   for (
     let passNumber = 1;
@@ -1407,12 +2443,39 @@ export const runVerificationPhase = async ({
       );
     }
 
+    if (checkBudget) {
+      const decision = await checkBudget({
+        stage: 'verification',
+        ...estimateNextRequest(
+          llm,
+          'verification',
+          tokensFromChars(
+            currentSnapshot.reduce(
+              (sum, file) => sum + file.path.length + file.content.length,
+              0,
+            ),
+          ) + PROMPT_OVERHEAD_TOKENS,
+          VERIFICATION_OUTPUT_TOKENS,
+        ),
+        lowPriorityRemaining: 0,
+      });
+      if (decision === 'stop') {
+        stopped = true;
+        addLog(
+          `Verification stopped at the run budget before pass ${passNumber}.`,
+          'warning',
+          AgentStatus.VERIFYING,
+        );
+        break;
+      }
+    }
+
     const verification = await verifyRepositoryFiles(
       currentSnapshot,
       `${analysis.summary}\n${analysis.migrationNotes.join('\n')}`,
       localIssues,
       passNumber,
-      { abortSignal },
+      { abortSignal, llm, onUsage },
     );
 
     for (const issue of verification.issues) {
@@ -1474,6 +2537,7 @@ export const runVerificationPhase = async ({
     passed,
     issues,
     fixedFilesApplied,
+    stopped,
   };
 };
 
@@ -1483,6 +2547,8 @@ export const generateReport = (
   startTime: number,
   endTime: number,
   analysis: RepoAnalysisResult,
+  usage?: MigrationUsage,
+  costEstimate?: MigrationCostEstimate | null,
 ): MigrationReport => {
   const flatTarget = flattenFiles(targetFiles);
   const flatSource = flattenFiles(sourceFiles);
@@ -1545,5 +2611,7 @@ export const generateReport = (
       'Enforced strict type safety across components',
     ],
     newDependencies: 12,
+    ...(usage ? { usage } : {}),
+    ...(costEstimate ? { costEstimate } : {}),
   };
 };
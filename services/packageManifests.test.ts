@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPackageInventory,
+  isPackageManifest,
+  parsePackageManifest,
+} from './packageManifests';
+
+const summarize = (content: string, path: string) =>
+  parsePackageManifest(content, path).map(
+    (entry) => `${entry.name}@${entry.version}${entry.dev ? ' (dev)' : ''}`,
+  );
+
+describe('packageManifests', () => {
+  it('recognizes manifests outside vendored directories', () => {
+    expect(isPackageManifest('package.json')).toBe(true);
+    expect(isPackageManifest('api/requirements-dev.txt')).toBe(true);
+    expect(isPackageManifest('Gemfile')).toBe(true);
+    expect(isPackageManifest('node_modules/react/package.json')).toBe(false);
+    expect(isPackageManifest('vendor/acme/lib/composer.json')).toBe(false);
+    expect(isPackageManifest('Gemfile.lock')).toBe(false);
+  });
+
+  it('parses JSON manifests and skips composer platform requirements', () => {
+    expect(
+      summarize(
+        JSON.stringify({
+          dependencies: { jquery: '^1.12.4' },
+          devDependencies: { grunt: '~1.0.0' },
+        }),
+        'package.json',
+      ),
+    ).toEqual(['jquery@^1.12.4', 'grunt@~1.0.0 (dev)']);
+    expect(
+      summarize(
+        JSON.stringify({
+          require: { php: '>=5.6', 'ext-pdo': '*', 'slim/slim': '^2.6' },
+          'require-dev': { 'phpunit/phpunit': '^5.7' },
+        }),
+        'composer.json',
+      ),
+    ).toEqual(['slim/slim@^2.6', 'phpunit/phpunit@^5.7 (dev)']);
+    expect(summarize('{ not json', 'bower.json')).toEqual([]);
+  });
+
+  it('parses Python requirements and pyproject tables', () => {
+    expect(
+      summarize(
+        [
+          '# pinned',
+          'Django==1.11.29',
+          'requests[security] >= 2.0 ; python_version < "3"',
+          '-r base.txt',
+          'celery',
+        ].join('\n'),
+        'requirements.txt',
+      ),
+    ).toEqual(['Django@==1.11.29', 'requests@>= 2.0', 'celery@']);
+
+    expect(
+      summarize(
+        [
+          '[project]',
+          'dependencies = [',
+          '  "flask>=1.0",',
+          ']',
+          '[project.optional-dependencies]',
+          'test = ["pytest"]',
+          '[tool.poetry.dependencies]',
+          'python = "^3.8"',
+          'sqlalchemy = { version = "^1.3", extras = ["postgresql"] }',
+          '[tool.poetry.group.dev.dependencies]',
+          'black = "*"',
+        ].join('\n'),
+        'pyproject.toml',
+      ),
+    ).toEqual([
+      'flask@>=1.0',
+      'pytest@ (dev)',
+      'sqlalchemy@^1.3',
+      'black@ (dev)',
+    ]);
+  });
+
+  it('parses Gemfile groups and Maven dependencies with properties', () => {
+    expect(
+      summarize(
+        [
+          "source 'https://rubygems.org'",
+          "gem 'rails', '~> 4.2.0'",
+          "gem 'pg', '>= 0.18', '< 2.0', require: false",
+          'group :development, :test do',
+          "  gem 'rspec-rails'",
+          'end',
+          "gem 'sidekiq', group: :test",
+        ].join('\n'),
+        'Gemfile',
+      ),
+    ).toEqual([
+      'rails@~> 4.2.0',
+      'pg@>= 0.18, < 2.0',
+      'rspec-rails@ (dev)',
+      'sidekiq@ (dev)',
+    ]);
+
+    expect(
+      summarize(
+        `<project>
+          <version>1.0.0</version>
+          <properties><spring.version>4.3.9</spring.version></properties>
+          <dependencies>
+            <dependency>
+              <groupId>org.springframework</groupId>
+              <artifactId>spring-webmvc</artifactId>
+              <version>\${spring.version}</version>
+            </dependency>
+            <dependency>
+              <groupId>junit</groupId>
+              <artifactId>junit</artifactId>
+              <version>4.12</version>
+              <scope>test</scope>
+            </dependency>
+          </dependencies>
+          <build><plugins><plugin><dependencies><dependency>
+            <groupId>x</groupId><artifactId>plugin-dep</artifactId>
+          </dependency></dependencies></plugin></plugins></build>
+        </project>`,
+        'pom.xml',
+      ),
+    ).toEqual([
+      'org.springframework:spring-webmvc@4.3.9',
+      'junit:junit@4.12 (dev)',
+    ]);
+  });
+
+  it('merges manifests, keeping the first declaration of a package', () => {
+    const inventory = buildPackageInventory([
+      {
+        path: 'package.json',
+        content: JSON.stringify({ devDependencies: { lodash: '^4.0.0' } }),
+      },
+      {
+        path: 'client/package.json',
+        content: JSON.stringify({ dependencies: { lodash: '^3.10.1' } }),
+      },
+    ]);
+
+    expect(inventory).toEqual([
+      {
+        name: 'lodash',
+        version: '^4.0.0',
+        ecosystem: 'npm',
+        manifestPath: 'package.json',
+        dev: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,407 @@
+import { PackageEcosystem, PackageInventoryEntry } from '../types';
+
+/**
+ * Parsers for legacy package manifests. Each returns the packages a
+ * manifest declares with their version constraints as written; nothing is
+ * resolved against a registry. Malformed manifests yield no entries.
+ */
+type ManifestParser = (
+  content: string,
+  manifestPath: string,
+) => PackageInventoryEntry[];
+
+const getBaseName = (path: string): string => path.split('/').pop() || '';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJson = (content: string): Record<string, unknown> | null => {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const readDependencyMap = (
+  value: unknown,
+  ecosystem: PackageEcosystem,
+  manifestPath: string,
+  dev: boolean,
+): PackageInventoryEntry[] =>
+  isRecord(value)
+    ? Object.entries(value).map(([name, version]) => ({
+        name,
+        version: typeof version === 'string' ? version : '',
+        ecosystem,
+        manifestPath,
+        dev,
+      }))
+    : [];
+
+const parseNpmManifest =
+  (ecosystem: PackageEcosystem): ManifestParser =>
+  (content, manifestPath) => {
+    const manifest = parseJson(content);
+    if (!manifest) {
+      return [];
+    }
+    return [
+      ...readDependencyMap(
+        manifest.dependencies,
+        ecosystem,
+        manifestPath,
+        false,
+      ),
+      ...readDependencyMap(
+        manifest.peerDependencies,
+        ecosystem,
+        manifestPath,
+        false,
+      ),
+      ...readDependencyMap(
+        manifest.optionalDependencies,
+        ecosystem,
+        manifestPath,
+        false,
+      ),
+      ...readDependencyMap(
+        manifest.devDependencies,
+        ecosystem,
+        manifestPath,
+        true,
+      ),
+    ];
+  };
+
+// `php` and `ext-*`/`lib-*` are platform requirements, not packages.
+const isComposerPackage = (entry: PackageInventoryEntry): boolean =>
+  entry.name.includes('/');
+
+const parseComposerManifest: ManifestParser = (content, manifestPath) => {
+  const manifest = parseJson(content);
+  if (!manifest) {
+    return [];
+  }
+  return [
+    ...readDependencyMap(manifest.require, 'composer', manifestPath, false),
+    ...readDependencyMap(
+      manifest['require-dev'],
+      'composer',
+      manifestPath,
+      true,
+    ),
+  ].filter(isComposerPackage);
+};
+
+/** `name[extras] >= 1.0 ; marker` → name and constraint (PEP 508). */
+const parsePythonRequirement = (
+  requirement: string,
+): { name: string; version: string } | null => {
+  const match = requirement
+    .split(';')[0]
+    .trim()
+    .match(/^([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const version = match[2].trim().replace(/^\(|\)$/g, '');
+  // Direct references (`name @ https://...`) have no version constraint.
+  return { name: match[1], version: version.startsWith('@') ? '' : version };
+};
+
+const parseRequirementsTxt: ManifestParser = (content, manifestPath) => {
+  const dev = /(dev|test)/i.test(getBaseName(manifestPath));
+  return content
+    .split('\n')
+    .map((line) => line.replace(/\s+#.*$/, '').trim())
+    .filter((line) => line && !line.startsWith('#') && !line.startsWith('-'))
+    .map(parsePythonRequirement)
+    .filter((entry): entry is { name: string; version: string } =>
+      Boolean(entry),
+    )
+    .map(({ name, version }) => ({
+      name,
+      version,
+      ecosystem: 'pypi',
+      manifestPath,
+      dev,
+    }));
+};
+
+/**
+ * Splits a TOML document into `[table]` sections. Enough for the
+ * dependency tables of pyproject.toml; not a general TOML parser.
+ */
+const readTomlSections = (content: string): Map<string, string[]> => {
+  const sections = new Map<string, string[]>();
+  let current = '';
+  sections.set(current, []);
+
+  content.split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    const header = line.match(/^\[([^[\]]+)\]$/);
+    if (header) {
+      current = header[1].trim();
+      sections.set(current, sections.get(current) || []);
+      return;
+    }
+    if (line && !line.startsWith('#')) {
+      sections.get(current)!.push(line);
+    }
+  });
+
+  return sections;
+};
+
+const readTomlStrings = (value: string): string[] =>
+  Array.from(value.matchAll(/(['"])((?:(?!\1).)*)\1/g)).map(
+    (match) => match[2],
+  );
+
+/** `key = [ ... ]` arrays, which may span several lines. */
+const readTomlArrays = (lines: string[]): Map<string, string[]> => {
+  const arrays = new Map<string, string[]>();
+  let pendingKey: string | null = null;
+  let buffer = '';
+
+  lines.forEach((line) => {
+    if (pendingKey === null) {
+      const match = line.match(/^([\w.-]+|"[^"]+")\s*=\s*\[(.*)$/);
+      if (!match) {
+        return;
+      }
+      pendingKey = match[1].replace(/"/g, '');
+      buffer = match[2];
+    } else {
+      buffer += `\n${line}`;
+    }
+
+    if (buffer.includes(']')) {
+      arrays.set(
+        pendingKey,
+        readTomlStrings(buffer.slice(0, buffer.lastIndexOf(']'))),
+      );
+      pendingKey = null;
+      buffer = '';
+    }
+  });
+
+  return arrays;
+};
+
+const parsePyprojectToml: ManifestParser = (content, manifestPath) => {
+  const sections = readTomlSections(content);
+  const entries: PackageInventoryEntry[] = [];
+  const pushRequirement = (requirement: string, dev: boolean) => {
+    const parsed = parsePythonRequirement(requirement);
+    if (parsed) {
+      entries.push({ ...parsed, ecosystem: 'pypi', manifestPath, dev });
+    }
+  };
+
+  // PEP 621
+  readTomlArrays(sections.get('project') || [])
+    .get('dependencies')
+    ?.forEach((requirement) => pushRequirement(requirement, false));
+  readTomlArrays(sections.get('project.optional-dependencies') || []).forEach(
+    (requirements, group) =>
+      requirements.forEach((requirement) =>
+        pushRequirement(requirement, /(dev|test|lint)/i.test(group)),
+      ),
+  );
+
+  // Poetry: `name = "^1.0"` or `name = { version = "^1.0", ... }`
+  sections.forEach((lines, section) => {
+    const poetryMatch = section.match(
+      /^tool\.poetry\.(?:(dev-)dependencies|dependencies|group\.([\w-]+)\.dependencies)$/,
+    );
+    if (!poetryMatch) {
+      return;
+    }
+    const dev =
+      Boolean(poetryMatch[1]) || /(dev|test|lint)/i.test(poetryMatch[2] || '');
+    lines.forEach((line) => {
+      const match = line.match(/^([\w.-]+|"[^"]+")\s*=\s*(.+)$/);
+      if (!match) {
+        return;
+      }
+      const name = match[1].replace(/"/g, '');
+      if (name === 'python') {
+        return;
+      }
+      const value = match[2].trim();
+      const version = value.startsWith('{')
+        ? (value.match(/\bversion\s*=\s*(['"])([^'"]*)\1/)?.[2] ?? '')
+        : (readTomlStrings(value)[0] ?? '');
+      entries.push({
+        name,
+        version: version === '*' ? '' : version,
+        ecosystem: 'pypi',
+        manifestPath,
+        dev,
+      });
+    });
+  });
+
+  return entries;
+};
+
+const parseGemfile: ManifestParser = (content, manifestPath) => {
+  const entries: PackageInventoryEntry[] = [];
+  const groupStack: boolean[] = [];
+
+  content.split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const groupMatch = line.match(/^group\s+(.+?)\s+do$/);
+    if (groupMatch) {
+      groupStack.push(/:(development|test)\b/.test(groupMatch[1]));
+      return;
+    }
+    if (/^(?:\w+\b.*\bdo(\s*\|[^|]*\|)?|if\b.*|unless\b.*)$/.test(line)) {
+      groupStack.push(groupStack[groupStack.length - 1] ?? false);
+      return;
+    }
+    if (line === 'end') {
+      groupStack.pop();
+      return;
+    }
+
+    const gemMatch = line.match(/^gem\s+(['"])([^'"]+)\1(.*)$/);
+    if (!gemMatch) {
+      return;
+    }
+    const options = gemMatch[3];
+    // Version constraints are the string arguments before any `key:` option.
+    const versions = readTomlStrings(options.split(/\b\w+:/)[0]);
+    entries.push({
+      name: gemMatch[2],
+      version: versions.join(', '),
+      ecosystem: 'rubygems',
+      manifestPath,
+      dev:
+        groupStack.some(Boolean) ||
+        /\bgroups?:\s*\[?[^\]]*:(development|test)\b/.test(options),
+    });
+  });
+
+  return entries;
+};
+
+const readXmlTag = (xml: string, tag: string): string =>
+  xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1] ?? '';
+
+const parsePomXml: ManifestParser = (content, manifestPath) => {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  const properties = new Map<string, string>();
+  const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/);
+  if (propertiesBlock) {
+    for (const match of propertiesBlock[1].matchAll(
+      /<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g,
+    )) {
+      properties.set(match[1], match[2]);
+    }
+  }
+  const projectVersion = readXmlTag(
+    xml.replace(/<parent>[\s\S]*?<\/parent>/, ''),
+    'version',
+  );
+  const expand = (value: string) =>
+    value.replace(/\$\{([^}]+)\}/g, (placeholder, key: string) =>
+      key === 'project.version' && projectVersion
+        ? projectVersion
+        : (properties.get(key) ?? placeholder),
+    );
+
+  // Plugin dependencies are build tooling, not application packages.
+  const withoutPlugins = xml.replace(/<plugins>[\s\S]*?<\/plugins>/g, '');
+  return Array.from(
+    withoutPlugins.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g),
+  )
+    .map((match) => match[1])
+    .filter((block) => readXmlTag(block, 'artifactId'))
+    .map((block) => ({
+      name: `${readXmlTag(block, 'groupId')}:${readXmlTag(block, 'artifactId')}`,
+      version: expand(readXmlTag(block, 'version')),
+      ecosystem: 'maven' as const,
+      manifestPath,
+      dev: readXmlTag(block, 'scope') === 'test',
+    }));
+};
+
+const MANIFEST_PARSERS: Array<{
+  matches: (fileName: string) => boolean;
+  parse: ManifestParser;
+}> = [
+  {
+    matches: (name) => name === 'package.json',
+    parse: parseNpmManifest('npm'),
+  },
+  {
+    matches: (name) => name === 'bower.json',
+    parse: parseNpmManifest('bower'),
+  },
+  { matches: (name) => name === 'composer.json', parse: parseComposerManifest },
+  {
+    matches: (name) => /^requirements([-_.][\w.-]+)?\.txt$/i.test(name),
+    parse: parseRequirementsTxt,
+  },
+  { matches: (name) => name === 'pyproject.toml', parse: parsePyprojectToml },
+  { matches: (name) => name === 'Gemfile', parse: parseGemfile },
+  { matches: (name) => name === 'pom.xml', parse: parsePomXml },
+];
+
+const VENDORED_DIRECTORY_PATTERN =
+  /(^|\/)(node_modules|bower_components|vendor|site-packages)\//;
+
+/** Manifests the inventory understands, outside vendored directories. */
+export const isPackageManifest = (path: string): boolean =>
+  !VENDORED_DIRECTORY_PATTERN.test(path) &&
+  MANIFEST_PARSERS.some(({ matches }) => matches(getBaseName(path)));
+
+export const parsePackageManifest = (
+  content: string,
+  manifestPath: string,
+): PackageInventoryEntry[] => {
+  const parser = MANIFEST_PARSERS.find(({ matches }) =>
+    matches(getBaseName(manifestPath)),
+  );
+  return parser ? parser.parse(content, manifestPath) : [];
+};
+
+/**
+ * Merges manifests into one inventory. A package declared in several
+ * manifests keeps its first entry, so pass root manifests first; it counts
+ * as a runtime dependency if any manifest declares it as one.
+ */
+export const buildPackageInventory = (
+  manifests: Array<{ path: string; content: string }>,
+): PackageInventoryEntry[] => {
+  const entries = new Map<string, PackageInventoryEntry>();
+  manifests.forEach(({ path, content }) => {
+    parsePackageManifest(content, path).forEach((entry) => {
+      const key = `${entry.ecosystem}:${entry.name.toLowerCase()}`;
+      const existing = entries.get(key);
+      if (!existing) {
+        entries.set(key, entry);
+      } else if (existing.dev && !entry.dev) {
+        entries.set(key, { ...existing, dev: false });
+      }
+    });
+  });
+  return Array.from(entries.values());
+};
+
+/** One line per package for the analysis prompt. */
+export const formatPackageInventory = (
+  inventory: PackageInventoryEntry[],
+): string =>
+  inventory.length > 0
+    ? inventory
+        .map(
+          (entry) =>
+            `- [${entry.ecosystem}] ${entry.name}${entry.version ? ` ${entry.version}` : ''}${entry.dev ? ' (dev)' : ''} — ${entry.manifestPath}`,
+        )
+        .join('\n')
+    : 'No package manifests found.';
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeReachability,
+  detectEntryPoints,
+  findUnreachableFiles,
+  isReachabilityInput,
+} from './reachability';
+
+const entryPaths = (filePaths: string[], contents: Record<string, string>) =>
+  detectEntryPoints(filePaths, contents).map((entryPoint) => entryPoint.path);
+
+describe('reachability', () => {
+  it('reads code, markup and entry manifests only', () => {
+    expect(isReachabilityInput('src/app.js')).toBe(true);
+    expect(isReachabilityInput('public/index.html')).toBe(true);
+    expect(isReachabilityInput('package.json')).toBe(true);
+    expect(isReachabilityInput('styles/site.css')).toBe(false);
+    expect(isReachabilityInput('requirements.txt')).toBe(false);
+  });
+
+  it('detects entry points from manifests, script tags and conventions', () => {
+    const filePaths = [
+      'package.json',
+      'index.html',
+      'js/widget.js',
+      'js/cart.js',
+      'lib/server.js',
+      'tools/build.js',
+      'pages/about.jsx',
+      'blog/urls.py',
+      'cli/run.py',
+      'src/utils.test.js',
+      'webpack.config.js',
+      'orphan.js',
+    ];
+    const contents = {
+      'package.json': JSON.stringify({
+        main: 'lib/server',
+        scripts: { build: 'node tools/build.js --prod' },
+      }),
+      'index.html':
+        '<script src="js/widget.js?v=2"></script><a href="https://example.com/x.js">x</a>',
+      'cli/run.py': 'if __name__ == "__main__":\n    main()\n',
+    };
+
+    expect(entryPaths(filePaths, contents)).toEqual([
+      'blog/urls.py',
+      'cli/run.py',
+      'js/widget.js',
+      'lib/server.js',
+      'pages/about.jsx',
+      'src/utils.test.js',
+      'tools/build.js',
+      'webpack.config.js',
+    ]);
+  });
+
+  it('resolves root-relative markup references and PHP form targets', () => {
+    expect(
+      entryPaths(['views/layout.php', 'assets/app.js', 'handlers/save.php'], {
+        'views/layout.php':
+          '<script src="/assets/app.js"></script><form action="../handlers/save.php">',
+      }),
+    ).toEqual(['assets/app.js', 'handlers/save.php', 'views/layout.php']);
+  });
+
+  it('walks imports from entry points and reports the rest', () => {
+    const graph = {
+      'src/index.js': ['src/app'],
+      'src/app.jsx': ['src/utils/format'],
+      'src/utils/format.js': [],
+      'src/legacy/old.js': ['src/utils/format'],
+      'src/legacy/older.js': ['src/legacy/old'],
+    };
+
+    expect(
+      findUnreachableFiles(graph, Object.keys(graph), ['src/index.js']),
+    ).toEqual(['src/legacy/old.js', 'src/legacy/older.js']);
+  });
+
+  it('treats Java and Go package siblings as reachable', () => {
+    const graph = {
+      'src/com/acme/App.java': [],
+      'src/com/acme/Helper.java': [],
+      'src/com/acme/unused/Dead.java': [],
+    };
+
+    expect(
+      findUnreachableFiles(graph, Object.keys(graph), [
+        'src/com/acme/App.java',
+      ]),
+    ).toEqual(['src/com/acme/unused/Dead.java']);
+  });
+
+  it('reports nothing when no entry point is found', () => {
+    const graph = { 'lib/a.js': [], 'lib/b.js': [] };
+
+    expect(
+      analyzeReachability(graph, Object.keys(graph), {
+        'lib/a.js': '',
+        'lib/b.js': '',
+      }),
+    ).toEqual({ entryPoints: [], unreachableFiles: [] });
+  });
+});
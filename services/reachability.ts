@@ -0,0 +1,347 @@
+import { DependencyGraph } from './dependencyGraph';
+import { joinRepoPath } from './importResolver';
+
+/**
+ * Unreachable-file detection: files no entry point reaches through the
+ * dependency graph. Entry points come from package manifests, HTML/template
+ * references and framework conventions (routes, autoloaded directories,
+ * tests, tooling config). Anything a convention may load implicitly counts
+ * as reachable, so a file is only reported when nothing plausibly uses it.
+ */
+export interface EntryPoint {
+  path: string;
+  reason: string;
+}
+
+export interface ReachabilityResult {
+  entryPoints: EntryPoint[];
+  unreachableFiles: string[];
+}
+
+// Files the dependency graph can follow; only these can be reported.
+const CANDIDATE_EXTENSION_PATTERN =
+  /\.(m?[jt]sx?|cjs|vue|svelte|php|phtml|py|rb|java|kt|go)$/i;
+
+// Files whose markup can reference scripts and pages.
+const MARKUP_EXTENSION_PATTERN =
+  /\.(html?|php|phtml|ejs|erb|hbs|handlebars|twig|jsp|njk)$/i;
+
+// Languages whose files see same-package siblings without an import.
+const PACKAGE_SCOPED_EXTENSION_PATTERN = /\.(java|kt|go)$/i;
+
+const SOURCE_EXTENSIONS = [
+  'js',
+  'jsx',
+  'ts',
+  'tsx',
+  'mjs',
+  'cjs',
+  'vue',
+  'svelte',
+  'php',
+  'py',
+  'rb',
+];
+
+const CONVENTION_ENTRY_POINTS: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern:
+      /(^|\/)(__tests__|__mocks__|tests?|spec|e2e|cypress)\/|\.(test|spec|stories)\.[^/]+$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$|Tests?\.(java|kt)$/i,
+    reason: 'test or story',
+  },
+  {
+    pattern:
+      /(^|\/)([^/]+\.config|\.[^/]+rc)\.[cm]?[jt]s$|(^|\/)(gruntfile|gulpfile|jakefile|rakefile|webpack\.[^/]+|setup|manage|conftest|wsgi|asgi|fabfile)(\.[^/]+)?$/i,
+    reason: 'tooling config or script',
+  },
+  {
+    pattern:
+      /^((src|app|lib|client|server|public|web|www|frontend|backend)\/)?(index|main|app|server|bootstrap|start|cli|application)\.[^/]+$/i,
+    reason: 'conventional entry file',
+  },
+  {
+    pattern:
+      /(^|\/)(pages|routes|controllers?|models?|views|helpers|mailers|jobs|channels|middlewares?|migrations|seeds|seeders|commands|console|tasks|plugins|layouts|store|composables|providers|handlers|bin|cmd|scripts|config|db|database)\//i,
+    reason: 'framework convention directory',
+  },
+  {
+    pattern:
+      /(^|\/)(page|layout|route|loading|error|not-found|template|default|middleware)\.[jt]sx?$/i,
+    reason: 'Next.js app router file',
+  },
+  {
+    pattern:
+      /(^|\/)(urls|views|models|admin|apps|settings|forms|signals|tasks|serializers|__init__|__main__)\.py$/i,
+    reason: 'Django/Python convention',
+  },
+  {
+    // Legacy PHP sites serve every top-level script directly.
+    pattern: /^((public|web|htdocs|www|public_html)\/)?[^/]+\.(php|phtml)$/i,
+    reason: 'directly served PHP page',
+  },
+];
+
+const CONTENT_ENTRY_POINTS: Array<{
+  extensions: RegExp;
+  pattern: RegExp;
+  reason: string;
+}> = [
+  {
+    extensions: /\.py$/i,
+    pattern: /^if\s+__name__\s*==\s*['"]__main__['"]/m,
+    reason: 'runnable Python script',
+  },
+  {
+    extensions: /\.go$/i,
+    pattern: /^package\s+main\b/m,
+    reason: 'Go main package',
+  },
+  {
+    extensions: /\.(java|kt)$/i,
+    pattern:
+      /\bstatic\s+void\s+main\s*\(|^\s*fun\s+main\s*\(|@(SpringBootApplication|RestController|Controller|Service|Component|Repository|Configuration|Entity|WebServlet|WebListener|Path)\b/m,
+    reason: 'JVM main class or framework-managed bean',
+  },
+  {
+    extensions: /\.(php|phtml)$/i,
+    pattern:
+      /\b(Route|\$app|\$router)\s*(::|->)\s*(get|post|put|patch|delete|any|match|group)\s*\(/,
+    reason: 'route definitions',
+  },
+];
+
+const getParentDirectory = (path: string): string =>
+  path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isReachabilityCandidate = (path: string): boolean =>
+  CANDIDATE_EXTENSION_PATTERN.test(path);
+
+const isReachabilityMarkup = (path: string): boolean =>
+  MARKUP_EXTENSION_PATTERN.test(path);
+
+const ENTRY_MANIFEST_NAMES = new Set([
+  'package.json',
+  'composer.json',
+  'bower.json',
+]);
+
+const isEntryPointManifest = (path: string): boolean =>
+  ENTRY_MANIFEST_NAMES.has(path.split('/').pop() || '');
+
+/** Files whose contents reachability analysis needs. */
+export const isReachabilityInput = (path: string): boolean =>
+  isReachabilityCandidate(path) ||
+  isReachabilityMarkup(path) ||
+  isEntryPointManifest(path);
+
+/** Maps an extensionless or directory reference onto a known file. */
+const createPathLookup = (knownPaths: string[]) => {
+  const known = new Set(knownPaths);
+  return (target: string): string | null => {
+    if (!target) {
+      return null;
+    }
+    if (known.has(target)) {
+      return target;
+    }
+    const candidates = [
+      ...SOURCE_EXTENSIONS.map((extension) => `${target}.${extension}`),
+      ...SOURCE_EXTENSIONS.map((extension) => `${target}/index.${extension}`),
+    ];
+    return candidates.find((candidate) => known.has(candidate)) ?? null;
+  };
+};
+
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (isRecord(value)) {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+};
+
+/**
+ * `main`/`module`/`browser`/`bin`/`exports` and files run by `scripts` in
+ * package.json, `main` in bower.json, and `bin`/`autoload.files` in
+ * composer.json.
+ */
+const extractManifestReferences = (
+  content: string,
+  manifestPath: string,
+): string[] => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!isRecord(manifest)) {
+    return [];
+  }
+
+  const name = manifestPath.split('/').pop();
+  if (name === 'composer.json') {
+    const autoload = isRecord(manifest.autoload) ? manifest.autoload : {};
+    return [...collectStrings(manifest.bin), ...collectStrings(autoload.files)];
+  }
+
+  const references = [
+    ...collectStrings(manifest.main),
+    ...collectStrings(manifest.module),
+    ...(typeof manifest.browser === 'string' ? [manifest.browser] : []),
+    ...collectStrings(manifest.bin),
+    ...collectStrings(manifest.exports),
+  ];
+  collectStrings(manifest.scripts).forEach((script) => {
+    for (const match of script.matchAll(
+      /(?:^|[\s=])((?:\.{1,2}\/)?[\w@./-]+\.(?:m?[jt]sx?|cjs|vue|py|php|rb))\b/g,
+    )) {
+      references.push(match[1]);
+    }
+  });
+  return references;
+};
+
+/** `src`, `href` and `action` attributes pointing at repo files. */
+const extractMarkupReferences = (content: string): string[] =>
+  Array.from(
+    content.matchAll(/\b(?:src|href|action)\s*=\s*(['"])([^'"<>]+)\1/gi),
+  )
+    .map((match) => match[2].split(/[?#]/)[0].trim())
+    .filter((reference) => reference && !/^([a-z]+:|\/\/)/i.test(reference));
+
+const resolveReference = (reference: string, fromPath: string): string =>
+  reference.startsWith('/')
+    ? joinRepoPath('', reference.slice(1))
+    : joinRepoPath(getParentDirectory(fromPath), reference);
+
+export const detectEntryPoints = (
+  filePaths: string[],
+  contents: Record<string, string>,
+): EntryPoint[] => {
+  const entryPoints = new Map<string, string>();
+  const addEntryPoint = (path: string | null, reason: string) => {
+    if (path && isReachabilityCandidate(path) && !entryPoints.has(path)) {
+      entryPoints.set(path, reason);
+    }
+  };
+  const lookup = createPathLookup(filePaths);
+
+  Object.entries(contents).forEach(([path, content]) => {
+    if (isEntryPointManifest(path)) {
+      extractManifestReferences(content, path).forEach((reference) =>
+        addEntryPoint(
+          lookup(joinRepoPath(getParentDirectory(path), reference)),
+          `referenced by ${path}`,
+        ),
+      );
+    }
+    if (isReachabilityMarkup(path)) {
+      extractMarkupReferences(content).forEach((reference) =>
+        addEntryPoint(
+          lookup(resolveReference(reference, path)),
+          `referenced by ${path}`,
+        ),
+      );
+    }
+    CONTENT_ENTRY_POINTS.forEach(({ extensions, pattern, reason }) => {
+      if (extensions.test(path) && pattern.test(content)) {
+        addEntryPoint(path, reason);
+      }
+    });
+  });
+
+  filePaths.forEach((path) => {
+    const convention = CONVENTION_ENTRY_POINTS.find(({ pattern }) =>
+      pattern.test(path),
+    );
+    if (convention) {
+      addEntryPoint(path, convention.reason);
+    }
+  });
+
+  return Array.from(entryPoints, ([path, reason]) => ({ path, reason })).sort(
+    (a, b) => a.path.localeCompare(b.path),
+  );
+};
+
+/**
+ * Candidate files (those with content) that no entry point reaches. Java,
+ * Kotlin and Go files reach their package siblings implicitly.
+ */
+export const findUnreachableFiles = (
+  graph: DependencyGraph,
+  candidatePaths: string[],
+  entryPaths: string[],
+): string[] => {
+  const graphPaths = Object.keys(graph);
+  // Same matching as getRelatedFiles; every file an import could mean counts
+  // as reached, so ambiguity never reports a used file.
+  const resolveDependency = (dep: string): string[] =>
+    graphPaths.filter(
+      (path) =>
+        path === dep ||
+        path.startsWith(`${dep}.`) ||
+        path.startsWith(`${dep}/index.`),
+    );
+  const siblingsByDirectory = new Map<string, string[]>();
+  graphPaths
+    .filter((path) => PACKAGE_SCOPED_EXTENSION_PATTERN.test(path))
+    .forEach((path) => {
+      const directory = getParentDirectory(path);
+      siblingsByDirectory.set(directory, [
+        ...(siblingsByDirectory.get(directory) || []),
+        path,
+      ]);
+    });
+
+  const reached = new Set<string>();
+  const queue = [...entryPaths];
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (reached.has(path)) {
+      continue;
+    }
+    reached.add(path);
+
+    (graph[path] || []).forEach((dep) => {
+      queue.push(
+        ...resolveDependency(dep).filter((resolved) => !reached.has(resolved)),
+      );
+    });
+    if (PACKAGE_SCOPED_EXTENSION_PATTERN.test(path)) {
+      queue.push(...(siblingsByDirectory.get(getParentDirectory(path)) || []));
+    }
+  }
+
+  return candidatePaths.filter((path) => !reached.has(path)).sort();
+};
+
+export const analyzeReachability = (
+  graph: DependencyGraph,
+  filePaths: string[],
+  contents: Record<string, string>,
+): ReachabilityResult => {
+  const entryPoints = detectEntryPoints(filePaths, contents);
+  const candidatePaths = Object.keys(contents).filter(isReachabilityCandidate);
+  return {
+    entryPoints,
+    // Without an entry point every file would be reported; say nothing.
+    unreachableFiles:
+      entryPoints.length > 0
+        ? findUnreachableFiles(
+            graph,
+            candidatePaths,
+            entryPoints.map((entryPoint) => entryPoint.path),
+          )
+        : [],
+  };
+};
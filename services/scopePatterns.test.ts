@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileScopeRules,
+  createScopeFilter,
+  parseGitAttributes,
+  parseGitIgnore,
+  toLiteralScopePattern,
+} from './scopePatterns';
+
+const paths = [
+  'index.js',
+  'src/app.js',
+  'src/app.min.js',
+  'src/legacy/old.js',
+  'src/legacy/keep/util.js',
+  'vendor/jquery.js',
+  'docs/guide.md',
+  'build/out.js',
+];
+
+describe('scopePatterns', () => {
+  it('applies gitignore-style excludes with negation', () => {
+    const isInScope = createScopeFilter({
+      patterns: {
+        include: [],
+        exclude: [
+          '**/*.min.js',
+          'vendor/**',
+          'src/legacy/',
+          '!src/legacy/keep/**',
+        ],
+      },
+    });
+
+    expect(paths.filter(isInScope)).toEqual([
+      'index.js',
+      'src/app.js',
+      'src/legacy/keep/util.js',
+      'docs/guide.md',
+      'build/out.js',
+    ]);
+  });
+
+  it('combines include patterns with directory filters', () => {
+    const isInScope = createScopeFilter({
+      includeDirectories: ['src'],
+      excludeDirectories: ['src/legacy'],
+      patterns: { include: ['*.md'], exclude: [] },
+    });
+
+    expect(paths.filter(isInScope)).toEqual([
+      'src/app.js',
+      'src/app.min.js',
+      'docs/guide.md',
+    ]);
+  });
+
+  it('scopes nested .gitignore rules to their directory', () => {
+    const rules = [
+      ...compileScopeRules(parseGitIgnore('# build output\n/build\n')),
+      ...compileScopeRules(parseGitIgnore('*.js\n!keep/\n'), 'src/legacy'),
+    ];
+    const isInScope = createScopeFilter({ repoRules: rules });
+
+    expect(paths.filter(isInScope)).toEqual([
+      'index.js',
+      'src/app.js',
+      'src/app.min.js',
+      'src/legacy/keep/util.js',
+      'vendor/jquery.js',
+      'docs/guide.md',
+    ]);
+  });
+
+  it('excludes single files through literal patterns', () => {
+    const exclude = ['src/app.js', 'weird/[draft]*.js'].map(
+      toLiteralScopePattern,
+    );
+    const isInScope = createScopeFilter({
+      patterns: { include: [], exclude },
+    });
+
+    expect(exclude[1]).toBe('/weird/\\[draft]\\*.js');
+    expect(
+      [...paths, 'weird/[draft]*.js', 'weird/d.js', 'lib/src/app.js'].filter(
+        isInScope,
+      ),
+    ).toEqual([
+      ...paths.filter((path) => path !== 'src/app.js'),
+      'weird/d.js',
+      'lib/src/app.js',
+    ]);
+  });
+
+  it('reads linguist flags from .gitattributes', () => {
+    expect(
+      parseGitAttributes(
+        [
+          'vendor/** linguist-vendored',
+          '*.min.js linguist-generated=true',
+          'vendor/ours/** -linguist-vendored',
+          '*.js text eol=lf',
+        ].join('\n'),
+      ),
+    ).toEqual(['vendor/**', '*.min.js', '!vendor/ours/**']);
+  });
+});
@@ -0,0 +1,225 @@
+import { ScopePatterns } from '../types';
+
+/**
+ * Gitignore-style path patterns used to scope which source files are
+ * analyzed. Rules are evaluated in order and the last match wins, so a later
+ * `!pattern` re-includes files an earlier rule excluded. Unlike git, a
+ * negation can re-include files below an excluded directory (`vendor/**`
+ * followed by `!vendor/patched/**` keeps the patched files).
+ */
+export interface ScopeRule {
+  pattern: string; // As written, for logs
+  negated: boolean;
+  directoryOnly: boolean; // Trailing slash: only matches directories
+  regex: RegExp;
+}
+
+export interface ScopeFilterOptions {
+  includeDirectories?: string[];
+  excludeDirectories?: string[];
+  patterns?: ScopePatterns;
+  repoRules?: ScopeRule[]; // From the repository's .gitignore/.gitattributes
+}
+
+// linguist attributes that mark files as not worth migrating.
+const LINGUIST_EXCLUDE_ATTRIBUTES = new Set([
+  'linguist-generated',
+  'linguist-vendored',
+]);
+
+export const EMPTY_SCOPE_PATTERNS: ScopePatterns = { include: [], exclude: [] };
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const globToRegExpSource = (glob: string): string => {
+  let source = '';
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    const atSegmentStart = index === 0 || glob[index - 1] === '/';
+
+    if (char === '*' && glob[index + 1] === '*' && atSegmentStart) {
+      if (glob[index + 2] === '/') {
+        // "**/" matches zero or more directories.
+        source += '(?:.*/)?';
+        index += 2;
+        continue;
+      }
+      if (index + 2 === glob.length) {
+        // Trailing "**" matches everything inside.
+        source += '.*';
+        index += 1;
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      source += '[^/]*';
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      continue;
+    }
+
+    if (char === '[') {
+      const end = glob.indexOf(']', index + 2);
+      if (end > index) {
+        const body = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+        source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+        index = end;
+        continue;
+      }
+    }
+
+    if (char === '\\' && index + 1 < glob.length) {
+      source += escapeRegExp(glob[index + 1]);
+      index += 1;
+      continue;
+    }
+
+    source += escapeRegExp(char);
+  }
+
+  return source;
+};
+
+/** Trims pattern lists, dropping blanks and `#` comments but keeping order. */
+export const normalizeScopePatterns = (patterns: string[]): string[] =>
+  patterns
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern && !pattern.startsWith('#'))
+    .filter((pattern, index, all) => all.indexOf(pattern) === index);
+
+/** A root-anchored pattern matching exactly `path`, glob characters escaped. */
+export const toLiteralScopePattern = (path: string): string =>
+  `/${path.replace(/[*?[\\]/g, '\\$&')}`;
+
+/**
+ * Compiles patterns relative to `baseDir` (the directory holding the
+ * .gitignore, or '' for the project root).
+ */
+export const compileScopeRules = (
+  patterns: string[],
+  baseDir = '',
+): ScopeRule[] => {
+  const basePrefix = baseDir ? `${escapeRegExp(baseDir)}/` : '';
+
+  return normalizeScopePatterns(patterns).flatMap((pattern) => {
+    let body = pattern;
+    const negated = body.startsWith('!');
+    if (negated) {
+      body = body.slice(1);
+    }
+
+    const directoryOnly = body.endsWith('/');
+    body = body.replace(/\/+$/, '');
+    // A slash anywhere but the end anchors the pattern to the base directory.
+    const anchored = body.includes('/');
+    body = body.replace(/^\/+/, '');
+    if (!body) {
+      return [];
+    }
+
+    const glob = globToRegExpSource(body);
+    const source = anchored
+      ? `^${basePrefix}${glob}$`
+      : `^${basePrefix}(?:.*/)?${glob}$`;
+
+    return [{ pattern, negated, directoryOnly, regex: new RegExp(source) }];
+  });
+};
+
+const ruleMatches = (rule: ScopeRule, path: string): boolean => {
+  const parts = path.split('/');
+  // A rule matching any parent directory applies to every file inside it.
+  for (let length = 1; length <= parts.length; length++) {
+    const isDirectory = length < parts.length;
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.regex.test(parts.slice(0, length).join('/'))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/** Last matching rule wins; null when no rule matched. */
+const matchRules = (rules: ScopeRule[], path: string): boolean | null => {
+  let matched: boolean | null = null;
+  rules.forEach((rule) => {
+    if (ruleMatches(rule, path)) {
+      matched = !rule.negated;
+    }
+  });
+  return matched;
+};
+
+export const parseGitIgnore = (content: string): string[] =>
+  normalizeScopePatterns(content.split(/\r?\n/));
+
+/**
+ * Turns `linguist-generated` / `linguist-vendored` attributes into exclude
+ * patterns; `-attr` or `attr=false` re-includes.
+ */
+export const parseGitAttributes = (content: string): string[] => {
+  const patterns: string[] = [];
+
+  content.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const [pattern, ...attributes] = trimmed.split(/\s+/);
+    attributes.forEach((attribute) => {
+      const unset = attribute.startsWith('-') || attribute.startsWith('!');
+      const [name, value] = attribute.replace(/^[-!]/, '').split('=');
+      if (!LINGUIST_EXCLUDE_ATTRIBUTES.has(name)) {
+        return;
+      }
+      const excluded = !unset && value !== 'false';
+      patterns.push(excluded ? pattern : `!${pattern}`);
+    });
+  });
+
+  return patterns;
+};
+
+const directoryPatterns = (directories: string[] = []): string[] =>
+  directories
+    .map((directory) => directory.trim().replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .map((directory) => `/${directory}/`);
+
+/**
+ * Builds a predicate that keeps a file when it matches the include set (or
+ * there is none) and is not excluded. Repository rules run first so user
+ * patterns can override them.
+ */
+export const createScopeFilter = ({
+  includeDirectories,
+  excludeDirectories,
+  patterns = EMPTY_SCOPE_PATTERNS,
+  repoRules = [],
+}: ScopeFilterOptions): ((path: string) => boolean) => {
+  const includeRules = compileScopeRules([
+    ...directoryPatterns(includeDirectories),
+    ...patterns.include,
+  ]);
+  const excludeRules = [
+    ...repoRules,
+    ...compileScopeRules(patterns.exclude),
+    ...compileScopeRules(directoryPatterns(excludeDirectories)),
+  ];
+
+  return (path) => {
+    if (includeRules.length > 0 && matchRules(includeRules, path) !== true) {
+      return false;
+    }
+    return matchRules(excludeRules, path) !== true;
+  };
+};
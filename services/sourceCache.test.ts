@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearSourceCache,
+  getCachedBlob,
+  getCachedResponse,
+  getSourceCacheStats,
+  putCachedBlob,
+  putCachedResponse,
+} from './sourceCache';
+
+describe('sourceCache', () => {
+  beforeEach(async () => {
+    await clearSourceCache();
+  });
+
+  it('stores blobs by SHA and responses by URL', async () => {
+    await putCachedBlob('sha-1', 'console.log(1);');
+    await putCachedResponse('https://api.example/tree', '"etag-1"', '{}');
+
+    await expect(getCachedBlob('sha-1')).resolves.toBe('console.log(1);');
+    await expect(getCachedBlob('sha-2')).resolves.toBeNull();
+    await expect(
+      getCachedResponse('https://api.example/tree'),
+    ).resolves.toMatchObject({ etag: '"etag-1"', body: '{}' });
+  });
+
+  it('reports and clears its contents', async () => {
+    await putCachedBlob('sha-1', 'abcd');
+    await putCachedBlob('sha-2', 'ef');
+    await putCachedResponse('https://api.example/repo', '"r"', '{"a":1}');
+
+    await expect(getSourceCacheStats()).resolves.toEqual({
+      blobCount: 2,
+      responseCount: 1,
+      totalBytes: 13,
+    });
+
+    await clearSourceCache();
+    await expect(getSourceCacheStats()).resolves.toEqual({
+      blobCount: 0,
+      responseCount: 0,
+      totalBytes: 0,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { SourceCacheStats } from '../types';
+
+interface CachedBlob {
+  sha: string;
+  content: string;
+  storedAt: number;
+}
+
+export interface CachedResponse {
+  url: string;
+  etag: string;
+  body: string;
+  storedAt: number;
+}
+
+const DB_NAME = 'dustoff-source-cache';
+const DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+const RESPONSE_STORE = 'responses';
+
+type StoreName = typeof BLOB_STORE | typeof RESPONSE_STORE;
+
+// Used when IndexedDB is unavailable (private browsing, tests), so lookups
+// still work for the lifetime of the page.
+const memoryStores: Record<StoreName, Map<string, unknown>> = {
+  [BLOB_STORE]: new Map(),
+  [RESPONSE_STORE]: new Map(),
+};
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (databasePromise) {
+    return databasePromise;
+  }
+
+  databasePromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE, { keyPath: 'sha' });
+        }
+        if (!db.objectStoreNames.contains(RESPONSE_STORE)) {
+          db.createObjectStore(RESPONSE_STORE, { keyPath: 'url' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return databasePromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readEntry = async <T>(
+  storeName: StoreName,
+  key: string,
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) {
+    return (memoryStores[storeName].get(key) as T | undefined) ?? null;
+  }
+
+  try {
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return ((await toPromise(store.get(key))) as T | undefined) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const writeEntry = async (
+  storeName: StoreName,
+  key: string,
+  value: CachedBlob | CachedResponse,
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStores[storeName].set(key, value);
+    return;
+  }
+
+  try {
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await toPromise(store.put(value));
+  } catch (error) {
+    // Quota errors only cost a refetch next time.
+    console.warn('Could not write to the source cache.', error);
+  }
+};
+
+const listEntries = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  if (!db) {
+    return [...memoryStores[storeName].values()] as T[];
+  }
+
+  try {
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return (await toPromise(store.getAll())) as T[];
+  } catch {
+    return [];
+  }
+};
+
+/** File contents for a git blob SHA; blobs are immutable, so hits never go stale. */
+export const getCachedBlob = async (sha: string): Promise<string | null> => {
+  const entry = await readEntry<CachedBlob>(BLOB_STORE, sha);
+  return entry?.content ?? null;
+};
+
+export const putCachedBlob = (sha: string, content: string): Promise<void> =>
+  writeEntry(BLOB_STORE, sha, { sha, content, storedAt: Date.now() });
+
+/** Last 200 response for an API URL, revalidated with If-None-Match. */
+export const getCachedResponse = (
+  url: string,
+): Promise<CachedResponse | null> =>
+  readEntry<CachedResponse>(RESPONSE_STORE, url);
+
+export const putCachedResponse = (
+  url: string,
+  etag: string,
+  body: string,
+): Promise<void> =>
+  writeEntry(RESPONSE_STORE, url, {
+    url,
+    etag,
+    body,
+    storedAt: Date.now(),
+  });
+
+export const getSourceCacheStats = async (): Promise<SourceCacheStats> => {
+  const blobs = await listEntries<CachedBlob>(BLOB_STORE);
+  const responses = await listEntries<CachedResponse>(RESPONSE_STORE);
+
+  return {
+    blobCount: blobs.length,
+    responseCount: responses.length,
+    totalBytes:
+      blobs.reduce((sum, blob) => sum + blob.content.length, 0) +
+      responses.reduce((sum, response) => sum + response.body.length, 0),
+  };
+};
+
+export const clearSourceCache = async (): Promise<void> => {
+  memoryStores[BLOB_STORE].clear();
+  memoryStores[RESPONSE_STORE].clear();
+
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction([BLOB_STORE, RESPONSE_STORE], 'readwrite');
+  await Promise.all([
+    toPromise(transaction.objectStore(BLOB_STORE).clear()),
+    toPromise(transaction.objectStore(RESPONSE_STORE).clear()),
+  ]);
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSourceProvider,
+  hasAmbiguousSourceRef,
+  normalizeSourceUrl,
+  parseSourceUrl,
+} from './sourceHosts';
+import { SelfHostedServerConfig } from '../types';
+
+describe('sourceHosts', () => {
+  describe('parseSourceUrl', () => {
+    it('recognises public GitHub, GitLab and Bitbucket links', () => {
+      expect(
+        parseSourceUrl('https://github.com/owner/repo/tree/main/apps/web'),
+      ).toEqual({
+        kind: 'github',
+        webBaseUrl: 'https://github.com',
+        owner: 'owner',
+        repo: 'repo',
+        ref: 'main',
+        subpath: 'apps/web',
+      });
+      expect(
+        parseSourceUrl(
+          'https://gitlab.com/group/subgroup/project/-/tree/develop/src',
+        ),
+      ).toEqual({
+        kind: 'gitlab',
+        webBaseUrl: 'https://gitlab.com',
+        owner: 'group/subgroup',
+        repo: 'project',
+        ref: 'develop',
+        subpath: 'src',
+      });
+      expect(
+        parseSourceUrl('bitbucket.org/workspace/repo.git/src/v1.2.0/'),
+      ).toEqual({
+        kind: 'bitbucket',
+        webBaseUrl: 'https://bitbucket.org',
+        owner: 'workspace',
+        repo: 'repo',
+        ref: 'v1.2.0',
+        subpath: '',
+      });
+    });
+
+    it('only accepts self-hosted links for the configured server', () => {
+      const gitea: SelfHostedServerConfig = {
+        kind: 'gitea',
+        baseUrl: 'https://git.example.com/forge/',
+      };
+      const url =
+        'https://git.example.com/forge/team/app/src/branch/release/2.0/lib';
+
+      expect(parseSourceUrl(url)).toBeNull();
+      expect(parseSourceUrl(url, gitea, ['release/2.0'])).toEqual({
+        kind: 'gitea',
+        webBaseUrl: 'https://git.example.com/forge',
+        owner: 'team',
+        repo: 'app',
+        ref: 'release/2.0',
+        subpath: 'lib',
+      });
+      expect(hasAmbiguousSourceRef(url, gitea)).toBe(true);
+      expect(normalizeSourceUrl(url, gitea)).toBe(
+        'https://git.example.com/forge/team/app',
+      );
+    });
+  });
+
+  describe('createSourceProvider', () => {
+    it('picks the provider for the host', () => {
+      const ghes: SelfHostedServerConfig = {
+        kind: 'github',
+        baseUrl: 'https://github.corp.example',
+      };
+
+      expect(
+        createSourceProvider('https://gitlab.com/group/project')?.kind,
+      ).toBe('gitlab');
+      expect(
+        createSourceProvider('https://bitbucket.org/team/repo')?.label,
+      ).toBe('team/repo');
+      expect(
+        createSourceProvider('https://github.corp.example/org/app', {
+          selfHostedServer: ghes,
+        })?.kind,
+      ).toBe('github');
+      expect(createSourceProvider('https://example.com/org/app')).toBeNull();
+    });
+  });
+});
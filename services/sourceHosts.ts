@@ -0,0 +1,292 @@
+import { GitHubRateLimitInfo, SelfHostedServerConfig } from '../types';
+import { createBitbucketSourceProvider } from './bitbucketService';
+import { createGiteaSourceProvider } from './giteaService';
+import { createGitHubSourceProvider } from './githubService';
+import { createGitLabSourceProvider } from './gitlabService';
+import {
+  createLocalSourceProvider,
+  isLocalSourceUrl,
+} from './localSourceService';
+import {
+  RemoteSourceKind,
+  SourceProvider,
+  splitTreeRef,
+  withProtocol,
+} from './sourceProvider';
+
+export interface ParsedSourceUrl {
+  kind: RemoteSourceKind;
+  webBaseUrl: string; // e.g. https://github.com or https://git.example.com
+  owner: string; // Namespace; may contain slashes for GitLab subgroups
+  repo: string;
+  ref: string | null; // From the branch/folder link, null for the default branch
+  subpath: string;
+}
+
+export interface SourceProviderFactoryOptions {
+  selfHostedServer?: SelfHostedServerConfig;
+  token?: string;
+  useGitHubServerProxy?: boolean; // Only applies to github.com
+  onRateLimitUpdate?: (info: GitHubRateLimitInfo) => void;
+}
+
+interface RepoPathParts {
+  owner: string;
+  repo: string;
+  treeSegments: string[]; // Path segments holding "<ref>/<subpath>"
+}
+
+const PUBLIC_SOURCE_HOSTS: Record<
+  string,
+  { kind: RemoteSourceKind; webBaseUrl: string }
+> = {
+  'github.com': { kind: 'github', webBaseUrl: 'https://github.com' },
+  'www.github.com': { kind: 'github', webBaseUrl: 'https://github.com' },
+  'gitlab.com': { kind: 'gitlab', webBaseUrl: 'https://gitlab.com' },
+  'www.gitlab.com': { kind: 'gitlab', webBaseUrl: 'https://gitlab.com' },
+  'bitbucket.org': { kind: 'bitbucket', webBaseUrl: 'https://bitbucket.org' },
+  'www.bitbucket.org': {
+    kind: 'bitbucket',
+    webBaseUrl: 'https://bitbucket.org',
+  },
+};
+const SOURCE_HOST_NAMES: Record<RemoteSourceKind, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea',
+};
+const PATH_SEGMENT_REGEX = /^[A-Za-z\d._-]+$/;
+const GITHUB_TREE_SEGMENTS = new Set(['tree', 'blob', 'commit']);
+const GITLAB_TREE_SEGMENTS = new Set(['tree', 'blob', 'commit']);
+const GITEA_REF_KINDS = new Set(['branch', 'tag', 'commit']);
+
+export const getSourceHostName = (kind: RemoteSourceKind): string =>
+  SOURCE_HOST_NAMES[kind];
+
+const stripGitSuffix = (repo: string): string =>
+  repo.endsWith('.git') ? repo.slice(0, repo.length - 4) : repo;
+
+// Resolves which host a URL belongs to, returning the path below the
+// server's base URL (self-hosted servers may live under a path prefix).
+const matchSourceHost = (
+  urlObj: URL,
+  selfHostedServer?: SelfHostedServerConfig,
+): { kind: RemoteSourceKind; webBaseUrl: string; pathname: string } | null => {
+  const hostname = urlObj.hostname.toLowerCase();
+  const publicHost = PUBLIC_SOURCE_HOSTS[hostname];
+  if (publicHost) {
+    return { ...publicHost, pathname: urlObj.pathname };
+  }
+
+  const baseUrl = selfHostedServer?.baseUrl.trim();
+  if (!selfHostedServer || !baseUrl) {
+    return null;
+  }
+
+  try {
+    const base = new URL(withProtocol(baseUrl));
+    if (base.host.toLowerCase() !== urlObj.host.toLowerCase()) {
+      return null;
+    }
+
+    const basePath = base.pathname.replace(/\/+$/, '');
+    if (
+      basePath &&
+      urlObj.pathname !== basePath &&
+      !urlObj.pathname.startsWith(`${basePath}/`)
+    ) {
+      return null;
+    }
+
+    return {
+      kind: selfHostedServer.kind,
+      webBaseUrl: `${base.origin}${basePath}`,
+      pathname: urlObj.pathname.slice(basePath.length),
+    };
+  } catch {
+    return null;
+  }
+};
+
+const splitRepoPath = (
+  kind: RemoteSourceKind,
+  parts: string[],
+): RepoPathParts | null => {
+  if (kind === 'gitlab') {
+    // group/subgroup/project/-/tree/<ref>/<path>
+    const separatorIndex = parts.indexOf('-');
+    const projectParts =
+      separatorIndex >= 0 ? parts.slice(0, separatorIndex) : parts;
+    if (projectParts.length < 2) {
+      return null;
+    }
+    return {
+      owner: projectParts.slice(0, -1).join('/'),
+      repo: stripGitSuffix(projectParts[projectParts.length - 1]),
+      treeSegments:
+        separatorIndex >= 0 &&
+        GITLAB_TREE_SEGMENTS.has(parts[separatorIndex + 1])
+          ? parts.slice(separatorIndex + 2)
+          : [],
+    };
+  }
+
+  if (parts.length < 2) {
+    return null;
+  }
+
+  let treeSegments: string[] = [];
+  if (kind === 'github' && GITHUB_TREE_SEGMENTS.has(parts[2])) {
+    // owner/repo/tree/<ref>/<path>
+    treeSegments = parts.slice(3);
+  } else if (kind === 'bitbucket' && parts[2] === 'src') {
+    // workspace/repo/src/<ref>/<path>
+    treeSegments = parts.slice(3);
+  } else if (
+    kind === 'gitea' &&
+    parts[2] === 'src' &&
+    GITEA_REF_KINDS.has(parts[3])
+  ) {
+    // owner/repo/src/branch/<ref>/<path>
+    treeSegments = parts.slice(4);
+  }
+
+  return {
+    owner: parts[0],
+    repo: stripGitSuffix(parts[1]),
+    treeSegments,
+  };
+};
+
+const parseRepoLocation = (
+  url: string,
+  selfHostedServer?: SelfHostedServerConfig,
+): (RepoPathParts & { kind: RemoteSourceKind; webBaseUrl: string }) | null => {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    const host = matchSourceHost(
+      new URL(withProtocol(trimmed)),
+      selfHostedServer,
+    );
+    if (!host) {
+      return null;
+    }
+
+    const parts = host.pathname
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+    const repoPath = splitRepoPath(host.kind, parts);
+    if (
+      !repoPath ||
+      !PATH_SEGMENT_REGEX.test(repoPath.repo) ||
+      !repoPath.owner
+        .split('/')
+        .every((segment) => PATH_SEGMENT_REGEX.test(segment))
+    ) {
+      return null;
+    }
+
+    return { ...repoPath, kind: host.kind, webBaseUrl: host.webBaseUrl };
+  } catch {
+    return null;
+  }
+};
+
+export const parseSourceUrl = (
+  url: string,
+  selfHostedServer?: SelfHostedServerConfig,
+  knownRefs?: string[],
+): ParsedSourceUrl | null => {
+  const location = parseRepoLocation(url, selfHostedServer);
+  if (!location) {
+    return null;
+  }
+
+  const { ref, subpath } = splitTreeRef(location.treeSegments, knownRefs);
+  return {
+    kind: location.kind,
+    webBaseUrl: location.webBaseUrl,
+    owner: location.owner,
+    repo: location.repo,
+    ref,
+    subpath,
+  };
+};
+
+/** Canonical `<server>/<owner>/<repo>` URL, or null for unsupported links. */
+export const normalizeSourceUrl = (
+  url: string,
+  selfHostedServer?: SelfHostedServerConfig,
+): string | null => {
+  const location = parseRepoLocation(url, selfHostedServer);
+  return location
+    ? `${location.webBaseUrl}/${location.owner}/${location.repo}`
+    : null;
+};
+
+/** True when the ref in a branch/folder link may contain slashes and needs the ref list. */
+export const hasAmbiguousSourceRef = (
+  url: string,
+  selfHostedServer?: SelfHostedServerConfig,
+): boolean => {
+  const location = parseRepoLocation(url, selfHostedServer);
+  return Boolean(location && location.treeSegments.length > 1);
+};
+
+export const createSourceProvider = (
+  url: string,
+  options: SourceProviderFactoryOptions = {},
+): SourceProvider | null => {
+  if (isLocalSourceUrl(url)) {
+    return createLocalSourceProvider(url);
+  }
+
+  const parsed = parseSourceUrl(url, options.selfHostedServer);
+  if (!parsed) {
+    return null;
+  }
+
+  const { token, onRateLimitUpdate } = options;
+  const isPublicHost = Boolean(
+    PUBLIC_SOURCE_HOSTS[new URL(parsed.webBaseUrl).hostname],
+  );
+
+  switch (parsed.kind) {
+    case 'github':
+      return createGitHubSourceProvider({
+        owner: parsed.owner,
+        repo: parsed.repo,
+        apiBaseUrl: isPublicHost ? undefined : `${parsed.webBaseUrl}/api/v3`,
+        useServerProxy: isPublicHost && options.useGitHubServerProxy,
+        token,
+        onRateLimitUpdate,
+      });
+    case 'gitlab':
+      return createGitLabSourceProvider({
+        apiBaseUrl: `${parsed.webBaseUrl}/api/v4`,
+        projectPath: `${parsed.owner}/${parsed.repo}`,
+        token,
+        onRateLimitUpdate,
+      });
+    case 'bitbucket':
+      return createBitbucketSourceProvider({
+        workspace: parsed.owner,
+        repoSlug: parsed.repo,
+        token,
+        onRateLimitUpdate,
+      });
+    case 'gitea':
+      return createGiteaSourceProvider({
+        apiBaseUrl: `${parsed.webBaseUrl}/api/v1`,
+        owner: parsed.owner,
+        repo: parsed.repo,
+        token,
+      });
+  }
+};
@@ -0,0 +1,331 @@
+import {
+  FileNode,
+  GitHubRateLimitInfo,
+  RepoRefList,
+  RepoRevision,
+  RepoTreeIndexInfo,
+} from '../types';
+
+export type RemoteSourceKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+export type SourceKind = RemoteSourceKind | 'local';
+
+export interface SourceReadOptions {
+  ref?: string; // Branch, tag or commit SHA; defaults to the default branch
+  rootPath?: string; // Repo subdirectory treated as the project root
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything the migration phases need from a repository host. Hosts differ
+ * in URL layout, auth headers and tree pagination; those details stay inside
+ * each implementation.
+ */
+export interface SourceProvider {
+  kind: SourceKind;
+  label: string; // Human-readable source name for logs, e.g. owner/repo
+  resolveDefaultBranch: (signal?: AbortSignal) => Promise<string>;
+  // Resolves to null for sources without history (uploaded zips/folders).
+  resolveRevision: (
+    ref?: string,
+    signal?: AbortSignal,
+  ) => Promise<RepoRevision | null>;
+  listRefs: (signal?: AbortSignal) => Promise<RepoRefList>;
+  listTree: (options?: SourceReadOptions) => Promise<FileNode[]>;
+  readFile: (path: string, options?: SourceReadOptions) => Promise<string>;
+  getRateLimitInfo: () => GitHubRateLimitInfo | null;
+  // Whether the last listTree call saw every file; null before the first.
+  getTreeIndexInfo: () => RepoTreeIndexInfo | null;
+  // Optional bulk download of a whole commit; resolves to the file count.
+  loadArchive?: (commitSha: string, signal?: AbortSignal) => Promise<number>;
+}
+
+export interface RemoteSourceProviderOptions {
+  token?: string; // User-supplied access token (memory only)
+  onRateLimitUpdate?: (info: GitHubRateLimitInfo) => void;
+}
+
+export interface SourceTreeItem {
+  path: string;
+  type: 'blob' | 'tree';
+  size?: number; // Blob size in bytes, when the host reports it
+}
+
+export const IMAGE_FILE_REGEX = /\.(png|jpg|jpeg|gif|ico|svg|webp|bmp)$/i;
+
+export const getMimeType = (filename: string): string => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'png':
+      return 'image/png';
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'gif':
+      return 'image/gif';
+    case 'svg':
+      return 'image/svg+xml';
+    case 'ico':
+      return 'image/x-icon';
+    case 'webp':
+      return 'image/webp';
+    case 'bmp':
+      return 'image/bmp';
+    default:
+      return 'application/octet-stream';
+  }
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Reads a raw file download: images become data URIs, everything else is
+ * decoded as UTF-8 text.
+ */
+export const readRawFileResponse = async (
+  response: Response,
+  path: string,
+): Promise<string> => {
+  if (IMAGE_FILE_REGEX.test(path)) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return `data:${getMimeType(path)};base64,${bytesToBase64(bytes)}`;
+  }
+
+  return response.text();
+};
+
+export const withProtocol = (input: string): string => {
+  if (input.startsWith('http://') || input.startsWith('https://')) {
+    return input;
+  }
+  return `https://${input}`;
+};
+
+export const normalizeRootPath = (rootPath?: string | null): string => {
+  return (rootPath || '')
+    .trim()
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.')
+    .join('/');
+};
+
+export const toRepoPath = (path: string, rootPath?: string): string => {
+  const root = normalizeRootPath(rootPath);
+  return root ? `${root}/${path}` : path;
+};
+
+// Refs are embedded in API paths, where slashes in branch names must survive.
+export const encodeRefPath = (ref: string): string =>
+  ref.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Splits the segments after /tree/ into a ref and a subpath. Refs may contain
+ * slashes (e.g. release/1.2), so the longest known ref wins; without a match
+ * the first segment is treated as the ref.
+ */
+export const splitTreeRef = (
+  segments: string[],
+  knownRefs: string[] = [],
+): { ref: string | null; subpath: string } => {
+  if (segments.length === 0) {
+    return { ref: null, subpath: '' };
+  }
+
+  const known = new Set(knownRefs);
+  for (let length = segments.length; length > 1; length--) {
+    const candidate = segments.slice(0, length).join('/');
+    if (known.has(candidate)) {
+      return { ref: candidate, subpath: segments.slice(length).join('/') };
+    }
+  }
+
+  return { ref: segments[0], subpath: segments.slice(1).join('/') };
+};
+
+/**
+ * Re-roots a flat tree listing at a project subdirectory so paths become
+ * relative to it. Throws when nothing lives under the directory.
+ */
+export const rerootTreeItems = <T extends SourceTreeItem>(
+  items: T[],
+  rootPath: string | undefined,
+  ref: string,
+): T[] => {
+  const root = normalizeRootPath(rootPath);
+  if (!root) {
+    return items;
+  }
+
+  const prefix = `${root}/`;
+  const rootedItems = items
+    .filter((item) => item.path.startsWith(prefix))
+    .map((item) => ({ ...item, path: item.path.slice(prefix.length) }));
+
+  if (rootedItems.length === 0) {
+    throw new Error(
+      `Directory '${root}' not found in repository at ref '${ref}'.`,
+    );
+  }
+
+  return rootedItems;
+};
+
+export const buildFileTree = (listedItems: SourceTreeItem[]): FileNode[] => {
+  const root: FileNode[] = [];
+  const map: Record<string, FileNode> = {};
+
+  // Partial (truncated) listings can omit parent directories; add them so
+  // files are attached at the right depth instead of at the root.
+  const listedPaths = new Set(listedItems.map((item) => item.path));
+  const items = [
+    ...listedItems,
+    ...withParentDirectories(listedItems.map((item) => item.path)).filter(
+      (item) => item.type === 'tree' && !listedPaths.has(item.path),
+    ),
+  ];
+
+  // Sort by path length to ensure parents are created before children if we were building sequentially,
+  // but we use a 2-pass approach so order doesn't strictly matter for existence, but helps.
+  items.sort((a, b) => a.path.localeCompare(b.path));
+
+  // 1. Create all nodes
+  items.forEach((item) => {
+    // We only care about blobs (files) and trees (dirs)
+    if (item.type !== 'blob' && item.type !== 'tree') return;
+
+    const name = item.path.split('/').pop() || '';
+    map[item.path] = {
+      name: name,
+      path: item.path,
+      type: item.type === 'tree' ? 'dir' : 'file',
+      ...(item.type === 'blob' && typeof item.size === 'number'
+        ? { size: item.size }
+        : {}),
+      status: 'pending',
+      children: item.type === 'tree' ? [] : undefined,
+    };
+  });
+
+  // 2. Attach to parents
+  items.forEach((item) => {
+    const node = map[item.path];
+    if (!node) return;
+
+    const parts = item.path.split('/');
+    if (parts.length === 1) {
+      root.push(node);
+    } else {
+      const parentPath = parts.slice(0, -1).join('/');
+      const parent = map[parentPath];
+      if (parent && parent.children) {
+        parent.children.push(node);
+      } else {
+        // Parent is a file (malformed listing); keep the node visible at the root
+        root.push(node);
+      }
+    }
+  });
+
+  // 3. Sort nodes (Dirs first, then alphabetical)
+  const sortNodes = (nodes: FileNode[]) => {
+    nodes.sort((a, b) => {
+      if (a.type === b.type) return a.name.localeCompare(b.name);
+      return a.type === 'dir' ? -1 : 1;
+    });
+    nodes.forEach((n) => {
+      if (n.children) sortNodes(n.children);
+    });
+  };
+  sortNodes(root);
+
+  return root;
+};
+
+/**
+ * Adds directory entries for every parent of the given file paths, for hosts
+ * whose listings only return files.
+ */
+export const withParentDirectories = (
+  filePaths: string[],
+): SourceTreeItem[] => {
+  const directories = new Set<string>();
+  filePaths.forEach((path) => {
+    const parts = path.split('/');
+    for (let length = 1; length < parts.length; length++) {
+      directories.add(parts.slice(0, length).join('/'));
+    }
+  });
+
+  return [
+    ...Array.from(directories).map((path) => ({ path, type: 'tree' as const })),
+    ...filePaths.map((path) => ({ path, type: 'blob' as const })),
+  ];
+};
+
+export const parseRateLimitNumber = (raw: string | null): number | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const value = Number.parseInt(raw, 10);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Reads `<prefix>-limit`, `-remaining` and `-reset` headers. Hosts disagree
+ * on the prefix (x-ratelimit vs ratelimit) but share the epoch-seconds reset.
+ */
+export const parseRateLimitHeaders = (
+  headers: Pick<Headers, 'get'> | null | undefined,
+  prefix: string,
+  authenticated: boolean,
+): GitHubRateLimitInfo => {
+  const limit = parseRateLimitNumber(headers?.get(`${prefix}-limit`) || null);
+  const remaining = parseRateLimitNumber(
+    headers?.get(`${prefix}-remaining`) || null,
+  );
+  const resetSeconds = parseRateLimitNumber(
+    headers?.get(`${prefix}-reset`) || null,
+  );
+
+  return {
+    limit,
+    remaining,
+    resetAt: resetSeconds !== null ? resetSeconds * 1000 : null,
+    authenticated,
+  };
+};
+
+/**
+ * Maps a failed host API response to the error shown in the logs. 404s get
+ * the caller's message because only the caller knows what was missing.
+ */
+export const throwHostResponseError = (
+  hostName: string,
+  response: Pick<Response, 'status'>,
+  notFoundMessage: string,
+): never => {
+  switch (response.status) {
+    case 401:
+      throw new Error(
+        `${hostName} rejected the access token (401). Check that the token is valid and has repository read access.`,
+      );
+    case 403:
+      throw new Error(
+        `${hostName} denied access (403). Check that the token has repository read access.`,
+      );
+    case 404:
+      throw new Error(notFoundMessage);
+    case 429:
+      throw new Error(`${hostName} API rate limit exceeded.`);
+    default:
+      throw new Error(`${hostName} request failed: ${response.status}`);
+  }
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSymbolIndex,
+  extractSymbols,
+  selectRelatedSymbols,
+} from './symbolIndex';
+
+const summarize = (content: string, path: string) =>
+  extractSymbols(content, path).map(
+    (symbol) =>
+      `${symbol.kind} ${symbol.name} ${symbol.startLine}-${symbol.endLine}${symbol.isDefault ? ' (default)' : ''}`,
+  );
+
+describe('symbolIndex', () => {
+  it('indexes top-level JavaScript declarations with their ranges', () => {
+    const content = [
+      "import x from './x';",
+      '',
+      '/** Formats a price. */',
+      'export function formatPrice(value) {',
+      "  return '$' + value.toFixed(2);",
+      '}',
+      'export const TAX = 0.2;',
+      'const helper = (a) => {',
+      '  return a * TAX;',
+      '};',
+      'class Cart {',
+      '  total() { return 1; }',
+      '}',
+      'export default Cart;',
+    ].join('\n');
+
+    expect(summarize(content, 'src/cart.js')).toEqual([
+      'function formatPrice 3-6',
+      'constant TAX 7-7',
+      'constant helper 8-10',
+      'class Cart 11-13 (default)',
+    ]);
+  });
+
+  it('indexes PHP functions, Python blocks and Vue component options', () => {
+    expect(
+      summarize(
+        "<?php\nfunction esc($s) {\n  return htmlspecialchars($s);\n}\nclass Db {\n  public function q() {}\n}\ndefine('APP', 1);\n",
+        'lib/helpers.php',
+      ),
+    ).toEqual(['function esc 2-4', 'class Db 5-7', 'constant APP 8-8']);
+
+    expect(
+      summarize(
+        '@cache\ndef load(x):\n    if x:\n        return 1\n\n    return 2\n\nclass Repo:\n    pass\n',
+        'app/repo.py',
+      ),
+    ).toEqual(['function load 1-6', 'class Repo 8-9']);
+
+    expect(
+      summarize(
+        [
+          '<template><div /></template>',
+          '<script>',
+          'export default {',
+          "  name: 'Card',",
+          '  props: {',
+          '    title: String,',
+          '  },',
+          '  data() {',
+          '    return { open: false };',
+          '  },',
+          '};',
+          '</script>',
+        ].join('\n'),
+        'components/Card.vue',
+      ),
+    ).toEqual(['option name 4-4', 'option props 5-7', 'option data 8-10']);
+  });
+
+  it('selects referenced symbols and what they reference in turn', () => {
+    const fileContents = {
+      'src/utils.js': [
+        'export function formatPrice(value) {',
+        '  return CURRENCY + round(value);',
+        '}',
+        "const CURRENCY = '$';",
+        'function round(value) {',
+        '  return value.toFixed(2);',
+        '}',
+        'export function slugify(value) {',
+        `  return value.toLowerCase(); ${'/'.repeat(1_200)}`,
+        '}',
+      ].join('\n'),
+      'src/Card.vue':
+        '<script>\nexport default {\n  props: { title: String },\n  data() {\n    return { formatPrice: 1 };\n  },\n};\n</script>' +
+        `\n<style>${' '.repeat(1_200)}</style>`,
+    };
+
+    const [utils, card] = selectRelatedSymbols(
+      [
+        "import { formatPrice } from './utils';\nimport Card from './Card.vue';",
+      ],
+      ['src/utils.js', 'src/Card.vue'],
+      buildSymbolIndex(fileContents),
+      fileContents,
+    );
+
+    expect(utils.wholeFile).toBe(false);
+    expect(utils.symbols.map((symbol) => symbol.name)).toEqual([
+      'formatPrice',
+      'CURRENCY',
+      'round',
+    ]);
+    expect(utils.omittedSymbols).toEqual(['slugify']);
+    expect(card.symbols.map((symbol) => symbol.name)).toEqual(['props']);
+  });
+
+  it('keeps small or unindexed files whole', () => {
+    const fileContents = {
+      'src/tiny.js': 'export const a = 1;\nexport const b = 2;',
+      'templates/page.html': '<div></div>',
+    };
+
+    expect(
+      selectRelatedSymbols(
+        ['a'],
+        ['src/tiny.js', 'templates/page.html'],
+        buildSymbolIndex(fileContents),
+        fileContents,
+      ).map((selection) => selection.wholeFile),
+    ).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Symbol-level index of legacy source files: top-level functions, classes,
+ * constants and types (plus Vue component options) with their line ranges.
+ * Generation prompts include only the symbols of related files that the
+ * migrated sources actually reference, instead of whole files.
+ */
+export type SourceSymbolKind =
+  | 'function'
+  | 'class'
+  | 'constant'
+  | 'type'
+  | 'option';
+
+export interface SourceSymbol {
+  name: string;
+  kind: SourceSymbolKind;
+  startLine: number; // 1-based, includes leading doc comments and decorators
+  endLine: number; // 1-based, inclusive
+  exported: boolean;
+  isDefault: boolean; // The module's default export
+}
+
+export type SymbolIndex = Record<string, SourceSymbol[]>;
+
+export interface RelatedSymbolSelection {
+  path: string;
+  symbols: SourceSymbol[]; // Referenced symbols, in source order
+  wholeFile: boolean; // True when the file has no usable index or is small
+  omittedSymbols: string[];
+}
+
+type SymbolLanguage = 'script' | 'php' | 'python' | 'ruby' | 'jvm' | 'go';
+
+interface SymbolPattern {
+  pattern: RegExp;
+  kind: SourceSymbolKind;
+  nameGroup: number;
+}
+
+// Files this small are cheaper to include whole than to explain.
+const WHOLE_FILE_MAX_CHARS = 1_200;
+// Including nearly everything gains nothing over the whole file.
+const WHOLE_FILE_COVERAGE = 0.8;
+
+const VUE_INTERFACE_OPTIONS = new Set([
+  'name',
+  'props',
+  'emits',
+  'model',
+  'inheritAttrs',
+]);
+
+const SCRIPT_PATTERNS: SymbolPattern[] = [
+  {
+    pattern:
+      /^(export\s+)?(default\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)?/,
+    kind: 'function',
+    nameGroup: 3,
+  },
+  {
+    pattern: /^(export\s+)?(default\s+)?(?:abstract\s+)?class\s+([\w$]+)?/,
+    kind: 'class',
+    nameGroup: 3,
+  },
+  {
+    pattern: /^(export\s+)?()(?:declare\s+)?(?:const|let|var)\s+([\w$]+)/,
+    kind: 'constant',
+    nameGroup: 3,
+  },
+  {
+    pattern:
+      /^(export\s+)?()(?:declare\s+)?(?:interface|type|(?:const\s+)?enum)\s+([\w$]+)/,
+    kind: 'type',
+    nameGroup: 3,
+  },
+  {
+    pattern: /^(?:module\.)?exports\.([\w$]+)\s*=/,
+    kind: 'constant',
+    nameGroup: 1,
+  },
+];
+
+const LANGUAGE_PATTERNS: Record<
+  Exclude<SymbolLanguage, 'script'>,
+  SymbolPattern[]
+> = {
+  php: [
+    {
+      pattern:
+        /^(?:abstract\s+|final\s+|readonly\s+)*(?:class|interface|trait|enum)\s+(\w+)/,
+      kind: 'class',
+      nameGroup: 1,
+    },
+    { pattern: /^function\s+&?\s*(\w+)/, kind: 'function', nameGroup: 1 },
+    { pattern: /^const\s+(\w+)/, kind: 'constant', nameGroup: 1 },
+    {
+      pattern: /^define\(\s*['"](\w+)['"]/,
+      kind: 'constant',
+      nameGroup: 1,
+    },
+  ],
+  python: [
+    { pattern: /^(?:async\s+)?def\s+(\w+)/, kind: 'function', nameGroup: 1 },
+    { pattern: /^class\s+(\w+)/, kind: 'class', nameGroup: 1 },
+    {
+      pattern: /^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=/,
+      kind: 'constant',
+      nameGroup: 1,
+    },
+  ],
+  ruby: [
+    { pattern: /^(?:class|module)\s+([\w:]+)/, kind: 'class', nameGroup: 1 },
+    {
+      pattern: /^def\s+(?:self\.)?(\w+[?!]?)/,
+      kind: 'function',
+      nameGroup: 1,
+    },
+    { pattern: /^([A-Z][A-Z0-9_]*)\s*=/, kind: 'constant', nameGroup: 1 },
+  ],
+  jvm: [
+    {
+      pattern:
+        /^(?:(?:public|private|protected|internal|abstract|final|static|sealed|open|data|enum|annotation)\s+)*(?:class|interface|enum|record|object|@interface)\s+(\w+)/,
+      kind: 'class',
+      nameGroup: 1,
+    },
+    {
+      pattern:
+        /^(?:(?:private|internal|inline|suspend)\s+)*fun\s+(?:<[^>]+>\s*)?(?:[\w.]+\.)?(\w+)/,
+      kind: 'function',
+      nameGroup: 1,
+    },
+  ],
+  go: [
+    {
+      pattern: /^func\s+(?:\([^)]*\)\s*)?(\w+)/,
+      kind: 'function',
+      nameGroup: 1,
+    },
+    { pattern: /^type\s+(\w+)/, kind: 'type', nameGroup: 1 },
+    { pattern: /^(?:const|var)\s+(\w+)/, kind: 'constant', nameGroup: 1 },
+  ],
+};
+
+const getLanguage = (path: string): SymbolLanguage | null => {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  if (/^(m?[jt]sx?|cjs|vue|svelte)$/.test(extension)) {
+    return 'script';
+  }
+  if (extension === 'php' || extension === 'phtml') {
+    return 'php';
+  }
+  if (extension === 'py') {
+    return 'python';
+  }
+  if (extension === 'rb') {
+    return 'ruby';
+  }
+  if (extension === 'java' || extension === 'kt') {
+    return 'jvm';
+  }
+  if (extension === 'go') {
+    return 'go';
+  }
+  return null;
+};
+
+const isSingleFileComponent = (path: string) => /\.(vue|svelte)$/i.test(path);
+
+const skipString = (content: string, start: number): number => {
+  const quote = content[start];
+  for (let index = start + 1; index < content.length; index++) {
+    if (content[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (content[index] === quote) {
+      return index;
+    }
+    if (content[index] === '\n' && quote !== '`') {
+      return index;
+    }
+  }
+  return content.length;
+};
+
+/**
+ * End offset of the declaration starting at `start`: the close of its first
+ * top-level block, a `;`, or a line break once nothing is left open and the
+ * line does not continue. With `stopAtComma`, a top-level `,` or the close
+ * of the enclosing object also ends it (object members).
+ */
+const findStatementEnd = (
+  content: string,
+  start: number,
+  stopAtComma = false,
+): number => {
+  let depth = 0;
+  let sawBlock = false;
+
+  for (let index = start; index < content.length; index++) {
+    const char = content[index];
+    const next = content[index + 1];
+
+    if (char === '/' && next === '/') {
+      const lineEnd = content.indexOf('\n', index);
+      index = (lineEnd === -1 ? content.length : lineEnd) - 1;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const commentEnd = content.indexOf('*/', index + 2);
+      if (commentEnd === -1) {
+        return content.length;
+      }
+      index = commentEnd + 1;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      index = skipString(content, index);
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') {
+      if (char === '{' && depth === 0) {
+        sawBlock = true;
+      }
+      depth++;
+      continue;
+    }
+    if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth < 0) {
+        return index;
+      }
+      if (depth === 0 && char === '}' && sawBlock) {
+        return content[index + 1] === ';' ? index + 2 : index + 1;
+      }
+      continue;
+    }
+
+    if (depth > 0) {
+      continue;
+    }
+    if (char === ';') {
+      return index + 1;
+    }
+    if (stopAtComma && char === ',') {
+      return index;
+    }
+    if (char === '\n' && !sawBlock) {
+      const statement = content.slice(start, index).trimEnd();
+      const nextLine = content.slice(index + 1, index + 120);
+      if (
+        statement &&
+        !/[=,(+\-*/&|?:.{[<>]$/.test(statement) &&
+        !/^\s*([.?:&|+]|=>)/.test(nextLine)
+      ) {
+        return index;
+      }
+    }
+  }
+
+  return content.length;
+};
+
+const toLineStarts = (content: string): number[] => {
+  const starts = [0];
+  for (let index = 0; index < content.length; index++) {
+    if (content[index] === '\n') {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+};
+
+/** 1-based line holding `offset`. */
+const lineAt = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low + 1;
+};
+
+const getIndent = (line: string) => line.length - line.trimStart().length;
+
+// Extends a range upward over doc comments, decorators and annotations.
+const withLeadingComments = (lines: string[], startLine: number): number => {
+  let line = startLine;
+  while (line > 1) {
+    const previous = lines[line - 2].trim();
+    if (!/^(\/\/|\/\*|\*|#|@)/.test(previous)) {
+      break;
+    }
+    line--;
+  }
+  return line;
+};
+
+// Python and Ruby blocks end where indentation returns to the start level.
+const findIndentedBlockEnd = (
+  lines: string[],
+  startLine: number,
+  language: SymbolLanguage,
+): number => {
+  const indent = getIndent(lines[startLine - 1]);
+  let endLine = startLine;
+  for (let line = startLine + 1; line <= lines.length; line++) {
+    const text = lines[line - 1];
+    if (!text.trim()) {
+      continue;
+    }
+    if (getIndent(text) <= indent) {
+      if (language === 'ruby' && /^\s*end\b/.test(text)) {
+        endLine = line;
+      }
+      if (language === 'python' && /^\s*[)\]}]/.test(text)) {
+        endLine = line;
+        continue;
+      }
+      break;
+    }
+    endLine = line;
+  }
+  return endLine;
+};
+
+/** Offset range of an SFC's `<script>` blocks; the whole file otherwise. */
+const getScriptRanges = (
+  content: string,
+  path: string,
+): Array<{ start: number; end: number }> => {
+  if (!isSingleFileComponent(path)) {
+    return [{ start: 0, end: content.length }];
+  }
+  return Array.from(
+    content.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/gi),
+  ).map((match) => {
+    const start = (match.index ?? 0) + match[0].indexOf('>') + 1;
+    return { start, end: start + match[1].length };
+  });
+};
+
+// Top-level members of a Vue `export default {…}` / `defineComponent({…})`.
+const extractVueOptions = (
+  content: string,
+  rangeStart: number,
+  rangeEnd: number,
+  lineStarts: number[],
+): SourceSymbol[] => {
+  const script = content.slice(rangeStart, rangeEnd);
+  const component = /export\s+default\s+(?:defineComponent\s*\(\s*)?\{/.exec(
+    script,
+  );
+  if (!component) {
+    return [];
+  }
+
+  const options: SourceSymbol[] = [];
+  let index = rangeStart + component.index + component[0].length;
+  while (index < rangeEnd) {
+    const rest = content.slice(index, rangeEnd);
+    const member = /^[\s,]*(?:async\s+)?([\w$]+)\s*[:(]/.exec(rest);
+    if (!member) {
+      break;
+    }
+    const start = index + member[0].indexOf(member[1]);
+    const end = findStatementEnd(content, start, true);
+    options.push({
+      name: member[1],
+      kind: 'option',
+      startLine: lineAt(lineStarts, start),
+      endLine: lineAt(lineStarts, Math.max(start, end - 1)),
+      exported: true,
+      isDefault: false,
+    });
+    if (end <= start || content[end] === '}' || content[end] === ')') {
+      break;
+    }
+    index = end;
+  }
+  return options;
+};
+
+export const extractSymbols = (
+  content: string,
+  path: string,
+): SourceSymbol[] => {
+  const language = getLanguage(path);
+  if (!language || !content) {
+    return [];
+  }
+
+  const lines = content.split('\n');
+  const lineStarts = toLineStarts(content);
+  const patterns =
+    language === 'script' ? SCRIPT_PATTERNS : LANGUAGE_PATTERNS[language];
+  const symbols: SourceSymbol[] = [];
+  let defaultName: string | null = null;
+
+  getScriptRanges(content, path).forEach(({ start, end }) => {
+    const firstLine = lineAt(lineStarts, start);
+    const lastLine = lineAt(lineStarts, Math.max(start, end - 1));
+    // SFC scripts are often indented as a block; match at that indent.
+    const codeLine = lines
+      .slice(firstLine - 1, lastLine)
+      .find((line) => line.trim() && !line.includes('<script'));
+    const baseIndent =
+      isSingleFileComponent(path) && codeLine ? getIndent(codeLine) : 0;
+
+    for (let line = firstLine; line <= lastLine; line++) {
+      const text = lines[line - 1];
+      if (getIndent(text) !== baseIndent || (line === firstLine && start > 0)) {
+        continue;
+      }
+      const declaration = text.slice(baseIndent);
+
+      const defaultReference = /^export\s+default\s+([\w$]+)\s*;?\s*$/.exec(
+        declaration,
+      );
+      if (language === 'script' && defaultReference) {
+        defaultName = defaultReference[1];
+        continue;
+      }
+
+      const matched = patterns.find(({ pattern }) => pattern.test(declaration));
+      const isDefaultExport =
+        language === 'script' &&
+        /^(export\s+default\b|module\.exports\s*=)/.test(declaration);
+      if (!matched && !isDefaultExport) {
+        continue;
+      }
+      // Vue options are indexed individually below.
+      if (!matched && isSingleFileComponent(path)) {
+        continue;
+      }
+
+      const match = matched?.pattern.exec(declaration);
+      const name = match?.[matched!.nameGroup] || 'default';
+      const declarationStart = lineStarts[line - 1] + baseIndent;
+      const endLine =
+        language === 'python' || language === 'ruby'
+          ? findIndentedBlockEnd(lines, line, language)
+          : lineAt(
+              lineStarts,
+              Math.max(
+                declarationStart,
+                findStatementEnd(content, declarationStart) - 1,
+              ),
+            );
+
+      symbols.push({
+        name,
+        kind: matched?.kind ?? 'constant',
+        startLine: withLeadingComments(lines, line),
+        endLine: Math.min(endLine, lastLine),
+        exported:
+          language !== 'script' ||
+          /^(export\b|(module\.)?exports\b)/.test(declaration),
+        isDefault: isDefaultExport,
+      });
+      line = Math.max(line, endLine);
+    }
+
+    if (path.toLowerCase().endsWith('.vue')) {
+      symbols.push(...extractVueOptions(content, start, end, lineStarts));
+    }
+  });
+
+  if (defaultName) {
+    symbols.forEach((symbol) => {
+      if (symbol.name === defaultName) {
+        symbol.isDefault = true;
+      }
+    });
+  }
+
+  return symbols.sort((a, b) => a.startLine - b.startLine);
+};
+
+export const buildSymbolIndex = (
+  fileContents: Record<string, string>,
+): SymbolIndex => {
+  const index: SymbolIndex = {};
+  Object.entries(fileContents).forEach(([path, content]) => {
+    const symbols = extractSymbols(content, path);
+    if (symbols.length > 0) {
+      index[path] = symbols;
+    }
+  });
+  return index;
+};
+
+export const countIndexedSymbols = (index: SymbolIndex): number =>
+  Object.values(index).reduce((total, symbols) => total + symbols.length, 0);
+
+export const getSymbolSource = (
+  content: string,
+  symbol: SourceSymbol,
+): string =>
+  content
+    .split('\n')
+    .slice(symbol.startLine - 1, symbol.endLine)
+    .join('\n');
+
+const collectIdentifiers = (content: string, names: Set<string>) => {
+  for (const match of content.matchAll(/[A-Za-z_$][\w$]*/g)) {
+    names.add(match[0]);
+  }
+};
+
+const getModuleBaseName = (path: string): string => {
+  const parts = path.split('/');
+  const name = (parts.pop() || '').replace(/\.[^.]+$/, '');
+  return name === 'index' ? parts.pop() || name : name;
+};
+
+// Base names of modules a file default-imports (`import X from './x'`,
+// `const X = require('./x')`); their default export is used under X.
+const collectDefaultImports = (content: string, modules: Set<string>) => {
+  const patterns = [
+    /\bimport\s+[\w$]+\s*(?:,\s*\{[^}]*\})?\s*from\s*['"]([^'"]+)['"]/g,
+    /\b(?:const|let|var)\s+[\w$]+\s*=\s*require\(\s*['"]([^'"]+)['"]\s*\)/g,
+  ];
+  patterns.forEach((pattern) => {
+    for (const match of content.matchAll(pattern)) {
+      modules.add(getModuleBaseName(match[1]));
+    }
+  });
+};
+
+/**
+ * Chooses, per related file, the symbols referenced from `rootContents`
+ * (the sources being migrated) or from other chosen symbols. A default
+ * import of a Vue/Svelte component selects its public interface: props,
+ * emits and the like.
+ */
+export const selectRelatedSymbols = (
+  rootContents: string[],
+  relatedPaths: string[],
+  index: SymbolIndex,
+  fileContents: Record<string, string>,
+): RelatedSymbolSelection[] => {
+  const names = new Set<string>();
+  const defaultImports = new Set<string>();
+  rootContents.forEach((content) => {
+    collectIdentifiers(content, names);
+    collectDefaultImports(content, defaultImports);
+  });
+
+  const chosen = new Map<string, Set<SourceSymbol>>(
+    relatedPaths.map((path) => [path, new Set()]),
+  );
+  const isNeeded = (path: string, symbol: SourceSymbol): boolean => {
+    const usedAsDefault = defaultImports.has(getModuleBaseName(path));
+    if (symbol.kind === 'option') {
+      // Option names like `data` are too common to match by identifier.
+      return usedAsDefault && VUE_INTERFACE_OPTIONS.has(symbol.name);
+    }
+    if (isSingleFileComponent(path)) {
+      const content = fileContents[path] || '';
+      return (
+        names.has(symbol.name) ||
+        (usedAsDefault &&
+          ((symbol.exported && /\.svelte$/i.test(path)) ||
+            /\bdefine(Props|Emits)\b/.test(getSymbolSource(content, symbol))))
+      );
+    }
+    return (
+      (names.has(symbol.name) && symbol.name !== 'default') ||
+      (symbol.isDefault && usedAsDefault)
+    );
+  };
+
+  // Chosen symbols can reference further symbols; repeat until stable.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    relatedPaths.forEach((path) => {
+      const selected = chosen.get(path)!;
+      (index[path] || []).forEach((symbol) => {
+        if (selected.has(symbol) || !isNeeded(path, symbol)) {
+          return;
+        }
+        selected.add(symbol);
+        const source = getSymbolSource(fileContents[path] || '', symbol);
+        collectIdentifiers(source, names);
+        collectDefaultImports(source, defaultImports);
+        changed = true;
+      });
+    });
+  }
+
+  return relatedPaths.map((path) => {
+    const content = fileContents[path] || '';
+    const symbols = index[path] || [];
+    const selected = symbols.filter((symbol) => chosen.get(path)!.has(symbol));
+    const selectedChars = selected.reduce(
+      (total, symbol) => total + getSymbolSource(content, symbol).length,
+      0,
+    );
+    const wholeFile =
+      symbols.length === 0 ||
+      content.length <= WHOLE_FILE_MAX_CHARS ||
+      selectedChars >= content.length * WHOLE_FILE_COVERAGE;
+
+    return {
+      path,
+      symbols: wholeFile ? [] : selected,
+      wholeFile,
+      omittedSymbols: wholeFile
+        ? []
+        : symbols
+            .filter((symbol) => !selected.includes(symbol))
+            .map((symbol) => symbol.name),
+    };
+  });
+};
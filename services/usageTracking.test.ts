@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEmptyUsage,
+  getExceededBudgetLimit,
+  getTotalTokens,
+  recordUsage,
+  sumUsage,
+} from './usageTracking';
+
+describe('usageTracking', () => {
+  it('accumulates requests per stage and per generated file', () => {
+    let usage = createEmptyUsage();
+    usage = recordUsage(usage, {
+      provider: 'gemini',
+      stage: 'generation',
+      model: 'gemini-3-flash-preview',
+      promptTokens: 1_000_000,
+      candidateTokens: 500_000,
+      thinkingTokens: 500_000,
+      filePath: 'app/page.tsx',
+    });
+    usage = recordUsage(usage, {
+      provider: 'gemini',
+      stage: 'generation',
+      model: 'gemini-3-flash-preview',
+      promptTokens: 100,
+      candidateTokens: 50,
+      thinkingTokens: 0,
+      filePath: 'lib/db.ts',
+    });
+    usage = recordUsage(usage, {
+      provider: 'gemini',
+      stage: 'verification',
+      model: 'gemini-3-pro-preview',
+      promptTokens: 200,
+      candidateTokens: 20,
+      thinkingTokens: 10,
+    });
+
+    expect(usage.stages.generation.requests).toBe(2);
+    expect(usage.files['app/page.tsx'].costUsd).toBeCloseTo(0.35 + 1.05);
+    expect(getTotalTokens(usage.files['lib/db.ts'])).toBe(150);
+    expect(Object.keys(usage.files)).toEqual(['app/page.tsx', 'lib/db.ts']);
+    expect(sumUsage(usage)).toMatchObject({
+      requests: 3,
+      promptTokens: 1_000_300,
+      thinkingTokens: 500_010,
+    });
+  });
+
+  it('counts unpriced models as free and lists them once', () => {
+    const event = {
+      provider: 'openai' as const,
+      stage: 'analysis' as const,
+      model: 'my-finetune',
+      promptTokens: 10,
+      candidateTokens: 10,
+      thinkingTokens: 0,
+    };
+    const usage = recordUsage(recordUsage(createEmptyUsage(), event), event);
+
+    expect(usage.stages.analysis.costUsd).toBe(0);
+    expect(usage.unpricedModels).toEqual(['my-finetune']);
+  });
+
+  it('reports the cap the next request would exceed', () => {
+    const spent = {
+      requests: 4,
+      promptTokens: 8_000,
+      candidateTokens: 1_500,
+      thinkingTokens: 500,
+      costUsd: 0.9,
+    };
+    const next = {
+      estimatedTokens: 2_000,
+      estimatedCostUsd: 0.2,
+      priced: true,
+    };
+
+    expect(
+      getExceededBudgetLimit({ maxCostUsd: 1, maxTokens: null }, spent, next),
+    ).toBe('cost');
+    expect(
+      getExceededBudgetLimit({ maxCostUsd: 2, maxTokens: 11_000 }, spent, next),
+    ).toBe('tokens');
+    expect(
+      getExceededBudgetLimit({ maxCostUsd: 2, maxTokens: 12_000 }, spent, next),
+    ).toBeNull();
+    expect(
+      getExceededBudgetLimit(
+        { maxCostUsd: null, maxTokens: null },
+        spent,
+        next,
+      ),
+    ).toBeNull();
+  });
+
+  it('needs a token cap to hold back an unpriced model', () => {
+    const spent = {
+      requests: 1,
+      promptTokens: 5_000,
+      candidateTokens: 0,
+      thinkingTokens: 0,
+      costUsd: 0,
+    };
+    const next = { estimatedTokens: 2_000, estimatedCostUsd: 0, priced: false };
+
+    expect(
+      getExceededBudgetLimit({ maxCostUsd: 1, maxTokens: null }, spent, next),
+    ).toBe('unpriced');
+    expect(
+      getExceededBudgetLimit({ maxCostUsd: 1, maxTokens: 6_000 }, spent, next),
+    ).toBe('tokens');
+    expect(
+      getExceededBudgetLimit(
+        { maxCostUsd: null, maxTokens: null },
+        spent,
+        next,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  MigrationUsage,
+  RunBudget,
+  RunBudgetPause,
+  TokenUsageTotals,
+} from '../types';
+import { getTokenCostUsd, LlmUsage } from './llmProviders';
+
+/**
+ * Accumulates the token counts the model reports per request into totals per
+ * routing stage and per generated file, priced at the model's estimated rate.
+ */
+export const createEmptyUsage = (): MigrationUsage => ({
+  stages: {},
+  files: {},
+  unpricedModels: [],
+});
+
+const EMPTY_TOTALS: TokenUsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  candidateTokens: 0,
+  thinkingTokens: 0,
+  costUsd: 0,
+};
+
+const addTotals = (
+  totals: TokenUsageTotals | undefined,
+  addition: TokenUsageTotals,
+): TokenUsageTotals => {
+  const base = totals || EMPTY_TOTALS;
+  return {
+    requests: base.requests + addition.requests,
+    promptTokens: base.promptTokens + addition.promptTokens,
+    candidateTokens: base.candidateTokens + addition.candidateTokens,
+    thinkingTokens: base.thinkingTokens + addition.thinkingTokens,
+    costUsd: base.costUsd + addition.costUsd,
+  };
+};
+
+export const getTotalTokens = (totals: TokenUsageTotals): number =>
+  totals.promptTokens + totals.candidateTokens + totals.thinkingTokens;
+
+export const recordUsage = (
+  current: MigrationUsage,
+  usage: LlmUsage,
+): MigrationUsage => {
+  const costUsd = getTokenCostUsd(
+    usage.provider,
+    usage.model,
+    usage.promptTokens,
+    usage.candidateTokens + usage.thinkingTokens,
+  );
+  const addition: TokenUsageTotals = {
+    requests: 1,
+    promptTokens: usage.promptTokens,
+    candidateTokens: usage.candidateTokens,
+    thinkingTokens: usage.thinkingTokens,
+    costUsd: costUsd ?? 0,
+  };
+
+  return {
+    stages: {
+      ...current.stages,
+      [usage.stage]: addTotals(current.stages[usage.stage], addition),
+    },
+    files: usage.filePath
+      ? {
+          ...current.files,
+          [usage.filePath]: addTotals(current.files[usage.filePath], addition),
+        }
+      : current.files,
+    unpricedModels:
+      costUsd === null && !current.unpricedModels.includes(usage.model)
+        ? [...current.unpricedModels, usage.model]
+        : current.unpricedModels,
+  };
+};
+
+/** Totals across every stage of the run. */
+export const sumUsage = (usage: MigrationUsage): TokenUsageTotals =>
+  Object.values(usage.stages).reduce<TokenUsageTotals>(
+    (total, stage) => addTotals(total, stage),
+    EMPTY_TOTALS,
+  );
+
+/**
+ * Cap the next request would push the run past, or `null` while it fits.
+ * The request is counted at its pre-run estimate, since its real usage is
+ * only known once it completes. An unpriced model counts as free, so a spend
+ * cap alone cannot hold it back; such a request needs a token cap instead.
+ */
+export const getExceededBudgetLimit = (
+  budget: RunBudget,
+  spent: TokenUsageTotals,
+  next: { estimatedTokens: number; estimatedCostUsd: number; priced: boolean },
+): RunBudgetPause['limit'] | null => {
+  if (!next.priced && budget.maxCostUsd !== null && budget.maxTokens === null) {
+    return 'unpriced';
+  }
+  if (
+    budget.maxCostUsd !== null &&
+    spent.costUsd + next.estimatedCostUsd > budget.maxCostUsd
+  ) {
+    return 'cost';
+  }
+  if (
+    budget.maxTokens !== null &&
+    getTotalTokens(spent) + next.estimatedTokens > budget.maxTokens
+  ) {
+    return 'tokens';
+  }
+  return null;
+};
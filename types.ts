@@ -44,6 +44,7 @@ export interface MigrationPlaybook {
 
 export interface MigrationCostEstimateStage {
   stage: string;
+  llmStage?: string; // Routing stage, matching the keys of MigrationUsage
   model: string;
   inputTokens: number;
   outputTokens: number;
@@ -59,6 +60,39 @@ export interface MigrationCostEstimate {
   stageBreakdown: MigrationCostEstimateStage[];
 }
 
+export interface TokenUsageTotals {
+  requests: number;
+  promptTokens: number;
+  candidateTokens: number;
+  thinkingTokens: number;
+  costUsd: number; // At estimated per-model prices
+}
+
+// Token usage reported by the model during a run.
+export interface MigrationUsage {
+  stages: Record<string, TokenUsageTotals>; // Keyed by routing stage
+  files: Record<string, TokenUsageTotals>; // Keyed by generated file path
+  unpricedModels: string[]; // Counted as free in costUsd
+}
+
+// Per-run spending caps; null leaves that limit off.
+export interface RunBudget {
+  maxCostUsd: number | null;
+  maxTokens: number | null;
+}
+
+// A run waiting on the user because its next request would pass a cap.
+export interface RunBudgetPause {
+  limit: 'cost' | 'tokens' | 'unpriced'; // unpriced: spend cap only, no price
+  stage: string; // Routing stage of the next request
+  filePath?: string;
+  spentCostUsd: number;
+  spentTokens: number;
+  nextCostUsd: number; // Estimate for the next request
+  nextTokens: number;
+  lowPriorityRemaining: number;
+}
+
 export interface MigrationHistoryEntry {
   id: string;
   timestamp: number;
@@ -71,7 +105,12 @@ export interface MigrationHistoryEntry {
   modernizationScore: number;
   estimatedCostUsd: number;
   estimatedTokens: number;
+  actualCostUsd?: number; // Missing for runs recorded before usage tracking
+  actualTokens?: number;
   config: MigrationConfig;
+  ref?: string; // Branch, tag or SHA the run was started from
+  commitSha?: string; // Exact commit the source tree was read at
+  rootPath?: string; // Monorepo subdirectory used as the project root
 }
 
 export interface RepoAnalysisResult extends AnalysisResult {
@@ -85,6 +124,31 @@ export interface RepoAnalysisResult extends AnalysisResult {
     confidence: number; // 0..1
   }[];
   migrationNotes: string[];
+  packageInventory?: PackageInventoryEntry[]; // Parsed from manifests, not inferred
+  packageReplacements?: PackageReplacement[];
+}
+
+export type PackageEcosystem =
+  | 'npm'
+  | 'bower'
+  | 'composer'
+  | 'pypi'
+  | 'rubygems'
+  | 'maven';
+
+// An external package declared in one of the source repo's manifests.
+export interface PackageInventoryEntry {
+  name: string;
+  version: string; // Constraint as written in the manifest; '' when unpinned
+  ecosystem: PackageEcosystem;
+  manifestPath: string;
+  dev: boolean; // Development/test-only dependency
+}
+
+export interface PackageReplacement {
+  legacyPackage: string;
+  replacement: string; // Modern package, or 'none' when it can be dropped
+  rationale: string;
 }
 
 export interface VerificationResult {
@@ -106,6 +170,59 @@ export interface GitHubRateLimitInfo {
   limit: number | null;
   remaining: number | null;
   resetAt: number | null; // epoch ms
+  authenticated: boolean; // true when requests carry a token (5,000 req/hr budget)
+}
+
+export interface RepoRevision {
+  ref: string; // Requested branch/tag/SHA, or the default branch
+  commitSha: string;
+}
+
+export interface SourceCacheStats {
+  blobCount: number; // File contents cached by blob SHA
+  responseCount: number; // Tree/repo responses kept for ETag revalidation
+  totalBytes: number; // Approximate, counted as UTF-16 characters
+}
+
+// 'archive' downloads one zipball per commit; 'contents' reads files one by one.
+export type RepoIngestionMode = 'archive' | 'contents';
+
+export interface RepoRefList {
+  defaultBranch: string;
+  branches: string[];
+  tags: string[];
+}
+
+// Self-hosted servers the app can talk to; github.com, gitlab.com and
+// bitbucket.org are recognised without any configuration.
+export type SelfHostedSourceKind = 'github' | 'gitlab' | 'gitea';
+
+export interface SelfHostedServerConfig {
+  kind: SelfHostedSourceKind; // 'github' means GitHub Enterprise Server
+  baseUrl: string; // Web URL of the server, e.g. https://git.example.com ('' = none)
+}
+
+export interface ScopePatterns {
+  include: string[]; // Gitignore-style globs; empty means every file
+  exclude: string[]; // Gitignore-style globs; `!pattern` re-includes
+}
+
+export interface RepoTreeIndexInfo {
+  complete: boolean; // False when the host stopped listing before the end
+  walkedDirectories: number; // Directories listed one by one after truncation
+}
+
+// Why a source file was kept out of the analysis and generation context.
+export type SkippedFileReason =
+  | 'binary'
+  | 'generated'
+  | 'minified'
+  | 'oversized';
+
+export interface SkippedSourceFile {
+  path: string;
+  reason: SkippedFileReason;
+  size?: number; // Bytes, when known
 }
 
 export interface RepoScopeInfo {
@@ -114,6 +231,12 @@ export interface RepoScopeInfo {
   analyzedFiles: number;
   truncated: boolean;
   availableDirectories: string[];
+  rootPath: string; // Project root the paths above are relative to
+  treeIndex?: RepoTreeIndexInfo; // Missing in sessions saved before tracking
+  skippedFiles?: SkippedSourceFile[]; // Path checks at analysis, content at scaffold
+  dependencyCycles?: string[][]; // Source import cycles, found at scaffold
+  entryPoints?: string[]; // Reachability roots, found at analysis
+  unreachableFiles?: string[]; // Code files no entry point imports
 }
 
 export interface GenerationProgress {
@@ -146,6 +269,7 @@ export interface FileNode {
   name: string;
   type: 'file' | 'dir';
   content?: string; // Content
+  size?: number; // Bytes, when the host's tree listing reports it
   status: 'pending' | 'migrating' | 'done' | 'error';
   children?: FileNode[];
 }
@@ -161,14 +285,25 @@ export interface MigrationReport {
   techStackChanges: { from: string; to: string }[];
   keyImprovements: string[];
   newDependencies: number;
+  usage?: MigrationUsage;
+  costEstimate?: MigrationCostEstimate; // Pre-run estimate to compare against
 }
 
 export interface RepoState {
   url: string;
-  branch: string;
+  branch: string; // Requested ref; empty string means the default branch
+  rootPath: string; // Repo subdirectory treated as the project root ('' = repo root)
+  ingestionMode: RepoIngestionMode;
+  revision: RepoRevision | null; // Ref resolved to a commit during analysis
+  availableRefs: RepoRefList | null;
+  selfHostedServer: SelfHostedServerConfig;
   status: AgentStatus;
   includeDirectories: string[];
   excludeDirectories: string[];
+  scopePatterns: ScopePatterns; // Patterns for the current repo and root
+  maxFileSizeKb: number; // Larger source files are skipped as oversized
+  contextTokenBudget: number; // Source context tokens sent per generated file
+  savedScopePatterns: Record<string, ScopePatterns>; // Keyed by repo URL + root
   files: FileNode[]; // Source files
   generatedFiles: FileNode[]; // Target (New) files
   selectedFile: string | null; // Path of currently viewed file
@@ -189,6 +324,8 @@ export interface RepoState {
   playbookNotes: string;
   clarificationAnswers: Record<string, string>;
   costEstimate: MigrationCostEstimate | null;
+  usage: MigrationUsage; // Actual token usage of the current run
+  runBudget: RunBudget; // Generation and verification pause at these caps
   history: MigrationHistoryEntry[];
   awaitingPlanApproval: boolean;
 }
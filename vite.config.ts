@@ -3,11 +3,15 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
 import { VitePWA } from 'vite-plugin-pwa';
-import { handleGeminiProxyRequest } from './api/_lib/geminiProxy';
+import {
+  handleGeminiProxyRequest,
+  handleGeminiStreamProxyRequest,
+} from './api/_lib/geminiProxy';
+import { handleGitHubProxyRequest } from './api/_lib/githubProxy';
 
-const geminiDevProxyPlugin = () => {
+const apiDevProxyPlugin = () => {
   return {
-    name: 'dustoff-gemini-dev-proxy',
+    name: 'dustoff-api-dev-proxy',
     apply: 'serve' as const,
     configureServer(server: {
       middlewares: {
@@ -21,6 +25,13 @@ const geminiDevProxyPlugin = () => {
         ) => void;
       };
     }) {
+      server.middlewares.use('/api/gemini-stream', async (req, res, next) => {
+        try {
+          await handleGeminiStreamProxyRequest(req, res);
+        } catch (error) {
+          next(error as Error);
+        }
+      });
       server.middlewares.use('/api/gemini', async (req, res, next) => {
         try {
           await handleGeminiProxyRequest(req, res);
@@ -28,6 +39,13 @@ const geminiDevProxyPlugin = () => {
           next(error as Error);
         }
       });
+      server.middlewares.use('/api/github', async (req, res, next) => {
+        try {
+          await handleGitHubProxyRequest(req, res);
+        } catch (error) {
+          next(error as Error);
+        }
+      });
     },
   };
 };
@@ -37,11 +55,24 @@ export default defineConfig(({ mode }) => {
   if (!process.env.GEMINI_API_KEY && env.GEMINI_API_KEY) {
     process.env.GEMINI_API_KEY = env.GEMINI_API_KEY;
   }
+  if (!process.env.GITHUB_TOKEN && env.GITHUB_TOKEN) {
+    process.env.GITHUB_TOKEN = env.GITHUB_TOKEN;
+  }
+  [
+    'LLM_PROVIDER',
+    'OPENAI_API_KEY',
+    'OPENAI_BASE_URL',
+    'OLLAMA_BASE_URL',
+  ].forEach((name) => {
+    if (!process.env[name] && env[name]) {
+      process.env[name] = env[name];
+    }
+  });
   const isAnalyzeEnabled = env.ANALYZE === 'true';
 
   const plugins = [
     react(),
-    geminiDevProxyPlugin(),
+    apiDevProxyPlugin(),
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.png'],